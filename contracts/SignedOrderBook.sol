@@ -0,0 +1,202 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+pragma solidity 0.7.6;
+pragma abicoder v2;
+
+import { AddressUpgradeable } from "@openzeppelin/contracts-upgradeable/utils/AddressUpgradeable.sol";
+import { ReentrancyGuardUpgradeable } from "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
+import { SafeMathUpgradeable } from "@openzeppelin/contracts-upgradeable/math/SafeMathUpgradeable.sol";
+import { ECDSAUpgradeable } from "@openzeppelin/contracts-upgradeable/cryptography/ECDSAUpgradeable.sol";
+import { EIP712Upgradeable } from "@openzeppelin/contracts-upgradeable/drafts/EIP712Upgradeable.sol";
+import { FullMath } from "@uniswap/v3-core/contracts/libraries/FullMath.sol";
+import { IAccountBalance } from "./interface/IAccountBalance.sol";
+import { IClearingHouse } from "./interface/IClearingHouse.sol";
+import { IIndexPrice } from "./interface/IIndexPrice.sol";
+import { ISignedOrderBook } from "./interface/ISignedOrderBook.sol";
+import { SignedOrderBookStorageV1 } from "./storage/SignedOrderBookStorage.sol";
+
+/// @notice The delegate of the orders signed off-chain by traders, see scripts/order/signedOrder.ts;
+///         anyone can fill an order, as the signature, the filled amount, the cancellation, the trigger price and
+///         the limit price are all checked here
+// never inherit any new stateful contract. never change the orders of parent stateful contracts
+contract SignedOrderBook is ISignedOrderBook, ReentrancyGuardUpgradeable, EIP712Upgradeable, SignedOrderBookStorageV1 {
+    using AddressUpgradeable for address;
+    using SafeMathUpgradeable for uint256;
+
+    //
+    // CONSTANTS
+    //
+
+    /// @dev the same as ORDER_TYPES and CANCEL_ORDER_TYPES of scripts/order/signedOrder.ts
+    bytes32 internal constant _ORDER_TYPEHASH =
+        keccak256(
+            // solhint-disable-next-line max-line-length
+            "Order(uint8 orderType,uint256 salt,address trader,address baseToken,bool isBaseToQuote,bool isExactInput,uint256 amount,uint256 limitPrice,uint256 triggerPrice,uint8 triggerPriceType,uint256 expiry,bytes32 referralCode)"
+        );
+    bytes32 internal constant _CANCEL_ORDER_TYPEHASH = keccak256("CancelOrder(bytes32 orderHash)");
+
+    //
+    // EXTERNAL NON-VIEW
+    //
+
+    function initialize(address clearingHouseArg) external initializer {
+        // SOB_CHNC: ClearingHouse is not contract
+        require(clearingHouseArg.isContract(), "SOB_CHNC");
+
+        __ReentrancyGuard_init();
+        __EIP712_init("Perp Curie Signed Order", "1");
+
+        _clearingHouse = clearingHouseArg;
+    }
+
+    /// @inheritdoc ISignedOrderBook
+    function fillOrder(
+        Order memory order,
+        bytes memory signature,
+        uint256 fillAmount
+    ) external override nonReentrant returns (uint256 base, uint256 quote) {
+        bytes32 orderHash = _getOrderHash(order);
+        // SOB_SINT: Signer Is Not Trader
+        require(ECDSAUpgradeable.recover(orderHash, signature) == order.trader, "SOB_SINT");
+        // SOB_OC: Order is Cancelled
+        require(!_cancelledOrderMap[orderHash], "SOB_OC");
+
+        uint256 filledAmount = _filledAmountMap[orderHash];
+        // SOB_IFA: Invalid Fill Amount, zero or more than the remaining amount
+        require(fillAmount > 0 && filledAmount.add(fillAmount) <= order.amount, "SOB_IFA");
+
+        if (order.orderType == OrderType.LIMIT) {
+            // SOB_LOWLP: Limit Order Without Limit Price
+            require(order.limitPrice > 0, "SOB_LOWLP");
+        } else {
+            // SOB_OWTP: stop loss or take profit Order Without Trigger Price
+            require(order.triggerPrice > 0, "SOB_OWTP");
+            // a stop loss or take profit order is triggered once by its first fill
+            if (filledAmount == 0) {
+                // SOB_ONT: Order is Not Triggered
+                require(_isTriggered(order), "SOB_ONT");
+            }
+        }
+
+        _filledAmountMap[orderHash] = filledAmount.add(fillAmount);
+
+        // ClearingHouse checks the approval of this contract by the trader and the expiry as the deadline
+        (base, quote, ) = IClearingHouse(_clearingHouse).openPositionFor(
+            order.trader,
+            _getOpenPositionParams(order, fillAmount)
+        );
+
+        emit OrderFilled(orderHash, order.trader, order.baseToken, fillAmount, base, quote);
+        return (base, quote);
+    }
+
+    /// @inheritdoc ISignedOrderBook
+    function cancelOrder(Order memory order) external override {
+        // SOB_SNT: Sender is Not Trader
+        require(msg.sender == order.trader, "SOB_SNT");
+        _cancelOrder(_getOrderHash(order), order.trader);
+    }
+
+    /// @inheritdoc ISignedOrderBook
+    function cancelOrderBySig(Order memory order, bytes memory signature) external override {
+        bytes32 orderHash = _getOrderHash(order);
+        bytes32 cancelOrderHash = _hashTypedDataV4(keccak256(abi.encode(_CANCEL_ORDER_TYPEHASH, orderHash)));
+        // SOB_SINT: Signer Is Not Trader
+        require(ECDSAUpgradeable.recover(cancelOrderHash, signature) == order.trader, "SOB_SINT");
+        _cancelOrder(orderHash, order.trader);
+    }
+
+    //
+    // EXTERNAL VIEW
+    //
+
+    /// @inheritdoc ISignedOrderBook
+    function getOrderHash(Order memory order) external view override returns (bytes32) {
+        return _getOrderHash(order);
+    }
+
+    /// @inheritdoc ISignedOrderBook
+    function getFilledAmount(bytes32 orderHash) external view override returns (uint256) {
+        return _filledAmountMap[orderHash];
+    }
+
+    /// @inheritdoc ISignedOrderBook
+    function isCancelled(bytes32 orderHash) external view override returns (bool) {
+        return _cancelledOrderMap[orderHash];
+    }
+
+    /// @inheritdoc ISignedOrderBook
+    function getClearingHouse() external view override returns (address) {
+        return _clearingHouse;
+    }
+
+    //
+    // INTERNAL NON-VIEW
+    //
+
+    function _cancelOrder(bytes32 orderHash, address trader) internal {
+        // SOB_OC: Order is Cancelled
+        require(!_cancelledOrderMap[orderHash], "SOB_OC");
+        _cancelledOrderMap[orderHash] = true;
+        emit OrderCancelled(orderHash, trader);
+    }
+
+    //
+    // INTERNAL VIEW
+    //
+
+    /// @dev the fields of Order are all static, so abi.encode() of the struct is the same as encoding them one by one
+    function _getOrderHash(Order memory order) internal view returns (bytes32) {
+        return _hashTypedDataV4(keccak256(abi.encode(_ORDER_TYPEHASH, order)));
+    }
+
+    /// @dev the same as isOrderTriggered() of scripts/order/orderMatcher.ts:
+    ///      stop loss: buy at or above the trigger price, sell at or below it
+    ///      take profit: buy at or below the trigger price, sell at or above it
+    function _isTriggered(Order memory order) internal view returns (bool) {
+        uint256 price =
+            order.triggerPriceType == TriggerPriceType.INDEX_PRICE
+                ? IIndexPrice(order.baseToken).getIndexPrice(0)
+                : IAccountBalance(IClearingHouse(_clearingHouse).getAccountBalance()).getMarkPrice(order.baseToken);
+        bool isPriceAboveOrEqual = price >= order.triggerPrice;
+        bool isPriceBelowOrEqual = price <= order.triggerPrice;
+        if (order.orderType == OrderType.STOP_LOSS) {
+            return order.isBaseToQuote ? isPriceBelowOrEqual : isPriceAboveOrEqual;
+        }
+        return order.isBaseToQuote ? isPriceAboveOrEqual : isPriceBelowOrEqual;
+    }
+
+    /// @dev the same as getOpenPositionParams() of scripts/order/signedOrder.ts
+    function _getOpenPositionParams(Order memory order, uint256 fillAmount)
+        internal
+        pure
+        returns (IClearingHouse.OpenPositionParams memory)
+    {
+        return
+            IClearingHouse.OpenPositionParams({
+                baseToken: order.baseToken,
+                isBaseToQuote: order.isBaseToQuote,
+                isExactInput: order.isExactInput,
+                amount: fillAmount,
+                oppositeAmountBound: _getOppositeAmountBound(order, fillAmount),
+                deadline: order.expiry,
+                sqrtPriceLimitX96: 0,
+                referralCode: order.referralCode
+            });
+    }
+
+    /// @dev the same as getOppositeAmountBound() of scripts/order/signedOrder.ts, rounding in favor of the trader:
+    ///      the lower bound of the output rounds up and the upper bound of the input rounds down
+    function _getOppositeAmountBound(Order memory order, uint256 fillAmount) internal pure returns (uint256) {
+        if (order.limitPrice == 0) {
+            return order.isExactInput ? 0 : type(uint256).max;
+        }
+        // the amount is in base for B2Q exact input and Q2B exact output
+        bool isBaseAmount = order.isBaseToQuote == order.isExactInput;
+        uint256 numerator = isBaseAmount ? order.limitPrice : 1e18;
+        uint256 denominator = isBaseAmount ? 1e18 : order.limitPrice;
+        return
+            order.isExactInput
+                ? FullMath.mulDivRoundingUp(fillAmount, numerator, denominator)
+                : FullMath.mulDiv(fillAmount, numerator, denominator);
+    }
+}
@@ -0,0 +1,90 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+pragma solidity 0.7.6;
+pragma abicoder v2;
+
+interface ISignedOrderBook {
+    /// @dev the same as `OrderType` of scripts/order/signedOrder.ts
+    enum OrderType { LIMIT, STOP_LOSS, TAKE_PROFIT }
+
+    /// @dev the same as `TriggerPriceType` of scripts/order/signedOrder.ts
+    enum TriggerPriceType { MARK_PRICE, INDEX_PRICE }
+
+    /// @notice The EIP-712 `Order` signed by the trader, the fields are the same as `Order` of
+    ///         scripts/order/signedOrder.ts
+    /// @param amount In base for B2Q exact input and Q2B exact output, in quote for the others
+    /// @param limitPrice The worst average price of every fill in quote per base, 0 for a stop loss or take profit
+    ///        order filled at any price
+    /// @param triggerPrice The price to activate a stop loss or take profit order, unused by limit orders
+    /// @param expiry The deadline of `ClearingHouse.openPositionFor()` of every fill
+    struct Order {
+        OrderType orderType;
+        uint256 salt;
+        address trader;
+        address baseToken;
+        bool isBaseToQuote;
+        bool isExactInput;
+        uint256 amount;
+        uint256 limitPrice;
+        uint256 triggerPrice;
+        TriggerPriceType triggerPriceType;
+        uint256 expiry;
+        bytes32 referralCode;
+    }
+
+    /// @param orderHash The EIP-712 hash of the order
+    /// @param trader The trader of the order
+    /// @param baseToken The base token of the order
+    /// @param fillAmount The amount of the order filled, in the unit of `Order.amount`
+    /// @param base The amount of baseToken the trader got or spent
+    /// @param quote The amount of quoteToken the trader got or spent
+    event OrderFilled(
+        bytes32 indexed orderHash,
+        address indexed trader,
+        address indexed baseToken,
+        uint256 fillAmount,
+        uint256 base,
+        uint256 quote
+    );
+
+    /// @param orderHash The EIP-712 hash of the order
+    /// @param trader The trader of the order
+    event OrderCancelled(bytes32 indexed orderHash, address indexed trader);
+
+    /// @notice Fill an order signed by the trader through `ClearingHouse.openPositionFor()`, the trader has to
+    ///         approve this contract in DelegateApproval
+    /// @dev the limit price is enforced by the `oppositeAmountBound` derived from it, and the expiry by the deadline
+    /// @param order The order signed by the trader
+    /// @param signature The EIP-712 signature of the order by the trader
+    /// @param fillAmount The amount to fill, in the unit of `Order.amount`
+    /// @return base The amount of baseToken the trader got or spent
+    /// @return quote The amount of quoteToken the trader got or spent
+    function fillOrder(
+        Order memory order,
+        bytes memory signature,
+        uint256 fillAmount
+    ) external returns (uint256 base, uint256 quote);
+
+    /// @notice Cancel an order of the sender
+    /// @param order The order to cancel
+    function cancelOrder(Order memory order) external;
+
+    /// @notice Cancel an order with the EIP-712 `CancelOrder` signed by the trader, e.g. relayed by a keeper
+    /// @param order The order to cancel
+    /// @param signature The EIP-712 signature of `CancelOrder(bytes32 orderHash)` by the trader
+    function cancelOrderBySig(Order memory order, bytes memory signature) external;
+
+    /// @param order The order
+    /// @return orderHash The EIP-712 hash of the order
+    function getOrderHash(Order memory order) external view returns (bytes32 orderHash);
+
+    /// @param orderHash The EIP-712 hash of the order
+    /// @return filledAmount The amount of the order filled, in the unit of `Order.amount`
+    function getFilledAmount(bytes32 orderHash) external view returns (uint256 filledAmount);
+
+    /// @param orderHash The EIP-712 hash of the order
+    /// @return true if the order is cancelled
+    function isCancelled(bytes32 orderHash) external view returns (bool);
+
+    /// @return clearingHouse The address of ClearingHouse
+    function getClearingHouse() external view returns (address clearingHouse);
+}
@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+pragma solidity 0.7.6;
+
+/// @notice For future upgrades, do not change SignedOrderBookStorageV1. Create a new
+/// contract which implements SignedOrderBookStorageV1 and following the naming convention
+/// SignedOrderBookStorageVX.
+abstract contract SignedOrderBookStorageV1 {
+    address internal _clearingHouse;
+
+    // key: the EIP-712 hash of an order
+    // value: the amount filled, in the unit of `Order.amount`
+    mapping(bytes32 => uint256) internal _filledAmountMap;
+
+    // key: the EIP-712 hash of an order
+    mapping(bytes32 => bool) internal _cancelledOrderMap;
+}
@@ -0,0 +1,103 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+pragma solidity 0.7.6;
+pragma abicoder v2;
+
+import { AggregatorV3Interface } from "@chainlink/contracts/src/v0.6/interfaces/AggregatorV3Interface.sol";
+
+/// @notice A Chainlink aggregator of which the rounds are pushed directly, e.g. along with the mocked timestamps
+contract MockAggregatorV3 is AggregatorV3Interface {
+    struct Round {
+        int256 answer;
+        uint256 startedAt;
+        uint256 updatedAt;
+    }
+
+    uint8 internal _decimals;
+    uint80 internal _latestRoundId;
+    mapping(uint80 => Round) internal _roundMap;
+
+    constructor(uint8 decimalsArg) {
+        _decimals = decimalsArg;
+    }
+
+    //
+    // EXTERNAL NON-VIEW
+    //
+
+    function pushRound(int256 answer, uint256 timestamp) external returns (uint80) {
+        _latestRoundId++;
+        _roundMap[_latestRoundId] = Round({ answer: answer, startedAt: timestamp, updatedAt: timestamp });
+        return _latestRoundId;
+    }
+
+    function setDecimals(uint8 decimalsArg) external {
+        _decimals = decimalsArg;
+    }
+
+    //
+    // EXTERNAL VIEW
+    //
+
+    function decimals() external view override returns (uint8) {
+        return _decimals;
+    }
+
+    function description() external pure override returns (string memory) {
+        return "MockAggregatorV3";
+    }
+
+    function version() external pure override returns (uint256) {
+        return 3;
+    }
+
+    function getRoundData(uint80 roundIdArg)
+        external
+        view
+        override
+        returns (
+            uint80 roundId,
+            int256 answer,
+            uint256 startedAt,
+            uint256 updatedAt,
+            uint80 answeredInRound
+        )
+    {
+        return _getRoundData(roundIdArg);
+    }
+
+    function latestRoundData()
+        external
+        view
+        override
+        returns (
+            uint80 roundId,
+            int256 answer,
+            uint256 startedAt,
+            uint256 updatedAt,
+            uint80 answeredInRound
+        )
+    {
+        return _getRoundData(_latestRoundId);
+    }
+
+    //
+    // INTERNAL VIEW
+    //
+
+    function _getRoundData(uint80 roundIdArg)
+        internal
+        view
+        returns (
+            uint80,
+            int256,
+            uint256,
+            uint256,
+            uint80
+        )
+    {
+        Round memory round = _roundMap[roundIdArg];
+        // the same as the reverts of Chainlink aggregators
+        require(round.updatedAt > 0, "No data present");
+        return (roundIdArg, round.answer, round.startedAt, round.updatedAt, roundIdArg);
+    }
+}
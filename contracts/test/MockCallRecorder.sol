@@ -0,0 +1,123 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+pragma solidity 0.7.6;
+pragma abicoder v2;
+
+/// @notice A programmable mock of any contract: a call returns or reverts as mocked by its calldata or its selector,
+///         and returns nothing when not mocked. The calls are recorded in order, except the ones in a static context,
+///         e.g. from a view function, which cannot write the storage
+contract MockCallRecorder {
+    struct Call {
+        address sender;
+        bytes data;
+    }
+
+    struct Response {
+        bool isMocked;
+        bool isReverted;
+        // the return data, or the revert data
+        bytes data;
+    }
+
+    // recording a call in a static context always fails and burns the gas given to it, so it's limited
+    uint256 internal constant _RECORD_CALL_GAS_LIMIT = 200000;
+
+    mapping(bytes4 => Response) internal _responseMap;
+    mapping(bytes32 => Response) internal _responseByCalldataMap;
+    Call[] internal _calls;
+
+    //
+    // EXTERNAL NON-VIEW
+    //
+
+    fallback() external payable {
+        try this.recordCall{ gas: _RECORD_CALL_GAS_LIMIT }(msg.sender, msg.data) {} catch {}
+
+        Response memory response = _responseByCalldataMap[keccak256(msg.data)];
+        if (!response.isMocked) {
+            response = _responseMap[msg.sig];
+        }
+
+        bytes memory data = response.data;
+        if (response.isReverted) {
+            // solhint-disable-next-line no-inline-assembly
+            assembly {
+                revert(add(data, 32), mload(data))
+            }
+        }
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            return(add(data, 32), mload(data))
+        }
+    }
+
+    function recordCall(address sender, bytes calldata data) external {
+        // MCR_OS: only self
+        require(msg.sender == address(this), "MCR_OS");
+        _recordCall(sender, data);
+    }
+
+    function mockReturn(bytes4 selector, bytes calldata returnData) external {
+        _responseMap[selector] = Response({ isMocked: true, isReverted: false, data: returnData });
+    }
+
+    function mockReturnWithCalldata(bytes calldata data, bytes calldata returnData) external {
+        _responseByCalldataMap[keccak256(data)] = Response({ isMocked: true, isReverted: false, data: returnData });
+    }
+
+    /// @param reason An empty reason reverts without the revert data
+    function mockRevert(bytes4 selector, string calldata reason) external {
+        _responseMap[selector] = Response({ isMocked: true, isReverted: true, data: _getRevertData(reason) });
+    }
+
+    /// @param reason An empty reason reverts without the revert data
+    function mockRevertWithCalldata(bytes calldata data, string calldata reason) external {
+        _responseByCalldataMap[keccak256(data)] = Response({
+            isMocked: true,
+            isReverted: true,
+            data: _getRevertData(reason)
+        });
+    }
+
+    function clearMock(bytes4 selector) external {
+        delete _responseMap[selector];
+    }
+
+    function clearMockWithCalldata(bytes calldata data) external {
+        delete _responseByCalldataMap[keccak256(data)];
+    }
+
+    function clearCalls() external {
+        delete _calls;
+    }
+
+    //
+    // EXTERNAL VIEW
+    //
+
+    function getCallCount() external view returns (uint256) {
+        return _calls.length;
+    }
+
+    function getCalls() external view returns (Call[] memory) {
+        return _calls;
+    }
+
+    //
+    // INTERNAL NON-VIEW
+    //
+
+    function _recordCall(address sender, bytes memory data) internal {
+        _calls.push(Call({ sender: sender, data: data }));
+    }
+
+    //
+    // INTERNAL PURE
+    //
+
+    function _getRevertData(string memory reason) internal pure returns (bytes memory) {
+        if (bytes(reason).length == 0) {
+            return "";
+        }
+        return abi.encodeWithSignature("Error(string)", reason);
+    }
+}
@@ -0,0 +1,75 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+pragma solidity 0.7.6;
+pragma abicoder v2;
+
+import { MockCallRecorder } from "./MockCallRecorder.sol";
+
+/// @notice A PriceFeedDispatcher of which the price is set directly, also usable as an IPriceFeed of a collateral.
+///         The views are explicit so reading the price costs no more gas than the real one in a static context;
+///         the other functions of PriceFeedDispatcher can be mocked by MockCallRecorder
+contract MockPriceFeedDispatcher is MockCallRecorder {
+    uint8 internal _decimals;
+    uint256 internal _price;
+    string internal _revertReason;
+    // off by default, or every trade of ClearingHouse would grow the storage by cacheTwap()
+    bool internal _isRecordingCalls;
+
+    constructor(uint8 decimalsArg) {
+        _decimals = decimalsArg;
+    }
+
+    //
+    // EXTERNAL NON-VIEW
+    //
+
+    /// @dev Recorded as the real one caches the twap, see BaseToken.cacheTwap(); only after setRecordingCalls(true)
+    function dispatchPrice(uint256 interval) external {
+        if (_isRecordingCalls) {
+            _recordCall(msg.sender, msg.data);
+        }
+    }
+
+    function setRecordingCalls(bool isRecording) external {
+        _isRecordingCalls = isRecording;
+    }
+
+    function setDecimals(uint8 decimalsArg) external {
+        _decimals = decimalsArg;
+    }
+
+    function setPrice(uint256 price) external {
+        _price = price;
+    }
+
+    /// @param reason The reason of getPrice() and getDispatchedPrice() to revert with, an empty one to stop reverting
+    function setRevertReason(string calldata reason) external {
+        _revertReason = reason;
+    }
+
+    //
+    // EXTERNAL VIEW
+    //
+
+    function decimals() external view returns (uint8) {
+        return _decimals;
+    }
+
+    function getDispatchedPrice(uint256 interval) external view returns (uint256) {
+        return _getPrice();
+    }
+
+    function getPrice(uint256 interval) external view returns (uint256) {
+        return _getPrice();
+    }
+
+    //
+    // INTERNAL VIEW
+    //
+
+    function _getPrice() internal view returns (uint256) {
+        if (bytes(_revertReason).length > 0) {
+            revert(_revertReason);
+        }
+        return _price;
+    }
+}
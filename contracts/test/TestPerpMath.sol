@@ -7,6 +7,8 @@ contract TestPerpMath {
     using PerpMath for uint160;
     using PerpMath for uint256;
     using PerpMath for int256;
+    using PerpMath for int128;
+    using PerpMath for uint24;
 
     function testFormatSqrtPriceX96ToPriceX96(uint160 value) external pure returns (uint256) {
         return value.formatSqrtPriceX96ToPriceX96();
@@ -47,4 +49,32 @@ contract TestPerpMath {
     function testMulRatio(int256 value, uint24 ratio) external pure returns (int256) {
         return value.mulRatio(ratio);
     }
+
+    function testNeg128(int128 value) external pure returns (int128) {
+        return value.neg128();
+    }
+
+    function testSubRatio(uint24 a, uint24 b) external pure returns (uint24) {
+        return a.subRatio(b);
+    }
+
+    function testDivRatio(uint256 value, uint24 ratio) external pure returns (uint256) {
+        return value.divRatio(ratio);
+    }
+
+    function testMulDiv(
+        int256 a,
+        int256 b,
+        uint256 denominator
+    ) external pure returns (int256) {
+        return PerpMath.mulDiv(a, b, denominator);
+    }
+
+    function testFindMedianOfThree(
+        uint256 v1,
+        uint256 v2,
+        uint256 v3
+    ) external pure returns (uint256) {
+        return PerpMath.findMedianOfThree(v1, v2, v3);
+    }
 }
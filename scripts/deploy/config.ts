@@ -0,0 +1,86 @@
+import fs from "fs"
+
+// the networks where the missing external contracts are deployed by the pipeline itself
+export const LOCAL_NETWORKS = ["hardhat", "localhost"]
+
+export interface BaseTokenConfig {
+    name: string
+    symbol: string
+    // IPriceFeedDispatcher
+    priceFeed: string
+}
+
+export interface CollateralConfig {
+    token: string
+    priceFeed: string
+    // ratios are in 1e6, e.g. 700000 = 70%
+    collateralRatio: number
+    discountRatio: number
+    // in the decimals of the collateral token, e.g. "1000"
+    depositCap: string
+}
+
+// see CollateralManager.initialize()
+export interface CollateralManagerConfig {
+    maxCollateralTokensPerAccount: number
+    debtNonSettlementTokenValueRatio: number
+    liquidationRatio: number
+    mmRatioBuffer: number
+    clInsuranceFundFeeRatio: number
+    // in the decimals of the settlement token
+    debtThreshold: string
+    collateralValueDust: string
+}
+
+export interface DeployConfig {
+    // a TestERC20 (USDC), a UniswapV3Factory and a TestWETH9 are deployed on the local networks when they are not set
+    settlementToken?: string
+    uniswapV3Factory?: string
+    // the WETH9 of Vault.depositEther()
+    weth9?: string
+    quoteToken: { name: string; symbol: string }
+    baseTokens: BaseTokenConfig[]
+    // in the decimals of the settlement token, the cap is unlimited when not set
+    settlementTokenBalanceCap?: string
+    collateralManager: CollateralManagerConfig
+    collaterals: CollateralConfig[]
+}
+
+// same as createClearingHouseFixture(); the base tokens need a real price feed, so the markets of a local
+// deployment are provided by a config file
+export const DEFAULT_LOCAL_CONFIG: DeployConfig = {
+    quoteToken: { name: "vUSD", symbol: "vUSD" },
+    baseTokens: [],
+    collateralManager: {
+        maxCollateralTokensPerAccount: 5,
+        debtNonSettlementTokenValueRatio: 750000,
+        liquidationRatio: 500000,
+        mmRatioBuffer: 2000,
+        clInsuranceFundFeeRatio: 30000,
+        debtThreshold: "10000",
+        collateralValueDust: "500",
+    },
+    collaterals: [],
+}
+
+// a config file is required on the other networks, the unspecified fields fall back to DEFAULT_LOCAL_CONFIG
+// on the local networks only
+export function loadDeployConfig(network: string, filename?: string): DeployConfig {
+    const isLocal = LOCAL_NETWORKS.indexOf(network) !== -1
+    if (!filename) {
+        if (!isLocal) {
+            throw new Error(`DeployConfig: a config file is required for network ${network}`)
+        }
+        return DEFAULT_LOCAL_CONFIG
+    }
+
+    const config = JSON.parse(fs.readFileSync(filename, "utf8")) as Partial<DeployConfig>
+    const merged = isLocal ? { ...DEFAULT_LOCAL_CONFIG, ...config } : (config as DeployConfig)
+    if (!isLocal && (!merged.settlementToken || !merged.uniswapV3Factory || !merged.weth9)) {
+        throw new Error(`DeployConfig: settlementToken, uniswapV3Factory and weth9 are required for network ${network}`)
+    }
+    if (!merged.quoteToken || !merged.baseTokens || !merged.collateralManager || !merged.collaterals) {
+        throw new Error(`DeployConfig: ${filename} is incomplete`)
+    }
+    return merged
+}
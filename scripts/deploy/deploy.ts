@@ -0,0 +1,437 @@
+import { BigNumber, ContractTransaction, Signer } from "ethers"
+import { parseUnits } from "ethers/lib/utils"
+import { ethers, network, upgrades } from "hardhat"
+import {
+    AccountBalance__factory,
+    ClearingHouseConfig__factory,
+    ClearingHouse__factory,
+    CollateralManager__factory,
+    Exchange__factory,
+    InsuranceFund__factory,
+    MarketRegistry__factory,
+    OrderBook__factory,
+    QuoteToken__factory,
+    TestERC20__factory,
+    Vault__factory,
+} from "../../typechain"
+import { allDeployedContractsNamesAndDirs } from "../path"
+import { DeployConfig, loadDeployConfig } from "./config"
+import { DeploymentManifest, getManifestFilename, loadManifest, saveManifest } from "./manifest"
+
+// a base token has to be token0 of its pool, so a proxy above the quote token is abandoned and deployed again
+const MAX_DEPLOY_ATTEMPTS = 10
+
+type WiringValue = string | BigNumber | boolean
+
+// the contracts of scripts/path.ts deployed once per market instead of behind a single proxy
+const MARKET_CONTRACTS = ["BaseToken"]
+
+// the contracts deployed before the proxies, which the initializers can take as well
+const EXTERNAL_CONTRACTS = ["SettlementToken", "UniswapV3Factory", "WETH9"]
+
+interface ProxyInitializer {
+    // the contracts getArgs() takes the addresses of
+    dependencies: string[]
+    getArgs(addresses: Record<string, string>, config: DeployConfig, settlementTokenDecimals: number): unknown[]
+}
+
+// the initializer args of the contracts of scripts/path.ts, wired like createClearingHouseFixture()
+const PROXY_INITIALIZERS: Record<string, ProxyInitializer> = {
+    ClearingHouseConfig: {
+        dependencies: [],
+        getArgs: () => [],
+    },
+    QuoteToken: {
+        dependencies: [],
+        getArgs: (_, config) => [config.quoteToken.name, config.quoteToken.symbol],
+    },
+    MarketRegistry: {
+        dependencies: ["UniswapV3Factory", "QuoteToken"],
+        getArgs: addresses => [addresses.UniswapV3Factory, addresses.QuoteToken],
+    },
+    OrderBook: {
+        dependencies: ["MarketRegistry"],
+        getArgs: addresses => [addresses.MarketRegistry],
+    },
+    AccountBalance: {
+        dependencies: ["ClearingHouseConfig", "OrderBook"],
+        getArgs: addresses => [addresses.ClearingHouseConfig, addresses.OrderBook],
+    },
+    Exchange: {
+        dependencies: ["MarketRegistry", "OrderBook", "ClearingHouseConfig"],
+        getArgs: addresses => [addresses.MarketRegistry, addresses.OrderBook, addresses.ClearingHouseConfig],
+    },
+    InsuranceFund: {
+        dependencies: ["SettlementToken"],
+        getArgs: addresses => [addresses.SettlementToken],
+    },
+    Vault: {
+        dependencies: ["InsuranceFund", "ClearingHouseConfig", "AccountBalance", "Exchange"],
+        getArgs: addresses => [
+            addresses.InsuranceFund,
+            addresses.ClearingHouseConfig,
+            addresses.AccountBalance,
+            addresses.Exchange,
+        ],
+    },
+    CollateralManager: {
+        dependencies: ["ClearingHouseConfig", "Vault"],
+        getArgs: (addresses, { collateralManager: cm }, settlementTokenDecimals) => [
+            addresses.ClearingHouseConfig,
+            addresses.Vault,
+            cm.maxCollateralTokensPerAccount,
+            cm.debtNonSettlementTokenValueRatio,
+            cm.liquidationRatio,
+            cm.mmRatioBuffer,
+            cm.clInsuranceFundFeeRatio,
+            parseUnits(cm.debtThreshold, settlementTokenDecimals),
+            parseUnits(cm.collateralValueDust, settlementTokenDecimals),
+        ],
+    },
+    ClearingHouse: {
+        dependencies: [
+            "ClearingHouseConfig",
+            "Vault",
+            "QuoteToken",
+            "UniswapV3Factory",
+            "Exchange",
+            "AccountBalance",
+            "InsuranceFund",
+        ],
+        getArgs: addresses => [
+            addresses.ClearingHouseConfig,
+            addresses.Vault,
+            addresses.QuoteToken,
+            addresses.UniswapV3Factory,
+            addresses.Exchange,
+            addresses.AccountBalance,
+            addresses.InsuranceFund,
+        ],
+    },
+    DelegateApproval: {
+        dependencies: [],
+        getArgs: () => [],
+    },
+    SignedOrderBook: {
+        dependencies: ["ClearingHouse"],
+        getArgs: addresses => [addresses.ClearingHouse],
+    },
+}
+
+// the contracts of scripts/path.ts to deploy behind proxies, each after the contracts its initializer takes
+export function getProxyDeployOrder(): string[] {
+    const order: string[] = []
+    const visit = (name: string, dependents: string[]) => {
+        if (order.includes(name) || EXTERNAL_CONTRACTS.includes(name)) {
+            return
+        }
+        if (dependents.includes(name)) {
+            throw new Error(`Deployer: circular dependency ${dependents.concat(name).join(" -> ")}`)
+        }
+        const initializer = PROXY_INITIALIZERS[name]
+        if (!initializer) {
+            throw new Error(`Deployer: no initializer args of ${name}`)
+        }
+        for (const dependency of initializer.dependencies) {
+            visit(dependency, dependents.concat(name))
+        }
+        order.push(name)
+    }
+
+    for (const { name } of allDeployedContractsNamesAndDirs) {
+        const contractName = name.replace(".sol", "")
+        if (!MARKET_CONTRACTS.includes(contractName)) {
+            visit(contractName, [])
+        }
+    }
+    return order
+}
+
+function isSameValue(a: WiringValue, b: WiringValue): boolean {
+    return String(a).toLowerCase() === String(b).toLowerCase()
+}
+
+// deploys contracts once and records them in the manifest, so the scripts building on a deployment are idempotent:
+// a contract in the manifest is skipped when it still has code, and a setter is only sent when its getter differs
+export class ContractDeployer {
+    constructor(
+        readonly signer: Signer,
+        readonly manifest: DeploymentManifest,
+        readonly manifestFilename: string,
+        protected readonly log: (message: string) => void = console.log,
+    ) {}
+
+    // the address of a deployment in the manifest, unless there's no code anymore, e.g. the local node was restarted
+    async getDeployed(name: string): Promise<string | undefined> {
+        const deployed = this.manifest.contracts[name]
+        if (deployed && (await this.signer.provider.getCode(deployed.address)) !== "0x") {
+            return deployed.address
+        }
+        return undefined
+    }
+
+    protected getContractName(address: string): string {
+        const names = Object.keys(this.manifest.contracts)
+        const name = names.find(name => isSameValue(this.manifest.contracts[name].address, address))
+        return name || address
+    }
+
+    protected async record(
+        name: string,
+        contractName: string,
+        address: string,
+        implementation?: string,
+    ): Promise<void> {
+        this.manifest.contracts[name] = implementation
+            ? { contractName, address, implementation }
+            : { contractName, address }
+        await saveManifest(this.manifestFilename, this.manifest)
+        this.log(`deployed ${name} at ${address}`)
+    }
+
+    async deployContract(contractName: string, args: unknown[] = [], name = contractName): Promise<string> {
+        const deployed = await this.getDeployed(name)
+        if (deployed) {
+            return deployed
+        }
+        const factory = await ethers.getContractFactory(contractName, this.signer)
+        const contract = await factory.deploy(...args)
+        await contract.deployed()
+        await this.record(name, contractName, contract.address)
+        return contract.address
+    }
+
+    async deployProxy(
+        contractName: string,
+        args: unknown[],
+        name = contractName,
+        isValidAddress: (address: string) => boolean = () => true,
+    ): Promise<string> {
+        const deployed = await this.getDeployed(name)
+        if (deployed) {
+            return deployed
+        }
+        const factory = await ethers.getContractFactory(contractName, this.signer)
+        for (let i = 0; i < MAX_DEPLOY_ATTEMPTS; i++) {
+            const contract = await upgrades.deployProxy(factory, args)
+            await contract.deployed()
+            if (!isValidAddress(contract.address)) {
+                this.log(`abandoned ${name} at ${contract.address}`)
+                continue
+            }
+            const implementation = await upgrades.erc1967.getImplementationAddress(contract.address)
+            await this.record(name, contractName, contract.address, implementation)
+            return contract.address
+        }
+        throw new Error(`Deployer: failed to deploy ${name} at a valid address`)
+    }
+
+    protected async sendIfChanged(
+        description: string,
+        current: WiringValue,
+        expected: WiringValue,
+        send: () => Promise<ContractTransaction>,
+    ): Promise<void> {
+        if (isSameValue(current, expected)) {
+            return
+        }
+        const tx = await send()
+        await tx.wait()
+        this.log(`${description}: ${tx.hash}`)
+    }
+}
+
+// deploys the contracts of scripts/path.ts behind transparent proxies and wires them like createClearingHouseFixture()
+// an interrupted deployment is resumed by running it again
+export class Deployer extends ContractDeployer {
+    constructor(
+        readonly config: DeployConfig,
+        signer: Signer,
+        manifest: DeploymentManifest,
+        manifestFilename: string,
+        log: (message: string) => void = console.log,
+    ) {
+        super(signer, manifest, manifestFilename, log)
+    }
+
+    async deployAll(): Promise<DeploymentManifest> {
+        const { config } = this
+        const settlementToken = await this.getSettlementToken()
+        const uniswapV3Factory = config.uniswapV3Factory || (await this.deployContract("UniswapV3Factory"))
+        const weth9 = config.weth9 || (await this.deployContract("TestWETH9", [], "WETH9"))
+        const settlementTokenDecimals = await TestERC20__factory.connect(settlementToken, this.signer).decimals()
+
+        const addresses: Record<string, string> = {
+            SettlementToken: settlementToken,
+            UniswapV3Factory: uniswapV3Factory,
+            WETH9: weth9,
+        }
+        for (const name of getProxyDeployOrder()) {
+            const args = PROXY_INITIALIZERS[name].getArgs(addresses, config, settlementTokenDecimals)
+            addresses[name] = await this.deployProxy(name, args)
+        }
+        const {
+            ClearingHouse: clearingHouse,
+            AccountBalance: accountBalance,
+            Exchange: exchange,
+            Vault: vault,
+            QuoteToken: quoteToken,
+            ClearingHouseConfig: clearingHouseConfig,
+            InsuranceFund: insuranceFund,
+            MarketRegistry: marketRegistry,
+            OrderBook: orderBook,
+            CollateralManager: collateralManager,
+            DelegateApproval: delegateApproval,
+        } = addresses
+
+        const baseTokens: string[] = []
+        for (const baseToken of config.baseTokens) {
+            baseTokens.push(
+                await this.deployProxy(
+                    "BaseToken",
+                    [baseToken.name, baseToken.symbol, baseToken.priceFeed],
+                    baseToken.symbol,
+                    address => address.toLowerCase() < quoteToken.toLowerCase(),
+                ),
+            )
+        }
+
+        // wiring
+        const { signer } = this
+        const clearingHouseContract = ClearingHouse__factory.connect(clearingHouse, signer)
+        const exchangeContract = Exchange__factory.connect(exchange, signer)
+        const orderBookContract = OrderBook__factory.connect(orderBook, signer)
+        const accountBalanceContract = AccountBalance__factory.connect(accountBalance, signer)
+        const marketRegistryContract = MarketRegistry__factory.connect(marketRegistry, signer)
+        const vaultContract = Vault__factory.connect(vault, signer)
+        const insuranceFundContract = InsuranceFund__factory.connect(insuranceFund, signer)
+        const clearingHouseConfigContract = ClearingHouseConfig__factory.connect(clearingHouseConfig, signer)
+        const collateralManagerContract = CollateralManager__factory.connect(collateralManager, signer)
+
+        await this.sendIfChanged(
+            "Exchange.setAccountBalance",
+            await exchangeContract.getAccountBalance(),
+            accountBalance,
+            () => exchangeContract.setAccountBalance(accountBalance),
+        )
+        await this.sendIfChanged("OrderBook.setExchange", await orderBookContract.getExchange(), exchange, () =>
+            orderBookContract.setExchange(exchange),
+        )
+        await this.sendIfChanged("AccountBalance.setVault", await accountBalanceContract.getVault(), vault, () =>
+            accountBalanceContract.setVault(vault),
+        )
+        await this.sendIfChanged("InsuranceFund.setVault", await insuranceFundContract.getVault(), vault, () =>
+            insuranceFundContract.setVault(vault),
+        )
+        await this.sendIfChanged(
+            "Vault.setCollateralManager",
+            await vaultContract.getCollateralManager(),
+            collateralManager,
+            () => vaultContract.setCollateralManager(collateralManager),
+        )
+        for (const callee of [marketRegistryContract, orderBookContract, exchangeContract, accountBalanceContract]) {
+            await this.sendIfChanged(
+                `${this.getContractName(callee.address)}.setClearingHouse`,
+                await callee.getClearingHouse(),
+                clearingHouse,
+                () => callee.setClearingHouse(clearingHouse),
+            )
+        }
+        await this.sendIfChanged("Vault.setWETH9", await vaultContract.getWETH9(), weth9, () =>
+            vaultContract.setWETH9(weth9),
+        )
+        await this.sendIfChanged("Vault.setClearingHouse", await vaultContract.getClearingHouse(), clearingHouse, () =>
+            vaultContract.setClearingHouse(clearingHouse),
+        )
+        await this.sendIfChanged(
+            "ClearingHouse.setDelegateApproval",
+            await clearingHouseContract.getDelegateApproval(),
+            delegateApproval,
+            () => clearingHouseContract.setDelegateApproval(delegateApproval),
+        )
+
+        const cap = config.settlementTokenBalanceCap
+            ? parseUnits(config.settlementTokenBalanceCap, settlementTokenDecimals)
+            : ethers.constants.MaxUint256
+        await this.sendIfChanged(
+            "ClearingHouseConfig.setSettlementTokenBalanceCap",
+            await clearingHouseConfigContract.getSettlementTokenBalanceCap(),
+            cap,
+            () => clearingHouseConfigContract.setSettlementTokenBalanceCap(cap),
+        )
+
+        // ClearingHouse holds the whole supply of the virtual tokens
+        for (const virtualToken of [quoteToken].concat(baseTokens)) {
+            const token = QuoteToken__factory.connect(virtualToken, signer)
+            const name = this.getContractName(virtualToken)
+            await this.sendIfChanged(`${name}.addWhitelist`, await token.isInWhitelist(clearingHouse), true, () =>
+                token.addWhitelist(clearingHouse),
+            )
+            await this.sendIfChanged(`${name}.mintMaximumTo`, (await token.balanceOf(clearingHouse)).gt(0), true, () =>
+                token.mintMaximumTo(clearingHouse),
+            )
+        }
+
+        for (const collateral of config.collaterals) {
+            const decimals = await TestERC20__factory.connect(collateral.token, signer).decimals()
+            await this.sendIfChanged(
+                `CollateralManager.addCollateral(${collateral.token})`,
+                await collateralManagerContract.isCollateral(collateral.token),
+                true,
+                () =>
+                    collateralManagerContract.addCollateral(collateral.token, {
+                        priceFeed: collateral.priceFeed,
+                        collateralRatio: collateral.collateralRatio,
+                        discountRatio: collateral.discountRatio,
+                        depositCap: parseUnits(collateral.depositCap, decimals),
+                    }),
+            )
+        }
+
+        return this.manifest
+    }
+
+    private async getSettlementToken(): Promise<string> {
+        if (this.config.settlementToken) {
+            return this.config.settlementToken
+        }
+        const deployed = await this.getDeployed("SettlementToken")
+        if (deployed) {
+            return deployed
+        }
+        const token = await new TestERC20__factory(this.signer).deploy()
+        await token.deployed()
+        await (await token.__TestERC20_init("TestUSDC", "USDC", 6)).wait()
+        await this.record("SettlementToken", "TestERC20", token.address)
+        return token.address
+    }
+}
+
+export async function deploy(
+    config: DeployConfig,
+    signer: Signer,
+    manifestFilename: string,
+    log: (message: string) => void = console.log,
+): Promise<DeploymentManifest> {
+    const chainId = await signer.getChainId()
+    const manifest = loadManifest(manifestFilename, network.name, chainId)
+    return new Deployer(config, signer, manifest, manifestFilename, log).deployAll()
+}
+
+// npm run deploy -- --network localhost
+async function main(): Promise<void> {
+    const config = loadDeployConfig(network.name, process.env.DEPLOY_CONFIG)
+    const manifestFilename = process.env.DEPLOY_MANIFEST || getManifestFilename(network.name)
+    const [signer] = await ethers.getSigners()
+    await deploy(config, signer, manifestFilename)
+    console.log(`manifest: ${manifestFilename}`)
+}
+
+if (require.main === module) {
+    main()
+        .then(() => process.exit(0))
+        .catch(error => {
+            console.error(error)
+            process.exit(1)
+        })
+}
@@ -0,0 +1,49 @@
+import fs from "fs"
+import { writeFile } from "../files"
+
+export interface DeployedContract {
+    contractName: string
+    address: string
+    // only for the contracts behind a proxy
+    implementation?: string
+}
+
+// the addresses of a deployment, keyed by the deployment name, e.g. "ClearingHouse" or the symbol of a base token
+export interface DeploymentManifest {
+    network: string
+    chainId: number
+    contracts: { [name: string]: DeployedContract }
+}
+
+export function getManifestFilename(network: string): string {
+    return `deployments/${network}.json`
+}
+
+// an empty manifest is returned when the file does not exist yet
+export function loadManifest(filename: string, network: string, chainId: number): DeploymentManifest {
+    if (!fs.existsSync(filename)) {
+        return { network, chainId, contracts: {} }
+    }
+
+    const manifest = JSON.parse(fs.readFileSync(filename, "utf8")) as DeploymentManifest
+    if (manifest.chainId !== chainId) {
+        throw new Error(`Manifest: ${filename} is for chain ${manifest.chainId}, not ${chainId}`)
+    }
+    return manifest
+}
+
+export async function saveManifest(filename: string, manifest: DeploymentManifest): Promise<void> {
+    await writeFile(filename, `${JSON.stringify(manifest, null, 4)}\n`)
+}
+
+// the manifest of DEPLOY_MANIFEST or the one of the network, for the scripts reading the deployed contracts
+export function loadDeployedManifest(network: string, chainId: number): DeploymentManifest {
+    return loadManifest(process.env.DEPLOY_MANIFEST || getManifestFilename(network), network, chainId)
+}
+
+export function getDeployedAddress(manifest: DeploymentManifest, name: string): string {
+    if (!manifest.contracts[name]) {
+        throw new Error(`Manifest: ${name} is not in the manifest of ${manifest.network}`)
+    }
+    return manifest.contracts[name].address
+}
@@ -0,0 +1,234 @@
+import { BigNumber, BigNumberish } from "ethers"
+import {
+    findMedianOfThree,
+    formatSqrtPriceX96ToPriceX96,
+    formatX10_18ToX96,
+    formatX96ToX10_18,
+    mulDiv,
+    mulRatio,
+    neg256,
+    Q96,
+    X10_18,
+} from "../math/perpMath"
+import { getSqrtRatioAtTick } from "../math/uniswapV3/tickMath"
+import { FundingConfig, FundingGrowth, MarketFundingSnapshot, TraderFundingSnapshot } from "./fundingSnapshot"
+
+// mirror of the funding of contracts/Exchange.sol and contracts/lib/Funding.sol and the mark price of
+// contracts/AccountBalance.sol on a snapshot of the market
+
+// Funding._DEFAULT_FUNDING_PERIOD
+export const DEFAULT_FUNDING_PERIOD = 86400
+
+// UniswapV3Broker.getSqrtMarketTwapX96From() returns the current price below it
+const MIN_TWAP_INTERVAL = 10
+
+// AccountBalance._getMarkPrice() uses the 15-second twap as the market price
+const MARK_PRICE_MARKET_PRICE_INTERVAL = 15
+
+type MarketTimestamps = Pick<MarketFundingSnapshot, "timestamp" | "isOpen" | "pausedTimestamp" | "firstTradedTimestamp">
+
+export interface FundingGrowthGlobalAndTwaps {
+    fundingGrowthGlobal: FundingGrowth
+    // in 18 decimals
+    marketTwap: BigNumber
+    indexTwap: BigNumber
+}
+
+export interface FundingRate {
+    marketTwap: BigNumber
+    indexTwap: BigNumber
+    // the premium (marketTwap - indexTwap) / indexTwap clamped by the max funding rate, paid by longs per
+    // DEFAULT_FUNDING_PERIOD, in 18 decimals
+    fundingRate: BigNumber
+}
+
+function uniqueSorted(values: number[]): number[] {
+    return values.filter((value, i) => values.indexOf(value) === i).sort((a, b) => a - b)
+}
+
+// Exchange._getFundingGrowthGlobalAndTwaps(): the twap interval is shortened to the time since the first trade
+export function getTwapInterval(market: MarketTimestamps, config: FundingConfig): number {
+    if (market.firstTradedTimestamp === 0) {
+        return 0
+    }
+    const timestamp = market.isOpen ? market.timestamp : market.pausedTimestamp
+    return Math.min(config.twapInterval, timestamp - market.firstTradedTimestamp)
+}
+
+// the secondsAgos of UniswapV3Pool.observe() and the twap intervals of BaseToken.getIndexPrice() which the funding
+// and the mark price of the market are derived from
+export function getPriceQueries(
+    market: MarketTimestamps,
+    config: FundingConfig,
+): { secondsAgos: number[]; indexTwapIntervals: number[] } {
+    const twapInterval = getTwapInterval(market, config)
+    const secondsAgos: number[] = []
+    const addTwap = (secondsAgo: number, interval: number) => {
+        if (interval >= MIN_TWAP_INTERVAL) {
+            secondsAgos.push(secondsAgo, secondsAgo + interval)
+        }
+    }
+
+    if (!market.isOpen) {
+        // the index price of a paused market is BaseToken.getPausedIndexPrice()
+        addTwap(market.timestamp - market.pausedTimestamp, twapInterval)
+        return { secondsAgos: uniqueSorted(secondsAgos), indexTwapIntervals: [] }
+    }
+
+    addTwap(0, twapInterval)
+    addTwap(0, MARK_PRICE_MARKET_PRICE_INTERVAL)
+    addTwap(0, config.marketTwapInterval)
+    addTwap(0, config.premiumInterval)
+    return {
+        secondsAgos: uniqueSorted(secondsAgos),
+        indexTwapIntervals: uniqueSorted([twapInterval, 0, config.premiumInterval]),
+    }
+}
+
+function getTickCumulative(market: MarketFundingSnapshot, secondsAgo: number): BigNumber {
+    const tickCumulative = market.tickCumulatives[secondsAgo]
+    if (!tickCumulative) {
+        throw new Error(`Funding: tickCumulative of ${secondsAgo} seconds ago is not in the snapshot`)
+    }
+    return tickCumulative
+}
+
+export function getIndexPrice(market: MarketFundingSnapshot, twapInterval: number): BigNumber {
+    const indexPrice = market.indexPrices[twapInterval]
+    if (!indexPrice) {
+        throw new Error(`Funding: index price of twap interval ${twapInterval} is not in the snapshot`)
+    }
+    return indexPrice
+}
+
+// UniswapV3Broker.getSqrtMarketTwapX96From()
+export function getSqrtMarketTwapX96From(
+    market: MarketFundingSnapshot,
+    secondsAgo: number,
+    twapInterval: number,
+): BigNumber {
+    if (twapInterval < MIN_TWAP_INTERVAL) {
+        return market.sqrtPriceX96
+    }
+    const tickCumulativeDelta = getTickCumulative(market, secondsAgo).sub(
+        getTickCumulative(market, secondsAgo + twapInterval),
+    )
+    // the division of int56 rounds towards zero as BigNumber.div()
+    return getSqrtRatioAtTick(tickCumulativeDelta.div(twapInterval).toNumber())
+}
+
+// AccountBalance._getMarketPrice(), in 18 decimals
+export function getMarketPrice(market: MarketFundingSnapshot, twapInterval: number): BigNumber {
+    return formatX96ToX10_18(formatSqrtPriceX96ToPriceX96(getSqrtMarketTwapX96From(market, 0, twapInterval)))
+}
+
+// AccountBalance._getMarkPrice(): median of the 15-second market twap, the market twap and the index price with
+// the premium, in 18 decimals
+export function getMarkPrice(market: MarketFundingSnapshot, config: FundingConfig): BigNumber {
+    const marketPrice = getMarketPrice(market, MARK_PRICE_MARKET_PRICE_INTERVAL)
+    const marketTwap = getMarketPrice(market, config.marketTwapInterval)
+    const premium = getMarketPrice(market, config.premiumInterval).sub(getIndexPrice(market, config.premiumInterval))
+    const indexWithPremium = getIndexPrice(market, 0).add(premium)
+    return findMedianOfThree(marketPrice, marketTwap, indexWithPremium)
+}
+
+// Exchange._getDeltaTwapX96(): marketTwap - indexTwap, clamped to indexTwap * maxFundingRate
+export function getDeltaTwapX96(
+    marketTwapX96: BigNumberish,
+    indexTwapX96: BigNumberish,
+    maxFundingRate: BigNumberish,
+): BigNumber {
+    const marketTwap = BigNumber.from(marketTwapX96)
+    const indexTwap = BigNumber.from(indexTwapX96)
+    const maxDeltaTwapX96 = mulRatio(indexTwap, maxFundingRate)
+    if (marketTwap.gt(indexTwap)) {
+        const absDeltaTwapX96 = marketTwap.sub(indexTwap)
+        return absDeltaTwapX96.gt(maxDeltaTwapX96) ? maxDeltaTwapX96 : absDeltaTwapX96
+    }
+    const absDeltaTwapX96 = indexTwap.sub(marketTwap)
+    return absDeltaTwapX96.gt(maxDeltaTwapX96) ? neg256(maxDeltaTwapX96) : neg256(absDeltaTwapX96)
+}
+
+function getMarketTwapX96AndIndexTwap(
+    market: MarketFundingSnapshot,
+    config: FundingConfig,
+): { marketTwapX96: BigNumber; indexTwap: BigNumber } {
+    const twapInterval = getTwapInterval(market, config)
+    if (market.isOpen) {
+        return {
+            marketTwapX96: formatSqrtPriceX96ToPriceX96(getSqrtMarketTwapX96From(market, 0, twapInterval)),
+            indexTwap: getIndexPrice(market, twapInterval),
+        }
+    }
+    // the market twap before the market is paused and the last known index price
+    const secondsAgo = market.timestamp - market.pausedTimestamp
+    return {
+        marketTwapX96: formatSqrtPriceX96ToPriceX96(getSqrtMarketTwapX96From(market, secondsAgo, twapInterval)),
+        indexTwap: market.pausedIndexPrice,
+    }
+}
+
+// Exchange._getFundingGrowthGlobalAndTwaps()
+export function getFundingGrowthGlobalAndTwaps(
+    market: MarketFundingSnapshot,
+    config: FundingConfig,
+): FundingGrowthGlobalAndTwaps {
+    const { marketTwapX96, indexTwap } = getMarketTwapX96AndIndexTwap(market, config)
+    const marketTwap = formatX96ToX10_18(marketTwapX96)
+    const timestamp = market.isOpen ? market.timestamp : market.pausedTimestamp
+    const lastFundingGrowthGlobal = market.fundingGrowthGlobal
+    if (timestamp === market.lastSettledTimestamp || market.lastSettledTimestamp === 0) {
+        return { fundingGrowthGlobal: lastFundingGrowthGlobal, marketTwap, indexTwap }
+    }
+
+    const deltaTwPremiumX96 = getDeltaTwapX96(marketTwapX96, formatX10_18ToX96(indexTwap), config.maxFundingRate).mul(
+        timestamp - market.lastSettledTimestamp,
+    )
+    return {
+        fundingGrowthGlobal: {
+            twPremiumX96: lastFundingGrowthGlobal.twPremiumX96.add(deltaTwPremiumX96),
+            twPremiumDivBySqrtPriceX96: lastFundingGrowthGlobal.twPremiumDivBySqrtPriceX96.add(
+                mulDiv(deltaTwPremiumX96, Q96, getSqrtMarketTwapX96From(market, 0, 0)),
+            ),
+        },
+        marketTwap,
+        indexTwap,
+    }
+}
+
+// the rate Exchange accrues the funding at since the last settlement, i.e. deltaTwapX96 / indexTwapX96
+export function getFundingRate(market: MarketFundingSnapshot, config: FundingConfig): FundingRate {
+    const { marketTwapX96, indexTwap } = getMarketTwapX96AndIndexTwap(market, config)
+    const indexTwapX96 = formatX10_18ToX96(indexTwap)
+    const deltaTwapX96 = getDeltaTwapX96(marketTwapX96, indexTwapX96, config.maxFundingRate)
+    return {
+        marketTwap: formatX96ToX10_18(marketTwapX96),
+        indexTwap,
+        fundingRate: mulDiv(deltaTwapX96, X10_18, indexTwapX96),
+    }
+}
+
+// Funding.calcPendingFundingPaymentWithLiquidityCoefficient(), positive for payments of the trader
+export function calcPendingFundingPayment(
+    trader: TraderFundingSnapshot,
+    fundingGrowthGlobal: FundingGrowth,
+): BigNumber {
+    const balanceCoefficientInFundingPayment = mulDiv(
+        trader.base,
+        fundingGrowthGlobal.twPremiumX96.sub(trader.lastTwPremiumGrowthGlobalX96),
+        Q96,
+    )
+    return trader.liquidityCoefficientInFundingPayment
+        .add(balanceCoefficientInFundingPayment)
+        .div(DEFAULT_FUNDING_PERIOD)
+}
+
+// Exchange.getPendingFundingPayment()
+export function getPendingFundingPayment(
+    market: MarketFundingSnapshot,
+    config: FundingConfig,
+    trader: TraderFundingSnapshot,
+): BigNumber {
+    const { fundingGrowthGlobal } = getFundingGrowthGlobalAndTwaps(market, config)
+    return calcPendingFundingPayment(trader, fundingGrowthGlobal)
+}
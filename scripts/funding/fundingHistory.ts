@@ -0,0 +1,363 @@
+import { BigNumber, providers } from "ethers"
+import { formatEther } from "ethers/lib/utils"
+import { ethers, network } from "hardhat"
+import {
+    ClearingHouse,
+    ClearingHouse__factory,
+    ClearingHouseConfig,
+    ClearingHouseConfig__factory,
+    Exchange,
+    Exchange__factory,
+} from "../../typechain"
+import { getDeployedAddress, loadDeployedManifest } from "../deploy/manifest"
+import { writeFile } from "../files"
+import { mulDiv, RATIO_ONE, X10_18 } from "../math/perpMath"
+import { DEFAULT_FUNDING_PERIOD } from "./funding"
+
+// the funding rate series of markets reconstructed from Exchange.FundingUpdated and the funding realized by traders
+// from ClearingHouse.FundingPaymentSettled
+
+export interface FundingHistoryContracts {
+    clearingHouse: ClearingHouse
+    exchange: Exchange
+    clearingHouseConfig: ClearingHouseConfig
+}
+
+export interface FundingUpdate {
+    baseToken: string
+    blockNumber: number
+    logIndex: number
+    timestamp: number
+    // in 18 decimals
+    marketTwap: BigNumber
+    indexTwap: BigNumber
+}
+
+export interface FundingPaymentSettlement {
+    trader: string
+    baseToken: string
+    blockNumber: number
+    logIndex: number
+    timestamp: number
+    // positive for payments of the trader
+    fundingPayment: BigNumber
+}
+
+// the funding accrued in [timestamp, timestamp + interval)
+export interface FundingRatePoint {
+    baseToken: string
+    timestamp: number
+    // the seconds of the interval covered by the updates, less than the interval at both ends of the series
+    accruedSeconds: number
+    // the funding paid by longs per position value over the accrued seconds, in 18 decimals
+    fundingRate: BigNumber
+    // time-weighted over the accrued seconds, in 18 decimals
+    marketTwap: BigNumber
+    indexTwap: BigNumber
+}
+
+export interface RealizedFunding {
+    trader: string
+    baseToken: string
+    fundingPayment: BigNumber
+    settlements: number
+}
+
+export interface FundingHistory {
+    fundingRates: FundingRatePoint[]
+    realizedFundings: RealizedFunding[]
+}
+
+export interface FundingHistoryOptions {
+    // all markets if not given
+    baseToken?: string
+    fromBlock: number
+    // defaults to the latest block
+    toBlock?: number
+    // the seconds of a point of the series, e.g. 3600 for hourly rates
+    interval: number
+    blockRange?: number
+}
+
+// the values of a point multiplied by the seconds they are accrued
+interface FundingRateSum {
+    baseToken: string
+    timestamp: number
+    seconds: number
+    rate: BigNumber
+    marketTwap: BigNumber
+    indexTwap: BigNumber
+}
+
+// Exchange._getDeltaTwapX96() divided by indexTwap: the funding rate per DEFAULT_FUNDING_PERIOD which Exchange has
+// accrued since the previous update, clamped by the max funding rate in 1e6
+export function getFundingRateOfUpdate(update: FundingUpdate, maxFundingRate: number): BigNumber {
+    const fundingRate = mulDiv(update.marketTwap.sub(update.indexTwap), X10_18, update.indexTwap)
+    const maxRate = X10_18.mul(maxFundingRate).div(RATIO_ONE)
+    if (fundingRate.gt(maxRate)) {
+        return maxRate
+    }
+    return fundingRate.lt(maxRate.mul(-1)) ? maxRate.mul(-1) : fundingRate
+}
+
+// an update settles the funding accrued since the previous update at the twaps it emits, so the rate between two
+// updates is the one of the latter; the accrual before the first update of the given ones is unknown
+// NOTE: the current max funding rate is applied to the whole history
+export function getFundingRateSeries(
+    updates: FundingUpdate[],
+    interval: number,
+    maxFundingRate: number,
+): FundingRatePoint[] {
+    if (!Number.isInteger(interval) || interval <= 0) {
+        throw new Error(`FundingHistory: invalid interval ${interval}`)
+    }
+
+    const sums: FundingRateSum[] = []
+    const sorted = [...updates].sort((a, b) =>
+        a.baseToken === b.baseToken
+            ? a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+            : a.baseToken.localeCompare(b.baseToken),
+    )
+    for (let i = 1; i < sorted.length; i++) {
+        const previous = sorted[i - 1]
+        const update = sorted[i]
+        if (previous.baseToken !== update.baseToken) {
+            continue
+        }
+        const fundingRate = getFundingRateOfUpdate(update, maxFundingRate)
+        // split the accrual of the update by the intervals it spans
+        for (let start = previous.timestamp; start < update.timestamp; ) {
+            const timestamp = Math.floor(start / interval) * interval
+            const end = Math.min(timestamp + interval, update.timestamp)
+            let sum = sums[sums.length - 1]
+            if (!sum || sum.baseToken !== update.baseToken || sum.timestamp !== timestamp) {
+                sum = {
+                    baseToken: update.baseToken,
+                    timestamp,
+                    seconds: 0,
+                    rate: BigNumber.from(0),
+                    marketTwap: BigNumber.from(0),
+                    indexTwap: BigNumber.from(0),
+                }
+                sums.push(sum)
+            }
+            const seconds = end - start
+            sum.seconds += seconds
+            sum.rate = sum.rate.add(fundingRate.mul(seconds))
+            sum.marketTwap = sum.marketTwap.add(update.marketTwap.mul(seconds))
+            sum.indexTwap = sum.indexTwap.add(update.indexTwap.mul(seconds))
+            start = end
+        }
+    }
+
+    return sums.map(sum => ({
+        baseToken: sum.baseToken,
+        timestamp: sum.timestamp,
+        accruedSeconds: sum.seconds,
+        fundingRate: sum.rate.div(DEFAULT_FUNDING_PERIOD),
+        marketTwap: sum.marketTwap.div(sum.seconds),
+        indexTwap: sum.indexTwap.div(sum.seconds),
+    }))
+}
+
+// the sum of FundingPaymentSettled by trader and market, in the order of the first settlement
+export function getRealizedFundings(settlements: FundingPaymentSettlement[]): RealizedFunding[] {
+    const realizedFundings: RealizedFunding[] = []
+    const indexes: { [key: string]: number } = {}
+    for (const settlement of settlements) {
+        const key = `${settlement.trader}-${settlement.baseToken}`
+        if (indexes[key] === undefined) {
+            indexes[key] = realizedFundings.length
+            realizedFundings.push({
+                trader: settlement.trader,
+                baseToken: settlement.baseToken,
+                fundingPayment: BigNumber.from(0),
+                settlements: 0,
+            })
+        }
+        const realizedFunding = realizedFundings[indexes[key]]
+        realizedFunding.fundingPayment = realizedFunding.fundingPayment.add(settlement.fundingPayment)
+        realizedFunding.settlements++
+    }
+    return realizedFundings
+}
+
+export async function queryInChunks<T>(
+    query: (fromBlock: number, toBlock: number) => Promise<T[]>,
+    fromBlock: number,
+    toBlock: number,
+    blockRange: number,
+): Promise<T[]> {
+    const results: T[] = []
+    for (let from = fromBlock; from <= toBlock; from += blockRange) {
+        results.push(...(await query(from, Math.min(from + blockRange - 1, toBlock))))
+    }
+    return results
+}
+
+function createBlockTimestampGetter(provider: providers.Provider): (blockNumber: number) => Promise<number> {
+    const timestamps: { [blockNumber: number]: number } = {}
+    return async blockNumber => {
+        if (timestamps[blockNumber] === undefined) {
+            timestamps[blockNumber] = (await provider.getBlock(blockNumber)).timestamp
+        }
+        return timestamps[blockNumber]
+    }
+}
+
+export async function loadFundingHistory(
+    contracts: FundingHistoryContracts,
+    options: FundingHistoryOptions,
+): Promise<FundingHistory> {
+    const { clearingHouse, exchange, clearingHouseConfig } = contracts
+    const { fromBlock, interval, blockRange = 2000 } = options
+    const baseToken = options.baseToken || null
+    const provider = exchange.provider
+    const toBlock = options.toBlock === undefined ? await provider.getBlockNumber() : options.toBlock
+    const getBlockTimestamp = createBlockTimestampGetter(provider)
+
+    const [updateEvents, settlementEvents, maxFundingRate] = await Promise.all([
+        queryInChunks(
+            (from, to) => exchange.queryFilter(exchange.filters.FundingUpdated(baseToken, null, null), from, to),
+            fromBlock,
+            toBlock,
+            blockRange,
+        ),
+        queryInChunks(
+            (from, to) =>
+                clearingHouse.queryFilter(clearingHouse.filters.FundingPaymentSettled(null, baseToken, null), from, to),
+            fromBlock,
+            toBlock,
+            blockRange,
+        ),
+        clearingHouseConfig.getMaxFundingRate(),
+    ])
+
+    const updates: FundingUpdate[] = []
+    for (const event of updateEvents) {
+        updates.push({
+            baseToken: event.args.baseToken,
+            blockNumber: event.blockNumber,
+            logIndex: event.logIndex,
+            timestamp: await getBlockTimestamp(event.blockNumber),
+            marketTwap: event.args.marketTwap,
+            indexTwap: event.args.indexTwap,
+        })
+    }
+    const settlements: FundingPaymentSettlement[] = []
+    for (const event of settlementEvents) {
+        settlements.push({
+            trader: event.args.trader,
+            baseToken: event.args.baseToken,
+            blockNumber: event.blockNumber,
+            logIndex: event.logIndex,
+            timestamp: await getBlockTimestamp(event.blockNumber),
+            fundingPayment: event.args.fundingPayment,
+        })
+    }
+
+    return {
+        fundingRates: getFundingRateSeries(updates, interval, maxFundingRate),
+        realizedFundings: getRealizedFundings(settlements),
+    }
+}
+
+//
+// export
+//
+
+type ExportRecord = { [column: string]: string | number }
+
+function toFundingRateRecord(point: FundingRatePoint): ExportRecord {
+    return {
+        baseToken: point.baseToken,
+        timestamp: point.timestamp,
+        time: new Date(point.timestamp * 1000).toISOString(),
+        accruedSeconds: point.accruedSeconds,
+        fundingRate: formatEther(point.fundingRate),
+        marketTwap: formatEther(point.marketTwap),
+        indexTwap: formatEther(point.indexTwap),
+    }
+}
+
+function toRealizedFundingRecord(realizedFunding: RealizedFunding): ExportRecord {
+    return {
+        trader: realizedFunding.trader,
+        baseToken: realizedFunding.baseToken,
+        fundingPayment: formatEther(realizedFunding.fundingPayment),
+        settlements: realizedFunding.settlements,
+    }
+}
+
+function formatCsv(columns: string[], records: ExportRecord[]): string {
+    const lines = [columns.join(",")]
+    for (const record of records) {
+        lines.push(columns.map(column => record[column]).join(","))
+    }
+    return `${lines.join("\n")}\n`
+}
+
+export function formatFundingRatesCsv(points: FundingRatePoint[]): string {
+    const columns = ["baseToken", "timestamp", "time", "accruedSeconds", "fundingRate", "marketTwap", "indexTwap"]
+    return formatCsv(columns, points.map(toFundingRateRecord))
+}
+
+export function formatRealizedFundingsCsv(realizedFundings: RealizedFunding[]): string {
+    return formatCsv(
+        ["trader", "baseToken", "fundingPayment", "settlements"],
+        realizedFundings.map(toRealizedFundingRecord),
+    )
+}
+
+export function formatFundingHistoryJson(history: FundingHistory): string {
+    const json = {
+        fundingRates: history.fundingRates.map(toFundingRateRecord),
+        realizedFundings: history.realizedFundings.map(toRealizedFundingRecord),
+    }
+    return `${JSON.stringify(json, null, 4)}\n`
+}
+
+// FUNDING_FROM_BLOCK=1000 FUNDING_INTERVAL=86400 npm run funding-history -- --network optimism
+// optional: FUNDING_BASE_TOKEN (all markets by default), FUNDING_INTERVAL (3600 by default),
+// FUNDING_FORMAT ("csv" by default or "json"), FUNDING_OUTPUT_DIR ("funding-history" by default)
+async function main(): Promise<void> {
+    const [signer] = await ethers.getSigners()
+    const manifest = loadDeployedManifest(network.name, await signer.getChainId())
+    const getAddress = (name: string) => getDeployedAddress(manifest, name)
+    const contracts = {
+        clearingHouse: ClearingHouse__factory.connect(getAddress("ClearingHouse"), signer),
+        exchange: Exchange__factory.connect(getAddress("Exchange"), signer),
+        clearingHouseConfig: ClearingHouseConfig__factory.connect(getAddress("ClearingHouseConfig"), signer),
+    }
+    const history = await loadFundingHistory(contracts, {
+        baseToken: process.env.FUNDING_BASE_TOKEN,
+        fromBlock: Number(process.env.FUNDING_FROM_BLOCK || 0),
+        interval: Number(process.env.FUNDING_INTERVAL || 3600),
+    })
+
+    const dir = process.env.FUNDING_OUTPUT_DIR || "funding-history"
+    const format = process.env.FUNDING_FORMAT || "csv"
+    if (format === "json") {
+        await writeFile(`${dir}/${network.name}-funding.json`, formatFundingHistoryJson(history))
+    } else if (format === "csv") {
+        await writeFile(`${dir}/${network.name}-funding-rates.csv`, formatFundingRatesCsv(history.fundingRates))
+        await writeFile(
+            `${dir}/${network.name}-realized-fundings.csv`,
+            formatRealizedFundingsCsv(history.realizedFundings),
+        )
+    } else {
+        throw new Error(`FundingHistory: invalid format ${format}`)
+    }
+    console.log(
+        `${history.fundingRates.length} funding rates and ${history.realizedFundings.length} realized fundings in ${dir}`,
+    )
+}
+
+if (require.main === module) {
+    main()
+        .then(() => process.exit(0))
+        .catch(error => {
+            console.error(error)
+            process.exit(1)
+        })
+}
@@ -0,0 +1,186 @@
+import { BigNumber } from "ethers"
+import { defaultAbiCoder, keccak256 } from "ethers/lib/utils"
+import {
+    AccountBalance,
+    BaseToken__factory,
+    ClearingHouseConfig,
+    Exchange,
+    MarketRegistry,
+    OrderBook,
+    UniswapV3Pool__factory,
+} from "../../typechain"
+import { getStorageLayout } from "../storageLayout"
+import { getFundingGrowthGlobalAndTwaps, getPriceQueries } from "./funding"
+
+// Funding.Growth
+export interface FundingGrowth {
+    twPremiumX96: BigNumber
+    twPremiumDivBySqrtPriceX96: BigNumber
+}
+
+export interface FundingConfig {
+    // ClearingHouseConfig.getTwapInterval()
+    twapInterval: number
+    // ClearingHouseConfig.getMaxFundingRate(), in 1e6
+    maxFundingRate: number
+    // ClearingHouseConfig.getMarkPriceConfig()
+    marketTwapInterval: number
+    premiumInterval: number
+}
+
+// the state of a market that Exchange derives the funding and AccountBalance derives the mark price from
+export interface MarketFundingSnapshot {
+    baseToken: string
+    // Exchange._blockTimestamp()
+    timestamp: number
+    isOpen: boolean
+    // BaseToken.getPausedTimestamp() and getPausedIndexPrice(), zero if the market is open
+    pausedTimestamp: number
+    pausedIndexPrice: BigNumber
+    // UniswapV3Pool.slot0()
+    sqrtPriceX96: BigNumber
+    // UniswapV3Pool.observe(), by secondsAgo
+    tickCumulatives: { [secondsAgo: number]: BigNumber }
+    // BaseToken.getIndexPrice(), by twap interval
+    indexPrices: { [twapInterval: number]: BigNumber }
+    // Exchange._firstTradedTimestampMap, zero if the market is never traded
+    firstTradedTimestamp: number
+    // Exchange._lastSettledTimestampMap
+    lastSettledTimestamp: number
+    // Exchange._globalFundingGrowthX96Map
+    fundingGrowthGlobal: FundingGrowth
+}
+
+// the state of a trader that Exchange.getPendingFundingPayment() derives the funding payment from
+export interface TraderFundingSnapshot {
+    // AccountBalance.getBase()
+    base: BigNumber
+    // AccountBalance.getAccountInfo()
+    lastTwPremiumGrowthGlobalX96: BigNumber
+    // OrderBook.getLiquidityCoefficientInFundingPayment() at the funding growth of the market snapshot
+    liquidityCoefficientInFundingPayment: BigNumber
+}
+
+export interface FundingContracts {
+    accountBalance: AccountBalance
+    exchange: Exchange
+    orderBook: OrderBook
+    marketRegistry: MarketRegistry
+    clearingHouseConfig: ClearingHouseConfig
+}
+
+export async function loadFundingConfig(contracts: FundingContracts): Promise<FundingConfig> {
+    const { clearingHouseConfig } = contracts
+    const [twapInterval, maxFundingRate, [marketTwapInterval, premiumInterval]] = await Promise.all([
+        clearingHouseConfig.getTwapInterval(),
+        clearingHouseConfig.getMaxFundingRate(),
+        clearingHouseConfig.getMarkPriceConfig(),
+    ])
+    return { twapInterval, maxFundingRate, marketTwapInterval, premiumInterval }
+}
+
+// the funding states of Exchange have no getters, thus they are read from the storage of the contract
+function getExchangeMappingSlot(label: string, baseToken: string): BigNumber {
+    const variable = getStorageLayout("Exchange").find(variable => variable.id === label)
+    if (!variable) {
+        throw new Error(`Funding: Exchange.${label} is not found in the storage layout`)
+    }
+    return BigNumber.from(keccak256(defaultAbiCoder.encode(["address", "uint256"], [baseToken, variable.slot])))
+}
+
+async function readExchangeStorage(exchange: Exchange, slot: BigNumber): Promise<BigNumber> {
+    return BigNumber.from(await exchange.provider.getStorageAt(exchange.address, slot))
+}
+
+// timestamp defaults to the latest block; it has to be given when Exchange._blockTimestamp() is overridden,
+// e.g. TestExchange.getBlockTimestamp()
+export async function loadMarketFundingSnapshot(
+    contracts: FundingContracts,
+    config: FundingConfig,
+    baseTokenAddr: string,
+    timestamp?: number,
+): Promise<MarketFundingSnapshot> {
+    const { exchange, marketRegistry } = contracts
+    const provider = exchange.provider
+    const baseToken = BaseToken__factory.connect(baseTokenAddr, provider)
+    const growthSlot = getExchangeMappingSlot("_globalFundingGrowthX96Map", baseTokenAddr)
+
+    const [
+        blockTimestamp,
+        isOpen,
+        pausedTimestamp,
+        pausedIndexPrice,
+        poolAddr,
+        firstTradedTimestamp,
+        lastSettledTimestamp,
+        twPremiumX96,
+        twPremiumDivBySqrtPriceX96,
+    ] = await Promise.all([
+        timestamp === undefined ? provider.getBlock("latest").then(block => block.timestamp) : timestamp,
+        baseToken.isOpen(),
+        baseToken.getPausedTimestamp(),
+        baseToken.getPausedIndexPrice(),
+        marketRegistry.getPool(baseTokenAddr),
+        readExchangeStorage(exchange, getExchangeMappingSlot("_firstTradedTimestampMap", baseTokenAddr)),
+        readExchangeStorage(exchange, getExchangeMappingSlot("_lastSettledTimestampMap", baseTokenAddr)),
+        readExchangeStorage(exchange, growthSlot),
+        readExchangeStorage(exchange, growthSlot.add(1)),
+    ])
+
+    const market = {
+        timestamp: blockTimestamp,
+        isOpen,
+        pausedTimestamp: pausedTimestamp.toNumber(),
+        firstTradedTimestamp: firstTradedTimestamp.toNumber(),
+    }
+    const { secondsAgos, indexTwapIntervals } = getPriceQueries(market, config)
+    const pool = UniswapV3Pool__factory.connect(poolAddr, provider)
+    const [slot0, [tickCumulativeList], indexPriceList] = await Promise.all([
+        pool.slot0(),
+        pool.observe(secondsAgos),
+        Promise.all(indexTwapIntervals.map(twapInterval => baseToken.getIndexPrice(twapInterval))),
+    ])
+
+    const tickCumulatives: MarketFundingSnapshot["tickCumulatives"] = {}
+    secondsAgos.forEach((secondsAgo, i) => {
+        tickCumulatives[secondsAgo] = BigNumber.from(tickCumulativeList[i])
+    })
+    const indexPrices: MarketFundingSnapshot["indexPrices"] = {}
+    indexTwapIntervals.forEach((twapInterval, i) => {
+        indexPrices[twapInterval] = indexPriceList[i]
+    })
+
+    return {
+        ...market,
+        baseToken: baseTokenAddr,
+        pausedIndexPrice,
+        sqrtPriceX96: slot0.sqrtPriceX96,
+        tickCumulatives,
+        indexPrices,
+        lastSettledTimestamp: lastSettledTimestamp.toNumber(),
+        fundingGrowthGlobal: {
+            twPremiumX96: twPremiumX96.fromTwos(256),
+            twPremiumDivBySqrtPriceX96: twPremiumDivBySqrtPriceX96.fromTwos(256),
+        },
+    }
+}
+
+export async function loadTraderFundingSnapshot(
+    contracts: FundingContracts,
+    config: FundingConfig,
+    market: MarketFundingSnapshot,
+    trader: string,
+): Promise<TraderFundingSnapshot> {
+    const { accountBalance, orderBook } = contracts
+    const { fundingGrowthGlobal } = getFundingGrowthGlobalAndTwaps(market, config)
+    const [base, accountInfo, liquidityCoefficientInFundingPayment] = await Promise.all([
+        accountBalance.getBase(trader, market.baseToken),
+        accountBalance.getAccountInfo(trader, market.baseToken),
+        orderBook.getLiquidityCoefficientInFundingPayment(trader, market.baseToken, fundingGrowthGlobal),
+    ])
+    return {
+        base,
+        lastTwPremiumGrowthGlobalX96: accountInfo.lastTwPremiumGrowthGlobalX96,
+        liquidityCoefficientInFundingPayment,
+    }
+}
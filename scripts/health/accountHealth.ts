@@ -0,0 +1,629 @@
+import { BigNumber, BigNumberish } from "ethers"
+import { mulDiv as fullMulDiv, mulDivRoundingUp } from "../math/fullMath"
+import {
+    divRatio,
+    max,
+    min,
+    mulDiv,
+    mulRatio,
+    mulRatioInt,
+    neg256,
+    RATIO_ONE,
+    subRatio,
+    X10_18,
+} from "../math/perpMath"
+import { toInt256, toUint24, toUint256 } from "../math/perpSafeCast"
+import {
+    convertTokenDecimals,
+    formatSettlementToken,
+    formatSettlementTokenInt,
+    parseSettlementToken,
+    parseSettlementTokenInt,
+} from "../math/settlementTokenMath"
+import { getAmountsForLiquidity } from "../math/uniswapV3/liquidityAmounts"
+import { getSqrtRatioAtTick } from "../math/uniswapV3/tickMath"
+import { AccountSnapshot, CollateralSnapshot, HealthConfig, MarketSnapshot } from "./accountSnapshot"
+
+// off-chain replica of the account health getters of Vault, AccountBalance and ClearingHouse,
+// computed from an AccountSnapshot so that hypothetical states can be evaluated without a node round-trip
+// NOTE: values suffixed with X10_18 are in 18 decimals, the others follow the units of the corresponding getters
+
+// AccountBalance._DUST
+const DUST = 10
+// AccountBalance._MIN_PARTIAL_LIQUIDATE_POSITION_VALUE
+const MIN_PARTIAL_LIQUIDATE_POSITION_VALUE = X10_18.mul(100)
+
+function getMarket(snapshot: AccountSnapshot, baseToken: string): MarketSnapshot {
+    const market = snapshot.markets.find(market => market.baseToken === baseToken)
+    if (market === undefined) {
+        throw new Error(`AccountHealth: market ${baseToken} is not in the snapshot`)
+    }
+    return market
+}
+
+function getCollateral(snapshot: AccountSnapshot, token: string): CollateralSnapshot {
+    const collateral = snapshot.collaterals.find(collateral => collateral.token === token)
+    if (collateral === undefined) {
+        throw new Error(`AccountHealth: collateral ${token} is not in the snapshot`)
+    }
+    return collateral
+}
+
+function sum(values: BigNumber[]): BigNumber {
+    return values.reduce((acc, value) => acc.add(value), BigNumber.from(0))
+}
+
+//
+// OrderBook
+//
+
+// OrderBook.getTotalOrderDebt()
+function getTotalOrderDebt(market: MarketSnapshot, fetchBase: boolean): BigNumber {
+    return sum(market.orders.map(order => (fetchBase ? order.baseDebt : order.quoteDebt)))
+}
+
+// OrderBook._getTotalTokenAmountInPool()
+function getTotalTokenAmountInPool(market: MarketSnapshot, fetchBase: boolean): BigNumber {
+    return sum(
+        market.orders.map(order => {
+            const { amount0, amount1 } = getAmountsForLiquidity(
+                market.sqrtPriceX96,
+                getSqrtRatioAtTick(order.lowerTick),
+                getSqrtRatioAtTick(order.upperTick),
+                order.liquidity,
+            )
+            return fetchBase ? amount0 : amount1
+        }),
+    )
+}
+
+// OrderBook._getMakerQuoteBalanceAndPendingFee()
+function getMakerQuoteBalanceAndPendingFee(market: MarketSnapshot): {
+    makerQuoteBalance: BigNumber
+    pendingFee: BigNumber
+} {
+    return {
+        makerQuoteBalance: toInt256(getTotalTokenAmountInPool(market, false)).sub(
+            toInt256(getTotalOrderDebt(market, false)),
+        ),
+        pendingFee: sum(market.orders.map(order => order.pendingFee)),
+    }
+}
+
+//
+// AccountBalance
+//
+
+export function getBase(market: MarketSnapshot): BigNumber {
+    // base = takerPositionSize - orderBaseDebt
+    return market.takerPositionSize.sub(toInt256(getTotalOrderDebt(market, true)))
+}
+
+export function getQuote(market: MarketSnapshot): BigNumber {
+    // quote = takerOpenNotional - orderQuoteDebt
+    return market.takerOpenNotional.sub(toInt256(getTotalOrderDebt(market, false)))
+}
+
+export function getTakerPositionSize(market: MarketSnapshot): BigNumber {
+    return market.takerPositionSize.abs().lt(DUST) ? BigNumber.from(0) : market.takerPositionSize
+}
+
+export function getTotalPositionSize(market: MarketSnapshot): BigNumber {
+    // makerBalance = totalTokenAmountInPool - totalOrderDebt
+    const makerBaseBalance = toInt256(getTotalTokenAmountInPool(market, true)).sub(
+        toInt256(getTotalOrderDebt(market, true)),
+    )
+    const totalPositionSize = makerBaseBalance.add(market.takerPositionSize)
+    return totalPositionSize.abs().lt(DUST) ? BigNumber.from(0) : totalPositionSize
+}
+
+export function getTotalPositionValue(market: MarketSnapshot): BigNumber {
+    const positionSize = getTotalPositionSize(market)
+    if (positionSize.isZero()) {
+        return BigNumber.from(0)
+    }
+    return mulDiv(positionSize, toInt256(market.referencePrice), X10_18)
+}
+
+export function getTotalAbsPositionValue(snapshot: AccountSnapshot): BigNumber {
+    return sum(snapshot.markets.map(market => getTotalPositionValue(market).abs()))
+}
+
+export function getTotalDebtValue(snapshot: AccountSnapshot): BigNumber {
+    let totalQuoteBalance = BigNumber.from(0)
+    let totalBaseDebtValue = BigNumber.from(0)
+    for (const market of snapshot.markets) {
+        const baseBalance = getBase(market)
+        // baseDebt = baseBalance when it's negative
+        if (baseBalance.lt(0)) {
+            // baseDebtValue = baseDebt * indexPrice
+            totalBaseDebtValue = totalBaseDebtValue.add(mulDiv(baseBalance, toInt256(market.referencePrice), X10_18))
+        }
+        // we can't calculate totalQuoteDebtValue until we have totalQuoteBalance
+        totalQuoteBalance = totalQuoteBalance.add(getQuote(market))
+    }
+    const totalQuoteDebtValue = totalQuoteBalance.gte(0) ? BigNumber.from(0) : totalQuoteBalance
+
+    // both values are negative due to the above condition checks
+    return totalQuoteDebtValue.add(totalBaseDebtValue).abs()
+}
+
+export function getPnlAndPendingFee(snapshot: AccountSnapshot): {
+    owedRealizedPnl: BigNumber
+    unrealizedPnl: BigNumber
+    pendingFee: BigNumber
+} {
+    let totalPositionValue = BigNumber.from(0)
+    let netQuoteBalance = BigNumber.from(0)
+    let pendingFee = BigNumber.from(0)
+    for (const market of snapshot.markets) {
+        totalPositionValue = totalPositionValue.add(getTotalPositionValue(market))
+
+        // netQuoteBalance = quote.balance + totalQuoteInPools, pendingFee is included
+        const makerQuoteBalanceAndPendingFee = getMakerQuoteBalanceAndPendingFee(market)
+        netQuoteBalance = netQuoteBalance
+            .add(market.takerOpenNotional)
+            .add(makerQuoteBalanceAndPendingFee.makerQuoteBalance)
+        pendingFee = pendingFee.add(makerQuoteBalanceAndPendingFee.pendingFee)
+    }
+
+    return {
+        owedRealizedPnl: snapshot.owedRealizedPnl,
+        unrealizedPnl: totalPositionValue.add(netQuoteBalance),
+        pendingFee,
+    }
+}
+
+export function getMarginRequirementForLiquidation(snapshot: AccountSnapshot, config: HealthConfig): BigNumber {
+    return toInt256(mulRatio(getTotalAbsPositionValue(snapshot), config.mmRatio))
+}
+
+export function getLiquidatablePositionSize(
+    snapshot: AccountSnapshot,
+    config: HealthConfig,
+    baseToken: string,
+    accountValue: BigNumberish,
+): BigNumber {
+    const marginRequirement = getMarginRequirementForLiquidation(snapshot, config)
+    const market = getMarket(snapshot, baseToken)
+    const positionSize = getTotalPositionSize(market)
+
+    // no liquidatable position
+    if (marginRequirement.lte(accountValue) || positionSize.isZero()) {
+        return BigNumber.from(0)
+    }
+
+    // liquidate the entire position if its value is small enough to prevent tiny positions left in the system
+    const positionValueAbs = getTotalPositionValue(market).abs()
+    if (positionValueAbs.lte(MIN_PARTIAL_LIQUIDATE_POSITION_VALUE)) {
+        return positionSize
+    }
+
+    // liquidator can only take over partial position if margin ratio is >= the half of mmRatio
+    let maxLiquidateRatio = RATIO_ONE
+    if (marginRequirement.div(2).lte(accountValue)) {
+        maxLiquidateRatio = toUint24(fullMulDiv(getTotalAbsPositionValue(snapshot), RATIO_ONE, positionValueAbs.mul(2)))
+        maxLiquidateRatio = min(maxLiquidateRatio, RATIO_ONE)
+    }
+
+    return mulRatioInt(positionSize, maxLiquidateRatio)
+}
+
+//
+// Vault
+//
+
+// Vault._getSettlementByCollateral()
+function getSettlementByCollateral(
+    collateral: CollateralSnapshot,
+    amount: BigNumberish,
+    price: BigNumberish,
+): BigNumber {
+    const priceFeedUnit = BigNumber.from(10).pow(collateral.priceFeedDecimals)
+    // convert token decimals with as much precision as possible
+    return collateral.decimals > 18
+        ? convertTokenDecimals(fullMulDiv(amount, price, priceFeedUnit), collateral.decimals, 18)
+        : fullMulDiv(convertTokenDecimals(amount, collateral.decimals, 18), price, priceFeedUnit)
+}
+
+// Vault._getCollateralBySettlement()
+function getCollateralBySettlement(
+    collateral: CollateralSnapshot,
+    settlementX10_18: BigNumberish,
+    price: BigNumberish,
+): BigNumber {
+    const priceFeedUnit = BigNumber.from(10).pow(collateral.priceFeedDecimals)
+    // convert token decimals with as much precision as possible
+    return collateral.decimals > 18
+        ? mulDivRoundingUp(convertTokenDecimals(settlementX10_18, 18, collateral.decimals), priceFeedUnit, price)
+        : convertTokenDecimals(mulDivRoundingUp(settlementX10_18, priceFeedUnit, price), 18, collateral.decimals)
+}
+
+function getDiscountedIndexTwap(collateral: CollateralSnapshot): BigNumber {
+    return mulRatio(collateral.indexTwap, subRatio(RATIO_ONE, collateral.discountRatio))
+}
+
+// settlement token balance with pending fee, funding payment and owed realized pnl, but without unrealized pnl
+function getSettlementTokenBalanceAndUnrealizedPnl(snapshot: AccountSnapshot): {
+    settlementTokenBalanceX10_18: BigNumber
+    unrealizedPnlX10_18: BigNumber
+} {
+    const fundingPaymentX10_18 = sum(snapshot.markets.map(market => market.pendingFundingPayment))
+    const { owedRealizedPnl, unrealizedPnl, pendingFee } = getPnlAndPendingFee(snapshot)
+    const settlementTokenBalanceX10_18 = parseSettlementTokenInt(
+        snapshot.settlementTokenBalance,
+        snapshot.settlementTokenDecimals,
+    ).add(toInt256(pendingFee).sub(fundingPaymentX10_18).add(owedRealizedPnl))
+    return { settlementTokenBalanceX10_18, unrealizedPnlX10_18: unrealizedPnl }
+}
+
+// settlementTokenBalance + totalUnrealizedPnl
+function getSettlementTokenValueX10_18(snapshot: AccountSnapshot): BigNumber {
+    const { settlementTokenBalanceX10_18, unrealizedPnlX10_18 } = getSettlementTokenBalanceAndUnrealizedPnl(snapshot)
+    return settlementTokenBalanceX10_18.add(unrealizedPnlX10_18)
+}
+
+function getCollateralValueX10_18(collateral: CollateralSnapshot): BigNumber {
+    return getSettlementByCollateral(collateral, toUint256(collateral.balance), collateral.indexTwap)
+}
+
+function getNonSettlementTokenValueX10_18(snapshot: AccountSnapshot): BigNumber {
+    return sum(
+        snapshot.collaterals.map(collateral =>
+            mulRatio(getCollateralValueX10_18(collateral), collateral.collateralRatio),
+        ),
+    )
+}
+
+function getAccountValueAndTotalCollateralValue(snapshot: AccountSnapshot): {
+    accountValueX10_18: BigNumber
+    totalCollateralValueX10_18: BigNumber
+} {
+    const { settlementTokenBalanceX10_18, unrealizedPnlX10_18 } = getSettlementTokenBalanceAndUnrealizedPnl(snapshot)
+    const totalCollateralValueX10_18 = toInt256(getNonSettlementTokenValueX10_18(snapshot)).add(
+        settlementTokenBalanceX10_18,
+    )
+    // accountValue = totalCollateralValue + totalUnrealizedPnl
+    return { accountValueX10_18: totalCollateralValueX10_18.add(unrealizedPnlX10_18), totalCollateralValueX10_18 }
+}
+
+function getTotalMarginRequirementX10_18(snapshot: AccountSnapshot, ratio: BigNumberish): BigNumber {
+    return mulRatio(getTotalDebtValue(snapshot), ratio)
+}
+
+function getFreeCollateralByRatioX10_18(snapshot: AccountSnapshot, ratio: BigNumberish): BigNumber {
+    // conservative config: freeCollateral = min(totalCollateralValue, accountValue) - openOrderMarginReq
+    const { accountValueX10_18, totalCollateralValueX10_18 } = getAccountValueAndTotalCollateralValue(snapshot)
+    return min(totalCollateralValueX10_18, accountValueX10_18).sub(
+        toInt256(getTotalMarginRequirementX10_18(snapshot, ratio)),
+    )
+}
+
+function getFreeCollateralX10_18(snapshot: AccountSnapshot, config: HealthConfig): BigNumber {
+    return toUint256(max(getFreeCollateralByRatioX10_18(snapshot, config.imRatio), 0))
+}
+
+export function getSettlementTokenValue(snapshot: AccountSnapshot): BigNumber {
+    return formatSettlementTokenInt(getSettlementTokenValueX10_18(snapshot), snapshot.settlementTokenDecimals)
+}
+
+export function getAccountValue(snapshot: AccountSnapshot): BigNumber {
+    const { accountValueX10_18 } = getAccountValueAndTotalCollateralValue(snapshot)
+    return formatSettlementTokenInt(accountValueX10_18, snapshot.settlementTokenDecimals)
+}
+
+export function getFreeCollateral(snapshot: AccountSnapshot, config: HealthConfig): BigNumber {
+    return formatSettlementToken(getFreeCollateralX10_18(snapshot, config), snapshot.settlementTokenDecimals)
+}
+
+export function getFreeCollateralByRatio(snapshot: AccountSnapshot, ratio: BigNumberish): BigNumber {
+    return formatSettlementTokenInt(getFreeCollateralByRatioX10_18(snapshot, ratio), snapshot.settlementTokenDecimals)
+}
+
+export function getFreeCollateralByToken(snapshot: AccountSnapshot, config: HealthConfig, token: string): BigNumber {
+    // do not check settlementTokenValue == 0 because user's settlement token balance may be zero
+    if (getSettlementTokenValueX10_18(snapshot).lt(0)) {
+        return BigNumber.from(0)
+    }
+
+    const freeCollateralX10_18 = getFreeCollateralX10_18(snapshot, config)
+    if (freeCollateralX10_18.isZero()) {
+        return BigNumber.from(0)
+    }
+
+    if (token === snapshot.settlementToken) {
+        const { settlementTokenBalanceX10_18 } = getSettlementTokenBalanceAndUnrealizedPnl(snapshot)
+        return settlementTokenBalanceX10_18.lte(0)
+            ? BigNumber.from(0)
+            : formatSettlementToken(
+                  min(freeCollateralX10_18, settlementTokenBalanceX10_18),
+                  snapshot.settlementTokenDecimals,
+              )
+    }
+
+    // the trader has no balance of the token if it's not in the snapshot
+    const collateral = snapshot.collaterals.find(collateral => collateral.token === token)
+    if (collateral === undefined) {
+        return BigNumber.from(0)
+    }
+    return min(
+        divRatio(
+            getCollateralBySettlement(collateral, freeCollateralX10_18, collateral.indexTwap),
+            collateral.collateralRatio,
+        ),
+        // non-settlement token is always positive number
+        toUint256(collateral.balance),
+    )
+}
+
+export function getCollateralMmRatio(config: HealthConfig): number {
+    const collateralMmRatio = config.mmRatio + config.mmRatioBuffer
+    // CM_ICMR : invalid collateralMmRatio
+    if (RATIO_ONE.lt(collateralMmRatio)) {
+        throw new Error("CM_ICMR")
+    }
+    return collateralMmRatio
+}
+
+export function getMarginRequirementForCollateralLiquidation(
+    snapshot: AccountSnapshot,
+    config: HealthConfig,
+): BigNumber {
+    return toInt256(mulRatio(getTotalAbsPositionValue(snapshot), getCollateralMmRatio(config)))
+}
+
+// Vault.isLiquidatable(), whether the non-settlement collaterals of the trader can be liquidated
+export function isLiquidatable(snapshot: AccountSnapshot, config: HealthConfig): boolean {
+    if (snapshot.collaterals.length === 0) {
+        return false
+    }
+
+    const { accountValueX10_18 } = getAccountValueAndTotalCollateralValue(snapshot)
+    if (accountValueX10_18.lt(getMarginRequirementForCollateralLiquidation(snapshot, config))) {
+        return true
+    }
+
+    const settlementTokenValueX10_18 = getSettlementTokenValueX10_18(snapshot)
+    const settlementTokenDebtX10_18 = settlementTokenValueX10_18.lt(0)
+        ? toUint256(neg256(settlementTokenValueX10_18))
+        : BigNumber.from(0)
+
+    if (
+        settlementTokenDebtX10_18.gt(
+            mulRatio(getNonSettlementTokenValueX10_18(snapshot), config.debtNonSettlementTokenValueRatio),
+        )
+    ) {
+        return true
+    }
+
+    return formatSettlementToken(settlementTokenDebtX10_18, snapshot.settlementTokenDecimals).gt(snapshot.debtThreshold)
+}
+
+// Vault._getMaxRepaidSettlement()
+function getMaxRepaidSettlementX10_18(snapshot: AccountSnapshot, config: HealthConfig): BigNumber {
+    // max(max(-settlementTokenValue, 0), totalMarginReq) * liquidationRatio
+    const settlementTokenValueX10_18 = getSettlementTokenValueX10_18(snapshot)
+    const settlementTokenDebtX10_18 = settlementTokenValueX10_18.lt(0)
+        ? toUint256(neg256(settlementTokenValueX10_18))
+        : BigNumber.from(0)
+
+    const maxDebtX10_18 = max(settlementTokenDebtX10_18, getTotalMarginRequirementX10_18(snapshot, config.imRatio))
+    const collateralValueDustX10_18 = parseSettlementToken(config.collateralValueDust, snapshot.settlementTokenDecimals)
+    const maxRepaidSettlementWithoutInsuranceFundFeeX10_18 = maxDebtX10_18.gt(collateralValueDustX10_18)
+        ? mulRatio(maxDebtX10_18, config.liquidationRatio)
+        : maxDebtX10_18
+
+    return divRatio(
+        maxRepaidSettlementWithoutInsuranceFundFeeX10_18,
+        subRatio(RATIO_ONE, config.clInsuranceFundFeeRatio),
+    )
+}
+
+export function getMaxRepaidSettlementAndLiquidatableCollateral(
+    snapshot: AccountSnapshot,
+    config: HealthConfig,
+    token: string,
+): { maxRepaidSettlementX10_S: BigNumber; maxLiquidatableCollateral: BigNumber } {
+    const collateral = getCollateral(snapshot, token)
+    const discountedIndexTwap = getDiscountedIndexTwap(collateral)
+
+    let maxRepaidSettlementX10_18 = getMaxRepaidSettlementX10_18(snapshot, config)
+    let maxLiquidatableCollateral = getCollateralBySettlement(
+        collateral,
+        maxRepaidSettlementX10_18,
+        discountedIndexTwap,
+    )
+
+    const tokenBalance = toUint256(collateral.balance)
+    if (maxLiquidatableCollateral.gt(tokenBalance)) {
+        maxLiquidatableCollateral = tokenBalance
+        // deliberately rounding down when calculating settlement so that collateral <= user's collateral balance
+        maxRepaidSettlementX10_18 = getSettlementByCollateral(
+            collateral,
+            maxLiquidatableCollateral,
+            discountedIndexTwap,
+        )
+    }
+
+    return {
+        maxRepaidSettlementX10_S: formatSettlementToken(maxRepaidSettlementX10_18, snapshot.settlementTokenDecimals),
+        maxLiquidatableCollateral,
+    }
+}
+
+//
+// ClearingHouse
+//
+
+// ClearingHouse.getAccountValue(), in 18 decimals but truncated to the precision of settlement token
+export function getClearingHouseAccountValue(snapshot: AccountSnapshot): BigNumber {
+    return parseSettlementTokenInt(getAccountValue(snapshot), snapshot.settlementTokenDecimals)
+}
+
+// ClearingHouse._isLiquidatable(), whether the positions of the trader can be liquidated
+export function isPositionLiquidatable(snapshot: AccountSnapshot, config: HealthConfig): boolean {
+    return getClearingHouseAccountValue(snapshot).lt(getMarginRequirementForLiquidation(snapshot, config))
+}
+
+// accountValue / totalAbsPositionValue in 18 decimals, undefined if the trader has no position
+export function getMarginRatio(snapshot: AccountSnapshot): BigNumber | undefined {
+    const totalAbsPositionValue = getTotalAbsPositionValue(snapshot)
+    if (totalAbsPositionValue.isZero()) {
+        return undefined
+    }
+    return mulDiv(getClearingHouseAccountValue(snapshot), X10_18, totalAbsPositionValue)
+}
+
+//
+// what-if
+//
+
+// returns a copy of the snapshot with the reference price of the market replaced
+export function withReferencePrice(
+    snapshot: AccountSnapshot,
+    baseToken: string,
+    referencePrice: BigNumberish,
+): AccountSnapshot {
+    getMarket(snapshot, baseToken)
+    return {
+        ...snapshot,
+        markets: snapshot.markets.map(market =>
+            market.baseToken === baseToken ? { ...market, referencePrice: BigNumber.from(referencePrice) } : market,
+        ),
+    }
+}
+
+// the reference price of the market at which the positions of the trader become liquidatable, assuming everything
+// else in the snapshot is unchanged; liquidatable when price <= liquidationPrice for a long position and
+// price >= liquidationPrice for a short position. Returns undefined if there is no such price
+export function getLiquidationPrice(
+    snapshot: AccountSnapshot,
+    config: HealthConfig,
+    baseToken: string,
+): BigNumber | undefined {
+    const market = getMarket(snapshot, baseToken)
+    const positionSize = getTotalPositionSize(market)
+    if (positionSize.isZero()) {
+        return undefined
+    }
+
+    // accountValue - marginRequirement is monotonic to the reference price, hence binary search
+    const isLong = positionSize.gt(0)
+    const isLiquidatableAt = (price: BigNumber) =>
+        isPositionLiquidatable(withReferencePrice(snapshot, baseToken, price), config)
+
+    // lo is always liquidatable for long and never liquidatable for short, hi is the opposite
+    const lo = BigNumber.from(0)
+    if (isLiquidatableAt(lo) !== isLong) {
+        return isLong ? undefined : lo
+    }
+    let hi = market.referencePrice.add(1)
+    for (let i = 0; isLiquidatableAt(hi) === isLong; i++) {
+        if (i === 256) {
+            return undefined
+        }
+        hi = hi.mul(2)
+    }
+
+    let [left, right] = [lo, hi]
+    while (right.sub(left).gt(1)) {
+        const mid = left.add(right).div(2)
+        if (isLiquidatableAt(mid) === isLong) {
+            left = mid
+        } else {
+            right = mid
+        }
+    }
+    return isLong ? left : right
+}
+
+export interface Trade {
+    baseToken: string
+    exchangedPositionSize: BigNumber
+    exchangedPositionNotional: BigNumber
+    fee: BigNumber
+    // the pool price after the trade, the pool price of the snapshot is kept if undefined
+    sqrtPriceAfterX96?: BigNumber
+}
+
+// Exchange._getPnlToBeRealized()
+function getPnlToBeRealized(
+    takerPositionSize: BigNumber,
+    takerOpenNotional: BigNumber,
+    base: BigNumber,
+    quote: BigNumber,
+): BigNumber {
+    // closedRatio is based on the position size
+    const closedRatio = fullMulDiv(base.abs(), X10_18, takerPositionSize.abs())
+
+    // if closedRatio <= 1, it's reducing or closing a position; else, it's opening a larger reverse position
+    if (closedRatio.lte(X10_18)) {
+        const reducedOpenNotional = mulDiv(takerOpenNotional, toInt256(closedRatio), X10_18)
+        return quote.add(reducedOpenNotional)
+    }
+    const closedPositionNotional = mulDiv(quote, X10_18, closedRatio)
+    return takerOpenNotional.add(closedPositionNotional)
+}
+
+// returns a copy of the snapshot after the trade is settled as in ClearingHouse._openPosition(),
+// e.g. the result of simulateSwap() in scripts/simulator/exchange.ts;
+// newMarket is required if the trader has no position nor order in the market yet
+// NOTE: the fees that the trader's own orders earn from the trade are not included
+export function applyTrade(
+    snapshot: AccountSnapshot,
+    trade: Trade,
+    newMarket?: Pick<MarketSnapshot, "referencePrice" | "sqrtPriceX96">,
+): AccountSnapshot {
+    let market = snapshot.markets.find(market => market.baseToken === trade.baseToken)
+    let markets = snapshot.markets
+    if (market === undefined) {
+        if (newMarket === undefined) {
+            throw new Error(`AccountHealth: market ${trade.baseToken} is not in the snapshot`)
+        }
+        market = {
+            baseToken: trade.baseToken,
+            referencePrice: newMarket.referencePrice,
+            sqrtPriceX96: newMarket.sqrtPriceX96,
+            takerPositionSize: BigNumber.from(0),
+            takerOpenNotional: BigNumber.from(0),
+            pendingFundingPayment: BigNumber.from(0),
+            orders: [],
+        }
+        markets = [...markets, market]
+    }
+
+    // funding payment is settled before swapping
+    let owedRealizedPnl = snapshot.owedRealizedPnl.sub(market.pendingFundingPayment)
+
+    const takerPositionSize = getTakerPositionSize(market)
+    const base = trade.exchangedPositionSize
+    const quote = trade.exchangedPositionNotional.sub(trade.fee)
+    // when reducing/not increasing the position size, it's necessary to realize pnl
+    const isReducingPosition = !takerPositionSize.isZero() && takerPositionSize.lt(0) !== base.lt(0)
+    const realizedPnl = isReducingPosition
+        ? getPnlToBeRealized(takerPositionSize, market.takerOpenNotional, base, quote)
+        : BigNumber.from(0)
+    owedRealizedPnl = owedRealizedPnl.add(realizedPnl)
+
+    const updatedMarket: MarketSnapshot = {
+        ...market,
+        sqrtPriceX96: trade.sqrtPriceAfterX96 || market.sqrtPriceX96,
+        takerPositionSize: market.takerPositionSize.add(base),
+        takerOpenNotional: market.takerOpenNotional.add(quote).sub(realizedPnl),
+        pendingFundingPayment: BigNumber.from(0),
+    }
+
+    // AccountBalance._deregisterBaseToken(), which swaps the market with the last one before removing it
+    const isDeregistered =
+        updatedMarket.takerPositionSize.abs().lt(DUST) &&
+        updatedMarket.takerOpenNotional.abs().lt(DUST) &&
+        updatedMarket.orders.length === 0
+    const index = markets.findIndex(market => market.baseToken === trade.baseToken)
+    markets = markets.map((market, i) => (i === index ? updatedMarket : market))
+    if (isDeregistered) {
+        markets[index] = markets[markets.length - 1]
+        markets.pop()
+    }
+
+    return { ...snapshot, owedRealizedPnl, markets }
+}
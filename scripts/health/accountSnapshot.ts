@@ -0,0 +1,223 @@
+import { BigNumber } from "ethers"
+import {
+    AccountBalance,
+    BaseToken__factory,
+    ClearingHouseConfig,
+    CollateralManager,
+    Exchange,
+    IERC20Metadata__factory,
+    MarketRegistry,
+    OrderBook,
+    UniswapV3Pool__factory,
+    Vault,
+} from "../../typechain"
+
+// Vault._COLLATERAL_TWAP_INTERVAL
+export const COLLATERAL_TWAP_INTERVAL = 900
+
+export interface OpenOrderSnapshot {
+    lowerTick: number
+    upperTick: number
+    liquidity: BigNumber
+    baseDebt: BigNumber
+    quoteDebt: BigNumber
+    // OrderBook.getPendingFee(), in quote token
+    pendingFee: BigNumber
+}
+
+export interface MarketSnapshot {
+    baseToken: string
+    // AccountBalance._getReferencePrice(): mark price if the market is open, else paused index price or closed price
+    referencePrice: BigNumber
+    // the pool price, which determines the token amounts of open orders
+    sqrtPriceX96: BigNumber
+    takerPositionSize: BigNumber
+    takerOpenNotional: BigNumber
+    // Exchange.getPendingFundingPayment()
+    pendingFundingPayment: BigNumber
+    orders: OpenOrderSnapshot[]
+}
+
+export interface CollateralSnapshot {
+    token: string
+    decimals: number
+    balance: BigNumber
+    indexTwap: BigNumber
+    priceFeedDecimals: number
+    collateralRatio: number
+    discountRatio: number
+}
+
+// the state of a trader that Vault and AccountBalance derive the account health from
+export interface AccountSnapshot {
+    settlementToken: string
+    settlementTokenDecimals: number
+    // Vault.getBalance(), in settlement token decimals
+    settlementTokenBalance: BigNumber
+    owedRealizedPnl: BigNumber
+    // CollateralManager.getDebtThresholdByTrader(), in settlement token decimals
+    debtThreshold: BigNumber
+    // in the same order as AccountBalance.getBaseTokens()
+    markets: MarketSnapshot[]
+    // non-settlement collaterals, in the same order as Vault.getCollateralTokens()
+    collaterals: CollateralSnapshot[]
+}
+
+// the global configs that are not specific to a trader
+export interface HealthConfig {
+    imRatio: number
+    mmRatio: number
+    mmRatioBuffer: number
+    debtNonSettlementTokenValueRatio: number
+    liquidationRatio: number
+    clInsuranceFundFeeRatio: number
+    // in settlement token decimals
+    collateralValueDust: BigNumber
+}
+
+export interface HealthContracts {
+    vault: Vault
+    accountBalance: AccountBalance
+    exchange: Exchange
+    orderBook: OrderBook
+    marketRegistry: MarketRegistry
+    collateralManager: CollateralManager
+    clearingHouseConfig: ClearingHouseConfig
+}
+
+export async function loadHealthConfig(contracts: HealthContracts): Promise<HealthConfig> {
+    const { collateralManager, clearingHouseConfig } = contracts
+    const [
+        imRatio,
+        mmRatio,
+        mmRatioBuffer,
+        debtNonSettlementTokenValueRatio,
+        liquidationRatio,
+        clInsuranceFundFeeRatio,
+        collateralValueDust,
+    ] = await Promise.all([
+        clearingHouseConfig.getImRatio(),
+        clearingHouseConfig.getMmRatio(),
+        collateralManager.getMmRatioBuffer(),
+        collateralManager.getDebtNonSettlementTokenValueRatio(),
+        collateralManager.getLiquidationRatio(),
+        collateralManager.getCLInsuranceFundFeeRatio(),
+        collateralManager.getCollateralValueDust(),
+    ])
+    return {
+        imRatio,
+        mmRatio,
+        mmRatioBuffer,
+        debtNonSettlementTokenValueRatio,
+        liquidationRatio,
+        clInsuranceFundFeeRatio,
+        collateralValueDust,
+    }
+}
+
+async function loadMarketSnapshot(
+    contracts: HealthContracts,
+    trader: string,
+    baseTokenAddr: string,
+): Promise<MarketSnapshot> {
+    const { accountBalance, exchange, orderBook, marketRegistry } = contracts
+    const provider = accountBalance.provider
+    const baseToken = BaseToken__factory.connect(baseTokenAddr, provider)
+
+    let referencePrice: BigNumber
+    if (await baseToken.isOpen()) {
+        referencePrice = await accountBalance.getMarkPrice(baseTokenAddr)
+    } else {
+        referencePrice = (await baseToken.isClosed())
+            ? await baseToken.getClosedPrice()
+            : await baseToken.getPausedIndexPrice()
+    }
+
+    const pool = UniswapV3Pool__factory.connect(await marketRegistry.getPool(baseTokenAddr), provider)
+    const [slot0, accountInfo, pendingFundingPayment, orderIds] = await Promise.all([
+        pool.slot0(),
+        accountBalance.getAccountInfo(trader, baseTokenAddr),
+        exchange.getPendingFundingPayment(trader, baseTokenAddr),
+        orderBook.getOpenOrderIds(trader, baseTokenAddr),
+    ])
+
+    const orders = await Promise.all(
+        orderIds.map(async (orderId): Promise<OpenOrderSnapshot> => {
+            const order = await orderBook.getOpenOrderById(orderId)
+            const pendingFee = await orderBook.getPendingFee(trader, baseTokenAddr, order.lowerTick, order.upperTick)
+            return {
+                lowerTick: order.lowerTick,
+                upperTick: order.upperTick,
+                liquidity: order.liquidity,
+                baseDebt: order.baseDebt,
+                quoteDebt: order.quoteDebt,
+                pendingFee,
+            }
+        }),
+    )
+
+    return {
+        baseToken: baseTokenAddr,
+        referencePrice,
+        sqrtPriceX96: slot0.sqrtPriceX96,
+        takerPositionSize: accountInfo.takerPositionSize,
+        takerOpenNotional: accountInfo.takerOpenNotional,
+        pendingFundingPayment,
+        orders,
+    }
+}
+
+async function loadCollateralSnapshot(
+    contracts: HealthContracts,
+    trader: string,
+    token: string,
+): Promise<CollateralSnapshot> {
+    const { vault, collateralManager } = contracts
+    const [decimals, balance, indexTwap, priceFeedDecimals, config] = await Promise.all([
+        IERC20Metadata__factory.connect(token, vault.provider).decimals(),
+        vault.getBalanceByToken(trader, token),
+        collateralManager.getPrice(token, COLLATERAL_TWAP_INTERVAL),
+        collateralManager.getPriceFeedDecimals(token),
+        collateralManager.getCollateralConfig(token),
+    ])
+    return {
+        token,
+        decimals,
+        balance,
+        indexTwap,
+        priceFeedDecimals,
+        collateralRatio: config.collateralRatio,
+        discountRatio: config.discountRatio,
+    }
+}
+
+export async function loadAccountSnapshot(contracts: HealthContracts, trader: string): Promise<AccountSnapshot> {
+    const { vault, accountBalance, collateralManager } = contracts
+    const [
+        settlementToken,
+        settlementTokenDecimals,
+        settlementTokenBalance,
+        pnlAndPendingFee,
+        debtThreshold,
+        baseTokens,
+        tokens,
+    ] = await Promise.all([
+        vault.getSettlementToken(),
+        vault.decimals(),
+        vault.getBalance(trader),
+        accountBalance.getPnlAndPendingFee(trader),
+        collateralManager.getDebtThresholdByTrader(trader),
+        accountBalance.getBaseTokens(trader),
+        vault.getCollateralTokens(trader),
+    ])
+
+    return {
+        settlementToken,
+        settlementTokenDecimals,
+        settlementTokenBalance,
+        owedRealizedPnl: pnlAndPendingFee[0],
+        debtThreshold,
+        markets: await Promise.all(baseTokens.map(baseToken => loadMarketSnapshot(contracts, trader, baseToken))),
+        collaterals: await Promise.all(tokens.map(token => loadCollateralSnapshot(contracts, trader, token))),
+    }
+}
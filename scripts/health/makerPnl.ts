@@ -0,0 +1,367 @@
+import { BigNumber } from "ethers"
+import { formatEther } from "ethers/lib/utils"
+import { ethers, network } from "hardhat"
+import {
+    AccountBalance__factory,
+    ClearingHouse,
+    ClearingHouse__factory,
+    ClearingHouseConfig__factory,
+    CollateralManager__factory,
+    Exchange__factory,
+    MarketRegistry__factory,
+    OrderBook__factory,
+    Vault__factory,
+} from "../../typechain"
+import { getDeployedAddress, loadDeployedManifest } from "../deploy/manifest"
+import { queryInChunks } from "../funding/fundingHistory"
+import { mulDiv, X10_18 } from "../math/perpMath"
+import { getAmountsForLiquidity } from "../math/uniswapV3/liquidityAmounts"
+import { getSqrtRatioAtTick } from "../math/uniswapV3/tickMath"
+import { AccountSnapshot, HealthContracts, loadAccountSnapshot, MarketSnapshot } from "./accountSnapshot"
+
+// the pnl of a maker split into the fee of the orders, the impermanent positions of the orders, funding and the taker
+// position, from an AccountSnapshot and the ClearingHouse events of the maker
+// NOTE: all values are in quote of 18 decimals and positive for profits of the maker
+
+// ClearingHouse.LiquidityChanged
+export interface MakerLiquidityChange {
+    baseToken: string
+    lowerTick: number
+    upperTick: number
+    liquidity: BigNumber
+    quoteFee: BigNumber
+}
+
+// ClearingHouse.PositionChanged, or ClearingHouse.PositionClosed of quitMarket() in a closed market
+export interface MakerPositionChange {
+    baseToken: string
+    realizedPnl: BigNumber
+}
+
+// ClearingHouse.PositionLiquidated of the positions of the maker
+export interface MakerLiquidation {
+    baseToken: string
+    // the liquidation penalty paid by the maker
+    liquidationFee: BigNumber
+}
+
+// ClearingHouse.FundingPaymentSettled
+export interface MakerFundingPayment {
+    baseToken: string
+    fundingPayment: BigNumber
+}
+
+export interface MakerHistory {
+    liquidityChanges: MakerLiquidityChange[]
+    positionChanges: MakerPositionChange[]
+    positionCloses: MakerPositionChange[]
+    liquidations: MakerLiquidation[]
+    fundingPayments: MakerFundingPayment[]
+}
+
+export interface OrderPnl {
+    lowerTick: number
+    upperTick: number
+    // zero if the order is removed
+    liquidity: BigNumber
+    // LiquidityChanged.quoteFee, realized to owedRealizedPnl whenever the liquidity of the order changes
+    collectedFee: BigNumber
+    // OrderBook.getPendingFee()
+    pendingFee: BigNumber
+    // the tokens of the order in the pool minus the debts of the order, i.e. the maker position of the order, which
+    // becomes a taker position when the order is removed
+    impermanentPositionSize: BigNumber
+    impermanentOpenNotional: BigNumber
+    // impermanentPositionSize * referencePrice + impermanentOpenNotional
+    impermanentPnl: BigNumber
+}
+
+export interface MarketMakerPnl {
+    baseToken: string
+    // zero if the maker has no position or order in the market anymore
+    referencePrice: BigNumber
+    orders: OrderPnl[]
+    collectedFee: BigNumber
+    pendingFee: BigNumber
+    impermanentPnl: BigNumber
+    // the negative of FundingPaymentSettled.fundingPayment and Exchange.getPendingFundingPayment()
+    realizedFunding: BigNumber
+    pendingFunding: BigNumber
+    // PositionChanged.realizedPnl and PositionClosed.realizedPnl, including the one of removeLiquidity() when the
+    // impermanent position changes the taker position
+    realizedTakerPnl: BigNumber
+    // the negative of PositionLiquidated.liquidationFee, not included in the realizedPnl of PositionChanged
+    liquidationPenalty: BigNumber
+    // takerPositionSize * referencePrice + takerOpenNotional
+    unrealizedTakerPnl: BigNumber
+    // collectedFee + realizedFunding + realizedTakerPnl + liquidationPenalty
+    realizedPnl: BigNumber
+    // impermanentPnl + unrealizedTakerPnl, the unrealized pnl of AccountBalance.getPnlAndPendingFee() in the market
+    unrealizedPnl: BigNumber
+    // realizedPnl + unrealizedPnl + pendingFee + pendingFunding
+    totalPnl: BigNumber
+}
+
+function getOrderKey(lowerTick: number, upperTick: number): string {
+    return `${lowerTick}-${upperTick}`
+}
+
+function getPositionValue(positionSize: BigNumber, referencePrice: BigNumber): BigNumber {
+    return positionSize.isZero() ? BigNumber.from(0) : mulDiv(positionSize, referencePrice, X10_18)
+}
+
+function createOrderPnl(lowerTick: number, upperTick: number): OrderPnl {
+    return {
+        lowerTick,
+        upperTick,
+        liquidity: BigNumber.from(0),
+        collectedFee: BigNumber.from(0),
+        pendingFee: BigNumber.from(0),
+        impermanentPositionSize: BigNumber.from(0),
+        impermanentOpenNotional: BigNumber.from(0),
+        impermanentPnl: BigNumber.from(0),
+    }
+}
+
+// the orders of the market in the order of their first LiquidityChanged, followed by the open orders without any
+function getOrderPnls(baseToken: string, market: MarketSnapshot | undefined, history: MakerHistory): OrderPnl[] {
+    const orders: OrderPnl[] = []
+    const indexes: { [key: string]: number } = {}
+    const getOrder = (lowerTick: number, upperTick: number): OrderPnl => {
+        const key = getOrderKey(lowerTick, upperTick)
+        if (indexes[key] === undefined) {
+            indexes[key] = orders.length
+            orders.push(createOrderPnl(lowerTick, upperTick))
+        }
+        return orders[indexes[key]]
+    }
+
+    for (const change of history.liquidityChanges) {
+        if (change.baseToken === baseToken) {
+            const order = getOrder(change.lowerTick, change.upperTick)
+            order.collectedFee = order.collectedFee.add(change.quoteFee)
+        }
+    }
+    if (!market) {
+        return orders
+    }
+
+    for (const openOrder of market.orders) {
+        const order = getOrder(openOrder.lowerTick, openOrder.upperTick)
+        // OrderBook._getTotalTokenAmountInPool()
+        const { amount0, amount1 } = getAmountsForLiquidity(
+            market.sqrtPriceX96,
+            getSqrtRatioAtTick(openOrder.lowerTick),
+            getSqrtRatioAtTick(openOrder.upperTick),
+            openOrder.liquidity,
+        )
+        order.liquidity = openOrder.liquidity
+        order.pendingFee = openOrder.pendingFee
+        order.impermanentPositionSize = amount0.sub(openOrder.baseDebt)
+        order.impermanentOpenNotional = amount1.sub(openOrder.quoteDebt)
+        order.impermanentPnl = getPositionValue(order.impermanentPositionSize, market.referencePrice).add(
+            order.impermanentOpenNotional,
+        )
+    }
+    return orders
+}
+
+function sum<T>(items: T[], getValue: (item: T) => BigNumber): BigNumber {
+    return items.reduce((acc, item) => acc.add(getValue(item)), BigNumber.from(0))
+}
+
+// the markets of the snapshot followed by the ones only in the history
+// NOTE: AccountBalance values the whole position, while the impermanent and taker positions are valued separately
+// here, so unrealizedPnl may differ from the one of AccountBalance by the rounding of the dust position
+export function getMakerPnl(snapshot: AccountSnapshot, history: MakerHistory): MarketMakerPnl[] {
+    const baseTokens = snapshot.markets.map(market => market.baseToken)
+    const events = [
+        ...history.liquidityChanges,
+        ...history.positionChanges,
+        ...history.positionCloses,
+        ...history.liquidations,
+        ...history.fundingPayments,
+    ]
+    for (const { baseToken } of events) {
+        if (baseTokens.indexOf(baseToken) < 0) {
+            baseTokens.push(baseToken)
+        }
+    }
+
+    return baseTokens.map(baseToken => {
+        const market = snapshot.markets.find(market => market.baseToken === baseToken)
+        const orders = getOrderPnls(baseToken, market, history)
+        const referencePrice = market ? market.referencePrice : BigNumber.from(0)
+
+        const collectedFee = sum(orders, order => order.collectedFee)
+        const pendingFee = sum(orders, order => order.pendingFee)
+        const impermanentPnl = sum(orders, order => order.impermanentPnl)
+        const realizedFunding = sum(
+            history.fundingPayments.filter(payment => payment.baseToken === baseToken),
+            payment => payment.fundingPayment,
+        ).mul(-1)
+        const pendingFunding = market ? market.pendingFundingPayment.mul(-1) : BigNumber.from(0)
+        const realizedTakerPnl = sum(
+            [...history.positionChanges, ...history.positionCloses].filter(change => change.baseToken === baseToken),
+            change => change.realizedPnl,
+        )
+        const liquidationPenalty = sum(
+            history.liquidations.filter(liquidation => liquidation.baseToken === baseToken),
+            liquidation => liquidation.liquidationFee,
+        ).mul(-1)
+        const unrealizedTakerPnl = market
+            ? getPositionValue(market.takerPositionSize, referencePrice).add(market.takerOpenNotional)
+            : BigNumber.from(0)
+
+        const realizedPnl = collectedFee.add(realizedFunding).add(realizedTakerPnl).add(liquidationPenalty)
+        const unrealizedPnl = impermanentPnl.add(unrealizedTakerPnl)
+        return {
+            baseToken,
+            referencePrice,
+            orders,
+            collectedFee,
+            pendingFee,
+            impermanentPnl,
+            realizedFunding,
+            pendingFunding,
+            realizedTakerPnl,
+            liquidationPenalty,
+            unrealizedTakerPnl,
+            realizedPnl,
+            unrealizedPnl,
+            totalPnl: realizedPnl.add(unrealizedPnl).add(pendingFee).add(pendingFunding),
+        }
+    })
+}
+
+export async function loadMakerHistory(
+    clearingHouse: ClearingHouse,
+    maker: string,
+    fromBlock: number,
+    toBlock?: number,
+    blockRange = 2000,
+): Promise<MakerHistory> {
+    const lastBlock = toBlock === undefined ? await clearingHouse.provider.getBlockNumber() : toBlock
+    const { filters } = clearingHouse
+    const [liquidityEvents, positionEvents, closeEvents, liquidationEvents, fundingEvents] = await Promise.all([
+        queryInChunks(
+            (from, to) => clearingHouse.queryFilter(filters.LiquidityChanged(maker, null, null), from, to),
+            fromBlock,
+            lastBlock,
+            blockRange,
+        ),
+        queryInChunks(
+            (from, to) => clearingHouse.queryFilter(filters.PositionChanged(maker, null), from, to),
+            fromBlock,
+            lastBlock,
+            blockRange,
+        ),
+        queryInChunks(
+            (from, to) => clearingHouse.queryFilter(filters.PositionClosed(maker, null), from, to),
+            fromBlock,
+            lastBlock,
+            blockRange,
+        ),
+        queryInChunks(
+            (from, to) => clearingHouse.queryFilter(filters.PositionLiquidated(maker, null), from, to),
+            fromBlock,
+            lastBlock,
+            blockRange,
+        ),
+        queryInChunks(
+            (from, to) => clearingHouse.queryFilter(filters.FundingPaymentSettled(maker, null), from, to),
+            fromBlock,
+            lastBlock,
+            blockRange,
+        ),
+    ])
+
+    return {
+        liquidityChanges: liquidityEvents.map(event => ({
+            baseToken: event.args.baseToken,
+            lowerTick: event.args.lowerTick,
+            upperTick: event.args.upperTick,
+            liquidity: event.args.liquidity,
+            quoteFee: event.args.quoteFee,
+        })),
+        positionChanges: positionEvents.map(event => ({
+            baseToken: event.args.baseToken,
+            realizedPnl: event.args.realizedPnl,
+        })),
+        positionCloses: closeEvents.map(event => ({
+            baseToken: event.args.baseToken,
+            realizedPnl: event.args.realizedPnl,
+        })),
+        liquidations: liquidationEvents.map(event => ({
+            baseToken: event.args.baseToken,
+            liquidationFee: event.args.liquidationFee,
+        })),
+        fundingPayments: fundingEvents.map(event => ({
+            baseToken: event.args.baseToken,
+            fundingPayment: event.args.fundingPayment,
+        })),
+    }
+}
+
+export async function loadMakerPnl(
+    contracts: HealthContracts & { clearingHouse: ClearingHouse },
+    maker: string,
+    fromBlock = 0,
+): Promise<MarketMakerPnl[]> {
+    // the snapshot is taken at the last block of the history
+    const toBlock = await contracts.clearingHouse.provider.getBlockNumber()
+    const history = await loadMakerHistory(contracts.clearingHouse, maker, fromBlock, toBlock)
+    return getMakerPnl(await loadAccountSnapshot(contracts, maker), history)
+}
+
+// BigNumbers in 18 decimals except the liquidity of orders
+function formatValues(values: object): { [key: string]: unknown } {
+    const record: { [key: string]: unknown } = {}
+    for (const key of Object.keys(values)) {
+        const value = (values as { [key: string]: unknown })[key]
+        if (BigNumber.isBigNumber(value)) {
+            record[key] = key === "liquidity" ? value.toString() : formatEther(value)
+        } else {
+            record[key] = value
+        }
+    }
+    return record
+}
+
+export function formatMakerPnlJson(markets: MarketMakerPnl[]): string {
+    const json = markets.map(market => ({ ...formatValues(market), orders: market.orders.map(formatValues) }))
+    return `${JSON.stringify(json, null, 4)}\n`
+}
+
+// MAKER=0x... npm run maker-pnl -- --network optimism
+// optional: MAKER_FROM_BLOCK, the block since which the events are counted, 0 by default
+async function main(): Promise<void> {
+    const [signer] = await ethers.getSigners()
+    const manifest = loadDeployedManifest(network.name, await signer.getChainId())
+    const getAddress = (name: string) => getDeployedAddress(manifest, name)
+    const contracts = {
+        clearingHouse: ClearingHouse__factory.connect(getAddress("ClearingHouse"), signer),
+        vault: Vault__factory.connect(getAddress("Vault"), signer),
+        accountBalance: AccountBalance__factory.connect(getAddress("AccountBalance"), signer),
+        exchange: Exchange__factory.connect(getAddress("Exchange"), signer),
+        orderBook: OrderBook__factory.connect(getAddress("OrderBook"), signer),
+        marketRegistry: MarketRegistry__factory.connect(getAddress("MarketRegistry"), signer),
+        collateralManager: CollateralManager__factory.connect(getAddress("CollateralManager"), signer),
+        clearingHouseConfig: ClearingHouseConfig__factory.connect(getAddress("ClearingHouseConfig"), signer),
+    }
+    const maker = process.env.MAKER
+    if (!maker) {
+        throw new Error("MakerPnl: MAKER is not set")
+    }
+    const markets = await loadMakerPnl(contracts, maker, Number(process.env.MAKER_FROM_BLOCK || 0))
+    console.log(formatMakerPnlJson(markets))
+}
+
+if (require.main === module) {
+    main()
+        .then(() => process.exit(0))
+        .catch(error => {
+            console.error(error)
+            process.exit(1)
+        })
+}
@@ -0,0 +1,133 @@
+import Database from "better-sqlite3"
+
+export type IndexedEventName =
+    | "PositionChanged"
+    | "LiquidityChanged"
+    | "FundingPaymentSettled"
+    | "PnlRealized"
+    | "PositionLiquidated"
+    | "PositionClosed"
+    | "Deposited"
+    | "Withdrawn"
+    | "CollateralLiquidated"
+    | "BadDebtSettled"
+
+// an event log of ClearingHouse, AccountBalance or Vault, the arguments are kept by their names in the event
+// signature and BigNumbers are stored as decimal strings
+export interface IndexedEvent {
+    blockNumber: number
+    logIndex: number
+    txHash: string
+    name: IndexedEventName
+    // the trader (or maker) argument of the event
+    trader: string
+    args: { [name: string]: string | number | boolean }
+}
+
+export type MetaKey = "lastSyncedBlock" | "settlementToken" | "settlementTokenDecimals" | "insuranceFund"
+
+interface EventRow {
+    block_number: number
+    log_index: number
+    tx_hash: string
+    name: IndexedEventName
+    trader: string
+    args: string
+}
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS events (
+        block_number INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        tx_hash TEXT NOT NULL,
+        name TEXT NOT NULL,
+        trader TEXT NOT NULL,
+        args TEXT NOT NULL,
+        PRIMARY KEY (block_number, log_index)
+    );
+    CREATE INDEX IF NOT EXISTS events_by_trader ON events (trader, block_number, log_index);
+    CREATE INDEX IF NOT EXISTS events_by_name ON events (name, block_number, log_index);
+    CREATE TABLE IF NOT EXISTS meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+    );
+`
+
+function toEvent(row: EventRow): IndexedEvent {
+    return {
+        blockNumber: row.block_number,
+        logIndex: row.log_index,
+        txHash: row.tx_hash,
+        name: row.name,
+        trader: row.trader,
+        args: JSON.parse(row.args),
+    }
+}
+
+export class IndexerDatabase {
+    private readonly db: Database.Database
+
+    // use ":memory:" for a throwaway database
+    constructor(filename: string) {
+        this.db = new Database(filename)
+        this.db.exec(SCHEMA)
+    }
+
+    close(): void {
+        this.db.close()
+    }
+
+    getMeta(key: MetaKey): string | undefined {
+        const row = this.db.prepare("SELECT value FROM meta WHERE key = ?").get(key) as { value: string } | undefined
+        return row && row.value
+    }
+
+    setMeta(key: MetaKey, value: string | number): void {
+        this.db
+            .prepare(
+                "INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value",
+            )
+            .run(key, value.toString())
+    }
+
+    // the events and the new sync progress are written in one transaction, so an interrupted sync never leaves
+    // a partially indexed block range behind; re-inserting an indexed log is a no-op
+    insertEvents(events: IndexedEvent[], lastSyncedBlock: number): void {
+        const insert = this.db.prepare(
+            "INSERT OR IGNORE INTO events (block_number, log_index, tx_hash, name, trader, args) VALUES (?, ?, ?, ?, ?, ?)",
+        )
+        this.db.transaction(() => {
+            for (const event of events) {
+                insert.run(
+                    event.blockNumber,
+                    event.logIndex,
+                    event.txHash,
+                    event.name,
+                    event.trader,
+                    JSON.stringify(event.args),
+                )
+            }
+            this.setMeta("lastSyncedBlock", lastSyncedBlock)
+        })()
+    }
+
+    // the events of the trader up to the block (inclusive), in the order they were emitted;
+    // names are included regardless of the trader, e.g. the insurance fund side of BadDebtSettled
+    getEvents(trader: string, toBlock: number, includedNames: IndexedEventName[] = []): IndexedEvent[] {
+        const placeholders = includedNames.map(() => "?").join(", ")
+        const rows = this.db
+            .prepare(
+                `SELECT * FROM events WHERE (trader = ? OR name IN (${placeholders})) AND block_number <= ? ` +
+                    "ORDER BY block_number, log_index",
+            )
+            .all(trader, ...includedNames, toBlock) as EventRow[]
+        return rows.map(toEvent)
+    }
+
+    getTraders(): string[] {
+        const rows = this.db.prepare("SELECT DISTINCT trader FROM events ORDER BY trader").all() as {
+            trader: string
+        }[]
+        return rows.map(row => row.trader)
+    }
+}
@@ -0,0 +1,96 @@
+import { BaseContract, BigNumber, Event } from "ethers"
+import { AccountBalance, ClearingHouse, Vault } from "../../typechain"
+import { IndexedEvent, IndexedEventName, IndexerDatabase } from "./database"
+
+export interface EventIndexerContracts {
+    clearingHouse: ClearingHouse
+    accountBalance: AccountBalance
+    vault: Vault
+}
+
+// the events which change the state of a trader, by the contract emitting them
+// NOTE: PositionClosed is indexed as well since quitMarket() removes the position of a closed market
+const CLEARING_HOUSE_EVENTS: IndexedEventName[] = [
+    "PositionChanged",
+    "LiquidityChanged",
+    "FundingPaymentSettled",
+    "PositionLiquidated",
+    "PositionClosed",
+]
+const ACCOUNT_BALANCE_EVENTS: IndexedEventName[] = ["PnlRealized"]
+const VAULT_EVENTS: IndexedEventName[] = ["Deposited", "Withdrawn", "CollateralLiquidated", "BadDebtSettled"]
+
+function toIndexedEvent(contract: BaseContract, event: Event): IndexedEvent {
+    const args: IndexedEvent["args"] = {}
+    for (const input of contract.interface.getEvent(event.event).inputs) {
+        const value = event.args[input.name]
+        args[input.name] = BigNumber.isBigNumber(value) ? value.toString() : value
+    }
+    return {
+        blockNumber: event.blockNumber,
+        logIndex: event.logIndex,
+        txHash: event.transactionHash,
+        name: event.event as IndexedEventName,
+        // LiquidityChanged names it maker
+        trader: (args.trader || args.maker) as string,
+        args,
+    }
+}
+
+async function queryEvents(
+    contract: BaseContract,
+    names: IndexedEventName[],
+    fromBlock: number,
+    toBlock: number,
+): Promise<IndexedEvent[]> {
+    const topics = names.map(name => contract.interface.getEventTopic(name))
+    const events = await contract.queryFilter({ address: contract.address, topics: [topics] }, fromBlock, toBlock)
+    return events.map(event => toIndexedEvent(contract, event))
+}
+
+// pulls the events into the database incrementally, block ranges are queried in chunks of blockRange
+// to stay within the log limits of the rpc providers
+export class EventIndexer {
+    constructor(
+        readonly contracts: EventIndexerContracts,
+        readonly db: IndexerDatabase,
+        readonly fromBlock = 0,
+        readonly blockRange = 2000,
+    ) {}
+
+    // the settlement token and the insurance fund are needed to replay the vault events
+    async init(): Promise<void> {
+        const { vault } = this.contracts
+        if (this.db.getMeta("settlementToken") === undefined) {
+            this.db.setMeta("settlementToken", await vault.getSettlementToken())
+            this.db.setMeta("settlementTokenDecimals", await vault.decimals())
+            this.db.setMeta("insuranceFund", await vault.getInsuranceFund())
+        }
+    }
+
+    getLastSyncedBlock(): number {
+        const lastSyncedBlock = this.db.getMeta("lastSyncedBlock")
+        return lastSyncedBlock === undefined ? this.fromBlock - 1 : Number(lastSyncedBlock)
+    }
+
+    // index the events up to toBlock (inclusive, defaults to the latest block), returns the number of new events
+    async sync(toBlock?: number): Promise<number> {
+        await this.init()
+
+        const { clearingHouse, accountBalance, vault } = this.contracts
+        const lastBlock = toBlock === undefined ? await clearingHouse.provider.getBlockNumber() : toBlock
+        let count = 0
+        for (let from = this.getLastSyncedBlock() + 1; from <= lastBlock; from += this.blockRange) {
+            const to = Math.min(from + this.blockRange - 1, lastBlock)
+            const eventGroups = await Promise.all([
+                queryEvents(clearingHouse, CLEARING_HOUSE_EVENTS, from, to),
+                queryEvents(accountBalance, ACCOUNT_BALANCE_EVENTS, from, to),
+                queryEvents(vault, VAULT_EVENTS, from, to),
+            ])
+            const events = [].concat(...eventGroups) as IndexedEvent[]
+            this.db.insertEvents(events, to)
+            count += events.length
+        }
+        return count
+    }
+}
@@ -0,0 +1,197 @@
+import { BigNumber } from "ethers"
+import { getAddress } from "ethers/lib/utils"
+import { formatSettlementTokenInt } from "../math/settlementTokenMath"
+import { IndexedEvent, IndexedEventName, IndexerDatabase } from "./database"
+
+// AccountBalance._DUST
+const DUST = 10
+
+export interface MarketState {
+    // AccountBalance.getAccountInfo()
+    takerPositionSize: BigNumber
+    takerOpenNotional: BigNumber
+    // the liquidity of the open orders, keyed by `${lowerTick}:${upperTick}`
+    liquidities: { [range: string]: BigNumber }
+}
+
+export interface TraderState {
+    trader: string
+    blockNumber: number
+    // the registered markets, keyed by base token
+    markets: { [baseToken: string]: MarketState }
+    // AccountBalance.getPnlAndPendingFee()[0]
+    owedRealizedPnl: BigNumber
+    // Vault.getBalanceByToken(), keyed by collateral token
+    balances: { [token: string]: BigNumber }
+}
+
+export interface ReplayContext {
+    settlementToken: string
+    settlementTokenDecimals: number
+    insuranceFund: string
+}
+
+function addBalance(state: TraderState, token: string, amount: BigNumber): void {
+    state.balances[token] = (state.balances[token] || BigNumber.from(0)).add(amount)
+}
+
+function getOrCreateMarket(state: TraderState, baseToken: string): MarketState {
+    if (!state.markets[baseToken]) {
+        state.markets[baseToken] = {
+            takerPositionSize: BigNumber.from(0),
+            takerOpenNotional: BigNumber.from(0),
+            liquidities: {},
+        }
+    }
+    return state.markets[baseToken]
+}
+
+// same as AccountBalance._deregisterBaseToken()
+function deregisterBaseToken(state: TraderState, baseToken: string): void {
+    const market = state.markets[baseToken]
+    if (
+        !market ||
+        market.takerPositionSize.abs().gte(DUST) ||
+        market.takerOpenNotional.abs().gte(DUST) ||
+        Object.keys(market.liquidities).length > 0
+    ) {
+        return
+    }
+    delete state.markets[baseToken]
+}
+
+function applyEvent(state: TraderState, event: IndexedEvent, context: ReplayContext): void {
+    const { args } = event
+    const isTrader = event.trader === state.trader
+    switch (event.name) {
+        case "PositionChanged": {
+            // openNotional in the event is the one after the change
+            const market = getOrCreateMarket(state, args.baseToken as string)
+            market.takerPositionSize = market.takerPositionSize.add(args.exchangedPositionSize as string)
+            market.takerOpenNotional = BigNumber.from(args.openNotional)
+            break
+        }
+        case "LiquidityChanged": {
+            const market = getOrCreateMarket(state, args.baseToken as string)
+            const range = `${args.lowerTick}:${args.upperTick}`
+            const liquidity = (market.liquidities[range] || BigNumber.from(0)).add(args.liquidity as string)
+            if (liquidity.isZero()) {
+                delete market.liquidities[range]
+            } else {
+                market.liquidities[range] = liquidity
+            }
+            break
+        }
+        case "PnlRealized":
+            state.owedRealizedPnl = state.owedRealizedPnl.add(args.amount as string)
+            break
+        case "PositionClosed":
+            // AccountBalance.settlePositionInClosedMarket() deletes the market regardless of the dust
+            delete state.markets[args.baseToken as string]
+            break
+        case "Deposited":
+            addBalance(state, args.collateralToken as string, BigNumber.from(args.amount))
+            break
+        case "Withdrawn":
+            addBalance(state, args.collateralToken as string, BigNumber.from(args.amount).mul(-1))
+            // Vault._settleAndDecreaseBalance() settles owedRealizedPnl into the settlement token balance
+            if (args.collateralToken === context.settlementToken) {
+                addBalance(
+                    state,
+                    context.settlementToken,
+                    formatSettlementTokenInt(state.owedRealizedPnl, context.settlementTokenDecimals),
+                )
+                state.owedRealizedPnl = BigNumber.from(0)
+            }
+            break
+        case "CollateralLiquidated":
+            if (isTrader) {
+                addBalance(state, args.collateralToken as string, BigNumber.from(args.collateral).mul(-1))
+                addBalance(
+                    state,
+                    context.settlementToken,
+                    BigNumber.from(args.repaidSettlementWithoutInsuranceFundFeeX10_S),
+                )
+            }
+            if (state.trader === context.insuranceFund) {
+                addBalance(state, context.settlementToken, BigNumber.from(args.insuranceFundFeeX10_S))
+            }
+            break
+        case "BadDebtSettled":
+            if (isTrader) {
+                addBalance(state, context.settlementToken, BigNumber.from(args.amount))
+            }
+            if (state.trader === context.insuranceFund) {
+                addBalance(state, context.settlementToken, BigNumber.from(args.amount).mul(-1))
+            }
+            break
+        // FundingPaymentSettled and PositionLiquidated are kept for the history only, their effects are covered
+        // by PnlRealized and PositionChanged
+    }
+}
+
+// fold the events of a trader, in the order they were emitted, into the trader's state
+// NOTE: ClearingHouse.removeLiquidity() emits PositionChanged before LiquidityChanged, so the deregistration of
+// base tokens is checked at the end of each transaction, when the order book is up to date again
+export function replayEvents(
+    trader: string,
+    events: IndexedEvent[],
+    context: ReplayContext,
+    blockNumber: number,
+): TraderState {
+    const state: TraderState = {
+        trader,
+        blockNumber,
+        markets: {},
+        owedRealizedPnl: BigNumber.from(0),
+        balances: {},
+    }
+
+    let pendingBaseTokens: string[] = []
+    const deregisterPending = () => {
+        pendingBaseTokens.forEach(baseToken => deregisterBaseToken(state, baseToken))
+        pendingBaseTokens = []
+    }
+
+    events.forEach((event, i) => {
+        if (i > 0 && event.txHash !== events[i - 1].txHash) {
+            deregisterPending()
+        }
+        applyEvent(state, event, context)
+        if (event.name === "PositionChanged" && event.trader === trader) {
+            pendingBaseTokens.push(event.args.baseToken as string)
+        }
+    })
+    deregisterPending()
+
+    return state
+}
+
+export function getReplayContext(db: IndexerDatabase): ReplayContext {
+    const settlementToken = db.getMeta("settlementToken")
+    if (settlementToken === undefined) {
+        throw new Error("TraderState: the database is not initialized by EventIndexer")
+    }
+    return {
+        settlementToken,
+        settlementTokenDecimals: Number(db.getMeta("settlementTokenDecimals")),
+        insuranceFund: db.getMeta("insuranceFund"),
+    }
+}
+
+// the state of the trader at the end of the block, defaults to the last synced block
+export function getTraderState(db: IndexerDatabase, trader: string, blockNumber?: number): TraderState {
+    const context = getReplayContext(db)
+    const lastSyncedBlock = Number(db.getMeta("lastSyncedBlock"))
+    const toBlock = blockNumber === undefined ? lastSyncedBlock : blockNumber
+    if (toBlock > lastSyncedBlock) {
+        throw new Error(`TraderState: block ${toBlock} is not indexed yet, last synced block: ${lastSyncedBlock}`)
+    }
+
+    const address = getAddress(trader)
+    // the insurance fund is not the trader of the vault events moving its balance
+    const includedNames: IndexedEventName[] =
+        address === context.insuranceFund ? ["CollateralLiquidated", "BadDebtSettled"] : []
+    const events = db.getEvents(address, toBlock, includedNames)
+    return replayEvents(address, events, context, toBlock)
+}
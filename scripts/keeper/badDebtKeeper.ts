@@ -0,0 +1,196 @@
+import { BigNumber, constants, Signer } from "ethers"
+import {
+    AccountBalance,
+    AccountBalance__factory,
+    ClearingHouse,
+    ClearingHouse__factory,
+    InsuranceFund,
+    InsuranceFund__factory,
+    Vault,
+    Vault__factory,
+} from "../../typechain"
+import { max, min } from "../math/perpMath"
+import { getFromBlock, getKeeperSigner, requireEnv, runForever } from "./env"
+import { TraderIndex } from "./traderIndex"
+
+export interface BadDebtKeeperContracts {
+    clearingHouse: ClearingHouse
+    accountBalance: AccountBalance
+    vault: Vault
+    insuranceFund: InsuranceFund
+}
+
+export interface BadDebtSettlement {
+    trader: string
+    // in settlement token decimals
+    badDebt: BigNumber
+    txHash: string
+}
+
+export interface BadDebtKeeperReport {
+    settlements: BadDebtSettlement[]
+    // the amounts are zero when the corresponding tx is not sent, in settlement token decimals
+    repaid: BigNumber
+    distributed: BigNumber
+}
+
+// settles the bad debt of the traders and keeps the insurance fund healthy:
+// bad debt is moved to the insurance fund by Vault.settleBadDebt, then the insurance fund repays its debt
+// in the vault from its wallet, and finally distributes the surplus over the distribution threshold
+export class BadDebtKeeper {
+    readonly traderIndex: TraderIndex
+
+    constructor(
+        readonly contracts: BadDebtKeeperContracts,
+        readonly signer: Signer,
+        fromBlock = 0,
+        private readonly log: (message: string) => void = console.log,
+    ) {
+        this.traderIndex = new TraderIndex(contracts.clearingHouse, contracts.vault, fromBlock)
+    }
+
+    // Vault.settleBadDebt does nothing if the trader still has any position or non-settlement collateral,
+    // in which case the account value is not simply the settlement token balance
+    async getBadDebt(trader: string): Promise<BigNumber> {
+        const { accountBalance, vault, insuranceFund } = this.contracts
+        if (trader === insuranceFund.address) {
+            return BigNumber.from(0)
+        }
+
+        const [baseTokens, collateralTokens] = await Promise.all([
+            accountBalance.getBaseTokens(trader),
+            vault.getCollateralTokens(trader),
+        ])
+        if (baseTokens.length !== 0 || collateralTokens.length !== 0) {
+            return BigNumber.from(0)
+        }
+
+        const accountValue = await vault.getAccountValue(trader)
+        return accountValue.lt(0) ? accountValue.mul(-1) : BigNumber.from(0)
+    }
+
+    async settleBadDebts(): Promise<BadDebtSettlement[]> {
+        const settlements: BadDebtSettlement[] = []
+        for (const trader of this.traderIndex.getTraders()) {
+            try {
+                const badDebt = await this.getBadDebt(trader)
+                if (badDebt.isZero()) {
+                    continue
+                }
+
+                const tx = await this.contracts.vault.connect(this.signer).settleBadDebt(trader)
+                await tx.wait()
+                this.log(`settled bad debt ${badDebt.toString()} of ${trader}: ${tx.hash}`)
+                settlements.push({ trader, badDebt, txHash: tx.hash })
+            } catch (error) {
+                this.log(`failed to settle bad debt of ${trader}: ${error.message}`)
+            }
+        }
+        return settlements
+    }
+
+    // same as InsuranceFund.repay(): min(wallet balance, -settlement token value in vault),
+    // where the wallet balance is the capacity without the settlement token value
+    async getRepayableAmount(): Promise<BigNumber> {
+        const { vault, insuranceFund } = this.contracts
+        const [settlementTokenValue, capacity] = await Promise.all([
+            vault.getSettlementTokenValue(insuranceFund.address),
+            insuranceFund.getInsuranceFundCapacity(),
+        ])
+        if (settlementTokenValue.gte(0)) {
+            return BigNumber.from(0)
+        }
+
+        const walletBalance = capacity.sub(settlementTokenValue)
+        return min(walletBalance, settlementTokenValue.mul(-1))
+    }
+
+    async repay(): Promise<BigNumber> {
+        const amount = await this.getRepayableAmount()
+        if (amount.lte(0)) {
+            return BigNumber.from(0)
+        }
+
+        const tx = await this.contracts.insuranceFund.connect(this.signer).repay()
+        await tx.wait()
+        this.log(`repaid ${amount.toString()} of the insurance fund: ${tx.hash}`)
+        return amount
+    }
+
+    // same as InsuranceFund.distributeFee(): min(max(capacity - distributionThreshold, 0), free collateral)
+    async getDistributableSurplus(): Promise<BigNumber> {
+        const { vault, insuranceFund } = this.contracts
+        const [surplusBeneficiary, distributionThreshold] = await Promise.all([
+            insuranceFund.getSurplusBeneficiary(),
+            insuranceFund.getDistributionThreshold(),
+        ])
+        // distributeFee() reverts with IF_SNS or IF_DTEZ
+        if (surplusBeneficiary === constants.AddressZero || distributionThreshold.isZero()) {
+            return BigNumber.from(0)
+        }
+
+        const [capacity, freeCollateral] = await Promise.all([
+            insuranceFund.getInsuranceFundCapacity(),
+            vault.getFreeCollateralByToken(insuranceFund.address, await insuranceFund.getToken()),
+        ])
+        return min(max(capacity.sub(distributionThreshold), 0), freeCollateral)
+    }
+
+    async distributeFee(): Promise<BigNumber> {
+        const surplus = await this.getDistributableSurplus()
+        if (surplus.lte(0)) {
+            return BigNumber.from(0)
+        }
+
+        const tx = await this.contracts.insuranceFund.connect(this.signer).distributeFee()
+        await tx.wait()
+        this.log(`distributed ${surplus.toString()} of the insurance fund: ${tx.hash}`)
+        return surplus
+    }
+
+    // the order matters: settling bad debt lowers the insurance fund value, which has to be repaid
+    // before anything can be distributed
+    async runOnce(): Promise<BadDebtKeeperReport> {
+        await this.traderIndex.sync()
+
+        const settlements = await this.settleBadDebts()
+        const report: BadDebtKeeperReport = { settlements, repaid: BigNumber.from(0), distributed: BigNumber.from(0) }
+        try {
+            report.repaid = await this.repay()
+        } catch (error) {
+            this.log(`failed to repay the insurance fund: ${error.message}`)
+        }
+        try {
+            report.distributed = await this.distributeFee()
+        } catch (error) {
+            this.log(`failed to distribute the fee of the insurance fund: ${error.message}`)
+        }
+        return report
+    }
+}
+
+async function main(): Promise<void> {
+    const signer = getKeeperSigner()
+    const keeper = new BadDebtKeeper(
+        {
+            clearingHouse: ClearingHouse__factory.connect(requireEnv("CLEARING_HOUSE"), signer),
+            accountBalance: AccountBalance__factory.connect(requireEnv("ACCOUNT_BALANCE"), signer),
+            vault: Vault__factory.connect(requireEnv("VAULT"), signer),
+            insuranceFund: InsuranceFund__factory.connect(requireEnv("INSURANCE_FUND"), signer),
+        },
+        signer,
+        getFromBlock(),
+    )
+    await runForever(async () => {
+        await keeper.runOnce()
+    })
+}
+
+if (require.main === module) {
+    main()
+        .then(() => process.exit(0))
+        .catch(error => {
+            console.error(error)
+            process.exit(1)
+        })
+}
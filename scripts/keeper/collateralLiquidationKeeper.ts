@@ -0,0 +1,245 @@
+import { BigNumber, constants, Signer } from "ethers"
+import { formatUnits } from "ethers/lib/utils"
+import {
+    ClearingHouse,
+    ClearingHouse__factory,
+    CollateralManager,
+    CollateralManager__factory,
+    IERC20Metadata__factory,
+    Vault,
+    Vault__factory,
+} from "../../typechain"
+import { COLLATERAL_TWAP_INTERVAL } from "../health/accountSnapshot"
+import { mulDiv } from "../math/fullMath"
+import { convertTokenDecimals, formatSettlementToken } from "../math/settlementTokenMath"
+import { getFromBlock, getKeeperSigner, isDryRun, requireEnv, runForever } from "./env"
+import { TraderIndex } from "./traderIndex"
+
+export interface CollateralLiquidationKeeperContracts {
+    clearingHouse: ClearingHouse
+    vault: Vault
+    collateralManager: CollateralManager
+}
+
+export interface CollateralLiquidationCandidate {
+    trader: string
+    token: string
+    tokenDecimals: number
+    discountRatio: number
+    // the amount of collateral to be liquidated, in token decimals
+    collateral: BigNumber
+    // the settlement token paid by the liquidator, in settlement token decimals
+    repaidSettlement: BigNumber
+    // the value of the collateral at index twap without discount, in settlement token decimals
+    collateralValue: BigNumber
+    // collateralValue - repaidSettlement
+    profit: BigNumber
+}
+
+export interface CollateralLiquidationResult extends CollateralLiquidationCandidate {
+    txHash: string
+}
+
+// the value of the collateral in settlement token decimals, same as Vault._getSettlementByCollateral()
+// but priced by the undiscounted index twap
+function getCollateralValue(
+    collateral: BigNumber,
+    tokenDecimals: number,
+    indexTwap: BigNumber,
+    priceFeedDecimals: number,
+    settlementTokenDecimals: number,
+): BigNumber {
+    const priceFeedUnit = BigNumber.from(10).pow(priceFeedDecimals)
+    const valueX10_18 =
+        tokenDecimals > 18
+            ? convertTokenDecimals(mulDiv(collateral, indexTwap, priceFeedUnit), tokenDecimals, 18)
+            : mulDiv(convertTokenDecimals(collateral, tokenDecimals, 18), indexTwap, priceFeedUnit)
+    return formatSettlementToken(valueX10_18, settlementTokenDecimals)
+}
+
+export class CollateralLiquidationKeeper {
+    readonly traderIndex: TraderIndex
+
+    constructor(
+        readonly contracts: CollateralLiquidationKeeperContracts,
+        readonly liquidator: Signer,
+        fromBlock = 0,
+        private readonly log: (message: string) => void = console.log,
+    ) {
+        this.traderIndex = new TraderIndex(contracts.clearingHouse, contracts.vault, fromBlock)
+    }
+
+    // the liquidation of every collateral token of the trader, sized by the max repaid settlement of Vault and
+    // the settlement token balance of the liquidator
+    async getCandidates(trader: string): Promise<CollateralLiquidationCandidate[]> {
+        const { vault, collateralManager } = this.contracts
+        const settlementToken = IERC20Metadata__factory.connect(await vault.getSettlementToken(), vault.provider)
+        const [settlementTokenDecimals, budget] = await Promise.all([
+            settlementToken.decimals(),
+            settlementToken.balanceOf(await this.liquidator.getAddress()),
+        ])
+
+        const candidates: CollateralLiquidationCandidate[] = []
+        for (const token of await vault.getCollateralTokens(trader)) {
+            const [{ maxRepaidSettlementX10_S, maxLiquidatableCollateral }, config, indexTwap, priceFeedDecimals] =
+                await Promise.all([
+                    vault.getMaxRepaidSettlementAndLiquidatableCollateral(trader, token),
+                    collateralManager.getCollateralConfig(token),
+                    collateralManager.getPrice(token, COLLATERAL_TWAP_INTERVAL),
+                    collateralManager.getPriceFeedDecimals(token),
+                ])
+
+            // same as Vault.liquidateCollateral(), repaying the max amount takes maxRepaidSettlementX10_S as is
+            let collateral = maxLiquidatableCollateral
+            let repaidSettlement = maxRepaidSettlementX10_S
+            if (maxRepaidSettlementX10_S.gt(budget)) {
+                collateral = await vault.getLiquidatableCollateralBySettlement(token, budget)
+                repaidSettlement = await vault.getRepaidSettlementByCollateral(token, collateral)
+                // the collateral is rounded up, take one unit less if it costs more than the budget
+                if (repaidSettlement.gt(budget)) {
+                    collateral = collateral.sub(1)
+                    repaidSettlement = await vault.getRepaidSettlementByCollateral(token, collateral)
+                }
+            }
+            if (collateral.lte(0)) {
+                continue
+            }
+
+            const tokenDecimals = await IERC20Metadata__factory.connect(token, vault.provider).decimals()
+            const collateralValue = getCollateralValue(
+                collateral,
+                tokenDecimals,
+                indexTwap,
+                priceFeedDecimals,
+                settlementTokenDecimals,
+            )
+            candidates.push({
+                trader,
+                token,
+                tokenDecimals,
+                discountRatio: config.discountRatio,
+                collateral,
+                repaidSettlement,
+                collateralValue,
+                profit: collateralValue.sub(repaidSettlement),
+            })
+        }
+        return candidates
+    }
+
+    // the most profitable candidate, or undefined if the trader is not liquidatable or nothing is profitable
+    async findBestCandidate(trader: string): Promise<CollateralLiquidationCandidate | undefined> {
+        if (!(await this.contracts.vault.isLiquidatable(trader))) {
+            return undefined
+        }
+
+        let best: CollateralLiquidationCandidate | undefined
+        for (const candidate of await this.getCandidates(trader)) {
+            if (candidate.profit.gt(0) && (!best || candidate.profit.gt(best.profit))) {
+                best = candidate
+            }
+        }
+        return best
+    }
+
+    async liquidate(candidate: CollateralLiquidationCandidate): Promise<CollateralLiquidationResult> {
+        const { vault } = this.contracts
+        const settlementToken = IERC20Metadata__factory.connect(await vault.getSettlementToken(), this.liquidator)
+        const allowance = await settlementToken.allowance(await this.liquidator.getAddress(), vault.address)
+        if (allowance.lt(candidate.repaidSettlement)) {
+            await (await settlementToken.approve(vault.address, constants.MaxUint256)).wait()
+        }
+
+        // denominated in the collateral token so that the repaid settlement is exactly the one of the candidate
+        const tx = await vault
+            .connect(this.liquidator)
+            .liquidateCollateral(candidate.trader, candidate.token, candidate.collateral, false)
+        await tx.wait()
+        this.log(`liquidated ${formatCandidate(candidate, await vault.decimals())}: ${tx.hash}`)
+        return { ...candidate, txHash: tx.hash }
+    }
+
+    // dry run: index the new traders and report the most profitable collateral of each liquidatable trader
+    async report(): Promise<CollateralLiquidationCandidate[]> {
+        await this.traderIndex.sync()
+
+        const settlementTokenDecimals = await this.contracts.vault.decimals()
+        const candidates: CollateralLiquidationCandidate[] = []
+        for (const trader of this.traderIndex.getTraders()) {
+            try {
+                const candidate = await this.findBestCandidate(trader)
+                if (candidate) {
+                    this.log(formatCandidate(candidate, settlementTokenDecimals))
+                    candidates.push(candidate)
+                }
+            } catch (error) {
+                this.log(`failed to evaluate collateral of ${trader}: ${error.message}`)
+            }
+        }
+        return candidates
+    }
+
+    // index the new traders and liquidate the most profitable collateral of each liquidatable trader,
+    // a failed trader does not stop the others
+    async runOnce(): Promise<CollateralLiquidationResult[]> {
+        await this.traderIndex.sync()
+
+        const results: CollateralLiquidationResult[] = []
+        for (const trader of this.traderIndex.getTraders()) {
+            try {
+                const candidate = await this.findBestCandidate(trader)
+                if (candidate) {
+                    results.push(await this.liquidate(candidate))
+                }
+            } catch (error) {
+                this.log(`failed to liquidate collateral of ${trader}: ${error.message}`)
+            }
+        }
+        return results
+    }
+}
+
+export function formatCandidate(candidate: CollateralLiquidationCandidate, settlementTokenDecimals: number): string {
+    const { trader, token, tokenDecimals, discountRatio, collateral } = candidate
+    const formatSettlement = (value: BigNumber) => formatUnits(value, settlementTokenDecimals)
+    return [
+        `trader: ${trader}`,
+        `token: ${token}`,
+        `discount: ${discountRatio / 1e4}%`,
+        `collateral: ${formatUnits(collateral, tokenDecimals)}`,
+        `value: ${formatSettlement(candidate.collateralValue)}`,
+        `repaid: ${formatSettlement(candidate.repaidSettlement)}`,
+        `profit: ${formatSettlement(candidate.profit)}`,
+    ].join(", ")
+}
+
+async function main(): Promise<void> {
+    const signer = getKeeperSigner()
+    const keeper = new CollateralLiquidationKeeper(
+        {
+            clearingHouse: ClearingHouse__factory.connect(requireEnv("CLEARING_HOUSE"), signer),
+            vault: Vault__factory.connect(requireEnv("VAULT"), signer),
+            collateralManager: CollateralManager__factory.connect(requireEnv("COLLATERAL_MANAGER"), signer),
+        },
+        signer,
+        getFromBlock(),
+    )
+
+    // a dry run reports the candidates once and exits
+    if (isDryRun()) {
+        await keeper.report()
+        return
+    }
+    await runForever(async () => {
+        await keeper.runOnce()
+    })
+}
+
+if (require.main === module) {
+    main()
+        .then(() => process.exit(0))
+        .catch(error => {
+            console.error(error)
+            process.exit(1)
+        })
+}
@@ -0,0 +1,42 @@
+import { providers, Wallet } from "ethers"
+
+// environment variables shared by the keepers:
+//   RPC_URL, KEEPER_PRIVATE_KEY, KEEPER_FROM_BLOCK (default 0), KEEPER_POLL_INTERVAL (ms, default 15000),
+//   KEEPER_DRY_RUN ("true" to report without sending any transaction)
+//   and the contract addresses, e.g. CLEARING_HOUSE, ACCOUNT_BALANCE, VAULT
+
+export function requireEnv(name: string): string {
+    const value = process.env[name]
+    if (!value) {
+        throw new Error(`env ${name} is not set`)
+    }
+    return value
+}
+
+export function getKeeperSigner(): Wallet {
+    return new Wallet(requireEnv("KEEPER_PRIVATE_KEY"), new providers.JsonRpcProvider(requireEnv("RPC_URL")))
+}
+
+export function getFromBlock(): number {
+    return Number(process.env.KEEPER_FROM_BLOCK || 0)
+}
+
+export function getPollInterval(): number {
+    return Number(process.env.KEEPER_POLL_INTERVAL || 15000)
+}
+
+export function isDryRun(): boolean {
+    return process.env.KEEPER_DRY_RUN === "true"
+}
+
+// run the task every interval until the process exits, errors are logged instead of stopping the loop
+export async function runForever(task: () => Promise<void>, interval: number = getPollInterval()): Promise<void> {
+    while (true) {
+        try {
+            await task()
+        } catch (error) {
+            console.error(error)
+        }
+        await new Promise(resolve => setTimeout(resolve, interval))
+    }
+}
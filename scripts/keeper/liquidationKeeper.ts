@@ -0,0 +1,149 @@
+import { BigNumber, Signer } from "ethers"
+import {
+    AccountBalance,
+    AccountBalance__factory,
+    BaseToken__factory,
+    ClearingHouse,
+    ClearingHouse__factory,
+    OrderBook,
+    OrderBook__factory,
+    Vault,
+    Vault__factory,
+} from "../../typechain"
+import { getFromBlock, getKeeperSigner, requireEnv, runForever } from "./env"
+import { TraderIndex } from "./traderIndex"
+
+export interface LiquidationKeeperContracts {
+    clearingHouse: ClearingHouse
+    accountBalance: AccountBalance
+    orderBook: OrderBook
+    vault: Vault
+}
+
+export interface LiquidationResult {
+    trader: string
+    baseToken: string
+    positionSize: BigNumber
+    txHash: string
+}
+
+export class LiquidationKeeper {
+    readonly traderIndex: TraderIndex
+
+    constructor(
+        readonly contracts: LiquidationKeeperContracts,
+        readonly liquidator: Signer,
+        fromBlock = 0,
+        private readonly log: (message: string) => void = console.log,
+    ) {
+        this.traderIndex = new TraderIndex(contracts.clearingHouse, contracts.vault, fromBlock)
+    }
+
+    // same as ClearingHouse._isLiquidatable: accountValue < margin requirement for liquidation
+    // NOTE: Vault.isLiquidatable is the condition of collateral liquidation, it is always false for the traders
+    // who only deposit settlement token, so it cannot be used to find the liquidatable positions
+    async isLiquidatable(trader: string): Promise<boolean> {
+        const { clearingHouse, accountBalance } = this.contracts
+        const [accountValue, marginRequirement] = await Promise.all([
+            clearingHouse.getAccountValue(trader),
+            accountBalance.getMarginRequirementForLiquidation(trader),
+        ])
+        return accountValue.lt(marginRequirement)
+    }
+
+    // ClearingHouse._liquidate requires the trader to have no order in any market (CH_CLWTISO),
+    // so the orders of a maker have to be cancelled before the liquidation
+    async cancelExcessOrders(trader: string): Promise<string[]> {
+        const { clearingHouse, accountBalance, orderBook } = this.contracts
+        const txHashes: string[] = []
+        for (const baseToken of await accountBalance.getBaseTokens(trader)) {
+            const orderIds = await orderBook.getOpenOrderIds(trader, baseToken)
+            if (orderIds.length === 0 || !(await this.isMarketOpen(baseToken))) {
+                continue
+            }
+
+            const tx = await clearingHouse.connect(this.liquidator).cancelAllExcessOrders(trader, baseToken)
+            await tx.wait()
+            this.log(`cancelled ${orderIds.length} orders of ${trader} in ${baseToken}: ${tx.hash}`)
+            txHashes.push(tx.hash)
+        }
+        return txHashes
+    }
+
+    // liquidate as much as AccountBalance.getLiquidatablePositionSize allows in every open market of the trader,
+    // the account value is re-read before each market since every liquidation changes it
+    async liquidate(trader: string): Promise<LiquidationResult[]> {
+        if (!(await this.isLiquidatable(trader))) {
+            return []
+        }
+
+        await this.cancelExcessOrders(trader)
+
+        const { clearingHouse, accountBalance } = this.contracts
+        const results: LiquidationResult[] = []
+        for (const baseToken of await accountBalance.getBaseTokens(trader)) {
+            if (!(await this.isMarketOpen(baseToken))) {
+                continue
+            }
+
+            const accountValue = await clearingHouse.getAccountValue(trader)
+            const positionSize = await accountBalance.getLiquidatablePositionSize(trader, baseToken, accountValue)
+            if (positionSize.isZero()) {
+                continue
+            }
+
+            const tx = await clearingHouse
+                .connect(this.liquidator)
+                ["liquidate(address,address,int256)"](trader, baseToken, positionSize)
+            await tx.wait()
+            this.log(`liquidated ${positionSize.toString()} of ${trader} in ${baseToken}: ${tx.hash}`)
+            results.push({ trader, baseToken, positionSize, txHash: tx.hash })
+        }
+        return results
+    }
+
+    // index the new traders and try to liquidate all of them, a failed trader does not stop the others
+    async runOnce(): Promise<LiquidationResult[]> {
+        await this.traderIndex.sync()
+
+        const results: LiquidationResult[] = []
+        for (const trader of this.traderIndex.getTraders()) {
+            try {
+                results.push(...(await this.liquidate(trader)))
+            } catch (error) {
+                this.log(`failed to liquidate ${trader}: ${error.message}`)
+            }
+        }
+        return results
+    }
+
+    private async isMarketOpen(baseToken: string): Promise<boolean> {
+        return BaseToken__factory.connect(baseToken, this.contracts.clearingHouse.provider).isOpen()
+    }
+}
+
+async function main(): Promise<void> {
+    const signer = getKeeperSigner()
+    const keeper = new LiquidationKeeper(
+        {
+            clearingHouse: ClearingHouse__factory.connect(requireEnv("CLEARING_HOUSE"), signer),
+            accountBalance: AccountBalance__factory.connect(requireEnv("ACCOUNT_BALANCE"), signer),
+            orderBook: OrderBook__factory.connect(requireEnv("ORDER_BOOK"), signer),
+            vault: Vault__factory.connect(requireEnv("VAULT"), signer),
+        },
+        signer,
+        getFromBlock(),
+    )
+    await runForever(async () => {
+        await keeper.runOnce()
+    })
+}
+
+if (require.main === module) {
+    main()
+        .then(() => process.exit(0))
+        .catch(error => {
+            console.error(error)
+            process.exit(1)
+        })
+}
@@ -0,0 +1,274 @@
+import { BigNumber, BigNumberish } from "ethers"
+import {
+    AccountBalance__factory,
+    BaseToken__factory,
+    ClearingHouse__factory,
+    MarketRegistry,
+    MarketRegistry__factory,
+    OrderBook__factory,
+    UniswapV3Pool__factory,
+    Vault__factory,
+} from "../../typechain"
+import { LiquidityChange, PerpClient } from "../sdk/perpClient"
+import { getKeeperSigner, requireEnv, runForever } from "./env"
+
+export interface MakerMarketConfig {
+    baseToken: string
+    // the amounts of a new range in 18 decimals, e.g. "1.5"; the pool takes as much as the price allows
+    base: string
+    quote: string
+    // a new range is [tick - halfRangeTicks, tick + halfRangeTicks) rounded outwards to the tick spacing,
+    // 1 tick is about 0.01% of the price
+    halfRangeTicks: number
+    // the range is moved when the tick of the pool is more than bandTicks away from the center of it
+    bandTicks: number
+    // the pending fee of a range in band is collected when it is at least this, in quote of 18 decimals
+    minFeeToCollect?: BigNumberish
+}
+
+export interface MakerRange {
+    lowerTick: number
+    upperTick: number
+}
+
+export interface MakerMarketResult {
+    baseToken: string
+    tick: number
+    removed: LiquidityChange[]
+    added?: LiquidityChange
+    collected?: LiquidityChange
+    // the fee collected and the pnl realized when the impermanent position becomes a taker position,
+    // i.e. PositionChanged.realizedPnl of removeLiquidity()
+    collectedFee: BigNumber
+    realizedPnl: BigNumber
+}
+
+export interface MakerPnl {
+    collectedFee: BigNumber
+    realizedPnl: BigNumber
+}
+
+// keeps one range of liquidity around the price of each market by moving it when the price leaves the band
+// NOTE: the bot only manages the ranges it adds or adopts, the other orders of the maker are left untouched but still
+// count towards MarketRegistry.getMaxOrdersPerMarket()
+export class MakerBot {
+    private readonly rangesByBaseToken: { [baseToken: string]: MakerRange[] } = {}
+    private readonly pnlByBaseToken: { [baseToken: string]: MakerPnl } = {}
+
+    constructor(
+        readonly client: PerpClient,
+        readonly marketRegistry: MarketRegistry,
+        readonly markets: MakerMarketConfig[],
+        private readonly log: (message: string) => void = console.log,
+    ) {
+        for (const market of markets) {
+            if (market.halfRangeTicks <= 0 || market.bandTicks < 0) {
+                throw new Error(`MakerBot: invalid range of ${market.baseToken}`)
+            }
+            this.rangesByBaseToken[market.baseToken] = []
+            this.pnlByBaseToken[market.baseToken] = { collectedFee: BigNumber.from(0), realizedPnl: BigNumber.from(0) }
+        }
+    }
+
+    // manage the open orders the maker already has in the markets, e.g. after a restart
+    async adoptOpenOrders(): Promise<void> {
+        const { orderBook } = this.client.contracts
+        const maker = await this.client.signer.getAddress()
+        for (const { baseToken } of this.markets) {
+            for (const orderId of await orderBook.getOpenOrderIds(maker, baseToken)) {
+                const { lowerTick, upperTick } = await orderBook.getOpenOrderById(orderId)
+                if (!this.findRange(baseToken, lowerTick, upperTick)) {
+                    this.rangesByBaseToken[baseToken].push({ lowerTick, upperTick })
+                }
+            }
+        }
+    }
+
+    getRanges(baseToken: string): MakerRange[] {
+        return this.rangesByBaseToken[baseToken].map(range => ({ ...range }))
+    }
+
+    // the realized pnl of the maker since the bot starts, collectedFee + realizedPnl
+    getPnl(baseToken: string): MakerPnl {
+        return { ...this.pnlByBaseToken[baseToken] }
+    }
+
+    async runOnce(): Promise<MakerMarketResult[]> {
+        const results: MakerMarketResult[] = []
+        for (const market of this.markets) {
+            try {
+                const result = await this.runMarket(market)
+                if (result) {
+                    results.push(result)
+                }
+            } catch (error) {
+                this.log(`failed to rebalance ${market.baseToken}: ${error.message}`)
+            }
+        }
+        return results
+    }
+
+    private async runMarket(market: MakerMarketConfig): Promise<MakerMarketResult | undefined> {
+        const { baseToken } = market
+        const { orderBook } = this.client.contracts
+        const provider = this.marketRegistry.provider
+        // liquidity cannot be changed in a paused or closed market
+        if (!(await BaseToken__factory.connect(baseToken, provider).isOpen())) {
+            return undefined
+        }
+
+        // forget the ranges removed by others, e.g. cancelled as excess orders
+        const maker = await this.client.signer.getAddress()
+        const ranges: MakerRange[] = []
+        for (const range of this.rangesByBaseToken[baseToken]) {
+            const { liquidity } = await orderBook.getOpenOrder(maker, baseToken, range.lowerTick, range.upperTick)
+            if (!liquidity.isZero()) {
+                ranges.push(range)
+            }
+        }
+        this.rangesByBaseToken[baseToken] = ranges
+
+        const pool = UniswapV3Pool__factory.connect(await this.marketRegistry.getPool(baseToken), provider)
+        const [{ tick }, tickSpacing] = await Promise.all([pool.slot0(), pool.tickSpacing()])
+        const result: MakerMarketResult = {
+            baseToken,
+            tick,
+            removed: [],
+            collectedFee: BigNumber.from(0),
+            realizedPnl: BigNumber.from(0),
+        }
+
+        const inBand = ranges.filter(
+            range => Math.abs(tick - (range.lowerTick + range.upperTick) / 2) <= market.bandTicks,
+        )
+        if (inBand.length > 0) {
+            const collected = await this.collectFee(market, inBand[0], result)
+            return collected ? result : undefined
+        }
+
+        for (const range of ranges) {
+            const removed = await this.client.removeLiquidity(baseToken, range.lowerTick, range.upperTick)
+            result.removed.push(removed)
+            await this.addPnl(result, removed)
+            this.log(
+                `removed [${range.lowerTick}, ${range.upperTick}) of ${baseToken} at tick ${tick}: ${removed.txHash}`,
+            )
+        }
+        this.rangesByBaseToken[baseToken] = []
+
+        const newRange = getRange(tick, market.halfRangeTicks, tickSpacing)
+        const orderIds = await orderBook.getOpenOrderIds(maker, baseToken)
+        const { liquidity } = await orderBook.getOpenOrder(maker, baseToken, newRange.lowerTick, newRange.upperTick)
+        // adding liquidity to an existing order does not open a new one
+        if (liquidity.isZero() && orderIds.length >= (await this.marketRegistry.getMaxOrdersPerMarket())) {
+            this.log(`skip adding liquidity to ${baseToken} since the maker has ${orderIds.length} orders at most`)
+            return result
+        }
+
+        result.added = await this.client.addLiquidity(baseToken, {
+            base: market.base,
+            quote: market.quote,
+            lowerTick: newRange.lowerTick,
+            upperTick: newRange.upperTick,
+        })
+        await this.addPnl(result, result.added)
+        this.rangesByBaseToken[baseToken].push(newRange)
+        this.log(`added [${newRange.lowerTick}, ${newRange.upperTick}) of ${baseToken}: ${result.added.txHash}`)
+        return result
+    }
+
+    private async collectFee(
+        market: MakerMarketConfig,
+        range: MakerRange,
+        result: MakerMarketResult,
+    ): Promise<boolean> {
+        if (market.minFeeToCollect === undefined) {
+            return false
+        }
+        const { baseToken } = market
+        const { lowerTick, upperTick } = range
+        const maker = await this.client.signer.getAddress()
+        const pendingFee = await this.client.contracts.orderBook.getPendingFee(maker, baseToken, lowerTick, upperTick)
+        if (pendingFee.isZero() || pendingFee.lt(market.minFeeToCollect)) {
+            return false
+        }
+
+        result.collected = await this.client.collectFee(baseToken, lowerTick, upperTick)
+        await this.addPnl(result, result.collected)
+        this.log(`collected ${result.collected.quoteFee.toString()} fee of ${baseToken}: ${result.collected.txHash}`)
+        return true
+    }
+
+    // the fee is collected whenever the liquidity of an order changes, see ClearingHouse.addLiquidity() and
+    // removeLiquidity(), and removeLiquidity() realizes the pnl of the taker position it changes
+    private async addPnl(result: MakerMarketResult, change: LiquidityChange): Promise<void> {
+        const { clearingHouse } = this.client.contracts
+        const receipt = await clearingHouse.provider.getTransactionReceipt(change.txHash)
+        let realizedPnl = BigNumber.from(0)
+        for (const log of receipt.logs) {
+            if (log.address !== clearingHouse.address) {
+                continue
+            }
+            const event = clearingHouse.interface.parseLog(log)
+            if (event.name === "PositionChanged") {
+                realizedPnl = realizedPnl.add(event.args.realizedPnl)
+            }
+        }
+
+        const pnl = this.pnlByBaseToken[result.baseToken]
+        pnl.collectedFee = pnl.collectedFee.add(change.quoteFee)
+        pnl.realizedPnl = pnl.realizedPnl.add(realizedPnl)
+        result.collectedFee = result.collectedFee.add(change.quoteFee)
+        result.realizedPnl = result.realizedPnl.add(realizedPnl)
+    }
+
+    private findRange(baseToken: string, lowerTick: number, upperTick: number): MakerRange | undefined {
+        return this.rangesByBaseToken[baseToken].find(
+            range => range.lowerTick === lowerTick && range.upperTick === upperTick,
+        )
+    }
+}
+
+// [tick - halfRangeTicks, tick + halfRangeTicks) rounded outwards to the usable ticks
+export function getRange(tick: number, halfRangeTicks: number, tickSpacing: number): MakerRange {
+    const lowerTick = Math.floor((tick - halfRangeTicks) / tickSpacing) * tickSpacing
+    const upperTick = Math.ceil((tick + halfRangeTicks) / tickSpacing) * tickSpacing
+    return { lowerTick, upperTick: upperTick > lowerTick ? upperTick : lowerTick + tickSpacing }
+}
+
+// MAKER_MARKETS: a JSON array of MakerMarketConfig, e.g.
+// [{"baseToken": "0x...", "base": "10", "quote": "30000", "halfRangeTicks": 600, "bandTicks": 300}]
+async function main(): Promise<void> {
+    const signer = getKeeperSigner()
+    const client = new PerpClient(
+        {
+            clearingHouse: ClearingHouse__factory.connect(requireEnv("CLEARING_HOUSE"), signer),
+            vault: Vault__factory.connect(requireEnv("VAULT"), signer),
+            accountBalance: AccountBalance__factory.connect(requireEnv("ACCOUNT_BALANCE"), signer),
+            orderBook: OrderBook__factory.connect(requireEnv("ORDER_BOOK"), signer),
+        },
+        signer,
+    )
+    const marketRegistry = MarketRegistry__factory.connect(requireEnv("MARKET_REGISTRY"), signer)
+    const markets = JSON.parse(requireEnv("MAKER_MARKETS")) as MakerMarketConfig[]
+    const bot = new MakerBot(client, marketRegistry, markets)
+    await bot.adoptOpenOrders()
+    await runForever(async () => {
+        for (const result of await bot.runOnce()) {
+            const pnl = bot.getPnl(result.baseToken)
+            console.log(
+                `realized pnl of ${result.baseToken}: fee ${pnl.collectedFee.toString()}, ` +
+                    `position ${pnl.realizedPnl.toString()}`,
+            )
+        }
+    })
+}
+
+if (require.main === module) {
+    main()
+        .then(() => process.exit(0))
+        .catch(error => {
+            console.error(error)
+            process.exit(1)
+        })
+}
@@ -0,0 +1,172 @@
+import { BigNumber, BigNumberish } from "ethers"
+import {
+    AccountBalance,
+    AccountBalance__factory,
+    BaseToken__factory,
+    DelegateApproval,
+    DelegateApproval__factory,
+    SignedOrderBook,
+    SignedOrderBook__factory,
+} from "../../typechain"
+import { isOrderTriggered, OrderPrices } from "../order/orderMatcher"
+import { OrderService, OrderState } from "../order/orderService"
+import { getOrderDomain, OrderType } from "../order/signedOrder"
+import { getKeeperSigner, requireEnv, runForever } from "./env"
+
+export interface SignedOrderKeeperContracts {
+    accountBalance: AccountBalance
+    delegateApproval: DelegateApproval
+    // the delegate approved by the traders, connected to the keeper
+    signedOrderBook: SignedOrderBook
+}
+
+export interface OrderExecution {
+    orderHash: string
+    trader: string
+    baseToken: string
+    fillAmount: BigNumber
+    txHash: string
+}
+
+export class SignedOrderKeeper {
+    // the delegate the orders are signed for, see getOrderDomain()
+    readonly delegate: string
+
+    constructor(
+        readonly contracts: SignedOrderKeeperContracts,
+        readonly orderService: OrderService,
+        // the amount of an order filled by a transaction at most, the order is partially filled when it is larger
+        readonly maxFillAmount?: BigNumberish,
+        private readonly log: (message: string) => void = console.log,
+    ) {
+        this.delegate = orderService.domain.verifyingContract
+    }
+
+    // relay the cancelled orders and try to fill the triggered orders once, an order failed to be filled stays
+    // open for the next round; now defaults to the latest block and is the time the expiry of orders is compared with
+    async runOnce(now?: number): Promise<OrderExecution[]> {
+        const provider = this.contracts.accountBalance.provider
+        const timestamp = now === undefined ? (await provider.getBlock("latest")).timestamp : now
+        await this.relayCancels(timestamp)
+
+        const pricesByBaseToken: { [baseToken: string]: OrderPrices | null } = {}
+
+        const executions: OrderExecution[] = []
+        for (const state of this.orderService.getOpenOrders(timestamp)) {
+            const { baseToken } = state.signedOrder.order
+            if (pricesByBaseToken[baseToken] === undefined) {
+                pricesByBaseToken[baseToken] = await this.getPrices(baseToken)
+            }
+            const prices = pricesByBaseToken[baseToken]
+            if (prices === null) {
+                continue
+            }
+
+            try {
+                const execution = await this.execute(state, prices, timestamp)
+                if (execution) {
+                    executions.push(execution)
+                }
+            } catch (error) {
+                this.log(`failed to fill order ${state.hash}: ${error.message}`)
+            }
+        }
+        return executions
+    }
+
+    // SignedOrderBook rejects the fills of an order once its CancelOrder is relayed
+    private async relayCancels(now: number): Promise<void> {
+        for (const state of this.orderService.getCancelsToRelay(now)) {
+            try {
+                const tx = await this.contracts.signedOrderBook.cancelOrderBySig(
+                    state.signedOrder.order,
+                    state.cancelSignature,
+                )
+                await tx.wait()
+                this.orderService.recordCancelRelayed(state.hash, tx.hash)
+                this.log(`relayed the cancel of order ${state.hash}: ${tx.hash}`)
+            } catch (error) {
+                this.log(`failed to relay the cancel of order ${state.hash}: ${error.message}`)
+            }
+        }
+    }
+
+    private async execute(state: OrderState, prices: OrderPrices, now: number): Promise<OrderExecution | undefined> {
+        const { signedOrderBook } = this.contracts
+        const { order, signature } = state.signedOrder
+        // a limit order is checked every time, while a stop loss or take profit order is checked until its first
+        // fill, the same as SignedOrderBook.fillOrder()
+        const isFirstFill = state.filledAmount.isZero()
+        const isTriggered = order.orderType !== OrderType.LIMIT && !isFirstFill
+        if (!isTriggered && !isOrderTriggered(order, prices)) {
+            return undefined
+        }
+
+        if (!(await this.contracts.delegateApproval.canOpenPositionFor(order.trader, this.delegate))) {
+            this.log(`order ${state.hash} is skipped since ${order.trader} does not approve ${this.delegate}`)
+            return undefined
+        }
+
+        // cancelled by the trader on chain
+        if (await signedOrderBook.isCancelled(state.hash)) {
+            this.orderService.markCancelled(state.hash)
+            this.log(`order ${state.hash} is cancelled on chain`)
+            return undefined
+        }
+
+        const remainingAmount = this.orderService.getRemainingAmount(state.hash)
+        const fillAmount =
+            this.maxFillAmount !== undefined && remainingAmount.gt(this.maxFillAmount)
+                ? BigNumber.from(this.maxFillAmount)
+                : remainingAmount
+        const tx = await signedOrderBook.fillOrder(order, signature, fillAmount)
+        await tx.wait()
+        if (order.orderType !== OrderType.LIMIT && isFirstFill) {
+            this.orderService.markTriggered(state.hash, now)
+        }
+        this.orderService.recordFill(state.hash, fillAmount, tx.hash, now)
+        this.log(`filled ${fillAmount.toString()} of order ${state.hash} of ${order.trader}: ${tx.hash}`)
+        return { orderHash: state.hash, trader: order.trader, baseToken: order.baseToken, fillAmount, txHash: tx.hash }
+    }
+
+    // null if the market is not open
+    private async getPrices(baseTokenAddr: string): Promise<OrderPrices | null> {
+        const { accountBalance } = this.contracts
+        const baseToken = BaseToken__factory.connect(baseTokenAddr, accountBalance.provider)
+        if (!(await baseToken.isOpen())) {
+            return null
+        }
+        const [markPrice, indexPrice] = await Promise.all([
+            accountBalance.getMarkPrice(baseTokenAddr),
+            baseToken.getIndexPrice(0),
+        ])
+        return { markPrice, indexPrice }
+    }
+}
+
+// ORDER_DATABASE: the SQLite file of OrderService shared with the service receiving the orders,
+// SIGNED_ORDER_BOOK: the SignedOrderBook approved by the traders; optional ORDER_MAX_FILL_AMOUNT in 18 decimals
+async function main(): Promise<void> {
+    const signer = getKeeperSigner()
+    const signedOrderBook = SignedOrderBook__factory.connect(requireEnv("SIGNED_ORDER_BOOK"), signer)
+    const domain = getOrderDomain(await signer.getChainId(), signedOrderBook.address)
+    const orderService = new OrderService(domain, requireEnv("ORDER_DATABASE"))
+    const contracts = {
+        accountBalance: AccountBalance__factory.connect(requireEnv("ACCOUNT_BALANCE"), signer),
+        delegateApproval: DelegateApproval__factory.connect(requireEnv("DELEGATE_APPROVAL"), signer),
+        signedOrderBook,
+    }
+    const keeper = new SignedOrderKeeper(contracts, orderService, process.env.ORDER_MAX_FILL_AMOUNT)
+    await runForever(async () => {
+        await keeper.runOnce()
+    })
+}
+
+if (require.main === module) {
+    main()
+        .then(() => process.exit(0))
+        .catch(error => {
+            console.error(error)
+            process.exit(1)
+        })
+}
@@ -0,0 +1,48 @@
+import { ClearingHouse, Vault } from "../../typechain"
+
+// keeps track of the traders who have ever deposited or traded, by indexing Vault.Deposited and
+// ClearingHouse.PositionChanged events incrementally
+export class TraderIndex {
+    private readonly traders = new Set<string>()
+    private nextBlock: number
+
+    constructor(readonly clearingHouse: ClearingHouse, readonly vault: Vault, fromBlock = 0) {
+        this.nextBlock = fromBlock
+    }
+
+    getTraders(): string[] {
+        return Array.from(this.traders)
+    }
+
+    add(trader: string): void {
+        this.traders.add(trader)
+    }
+
+    // index the events from the last synced block to toBlock (inclusive, defaults to the latest block),
+    // returns the newly found traders
+    async sync(toBlock?: number): Promise<string[]> {
+        const lastBlock = toBlock === undefined ? await this.clearingHouse.provider.getBlockNumber() : toBlock
+        if (lastBlock < this.nextBlock) {
+            return []
+        }
+
+        const [positionChangedEvents, depositedEvents] = await Promise.all([
+            this.clearingHouse.queryFilter(this.clearingHouse.filters.PositionChanged(), this.nextBlock, lastBlock),
+            this.vault.queryFilter(this.vault.filters.Deposited(), this.nextBlock, lastBlock),
+        ])
+        this.nextBlock = lastBlock + 1
+
+        const newTraders: string[] = []
+        const traders = [
+            ...positionChangedEvents.map(event => event.args.trader),
+            ...depositedEvents.map(event => event.args.trader),
+        ]
+        for (const trader of traders) {
+            if (!this.traders.has(trader)) {
+                this.traders.add(trader)
+                newTraders.push(trader)
+            }
+        }
+        return newTraders
+    }
+}
@@ -0,0 +1,382 @@
+import bn from "bignumber.js"
+import { BigNumber, Signer, utils } from "ethers"
+import { ethers, network } from "hardhat"
+import {
+    BaseToken__factory,
+    Exchange__factory,
+    MarketRegistry__factory,
+    QuoteToken__factory,
+    UniswapV3Factory__factory,
+    UniswapV3Pool__factory,
+} from "../../typechain"
+import { PriceFeedDispatcher__factory } from "../../typechain/perp-oracle"
+import { ContractDeployer } from "../deploy/deploy"
+import { DeploymentManifest, getManifestFilename, loadManifest } from "../deploy/manifest"
+import { writeFile } from "../files"
+import { getTickAtSqrtRatio, MAX_SQRT_RATIO, MAX_TICK, MIN_SQRT_RATIO, MIN_TICK } from "../math/uniswapV3/tickMath"
+import {
+    DEFAULT_MARKET_MAX_PRICE_SPREAD_RATIO,
+    DEFAULT_OBSERVATION_CARDINALITY_NEXT,
+    loadMarketSpec,
+    MarketBaseTokenSpec,
+    MarketSpec,
+    validateMarketSpec,
+} from "./marketSpec"
+
+// the JSON imported by the Transaction Builder of Safe
+export interface SafeBatch {
+    version: string
+    chainId: string
+    meta: { name: string; description: string; createdFromSafeAddress: string }
+    transactions: { to: string; value: string; data: string }[]
+}
+
+export interface MarketListing {
+    baseToken: string
+    pool: string
+    // the calls left to the owners other than the signer, one batch per owner in the order to be executed
+    batches: SafeBatch[]
+}
+
+interface Ownable {
+    address: string
+    interface: utils.Interface
+    owner(): Promise<string>
+}
+
+interface ListingCall {
+    description: string
+    to: string
+    data: string
+    // the account allowed to send the call, the owner of the contract in most cases
+    getSender: () => Promise<string>
+    isDone: () => Promise<boolean>
+}
+
+function isSameAddress(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase()
+}
+
+// same as encodePriceSqrt() of the tests, so a market listed by the tool starts at the same price as initMarket()
+export function encodeInitialPrice(price: string): BigNumber {
+    return BigNumber.from(new bn(price).sqrt().multipliedBy(new bn(2).pow(96)).integerValue(3).toString())
+}
+
+// performs the listing of initMarket() and ClearingHouse.newMarket.ts on the contracts of a deployment manifest:
+// the signer deploys the base token, creates and initializes the pool and sends the calls of the contracts it owns,
+// the calls of the contracts owned by others, e.g. a multisig, are returned as batches
+// like the deploy pipeline, a call is skipped when its getter matches the spec, so the listing is resumed by running it
+// again, e.g. once the batches are executed
+export class MarketLister extends ContractDeployer {
+    async list(spec: MarketSpec): Promise<MarketListing> {
+        validateMarketSpec(spec)
+        const { signer } = this
+        const marketRegistry = MarketRegistry__factory.connect(this.getManifestAddress("MarketRegistry"), signer)
+        const exchange = Exchange__factory.connect(this.getManifestAddress("Exchange"), signer)
+        const quoteToken = QuoteToken__factory.connect(await marketRegistry.getQuoteToken(), signer)
+        const clearingHouse = await marketRegistry.getClearingHouse()
+        const uniswapV3Factory = UniswapV3Factory__factory.connect(await marketRegistry.getUniswapV3Factory(), signer)
+
+        const sqrtPriceX96 = encodeInitialPrice(spec.initialPrice)
+        this.validateTickSpacing(spec, await uniswapV3Factory.feeAmountTickSpacing(spec.uniswapFeeRatio))
+
+        const dispatcherAddress = await this.deployPriceFeedDispatcher(spec.baseToken)
+        const baseToken = BaseToken__factory.connect(
+            await this.deployProxy(
+                "BaseToken",
+                [spec.baseToken.name, spec.baseToken.symbol, dispatcherAddress],
+                spec.baseToken.symbol,
+                address => address.toLowerCase() < quoteToken.address.toLowerCase(),
+            ),
+            signer,
+        )
+        const hasPool = await marketRegistry.hasPool(baseToken.address)
+        if (!hasPool) {
+            await this.validateInitialPrice(spec, await baseToken.getIndexPrice(0))
+        }
+
+        // the pool is permissionless, so it's always prepared by the signer
+        let poolAddress = await uniswapV3Factory.getPool(baseToken.address, quoteToken.address, spec.uniswapFeeRatio)
+        if (poolAddress === ethers.constants.AddressZero) {
+            await this.send(
+                "UniswapV3Factory.createPool",
+                await uniswapV3Factory.createPool(baseToken.address, quoteToken.address, spec.uniswapFeeRatio),
+            )
+            poolAddress = await uniswapV3Factory.getPool(baseToken.address, quoteToken.address, spec.uniswapFeeRatio)
+        }
+        const pool = UniswapV3Pool__factory.connect(poolAddress, signer)
+        const slot0 = await pool.slot0()
+        if (slot0.sqrtPriceX96.eq(0)) {
+            await this.send("UniswapV3Pool.initialize", await pool.initialize(sqrtPriceX96))
+        } else if (!hasPool && !slot0.sqrtPriceX96.eq(sqrtPriceX96)) {
+            // anyone can initialize a pool before it's whitelisted
+            throw new Error(
+                `MarketLister: pool ${pool.address} is initialized at tick ${slot0.tick} instead of ` +
+                    `${getTickAtSqrtRatio(sqrtPriceX96)}`,
+            )
+        }
+        const observationCardinalityNext = spec.observationCardinalityNext || DEFAULT_OBSERVATION_CARDINALITY_NEXT
+        if (slot0.observationCardinalityNext < observationCardinalityNext) {
+            await this.send(
+                "UniswapV3Pool.increaseObservationCardinalityNext",
+                await pool.increaseObservationCardinalityNext(observationCardinalityNext),
+            )
+        }
+
+        const base = baseToken.address
+        const symbol = spec.baseToken.symbol
+        const calls: ListingCall[] = [
+            this.ownerCall(symbol, baseToken, "addWhitelist", [pool.address], () =>
+                baseToken.isInWhitelist(pool.address),
+            ),
+            this.ownerCall(symbol, baseToken, "addWhitelist", [clearingHouse], () =>
+                baseToken.isInWhitelist(clearingHouse),
+            ),
+            this.ownerCall(symbol, baseToken, "mintMaximumTo", [clearingHouse], async () =>
+                (await baseToken.balanceOf(clearingHouse)).gt(0),
+            ),
+        ]
+
+        // the base token is handed over before the calls of the other contracts, which may be batched
+        const newOwner = spec.baseToken.owner
+        if (newOwner) {
+            calls.push(
+                this.ownerCall(symbol, baseToken, "setOwner", [newOwner], async () => {
+                    const [owner, candidate] = await Promise.all([baseToken.owner(), baseToken.candidate()])
+                    return isSameAddress(owner, newOwner) || isSameAddress(candidate, newOwner)
+                }),
+            )
+            if (spec.baseToken.chainlinkPriceFeedV3) {
+                const dispatcher = PriceFeedDispatcher__factory.connect(dispatcherAddress, signer)
+                calls.push(
+                    this.ownerCall(
+                        `${symbol}PriceFeedDispatcher`,
+                        dispatcher,
+                        "transferOwnership",
+                        [newOwner],
+                        async () => isSameAddress(await dispatcher.owner(), newOwner),
+                    ),
+                )
+            }
+            // SafeOwnable is transferred in two steps, the second one is sent by the new owner
+            calls.push({
+                ...this.ownerCall(symbol, baseToken, "updateOwner", [], async () =>
+                    isSameAddress(await baseToken.owner(), newOwner),
+                ),
+                getSender: async () => newOwner,
+            })
+        }
+
+        const isPoolAdded = () => marketRegistry.hasPool(base)
+        calls.push(
+            this.ownerCall("QuoteToken", quoteToken, "addWhitelist", [pool.address], () =>
+                quoteToken.isInWhitelist(pool.address),
+            ),
+            this.ownerCall("MarketRegistry", marketRegistry, "addPool", [base, spec.uniswapFeeRatio], isPoolAdded),
+            this.ownerCall(
+                "MarketRegistry",
+                marketRegistry,
+                "setFeeRatio",
+                [base, spec.exchangeFeeRatio],
+                async () => (await isPoolAdded()) && (await marketRegistry.getFeeRatio(base)) === spec.exchangeFeeRatio,
+            ),
+            this.ownerCall(
+                "MarketRegistry",
+                marketRegistry,
+                "setInsuranceFundFeeRatio",
+                [base, spec.insuranceFundFeeRatio],
+                async () =>
+                    (await isPoolAdded()) &&
+                    (await marketRegistry.getInsuranceFundFeeRatio(base)) === spec.insuranceFundFeeRatio,
+            ),
+            this.ownerCall(
+                "Exchange",
+                exchange,
+                "setMaxTickCrossedWithinBlock",
+                [base, spec.maxTickCrossedWithinBlock],
+                async () => (await exchange.getMaxTickCrossedWithinBlock(base)) === spec.maxTickCrossedWithinBlock,
+            ),
+        )
+        if (spec.marketMaxPriceSpreadRatio !== undefined) {
+            calls.push(
+                this.ownerCall(
+                    "MarketRegistry",
+                    marketRegistry,
+                    "setMarketMaxPriceSpreadRatio",
+                    [base, spec.marketMaxPriceSpreadRatio],
+                    async () =>
+                        (await marketRegistry.getMarketMaxPriceSpreadRatio(base)) === spec.marketMaxPriceSpreadRatio,
+                ),
+            )
+        }
+
+        const batches = await this.sendOrBatch(calls, `list ${symbol}`)
+        return { baseToken: base, pool: pool.address, batches }
+    }
+
+    private getManifestAddress(name: string): string {
+        const deployed = this.manifest.contracts[name]
+        if (!deployed) {
+            throw new Error(`MarketLister: ${name} is not found in ${this.manifestFilename}`)
+        }
+        return deployed.address
+    }
+
+    private async deployPriceFeedDispatcher(baseToken: MarketBaseTokenSpec): Promise<string> {
+        if (baseToken.priceFeedDispatcher) {
+            return baseToken.priceFeedDispatcher
+        }
+        return this.deployContract(
+            "PriceFeedDispatcher",
+            [baseToken.chainlinkPriceFeedV3],
+            `${baseToken.symbol}PriceFeedDispatcher`,
+        )
+    }
+
+    private validateTickSpacing(spec: MarketSpec, tickSpacing: number): void {
+        if (tickSpacing === 0) {
+            throw new Error(`MarketLister: fee tier ${spec.uniswapFeeRatio} is not enabled by UniswapV3Factory`)
+        }
+        // the range of the orders of makers, see getMinTick() and getMaxTick() of the tests
+        const minTick = Math.ceil(MIN_TICK / tickSpacing) * tickSpacing
+        const maxTick = Math.floor(MAX_TICK / tickSpacing) * tickSpacing
+        const sqrtPriceX96 = encodeInitialPrice(spec.initialPrice)
+        if (sqrtPriceX96.lt(MIN_SQRT_RATIO) || sqrtPriceX96.gte(MAX_SQRT_RATIO)) {
+            throw new Error(`MarketLister: initial price ${spec.initialPrice} is out of the range of Uniswap`)
+        }
+        const tick = getTickAtSqrtRatio(sqrtPriceX96)
+        if (tick < minTick || tick >= maxTick) {
+            throw new Error(
+                `MarketLister: initial price ${spec.initialPrice} is at tick ${tick}, out of the range ` +
+                    `[${minTick}, ${maxTick}) of tick spacing ${tickSpacing}`,
+            )
+        }
+        // a block has to be able to cross an initialized tick, otherwise every swap through one reverts
+        if (spec.maxTickCrossedWithinBlock !== 0 && spec.maxTickCrossedWithinBlock < tickSpacing) {
+            throw new Error(
+                `MarketLister: maxTickCrossedWithinBlock ${spec.maxTickCrossedWithinBlock} is less than ` +
+                    `tick spacing ${tickSpacing}`,
+            )
+        }
+    }
+
+    // the market price is bounded by the spread to the index price, see MarketRegistry.getMarketMaxPriceSpreadRatio()
+    private async validateInitialPrice(spec: MarketSpec, indexPriceX10_18: BigNumber): Promise<void> {
+        const indexPrice = new bn(indexPriceX10_18.toString()).div(new bn(10).pow(18))
+        const spreadRatio = new bn(spec.initialPrice).minus(indexPrice).abs().div(indexPrice)
+        const maxSpreadRatio = new bn(
+            spec.marketMaxPriceSpreadRatio !== undefined
+                ? spec.marketMaxPriceSpreadRatio
+                : DEFAULT_MARKET_MAX_PRICE_SPREAD_RATIO,
+        ).div(1e6)
+        if (indexPrice.isZero() || spreadRatio.gt(maxSpreadRatio)) {
+            throw new Error(
+                `MarketLister: initial price ${spec.initialPrice} is more than ${maxSpreadRatio.times(100)}% away ` +
+                    `from index price ${indexPrice.toFixed()}`,
+            )
+        }
+    }
+
+    private ownerCall(
+        contractName: string,
+        contract: Ownable,
+        method: string,
+        args: unknown[],
+        isDone: () => Promise<boolean>,
+    ): ListingCall {
+        return {
+            description: `${contractName}.${method}(${args.join(", ")})`,
+            to: contract.address,
+            data: contract.interface.encodeFunctionData(method, args),
+            getSender: () => contract.owner(),
+            isDone,
+        }
+    }
+
+    private async send(description: string, tx: { hash: string; wait(): Promise<unknown> }): Promise<void> {
+        await tx.wait()
+        this.log(`${description}: ${tx.hash}`)
+    }
+
+    // the calls are sent in order until one has to be batched; the signer can't send a call after that, as it may
+    // depend on the batched ones
+    private async sendOrBatch(calls: ListingCall[], name: string): Promise<SafeBatch[]> {
+        const signerAddress = await this.signer.getAddress()
+        const chainId = String(await this.signer.getChainId())
+        const batches: SafeBatch[] = []
+        for (const call of calls) {
+            if (await call.isDone()) {
+                continue
+            }
+            const sender = await call.getSender()
+            if (isSameAddress(sender, signerAddress)) {
+                if (batches.length > 0) {
+                    throw new Error(
+                        `MarketLister: ${call.description} has to be sent after the batches, ` +
+                            "run the listing again once they are executed",
+                    )
+                }
+                await this.send(call.description, await this.signer.sendTransaction({ to: call.to, data: call.data }))
+                continue
+            }
+
+            let batch = batches.find(batch => isSameAddress(batch.meta.createdFromSafeAddress, sender))
+            if (!batch) {
+                batch = {
+                    version: "1.0",
+                    chainId,
+                    meta: { name, description: "", createdFromSafeAddress: sender },
+                    transactions: [],
+                }
+                batches.push(batch)
+            }
+            batch.transactions.push({ to: call.to, value: "0", data: call.data })
+            batch.meta.description = batch.meta.description
+                ? `${batch.meta.description}\n${call.description}`
+                : call.description
+            this.log(`batched ${call.description} for ${sender}`)
+        }
+        return batches
+    }
+}
+
+export function getBatchFilename(network: string, symbol: string, owner: string): string {
+    return `deployments/${network}-list-${symbol}-${owner}.json`
+}
+
+export async function listMarket(
+    spec: MarketSpec,
+    signer: Signer,
+    manifestFilename: string,
+    log: (message: string) => void = console.log,
+): Promise<MarketListing> {
+    const chainId = await signer.getChainId()
+    const manifest: DeploymentManifest = loadManifest(manifestFilename, network.name, chainId)
+    return new MarketLister(signer, manifest, manifestFilename, log).list(spec)
+}
+
+// MARKET_SPEC=markets/vETH.yml npm run list-market -- --network arbitrum
+async function main(): Promise<void> {
+    if (!process.env.MARKET_SPEC) {
+        throw new Error("MarketLister: MARKET_SPEC is required")
+    }
+    const spec = loadMarketSpec(process.env.MARKET_SPEC)
+    const manifestFilename = process.env.DEPLOY_MANIFEST || getManifestFilename(network.name)
+    const [signer] = await ethers.getSigners()
+    const listing = await listMarket(spec, signer, manifestFilename)
+    for (const batch of listing.batches) {
+        const filename = getBatchFilename(network.name, spec.baseToken.symbol, batch.meta.createdFromSafeAddress)
+        await writeFile(filename, `${JSON.stringify(batch, null, 4)}\n`)
+        console.log(`batch of ${batch.meta.createdFromSafeAddress}: ${filename}`)
+    }
+    console.log(`${spec.baseToken.symbol}: base token ${listing.baseToken}, pool ${listing.pool}`)
+}
+
+if (require.main === module) {
+    main()
+        .then(() => process.exit(0))
+        .catch(error => {
+            console.error(error)
+            process.exit(1)
+        })
+}
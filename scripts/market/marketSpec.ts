@@ -0,0 +1,92 @@
+import fs from "fs"
+import yaml from "js-yaml"
+import { extname } from "path"
+
+// see Exchange._MAX_TICK_CROSSED_WITHIN_BLOCK_CAP
+export const MAX_TICK_CROSSED_WITHIN_BLOCK_CAP = 1000
+// see MarketRegistry._DEFAULT_MAX_MARKET_PRICE_SPREAD_RATIO
+export const DEFAULT_MARKET_MAX_PRICE_SPREAD_RATIO = 100000
+// the initial number of observations a pool can record is 1, see initMarket()
+export const DEFAULT_OBSERVATION_CARDINALITY_NEXT = 500
+
+export interface MarketBaseTokenSpec {
+    name: string
+    symbol: string
+    // the price feed of the base token is either an existing IPriceFeedDispatcher, or a PriceFeedDispatcher deployed
+    // on the ChainlinkPriceFeedV3 of the market
+    priceFeedDispatcher?: string
+    chainlinkPriceFeedV3?: string
+    // the owner of the deployed base token and price feed dispatcher after the listing, e.g. the multisig of the
+    // protocol; the ownership stays with the signer when not set
+    owner?: string
+}
+
+export interface MarketSpec {
+    baseToken: MarketBaseTokenSpec
+    // the fee tier of the Uniswap pool, e.g. 3000 = 0.3%
+    uniswapFeeRatio: number
+    // the initial market price in quote per base, e.g. "1500.25"
+    initialPrice: string
+    // ratios are in 1e6, e.g. 10000 = 1%
+    exchangeFeeRatio: number
+    insuranceFundFeeRatio: number
+    // 0 disables the check of Exchange
+    maxTickCrossedWithinBlock: number
+    marketMaxPriceSpreadRatio?: number
+    observationCardinalityNext?: number
+}
+
+function isRatio(value: unknown): boolean {
+    return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 1e6
+}
+
+// the checks without the chain, the ones against the pool and the index price are done by MarketLister
+export function validateMarketSpec(spec: MarketSpec): void {
+    const { baseToken } = spec
+    if (!baseToken || !baseToken.name || !baseToken.symbol) {
+        throw new Error("MarketSpec: baseToken.name and baseToken.symbol are required")
+    }
+    if (!baseToken.priceFeedDispatcher === !baseToken.chainlinkPriceFeedV3) {
+        throw new Error(
+            "MarketSpec: either baseToken.priceFeedDispatcher or baseToken.chainlinkPriceFeedV3 is required",
+        )
+    }
+    if (!Number.isInteger(spec.uniswapFeeRatio) || spec.uniswapFeeRatio <= 0) {
+        throw new Error(`MarketSpec: invalid uniswapFeeRatio ${spec.uniswapFeeRatio}`)
+    }
+    if (!(Number(spec.initialPrice) > 0)) {
+        throw new Error(`MarketSpec: invalid initialPrice ${spec.initialPrice}`)
+    }
+    const ratios = {
+        exchangeFeeRatio: spec.exchangeFeeRatio,
+        insuranceFundFeeRatio: spec.insuranceFundFeeRatio,
+        marketMaxPriceSpreadRatio: spec.marketMaxPriceSpreadRatio,
+    }
+    for (const name of Object.keys(ratios)) {
+        const ratio = ratios[name as keyof typeof ratios]
+        if (ratio !== undefined && !isRatio(ratio)) {
+            throw new Error(`MarketSpec: ${name} ${ratio} is not a ratio in 1e6`)
+        }
+    }
+    if (
+        !Number.isInteger(spec.maxTickCrossedWithinBlock) ||
+        spec.maxTickCrossedWithinBlock < 0 ||
+        spec.maxTickCrossedWithinBlock > MAX_TICK_CROSSED_WITHIN_BLOCK_CAP
+    ) {
+        throw new Error(
+            `MarketSpec: maxTickCrossedWithinBlock ${spec.maxTickCrossedWithinBlock} is out of ` +
+                `[0, ${MAX_TICK_CROSSED_WITHIN_BLOCK_CAP}]`,
+        )
+    }
+}
+
+// a market spec in YAML (.yml, .yaml) or JSON
+export function loadMarketSpec(filename: string): MarketSpec {
+    const content = fs.readFileSync(filename, "utf8")
+    const extension = extname(filename).toLowerCase()
+    const spec = (
+        extension === ".yml" || extension === ".yaml" ? yaml.load(content) : JSON.parse(content)
+    ) as MarketSpec
+    validateMarketSpec(spec)
+    return spec
+}
@@ -0,0 +1,28 @@
+import { BigNumber, BigNumberish, constants } from "ethers"
+
+// ref: https://github.com/Uniswap/v3-core/blob/main/contracts/libraries/FullMath.sol
+// FullMath reverts without a reason string, we throw the same message for every failure here
+
+export function mulDiv(a: BigNumberish, b: BigNumberish, denominator: BigNumberish): BigNumber {
+    const denominatorBN = BigNumber.from(denominator)
+    if (denominatorBN.lte(0)) {
+        throw new Error("FullMath: mulDiv failed")
+    }
+
+    const result = BigNumber.from(a).mul(b).div(denominatorBN)
+    if (result.gt(constants.MaxUint256)) {
+        throw new Error("FullMath: mulDiv failed")
+    }
+    return result
+}
+
+export function mulDivRoundingUp(a: BigNumberish, b: BigNumberish, denominator: BigNumberish): BigNumber {
+    const result = mulDiv(a, b, denominator)
+    if (BigNumber.from(a).mul(b).mod(denominator).gt(0)) {
+        if (result.gte(constants.MaxUint256)) {
+            throw new Error("FullMath: mulDiv failed")
+        }
+        return result.add(1)
+    }
+    return result
+}
@@ -0,0 +1,111 @@
+import { BigNumber, BigNumberish, constants } from "ethers"
+import { mulDiv as fullMulDiv } from "./fullMath"
+import { toInt128, toInt256, toUint256 } from "./perpSafeCast"
+
+// mirror of contracts/lib/PerpMath.sol
+// functions suffixed with `Int` mirror the int256 overloads of the library
+
+export const Q96 = BigNumber.from(2).pow(96)
+export const X10_18 = BigNumber.from(10).pow(18)
+export const RATIO_ONE = BigNumber.from(10).pow(6)
+
+const MIN_INT128 = BigNumber.from(2).pow(127).mul(-1)
+
+export function formatSqrtPriceX96ToPriceX96(sqrtPriceX96: BigNumberish): BigNumber {
+    return fullMulDiv(sqrtPriceX96, sqrtPriceX96, Q96)
+}
+
+export function formatX10_18ToX96(valueX10_18: BigNumberish): BigNumber {
+    return fullMulDiv(valueX10_18, Q96, X10_18)
+}
+
+export function formatX96ToX10_18(valueX96: BigNumberish): BigNumber {
+    return fullMulDiv(valueX96, X10_18, Q96)
+}
+
+export function max(a: BigNumberish, b: BigNumberish): BigNumber {
+    const aBN = BigNumber.from(a)
+    return aBN.gte(b) ? aBN : BigNumber.from(b)
+}
+
+export function min(a: BigNumberish, b: BigNumberish): BigNumber {
+    const aBN = BigNumber.from(a)
+    return aBN.lt(b) ? aBN : BigNumber.from(b)
+}
+
+export function abs(value: BigNumberish): BigNumber {
+    const valueBN = BigNumber.from(value)
+    return valueBN.gte(0) ? toUint256(valueBN) : toUint256(neg256(valueBN))
+}
+
+export function neg256(value: BigNumberish): BigNumber {
+    const valueBN = BigNumber.from(value)
+    if (valueBN.lte(constants.MinInt256)) {
+        throw new Error("PerpMath: inversion overflow")
+    }
+    return valueBN.mul(-1)
+}
+
+// uint256 to negative int256
+export function neg256FromUint(value: BigNumberish): BigNumber {
+    return toInt256(value).mul(-1)
+}
+
+export function neg128(value: BigNumberish): BigNumber {
+    const valueBN = BigNumber.from(value)
+    if (valueBN.lte(MIN_INT128)) {
+        throw new Error("PerpMath: inversion overflow")
+    }
+    return valueBN.mul(-1)
+}
+
+// uint128 to negative int128
+export function neg128FromUint(value: BigNumberish): BigNumber {
+    return toInt128(value).mul(-1)
+}
+
+export function divBy10_18(value: BigNumberish): BigNumber {
+    return BigNumber.from(value).div(X10_18)
+}
+
+// Solidity truncates signed division toward zero, so does BigNumber.div()
+export function divBy10_18Int(value: BigNumberish): BigNumber {
+    return BigNumber.from(value).div(X10_18)
+}
+
+export function subRatio(a: BigNumberish, b: BigNumberish): BigNumber {
+    const aBN = BigNumber.from(a)
+    if (aBN.lt(b)) {
+        throw new Error("PerpMath: subtraction overflow")
+    }
+    return aBN.sub(b)
+}
+
+export function mulRatio(value: BigNumberish, ratio: BigNumberish): BigNumber {
+    return fullMulDiv(value, ratio, RATIO_ONE)
+}
+
+export function mulRatioInt(value: BigNumberish, ratio: BigNumberish): BigNumber {
+    return mulDiv(value, ratio, RATIO_ONE)
+}
+
+export function divRatio(value: BigNumberish, ratio: BigNumberish): BigNumber {
+    return fullMulDiv(value, RATIO_ONE, ratio)
+}
+
+// denominator cannot be 0 and is checked in fullMath.mulDiv()
+export function mulDiv(a: BigNumberish, b: BigNumberish, denominator: BigNumberish): BigNumber {
+    const aBN = BigNumber.from(a)
+    const bBN = BigNumber.from(b)
+    const unsignedA = aBN.lt(0) ? neg256(aBN) : aBN
+    const unsignedB = bBN.lt(0) ? neg256(bBN) : bBN
+    const negative = (aBN.lt(0) && bBN.gt(0)) || (aBN.gt(0) && bBN.lt(0))
+
+    const unsignedResult = fullMulDiv(unsignedA, unsignedB, denominator)
+
+    return negative ? neg256FromUint(unsignedResult) : toInt256(unsignedResult)
+}
+
+export function findMedianOfThree(v1: BigNumberish, v2: BigNumberish, v3: BigNumberish): BigNumber {
+    return max(min(v1, v2), min(max(v1, v2), v3))
+}
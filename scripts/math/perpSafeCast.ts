@@ -0,0 +1,107 @@
+import { BigNumber, BigNumberish, constants } from "ethers"
+
+// mirror of contracts/lib/PerpSafeCast.sol, throws the same revert reasons as the library
+
+function fitsUint(value: BigNumber, bits: number): boolean {
+    return value.gte(0) && value.lt(BigNumber.from(2).pow(bits))
+}
+
+function fitsInt(value: BigNumber, bits: number): boolean {
+    const bound = BigNumber.from(2).pow(bits - 1)
+    return value.gte(bound.mul(-1)) && value.lt(bound)
+}
+
+function toUint(value: BigNumberish, bits: number): BigNumber {
+    const valueBN = BigNumber.from(value)
+    if (!fitsUint(valueBN, bits)) {
+        throw new Error(`SafeCast: value doesn't fit in ${bits} bits`)
+    }
+    return valueBN
+}
+
+function toInt(value: BigNumberish, bits: number): BigNumber {
+    const valueBN = BigNumber.from(value)
+    if (!fitsInt(valueBN, bits)) {
+        throw new Error(`SafeCast: value doesn't fit in ${bits} bits`)
+    }
+    return valueBN
+}
+
+export function toUint128(value: BigNumberish): BigNumber {
+    return toUint(value, 128)
+}
+
+export function toUint64(value: BigNumberish): BigNumber {
+    return toUint(value, 64)
+}
+
+export function toUint32(value: BigNumberish): BigNumber {
+    return toUint(value, 32)
+}
+
+export function toUint24(value: BigNumberish): BigNumber {
+    return toUint(value, 24)
+}
+
+export function toUint16(value: BigNumberish): BigNumber {
+    return toUint(value, 16)
+}
+
+export function toUint8(value: BigNumberish): BigNumber {
+    return toUint(value, 8)
+}
+
+// int256 to uint256
+export function toUint256(value: BigNumberish): BigNumber {
+    const valueBN = BigNumber.from(value)
+    if (valueBN.lt(0)) {
+        throw new Error("SafeCast: value must be positive")
+    }
+    return valueBN
+}
+
+export function toInt128(value: BigNumberish): BigNumber {
+    return toInt(value, 128)
+}
+
+export function toInt64(value: BigNumberish): BigNumber {
+    return toInt(value, 64)
+}
+
+export function toInt32(value: BigNumberish): BigNumber {
+    return toInt(value, 32)
+}
+
+export function toInt16(value: BigNumberish): BigNumber {
+    return toInt(value, 16)
+}
+
+export function toInt8(value: BigNumberish): BigNumber {
+    return toInt(value, 8)
+}
+
+// uint256 to int256
+export function toInt256(value: BigNumberish): BigNumber {
+    const valueBN = BigNumber.from(value)
+    if (valueBN.gt(constants.MaxInt256)) {
+        throw new Error("SafeCast: value doesn't fit in an int256")
+    }
+    return valueBN
+}
+
+// int256 to uint24
+export function toUint24FromInt256(value: BigNumberish): BigNumber {
+    const valueBN = BigNumber.from(value)
+    if (!fitsUint(valueBN, 24)) {
+        throw new Error("SafeCast: value must be positive or value doesn't fit in an 24 bits")
+    }
+    return valueBN
+}
+
+export function toInt24(value: BigNumberish): BigNumber {
+    const valueBN = BigNumber.from(value)
+    if (!fitsInt(valueBN, 24)) {
+        throw new Error("SafeCast: value doesn't fit in an 24 bits")
+    }
+    return valueBN
+}
@@ -0,0 +1,119 @@
+import { BigNumber, BigNumberish, constants } from "ethers"
+
+// mirror of contracts/lib/SettlementTokenMath.sol
+// functions suffixed with `Int` mirror the int256 overloads of the library
+
+const UINT256_MODULUS = constants.MaxUint256.add(1)
+
+// 10**exponent is computed without overflow check in solidity 0.7
+function pow10(exponent: number): BigNumber {
+    return BigNumber.from(10).pow(exponent).mod(UINT256_MODULUS)
+}
+
+function settlementTokenDenominator(decimals: number): BigNumber {
+    // decimals of settlementToken MUST be less than 18, see SettlementTokenMath.sol
+    if (decimals > 18) {
+        throw new Error("SettlementTokenMath: decimals exceed 18")
+    }
+    return pow10(18 - decimals)
+}
+
+function safeMul(a: BigNumber, b: BigNumber): BigNumber {
+    const result = a.mul(b)
+    if (result.gt(constants.MaxUint256)) {
+        throw new Error("SafeMath: multiplication overflow")
+    }
+    return result
+}
+
+function signedSafeMul(a: BigNumber, b: BigNumber): BigNumber {
+    const result = a.mul(b)
+    if (result.gt(constants.MaxInt256) || result.lt(constants.MinInt256)) {
+        throw new Error("SignedSafeMath: multiplication overflow")
+    }
+    return result
+}
+
+// always round down no matter positive value or negative value
+function floorDiv(amount: BigNumber, denominator: BigNumber): BigNumber {
+    const rounding = amount.lt(0) && !amount.abs().mod(denominator).isZero() ? -1 : 0
+    return amount.div(denominator).add(rounding)
+}
+
+export function lte(settlementToken: BigNumberish, amountX10_18: BigNumberish, decimals: number): boolean {
+    return parseSettlementToken(settlementToken, decimals).lte(amountX10_18)
+}
+
+export function lteInt(settlementToken: BigNumberish, amountX10_18: BigNumberish, decimals: number): boolean {
+    return parseSettlementTokenInt(settlementToken, decimals).lte(amountX10_18)
+}
+
+export function lt(settlementToken: BigNumberish, amountX10_18: BigNumberish, decimals: number): boolean {
+    return parseSettlementToken(settlementToken, decimals).lt(amountX10_18)
+}
+
+export function ltInt(settlementToken: BigNumberish, amountX10_18: BigNumberish, decimals: number): boolean {
+    return parseSettlementTokenInt(settlementToken, decimals).lt(amountX10_18)
+}
+
+export function gt(settlementToken: BigNumberish, amountX10_18: BigNumberish, decimals: number): boolean {
+    return parseSettlementToken(settlementToken, decimals).gt(amountX10_18)
+}
+
+export function gtInt(settlementToken: BigNumberish, amountX10_18: BigNumberish, decimals: number): boolean {
+    return parseSettlementTokenInt(settlementToken, decimals).gt(amountX10_18)
+}
+
+export function gte(settlementToken: BigNumberish, amountX10_18: BigNumberish, decimals: number): boolean {
+    return parseSettlementToken(settlementToken, decimals).gte(amountX10_18)
+}
+
+export function gteInt(settlementToken: BigNumberish, amountX10_18: BigNumberish, decimals: number): boolean {
+    return parseSettlementTokenInt(settlementToken, decimals).gte(amountX10_18)
+}
+
+// returns number with 18 decimals
+export function parseSettlementToken(amount: BigNumberish, decimals: number): BigNumber {
+    return safeMul(BigNumber.from(amount), settlementTokenDenominator(decimals))
+}
+
+// returns number with 18 decimals
+export function parseSettlementTokenInt(amount: BigNumberish, decimals: number): BigNumber {
+    return signedSafeMul(BigNumber.from(amount), settlementTokenDenominator(decimals))
+}
+
+// returns number converted from 18 decimals to settlementToken's decimals
+export function formatSettlementToken(amount: BigNumberish, decimals: number): BigNumber {
+    return BigNumber.from(amount).div(settlementTokenDenominator(decimals))
+}
+
+// returns number converted from 18 decimals to settlementToken's decimals
+// will always round down no matter positive value or negative value
+export function formatSettlementTokenInt(amount: BigNumberish, decimals: number): BigNumber {
+    return floorDiv(BigNumber.from(amount), settlementTokenDenominator(decimals))
+}
+
+// returns number converted between specified decimals
+export function convertTokenDecimals(amount: BigNumberish, fromDecimals: number, toDecimals: number): BigNumber {
+    const amountBN = BigNumber.from(amount)
+    if (fromDecimals === toDecimals) {
+        return amountBN
+    }
+    return fromDecimals > toDecimals
+        ? amountBN.div(pow10(fromDecimals - toDecimals))
+        : safeMul(amountBN, pow10(toDecimals - fromDecimals))
+}
+
+// returns number converted between specified decimals
+export function convertTokenDecimalsInt(amount: BigNumberish, fromDecimals: number, toDecimals: number): BigNumber {
+    const amountBN = BigNumber.from(amount)
+    if (fromDecimals === toDecimals) {
+        return amountBN
+    }
+
+    if (fromDecimals < toDecimals) {
+        return signedSafeMul(amountBN, pow10(toDecimals - fromDecimals))
+    }
+
+    return floorDiv(amountBN, pow10(fromDecimals - toDecimals))
+}
@@ -0,0 +1,61 @@
+import { BigNumber, BigNumberish } from "ethers"
+import { mulDiv, mulDivRoundingUp } from "./fullMath"
+import { neg256, RATIO_ONE } from "./perpMath"
+import { toInt256 } from "./perpSafeCast"
+
+// mirror of contracts/lib/SwapMath.sol
+
+export function calcAmountScaledByFeeRatio(
+    amount: BigNumberish,
+    feeRatio: BigNumberish,
+    isScaledUp: boolean,
+): BigNumber {
+    // when scaling up, round up to avoid imprecision; it's okay as long as we round down later
+    return isScaledUp
+        ? mulDivRoundingUp(amount, RATIO_ONE, RATIO_ONE.sub(feeRatio))
+        : mulDiv(amount, RATIO_ONE.sub(feeRatio), RATIO_ONE)
+}
+
+// returns the unsigned scaled amount for UniswapV3Pool.swap() and the signed scaled amount for OrderBook.replaySwap()
+export function calcScaledAmountForSwaps(
+    isBaseToQuote: boolean,
+    isExactInput: boolean,
+    amount: BigNumberish,
+    exchangeFeeRatio: BigNumberish,
+    uniswapFeeRatio: BigNumberish,
+): { scaledAmountForUniswapV3PoolSwap: BigNumber; signedScaledAmountForReplaySwap: BigNumber } {
+    let scaledAmountForUniswapV3PoolSwap: BigNumber
+    if (isBaseToQuote) {
+        scaledAmountForUniswapV3PoolSwap = isExactInput
+            ? calcAmountScaledByFeeRatio(amount, uniswapFeeRatio, true)
+            : calcAmountScaledByFeeRatio(amount, exchangeFeeRatio, true)
+    } else {
+        scaledAmountForUniswapV3PoolSwap = isExactInput
+            ? calcAmountWithFeeRatioReplaced(amount, uniswapFeeRatio, exchangeFeeRatio, true)
+            : BigNumber.from(amount)
+    }
+
+    // when !isBaseToQuote, exchangeFeeRatio is applied directly in replaySwap() so the original amount is used
+    let signedScaledAmountForReplaySwap = isBaseToQuote ? toInt256(scaledAmountForUniswapV3PoolSwap) : toInt256(amount)
+    signedScaledAmountForReplaySwap = isExactInput
+        ? signedScaledAmountForReplaySwap
+        : neg256(signedScaledAmountForReplaySwap)
+
+    return { scaledAmountForUniswapV3PoolSwap, signedScaledAmountForReplaySwap }
+}
+
+// isReplacingUniswapFeeRatio
+//   true: replacing uniswapFeeRatio with clearingHouseFeeRatio: amount * (1 - y) / (1 - x)
+//   false: replacing clearingHouseFeeRatio with uniswapFeeRatio: amount * (1 - x) / (1 - y)
+export function calcAmountWithFeeRatioReplaced(
+    amount: BigNumberish,
+    uniswapFeeRatio: BigNumberish,
+    clearingHouseFeeRatio: BigNumberish,
+    isReplacingUniswapFeeRatio: boolean,
+): BigNumber {
+    const [newFeeRatio, replacedFeeRatio] = isReplacingUniswapFeeRatio
+        ? [clearingHouseFeeRatio, uniswapFeeRatio]
+        : [uniswapFeeRatio, clearingHouseFeeRatio]
+
+    return mulDivRoundingUp(amount, RATIO_ONE.sub(newFeeRatio), RATIO_ONE.sub(replacedFeeRatio))
+}
@@ -0,0 +1,114 @@
+import { BigNumber, BigNumberish } from "ethers"
+import { mulDiv } from "../fullMath"
+
+// port of https://github.com/Uniswap/v3-periphery/blob/main/contracts/libraries/LiquidityAmounts.sol
+
+const Q96 = BigNumber.from(2).pow(96)
+
+function sortSqrtRatios(sqrtRatioAX96: BigNumberish, sqrtRatioBX96: BigNumberish): [BigNumber, BigNumber] {
+    const a = BigNumber.from(sqrtRatioAX96)
+    const b = BigNumber.from(sqrtRatioBX96)
+    return a.gt(b) ? [b, a] : [a, b]
+}
+
+const MAX_UINT128 = BigNumber.from(2).pow(128).sub(1)
+
+function toUint128(value: BigNumber): BigNumber {
+    if (value.gt(MAX_UINT128)) {
+        throw new Error("LiquidityAmounts")
+    }
+    return value
+}
+
+// liquidity = amount0 * (sqrt(upper) * sqrt(lower)) / (sqrt(upper) - sqrt(lower))
+export function getLiquidityForAmount0(
+    sqrtRatioAX96: BigNumberish,
+    sqrtRatioBX96: BigNumberish,
+    amount0: BigNumberish,
+): BigNumber {
+    const [sqrtRatioLowerX96, sqrtRatioUpperX96] = sortSqrtRatios(sqrtRatioAX96, sqrtRatioBX96)
+    const intermediate = mulDiv(sqrtRatioLowerX96, sqrtRatioUpperX96, Q96)
+    return toUint128(mulDiv(amount0, intermediate, sqrtRatioUpperX96.sub(sqrtRatioLowerX96)))
+}
+
+// liquidity = amount1 / (sqrt(upper) - sqrt(lower))
+export function getLiquidityForAmount1(
+    sqrtRatioAX96: BigNumberish,
+    sqrtRatioBX96: BigNumberish,
+    amount1: BigNumberish,
+): BigNumber {
+    const [sqrtRatioLowerX96, sqrtRatioUpperX96] = sortSqrtRatios(sqrtRatioAX96, sqrtRatioBX96)
+    return toUint128(mulDiv(amount1, Q96, sqrtRatioUpperX96.sub(sqrtRatioLowerX96)))
+}
+
+// the maximum liquidity the token amounts can provide at the current price
+export function getLiquidityForAmounts(
+    sqrtRatioX96: BigNumberish,
+    sqrtRatioAX96: BigNumberish,
+    sqrtRatioBX96: BigNumberish,
+    amount0: BigNumberish,
+    amount1: BigNumberish,
+): BigNumber {
+    const sqrtRatio = BigNumber.from(sqrtRatioX96)
+    const [sqrtRatioLowerX96, sqrtRatioUpperX96] = sortSqrtRatios(sqrtRatioAX96, sqrtRatioBX96)
+
+    if (sqrtRatio.lte(sqrtRatioLowerX96)) {
+        return getLiquidityForAmount0(sqrtRatioLowerX96, sqrtRatioUpperX96, amount0)
+    }
+    if (sqrtRatio.lt(sqrtRatioUpperX96)) {
+        const liquidity0 = getLiquidityForAmount0(sqrtRatio, sqrtRatioUpperX96, amount0)
+        const liquidity1 = getLiquidityForAmount1(sqrtRatioLowerX96, sqrtRatio, amount1)
+        return liquidity0.lt(liquidity1) ? liquidity0 : liquidity1
+    }
+    return getLiquidityForAmount1(sqrtRatioLowerX96, sqrtRatioUpperX96, amount1)
+}
+
+// amount0 = liquidity * (sqrt(upper) - sqrt(lower)) / (sqrt(upper) * sqrt(lower)), rounding down
+export function getAmount0ForLiquidity(
+    sqrtRatioAX96: BigNumberish,
+    sqrtRatioBX96: BigNumberish,
+    liquidity: BigNumberish,
+): BigNumber {
+    const [sqrtRatioLowerX96, sqrtRatioUpperX96] = sortSqrtRatios(sqrtRatioAX96, sqrtRatioBX96)
+    return mulDiv(BigNumber.from(liquidity).shl(96), sqrtRatioUpperX96.sub(sqrtRatioLowerX96), sqrtRatioUpperX96).div(
+        sqrtRatioLowerX96,
+    )
+}
+
+// amount1 = liquidity * (sqrt(upper) - sqrt(lower)), rounding down
+export function getAmount1ForLiquidity(
+    sqrtRatioAX96: BigNumberish,
+    sqrtRatioBX96: BigNumberish,
+    liquidity: BigNumberish,
+): BigNumber {
+    const [sqrtRatioLowerX96, sqrtRatioUpperX96] = sortSqrtRatios(sqrtRatioAX96, sqrtRatioBX96)
+    return mulDiv(liquidity, sqrtRatioUpperX96.sub(sqrtRatioLowerX96), Q96)
+}
+
+// the token amounts of a position of the given liquidity at the current price
+export function getAmountsForLiquidity(
+    sqrtRatioX96: BigNumberish,
+    sqrtRatioAX96: BigNumberish,
+    sqrtRatioBX96: BigNumberish,
+    liquidity: BigNumberish,
+): { amount0: BigNumber; amount1: BigNumber } {
+    const sqrtRatio = BigNumber.from(sqrtRatioX96)
+    const [sqrtRatioLowerX96, sqrtRatioUpperX96] = sortSqrtRatios(sqrtRatioAX96, sqrtRatioBX96)
+
+    if (sqrtRatio.lte(sqrtRatioLowerX96)) {
+        return {
+            amount0: getAmount0ForLiquidity(sqrtRatioLowerX96, sqrtRatioUpperX96, liquidity),
+            amount1: BigNumber.from(0),
+        }
+    }
+    if (sqrtRatio.lt(sqrtRatioUpperX96)) {
+        return {
+            amount0: getAmount0ForLiquidity(sqrtRatio, sqrtRatioUpperX96, liquidity),
+            amount1: getAmount1ForLiquidity(sqrtRatioLowerX96, sqrtRatio, liquidity),
+        }
+    }
+    return {
+        amount0: BigNumber.from(0),
+        amount1: getAmount1ForLiquidity(sqrtRatioLowerX96, sqrtRatioUpperX96, liquidity),
+    }
+}
@@ -0,0 +1,17 @@
+import { BigNumber, BigNumberish } from "ethers"
+
+// port of https://github.com/Uniswap/v3-core/blob/main/contracts/libraries/LiquidityMath.sol
+
+const MAX_UINT128 = BigNumber.from(2).pow(128).sub(1)
+
+// add a signed liquidity delta to liquidity and revert if it overflows or underflows
+export function addDelta(x: BigNumberish, y: BigNumberish): BigNumber {
+    const z = BigNumber.from(x).add(y)
+    if (z.lt(0)) {
+        throw new Error("LS")
+    }
+    if (z.gt(MAX_UINT128)) {
+        throw new Error("LA")
+    }
+    return z
+}
@@ -0,0 +1,78 @@
+import { BigNumber, BigNumberish } from "ethers"
+import { formatUnits } from "ethers/lib/utils"
+import { getSqrtRatioAtTick, getTickAtSqrtRatio, MAX_TICK, MIN_TICK } from "./tickMath"
+
+// exact conversions between decimal prices (quote per base), sqrtPriceX96 and ticks, on integers only so that
+// they keep precision at the extreme ticks
+
+const Q192 = BigNumber.from(2).pow(192)
+
+// Babylonian method, rounding down
+export function sqrt(value: BigNumber): BigNumber {
+    if (value.lt(2)) {
+        return value
+    }
+    let x = value
+    let y = value.add(1).div(2)
+    while (y.lt(x)) {
+        x = y
+        y = value.div(x).add(x).div(2)
+    }
+    return x
+}
+
+// a decimal string or number, e.g. "151.37", "2.5e-30", 1500
+function parseDecimal(price: string | number): { numerator: BigNumber; denominator: BigNumber } {
+    const match = /^(\d+)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(String(price).trim())
+    if (!match) {
+        throw new Error(`PriceMath: invalid price ${price}`)
+    }
+    const fraction = match[2] || ""
+    const exponent = Number(match[3] || 0) - fraction.length
+    const digits = BigNumber.from(match[1] + fraction)
+    return exponent >= 0
+        ? { numerator: digits.mul(BigNumber.from(10).pow(exponent)), denominator: BigNumber.from(1) }
+        : { numerator: digits, denominator: BigNumber.from(10).pow(-exponent) }
+}
+
+// sqrt(price) * 2^96, rounding down
+export function encodePriceToSqrtPriceX96(price: string | number): BigNumber {
+    const { numerator, denominator } = parseDecimal(price)
+    return sqrt(numerator.mul(Q192).div(denominator))
+}
+
+// (sqrtPriceX96 / 2^96)^2 rounding half up to the given decimals, without trailing zeros
+export function formatSqrtPriceX96ToPrice(sqrtPriceX96: BigNumberish, decimals: number = 18): string {
+    const sqrtPrice = BigNumber.from(sqrtPriceX96)
+    const scaled = sqrtPrice.mul(sqrtPrice).mul(BigNumber.from(10).pow(decimals)).mul(2).add(Q192).div(Q192.mul(2))
+    return formatUnits(scaled, decimals).replace(/\.0$/, "")
+}
+
+// the greatest tick whose price is not greater than the given price
+export function priceToTick(price: string | number): number {
+    return getTickAtSqrtRatio(encodePriceToSqrtPriceX96(price))
+}
+
+// the usable tick of the tick spacing that is nearest to the price in ticks, i.e. log_1.0001(price) rounded to the
+// tick spacing with the halves rounded up, within [MIN_TICK, MAX_TICK]
+export function priceToUsableTick(price: string | number, tickSpacing: number): number {
+    const minTick = Math.ceil(MIN_TICK / tickSpacing) * tickSpacing
+    const maxTick = Math.floor(MAX_TICK / tickSpacing) * tickSpacing
+    const sqrtPriceX96 = encodePriceToSqrtPriceX96(price)
+    const lowerTick = Math.floor(getTickAtSqrtRatio(sqrtPriceX96) / tickSpacing) * tickSpacing
+    const upperTick = lowerTick + tickSpacing
+    if (lowerTick < minTick) {
+        return minTick
+    }
+    if (upperTick > maxTick) {
+        return maxTick
+    }
+
+    // the tick halfway between the two has the sqrt price of sqrt(sqrtPriceLower * sqrtPriceUpper)
+    const midSquare = getSqrtRatioAtTick(lowerTick).mul(getSqrtRatioAtTick(upperTick))
+    return sqrtPriceX96.mul(sqrtPriceX96).gte(midSquare) ? upperTick : lowerTick
+}
+
+export function tickToPrice(tick: number, decimals: number = 18): string {
+    return formatSqrtPriceX96ToPrice(getSqrtRatioAtTick(tick), decimals)
+}
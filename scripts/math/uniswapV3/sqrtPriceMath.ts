@@ -0,0 +1,179 @@
+import { BigNumber, BigNumberish, constants } from "ethers"
+import { mulDiv, mulDivRoundingUp } from "../fullMath"
+
+// port of https://github.com/Uniswap/v3-core/blob/main/contracts/libraries/SqrtPriceMath.sol
+// uniswap reverts without a reason string in this library, we throw "SqrtPriceMath" in such cases
+
+const Q96 = BigNumber.from(2).pow(96)
+const MAX_UINT160 = BigNumber.from(2).pow(160).sub(1)
+
+// UnsafeMath.divRoundingUp()
+export function divRoundingUp(x: BigNumberish, y: BigNumberish): BigNumber {
+    const xBN = BigNumber.from(x)
+    return xBN.div(y).add(xBN.mod(y).isZero() ? 0 : 1)
+}
+
+function toUint160(value: BigNumber): BigNumber {
+    if (value.gt(MAX_UINT160)) {
+        throw new Error("SqrtPriceMath")
+    }
+    return value
+}
+
+function getNextSqrtPriceFromAmount0RoundingUp(
+    sqrtPX96: BigNumber,
+    liquidity: BigNumber,
+    amount: BigNumber,
+    add: boolean,
+): BigNumber {
+    // we short circuit amount == 0 because the result is otherwise not guaranteed to equal the input price
+    if (amount.isZero()) {
+        return sqrtPX96
+    }
+    const numerator1 = liquidity.shl(96)
+    const product = amount.mul(sqrtPX96)
+
+    if (add) {
+        // the product can overflow in uniswap, in which case it falls back to the less precise formula
+        if (product.lte(constants.MaxUint256)) {
+            const denominator = numerator1.add(product)
+            if (denominator.lte(constants.MaxUint256)) {
+                return mulDivRoundingUp(numerator1, sqrtPX96, denominator)
+            }
+        }
+        const denominator = numerator1.div(sqrtPX96).add(amount)
+        if (denominator.gt(constants.MaxUint256)) {
+            throw new Error("SqrtPriceMath")
+        }
+        return divRoundingUp(numerator1, denominator)
+    }
+
+    // if the product overflows, we know the denominator underflows
+    // in addition, we must check that the denominator does not underflow
+    if (product.gt(constants.MaxUint256) || numerator1.lte(product)) {
+        throw new Error("SqrtPriceMath")
+    }
+    return toUint160(mulDivRoundingUp(numerator1, sqrtPX96, numerator1.sub(product)))
+}
+
+function getNextSqrtPriceFromAmount1RoundingDown(
+    sqrtPX96: BigNumber,
+    liquidity: BigNumber,
+    amount: BigNumber,
+    add: boolean,
+): BigNumber {
+    // both branches of uniswap (shift or FullMath) calculate the same value when it doesn't overflow
+    if (add) {
+        const quotient = amount.lte(MAX_UINT160) ? amount.shl(96).div(liquidity) : mulDiv(amount, Q96, liquidity)
+        return toUint160(sqrtPX96.add(quotient))
+    }
+
+    const quotient = amount.lte(MAX_UINT160)
+        ? divRoundingUp(amount.shl(96), liquidity)
+        : mulDivRoundingUp(amount, Q96, liquidity)
+    if (sqrtPX96.lte(quotient)) {
+        throw new Error("SqrtPriceMath")
+    }
+    return sqrtPX96.sub(quotient)
+}
+
+export function getNextSqrtPriceFromInput(
+    sqrtPX96: BigNumberish,
+    liquidity: BigNumberish,
+    amountIn: BigNumberish,
+    zeroForOne: boolean,
+): BigNumber {
+    const sqrtPX96BN = BigNumber.from(sqrtPX96)
+    const liquidityBN = BigNumber.from(liquidity)
+    if (sqrtPX96BN.lte(0) || liquidityBN.lte(0)) {
+        throw new Error("SqrtPriceMath")
+    }
+
+    // round to make sure that we don't pass the target price
+    return zeroForOne
+        ? getNextSqrtPriceFromAmount0RoundingUp(sqrtPX96BN, liquidityBN, BigNumber.from(amountIn), true)
+        : getNextSqrtPriceFromAmount1RoundingDown(sqrtPX96BN, liquidityBN, BigNumber.from(amountIn), true)
+}
+
+export function getNextSqrtPriceFromOutput(
+    sqrtPX96: BigNumberish,
+    liquidity: BigNumberish,
+    amountOut: BigNumberish,
+    zeroForOne: boolean,
+): BigNumber {
+    const sqrtPX96BN = BigNumber.from(sqrtPX96)
+    const liquidityBN = BigNumber.from(liquidity)
+    if (sqrtPX96BN.lte(0) || liquidityBN.lte(0)) {
+        throw new Error("SqrtPriceMath")
+    }
+
+    // round to make sure that we pass the target price
+    return zeroForOne
+        ? getNextSqrtPriceFromAmount1RoundingDown(sqrtPX96BN, liquidityBN, BigNumber.from(amountOut), false)
+        : getNextSqrtPriceFromAmount0RoundingUp(sqrtPX96BN, liquidityBN, BigNumber.from(amountOut), false)
+}
+
+// liquidity * (sqrt(upper) - sqrt(lower)) / (sqrt(upper) * sqrt(lower))
+export function getAmount0Delta(
+    sqrtRatioAX96: BigNumberish,
+    sqrtRatioBX96: BigNumberish,
+    liquidity: BigNumberish,
+    roundUp: boolean,
+): BigNumber {
+    let sqrtRatioLowerX96 = BigNumber.from(sqrtRatioAX96)
+    let sqrtRatioUpperX96 = BigNumber.from(sqrtRatioBX96)
+    if (sqrtRatioLowerX96.gt(sqrtRatioUpperX96)) {
+        ;[sqrtRatioLowerX96, sqrtRatioUpperX96] = [sqrtRatioUpperX96, sqrtRatioLowerX96]
+    }
+
+    const numerator1 = BigNumber.from(liquidity).shl(96)
+    const numerator2 = sqrtRatioUpperX96.sub(sqrtRatioLowerX96)
+    if (sqrtRatioLowerX96.lte(0)) {
+        throw new Error("SqrtPriceMath")
+    }
+
+    return roundUp
+        ? divRoundingUp(mulDivRoundingUp(numerator1, numerator2, sqrtRatioUpperX96), sqrtRatioLowerX96)
+        : mulDiv(numerator1, numerator2, sqrtRatioUpperX96).div(sqrtRatioLowerX96)
+}
+
+// liquidity * (sqrt(upper) - sqrt(lower))
+export function getAmount1Delta(
+    sqrtRatioAX96: BigNumberish,
+    sqrtRatioBX96: BigNumberish,
+    liquidity: BigNumberish,
+    roundUp: boolean,
+): BigNumber {
+    let sqrtRatioLowerX96 = BigNumber.from(sqrtRatioAX96)
+    let sqrtRatioUpperX96 = BigNumber.from(sqrtRatioBX96)
+    if (sqrtRatioLowerX96.gt(sqrtRatioUpperX96)) {
+        ;[sqrtRatioLowerX96, sqrtRatioUpperX96] = [sqrtRatioUpperX96, sqrtRatioLowerX96]
+    }
+
+    const diff = sqrtRatioUpperX96.sub(sqrtRatioLowerX96)
+    return roundUp ? mulDivRoundingUp(liquidity, diff, Q96) : mulDiv(liquidity, diff, Q96)
+}
+
+// signed token0 delta of a liquidity delta, rounded up when adding liquidity and down when removing
+export function getAmount0DeltaSigned(
+    sqrtRatioAX96: BigNumberish,
+    sqrtRatioBX96: BigNumberish,
+    liquidity: BigNumberish,
+): BigNumber {
+    const liquidityBN = BigNumber.from(liquidity)
+    return liquidityBN.lt(0)
+        ? getAmount0Delta(sqrtRatioAX96, sqrtRatioBX96, liquidityBN.mul(-1), false).mul(-1)
+        : getAmount0Delta(sqrtRatioAX96, sqrtRatioBX96, liquidityBN, true)
+}
+
+// signed token1 delta of a liquidity delta, rounded up when adding liquidity and down when removing
+export function getAmount1DeltaSigned(
+    sqrtRatioAX96: BigNumberish,
+    sqrtRatioBX96: BigNumberish,
+    liquidity: BigNumberish,
+): BigNumber {
+    const liquidityBN = BigNumber.from(liquidity)
+    return liquidityBN.lt(0)
+        ? getAmount1Delta(sqrtRatioAX96, sqrtRatioBX96, liquidityBN.mul(-1), false).mul(-1)
+        : getAmount1Delta(sqrtRatioAX96, sqrtRatioBX96, liquidityBN, true)
+}
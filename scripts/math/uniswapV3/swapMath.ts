@@ -0,0 +1,81 @@
+import { BigNumber, BigNumberish } from "ethers"
+import { mulDiv, mulDivRoundingUp } from "../fullMath"
+import {
+    getAmount0Delta,
+    getAmount1Delta,
+    getNextSqrtPriceFromInput,
+    getNextSqrtPriceFromOutput,
+} from "./sqrtPriceMath"
+
+// port of https://github.com/Uniswap/v3-core/blob/main/contracts/libraries/SwapMath.sol
+
+const ONE_HUNDRED_PERCENT = BigNumber.from(1e6)
+
+export interface SwapStep {
+    sqrtRatioNextX96: BigNumber
+    amountIn: BigNumber
+    amountOut: BigNumber
+    feeAmount: BigNumber
+}
+
+// computes the result of swapping some amount in, or amount out, given the parameters of the swap
+// feePips is in hundredths of a bip, i.e. 1e-6
+export function computeSwapStep(
+    sqrtRatioCurrentX96: BigNumberish,
+    sqrtRatioTargetX96: BigNumberish,
+    liquidity: BigNumberish,
+    amountRemaining: BigNumberish,
+    feePips: BigNumberish,
+): SwapStep {
+    const current = BigNumber.from(sqrtRatioCurrentX96)
+    const target = BigNumber.from(sqrtRatioTargetX96)
+    const remaining = BigNumber.from(amountRemaining)
+    const zeroForOne = current.gte(target)
+    const exactIn = remaining.gte(0)
+    const feeComplement = ONE_HUNDRED_PERCENT.sub(feePips)
+
+    let sqrtRatioNextX96: BigNumber
+    let amountIn = BigNumber.from(0)
+    let amountOut = BigNumber.from(0)
+
+    if (exactIn) {
+        const amountRemainingLessFee = mulDiv(remaining, feeComplement, ONE_HUNDRED_PERCENT)
+        amountIn = zeroForOne
+            ? getAmount0Delta(target, current, liquidity, true)
+            : getAmount1Delta(current, target, liquidity, true)
+        sqrtRatioNextX96 = amountRemainingLessFee.gte(amountIn)
+            ? target
+            : getNextSqrtPriceFromInput(current, liquidity, amountRemainingLessFee, zeroForOne)
+    } else {
+        amountOut = zeroForOne
+            ? getAmount1Delta(target, current, liquidity, false)
+            : getAmount0Delta(current, target, liquidity, false)
+        sqrtRatioNextX96 = remaining.mul(-1).gte(amountOut)
+            ? target
+            : getNextSqrtPriceFromOutput(current, liquidity, remaining.mul(-1), zeroForOne)
+    }
+
+    const max = target.eq(sqrtRatioNextX96)
+
+    // get the input/output amounts
+    if (zeroForOne) {
+        amountIn = max && exactIn ? amountIn : getAmount0Delta(sqrtRatioNextX96, current, liquidity, true)
+        amountOut = max && !exactIn ? amountOut : getAmount1Delta(sqrtRatioNextX96, current, liquidity, false)
+    } else {
+        amountIn = max && exactIn ? amountIn : getAmount1Delta(current, sqrtRatioNextX96, liquidity, true)
+        amountOut = max && !exactIn ? amountOut : getAmount0Delta(current, sqrtRatioNextX96, liquidity, false)
+    }
+
+    // cap the output amount to not exceed the remaining output amount
+    if (!exactIn && amountOut.gt(remaining.mul(-1))) {
+        amountOut = remaining.mul(-1)
+    }
+
+    // we didn't reach the target, so take the remainder of the maximum input as fee
+    const feeAmount =
+        exactIn && !sqrtRatioNextX96.eq(target)
+            ? remaining.sub(amountIn)
+            : mulDivRoundingUp(amountIn, feePips, feeComplement)
+
+    return { sqrtRatioNextX96, amountIn, amountOut, feeAmount }
+}
@@ -0,0 +1,102 @@
+import { BigNumber, BigNumberish } from "ethers"
+
+// port of https://github.com/Uniswap/v3-core/blob/main/contracts/libraries/TickMath.sol
+
+export const MIN_TICK = -887272
+export const MAX_TICK = -MIN_TICK
+export const MIN_SQRT_RATIO = BigNumber.from("4295128739")
+export const MAX_SQRT_RATIO = BigNumber.from("1461446703485210103287273052203988822378723970342")
+
+const Q32 = BigNumber.from(2).pow(32)
+const Q128 = BigNumber.from(2).pow(128)
+const MAX_UINT256 = BigNumber.from(2).pow(256).sub(1)
+
+// ratio multipliers for every bit of absTick, 1 / sqrt(1.0001)^(2^i) in Q128.128
+const TICK_RATIOS = [
+    "0xfff97272373d413259a46990580e213a",
+    "0xfff2e50f5f656932ef12357cf3c7fdcc",
+    "0xffe5caca7e10e4e61c3624eaa0941cd0",
+    "0xffcb9843d60f6159c9db58835c926644",
+    "0xff973b41fa98c081472e6896dfb254c0",
+    "0xff2ea16466c96a3843ec78b326b52861",
+    "0xfe5dee046a99a2a811c461f1969c3053",
+    "0xfcbe86c7900a88aedcffc83b479aa3a4",
+    "0xf987a7253ac413176f2b074cf7815e54",
+    "0xf3392b0822b70005940c7a398e4b70f3",
+    "0xe7159475a2c29b7443b29c7fa6e889d9",
+    "0xd097f3bdfd2022b8845ad8f792aa5825",
+    "0xa9f746462d870fdf8a65dc1f90e061e5",
+    "0x70d869a156d2a1b890bb3df62baf32f7",
+    "0x31be135f97d08fd981231505542fcfa6",
+    "0x9aa508b5b7a84e1c677de54f3e99bc9",
+    "0x5d6af8dedb81196699c329225ee604",
+    "0x2216e584f5fa1ea926041bedfe98",
+    "0x48a170391f7dc42444e8fa2",
+].map(ratio => BigNumber.from(ratio))
+
+// arithmetic right shift of a signed value, i.e. floor(value / 2^bits)
+function sar(value: BigNumber, bits: number): BigNumber {
+    const divisor = BigNumber.from(2).pow(bits)
+    const quotient = value.div(divisor)
+    return value.lt(0) && !value.mod(divisor).isZero() ? quotient.sub(1) : quotient
+}
+
+// value must be greater than 0
+function mostSignificantBit(value: BigNumber): number {
+    const hex = value.toHexString().slice(2).replace(/^0+/, "")
+    return (hex.length - 1) * 4 + parseInt(hex[0], 16).toString(2).length - 1
+}
+
+// Calculates sqrt(1.0001^tick) * 2^96
+export function getSqrtRatioAtTick(tick: number): BigNumber {
+    const absTick = Math.abs(tick)
+    if (!Number.isInteger(tick) || absTick > MAX_TICK) {
+        throw new Error("T")
+    }
+
+    let ratio = (absTick & 0x1) !== 0 ? BigNumber.from("0xfffcb933bd6fad37aa2d162d1a594001") : Q128
+    TICK_RATIOS.forEach((tickRatio, i) => {
+        if ((absTick & (0x2 << i)) !== 0) {
+            ratio = ratio.mul(tickRatio).shr(128)
+        }
+    })
+
+    if (tick > 0) {
+        ratio = MAX_UINT256.div(ratio)
+    }
+
+    // divide by 1<<32 rounding up to go from a Q128.128 to a Q128.96
+    return ratio.shr(32).add(ratio.mod(Q32).isZero() ? 0 : 1)
+}
+
+// Calculates the greatest tick value such that getSqrtRatioAtTick(tick) <= sqrtPriceX96
+export function getTickAtSqrtRatio(sqrtPriceX96: BigNumberish): number {
+    const sqrtPriceX96BN = BigNumber.from(sqrtPriceX96)
+    if (sqrtPriceX96BN.lt(MIN_SQRT_RATIO) || sqrtPriceX96BN.gte(MAX_SQRT_RATIO)) {
+        throw new Error("R")
+    }
+
+    const ratio = sqrtPriceX96BN.shl(32)
+    const msb = mostSignificantBit(ratio)
+    let r = msb >= 128 ? ratio.shr(msb - 127) : ratio.shl(127 - msb)
+
+    // the integer part lives above bit 64 and the fraction bits below, so OR-ing them equals adding them
+    let log2 = BigNumber.from(msb - 128).mul(BigNumber.from(2).pow(64))
+    for (let bit = 63; bit >= 50; bit--) {
+        r = r.mul(r).shr(127)
+        const f = r.shr(128)
+        log2 = log2.add(f.shl(bit))
+        r = r.shr(f.toNumber())
+    }
+
+    // 128.128 number
+    const logSqrt10001 = log2.mul("255738958999603826347141")
+
+    const tickLow = sar(logSqrt10001.sub("3402992956809132418596140100660247210"), 128).toNumber()
+    const tickHi = sar(logSqrt10001.add("291339464771989622907027621153398088495"), 128).toNumber()
+
+    if (tickLow === tickHi) {
+        return tickLow
+    }
+    return getSqrtRatioAtTick(tickHi).lte(sqrtPriceX96BN) ? tickHi : tickLow
+}
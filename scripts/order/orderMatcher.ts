@@ -0,0 +1,32 @@
+import { BigNumber } from "ethers"
+import { Order, OrderType, TriggerPriceType } from "./signedOrder"
+
+// in 18 decimals
+export interface OrderPrices {
+    // AccountBalance.getMarkPrice()
+    markPrice: BigNumber
+    // BaseToken.getIndexPrice(0)
+    indexPrice: BigNumber
+}
+
+export function getTriggerPrice(order: Order, prices: OrderPrices): BigNumber {
+    return order.triggerPriceType === TriggerPriceType.INDEX_PRICE ? prices.indexPrice : prices.markPrice
+}
+
+// whether the keeper should try to fill the order at the prices:
+// limit: buy (Q2B) at or below the limit price, sell (B2Q) at or above it
+// stop loss: buy at or above the trigger price, e.g. to close a short, sell at or below it, e.g. to close a long
+// take profit: buy at or below the trigger price, sell at or above it
+// NOTE: SignedOrderBook checks the trigger of the first fill and the limit price of every fill on chain as well
+export function isOrderTriggered(order: Order, prices: OrderPrices): boolean {
+    const price = getTriggerPrice(order, prices)
+    switch (order.orderType) {
+        case OrderType.LIMIT:
+            return order.isBaseToQuote ? price.gte(order.limitPrice) : price.lte(order.limitPrice)
+        case OrderType.STOP_LOSS:
+            return order.isBaseToQuote ? price.lte(order.triggerPrice) : price.gte(order.triggerPrice)
+        case OrderType.TAKE_PROFIT:
+            return order.isBaseToQuote ? price.gte(order.triggerPrice) : price.lte(order.triggerPrice)
+    }
+    throw new Error(`OrderMatcher: invalid order type ${order.orderType}`)
+}
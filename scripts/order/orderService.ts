@@ -0,0 +1,258 @@
+import Database from "better-sqlite3"
+import { BigNumber, BigNumberish } from "ethers"
+import {
+    getOrderHash,
+    Order,
+    OrderDomain,
+    recoverCancelOrderSigner,
+    recoverOrderSigner,
+    SignedOrder,
+    validateOrder,
+} from "./signedOrder"
+
+export type OrderStatus = "open" | "filled" | "cancelled" | "expired"
+
+export interface OrderFill {
+    amount: BigNumber
+    txHash: string
+    timestamp: number
+}
+
+export interface OrderState {
+    hash: string
+    signedOrder: SignedOrder
+    status: OrderStatus
+    // the time of the first fill of a stop loss or take profit order, after which it is filled at any price until it
+    // is filled or expired, the same as SignedOrderBook
+    triggeredAt?: number
+    // the CancelOrder signed by the trader, relayed to SignedOrderBook.cancelOrderBySig() by the keeper
+    cancelSignature?: string
+    cancelTxHash?: string
+    // in the unit of the amount of the order
+    filledAmount: BigNumber
+    fills: OrderFill[]
+}
+
+interface OrderRow {
+    hash: string
+    trader: string
+    signed_order: string
+    status: OrderStatus
+    expiry: number
+    triggered_at: number | null
+    cancel_signature: string | null
+    cancel_tx_hash: string | null
+}
+
+interface FillRow {
+    amount: string
+    tx_hash: string
+    timestamp: number
+}
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS orders (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        hash TEXT NOT NULL UNIQUE,
+        trader TEXT NOT NULL,
+        signed_order TEXT NOT NULL,
+        status TEXT NOT NULL,
+        expiry INTEGER NOT NULL,
+        triggered_at INTEGER,
+        cancel_signature TEXT,
+        cancel_tx_hash TEXT
+    );
+    CREATE INDEX IF NOT EXISTS orders_by_status ON orders (status, id);
+    CREATE INDEX IF NOT EXISTS orders_by_trader ON orders (trader, id);
+    CREATE TABLE IF NOT EXISTS fills (
+        hash TEXT NOT NULL,
+        tx_hash TEXT NOT NULL,
+        amount TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        PRIMARY KEY (hash, tx_hash)
+    );
+`
+
+// the BigNumbers of the order as decimal strings, so it is kept as JSON
+function toStoredOrder(order: Order): Order {
+    return {
+        ...order,
+        salt: BigNumber.from(order.salt).toString(),
+        amount: BigNumber.from(order.amount).toString(),
+        limitPrice: BigNumber.from(order.limitPrice).toString(),
+        triggerPrice: BigNumber.from(order.triggerPrice).toString(),
+    }
+}
+
+// keeps the signed orders of traders and the fills of them in a SQLite database, which the service receiving the
+// orders and the keeper filling them can open at the same time: every change is a transaction holding the write
+// lock from reading the order to writing it, so no submission, cancellation or fill is lost
+export class OrderService {
+    private readonly db: Database.Database
+
+    // use ":memory:" for a throwaway database
+    constructor(readonly domain: OrderDomain, filename = ":memory:") {
+        this.db = new Database(filename)
+        this.db.exec(SCHEMA)
+    }
+
+    close(): void {
+        this.db.close()
+    }
+
+    // returns the hash of the order
+    submit(signedOrder: SignedOrder, now: number): string {
+        const { order } = signedOrder
+        validateOrder(order)
+        const signer = recoverOrderSigner(this.domain, signedOrder)
+        if (signer !== order.trader) {
+            throw new Error(`OrderService: signer ${signer} is not the trader ${order.trader}`)
+        }
+        if (order.expiry <= now) {
+            throw new Error(`OrderService: order expired at ${order.expiry}`)
+        }
+        const hash = getOrderHash(this.domain, order)
+        const storedOrder: SignedOrder = { order: toStoredOrder(order), signature: signedOrder.signature }
+        const { changes } = this.db
+            .prepare("INSERT OR IGNORE INTO orders (hash, trader, signed_order, status, expiry) VALUES (?, ?, ?, ?, ?)")
+            .run(hash, order.trader, JSON.stringify(storedOrder), "open", order.expiry)
+        if (changes === 0) {
+            throw new Error(`OrderService: order ${hash} exists`)
+        }
+        return hash
+    }
+
+    // the signature is the one of the trader for the CancelOrder of the hash
+    cancel(hash: string, signature: string): void {
+        this.update(hash, state => {
+            const signer = recoverCancelOrderSigner(this.domain, hash, signature)
+            if (signer !== state.signedOrder.order.trader) {
+                throw new Error(`OrderService: signer ${signer} is not the trader ${state.signedOrder.order.trader}`)
+            }
+            this.requireOpen(state)
+            this.db
+                .prepare("UPDATE orders SET status = 'cancelled', cancel_signature = ? WHERE hash = ?")
+                .run(signature, hash)
+        })
+    }
+
+    // the order is cancelled on chain by the trader, without a signature to relay
+    markCancelled(hash: string): void {
+        this.update(hash, state => {
+            this.requireOpen(state)
+            this.db.prepare("UPDATE orders SET status = 'cancelled' WHERE hash = ?").run(hash)
+        })
+    }
+
+    // the cancelled orders not expired at now of which the CancelOrder is not relayed on chain yet
+    getCancelsToRelay(now: number): OrderState[] {
+        const rows = this.db
+            .prepare(
+                "SELECT * FROM orders WHERE status = 'cancelled' AND cancel_signature IS NOT NULL " +
+                    "AND cancel_tx_hash IS NULL AND expiry > ? ORDER BY id",
+            )
+            .all(now) as OrderRow[]
+        return rows.map(row => this.toOrderState(row))
+    }
+
+    recordCancelRelayed(hash: string, txHash: string): void {
+        this.update(hash, () => {
+            this.db.prepare("UPDATE orders SET cancel_tx_hash = ? WHERE hash = ?").run(txHash, hash)
+        })
+    }
+
+    getOrder(hash: string): OrderState {
+        const row = this.db.prepare("SELECT * FROM orders WHERE hash = ?").get(hash) as OrderRow | undefined
+        if (!row) {
+            throw new Error(`OrderService: order ${hash} is not found`)
+        }
+        return this.toOrderState(row)
+    }
+
+    getOrders(trader?: string): OrderState[] {
+        const rows = (
+            trader === undefined
+                ? this.db.prepare("SELECT * FROM orders ORDER BY id").all()
+                : this.db.prepare("SELECT * FROM orders WHERE trader = ? ORDER BY id").all(trader)
+        ) as OrderRow[]
+        return rows.map(row => this.toOrderState(row))
+    }
+
+    // the open orders in the order of submission, the ones expired at now are marked as expired
+    getOpenOrders(now: number): OrderState[] {
+        this.db.prepare("UPDATE orders SET status = 'expired' WHERE status = 'open' AND expiry <= ?").run(now)
+        const rows = this.db.prepare("SELECT * FROM orders WHERE status = 'open' ORDER BY id").all() as OrderRow[]
+        return rows.map(row => this.toOrderState(row))
+    }
+
+    getRemainingAmount(hash: string): BigNumber {
+        const state = this.getOrder(hash)
+        return BigNumber.from(state.signedOrder.order.amount).sub(state.filledAmount)
+    }
+
+    markTriggered(hash: string, timestamp: number): void {
+        this.update(hash, state => {
+            this.requireOpen(state)
+            if (state.triggeredAt === undefined) {
+                this.db.prepare("UPDATE orders SET triggered_at = ? WHERE hash = ?").run(timestamp, hash)
+            }
+        })
+    }
+
+    recordFill(hash: string, amount: BigNumberish, txHash: string, timestamp: number): void {
+        this.update(hash, state => {
+            this.requireOpen(state)
+            const fillAmount = BigNumber.from(amount)
+            const remainingAmount = BigNumber.from(state.signedOrder.order.amount).sub(state.filledAmount)
+            if (fillAmount.lte(0) || fillAmount.gt(remainingAmount)) {
+                throw new Error(`OrderService: invalid fill amount ${fillAmount.toString()} of order ${hash}`)
+            }
+            this.db
+                .prepare("INSERT INTO fills (hash, tx_hash, amount, timestamp) VALUES (?, ?, ?, ?)")
+                .run(hash, txHash, fillAmount.toString(), timestamp)
+            if (fillAmount.eq(remainingAmount)) {
+                this.db.prepare("UPDATE orders SET status = 'filled' WHERE hash = ?").run(hash)
+            }
+        })
+    }
+
+    // reads the order and applies the change in a transaction holding the write lock from the start, so another
+    // process cannot change the order in between
+    private update(hash: string, change: (state: OrderState) => void): void {
+        this.db.transaction(() => change(this.getOrder(hash))).immediate()
+    }
+
+    private toOrderState(row: OrderRow): OrderState {
+        const fillRows = this.db
+            .prepare("SELECT amount, tx_hash, timestamp FROM fills WHERE hash = ? ORDER BY rowid")
+            .all(row.hash) as FillRow[]
+        const fills = fillRows.map(fill => ({
+            amount: BigNumber.from(fill.amount),
+            txHash: fill.tx_hash,
+            timestamp: fill.timestamp,
+        }))
+        const state: OrderState = {
+            hash: row.hash,
+            signedOrder: JSON.parse(row.signed_order),
+            status: row.status,
+            filledAmount: fills.reduce((sum, fill) => sum.add(fill.amount), BigNumber.from(0)),
+            fills,
+        }
+        if (row.triggered_at !== null) {
+            state.triggeredAt = row.triggered_at
+        }
+        if (row.cancel_signature !== null) {
+            state.cancelSignature = row.cancel_signature
+        }
+        if (row.cancel_tx_hash !== null) {
+            state.cancelTxHash = row.cancel_tx_hash
+        }
+        return state
+    }
+
+    private requireOpen(state: OrderState): void {
+        if (state.status !== "open") {
+            throw new Error(`OrderService: order ${state.hash} is ${state.status}`)
+        }
+    }
+}
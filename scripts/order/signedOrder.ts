@@ -0,0 +1,149 @@
+import { BigNumber, BigNumberish, constants, Wallet } from "ethers"
+import { _TypedDataEncoder, verifyTypedData } from "ethers/lib/utils"
+import { X10_18 } from "../math/perpMath"
+import { OpenPositionParams } from "../sdk/perpClient"
+
+// orders signed off-chain by traders with EIP-712 and filled by a keeper through SignedOrderBook, the delegate
+// approved in DelegateApproval, which verifies the signature, the filled amount, the cancellation and the prices on
+// chain before calling ClearingHouse.openPositionFor() for the trader
+
+export enum OrderType {
+    LIMIT,
+    STOP_LOSS,
+    TAKE_PROFIT,
+}
+
+export enum TriggerPriceType {
+    MARK_PRICE,
+    INDEX_PRICE,
+}
+
+export interface Order {
+    orderType: OrderType
+    // makes the hashes of the same orders unique
+    salt: BigNumberish
+    trader: string
+    baseToken: string
+    isBaseToQuote: boolean
+    isExactInput: boolean
+    // in base for B2Q exact input and Q2B exact output, in quote for the others
+    amount: BigNumberish
+    // the worst average price of every fill in quote per base, in 18 decimals; zero for a stop or take profit order
+    // filled at any price
+    limitPrice: BigNumberish
+    // the price to activate a stop loss or take profit order, in 18 decimals; unused by limit orders
+    triggerPrice: BigNumberish
+    // the price that limit orders and triggers are compared with
+    triggerPriceType: TriggerPriceType
+    // in seconds, also the deadline of openPositionFor()
+    expiry: number
+    referralCode: string
+}
+
+export interface SignedOrder {
+    order: Order
+    signature: string
+}
+
+// the EIP-712 domain of orders
+export interface OrderDomain {
+    name: string
+    version: string
+    chainId: number
+    // SignedOrderBook, the delegate approved by the traders
+    verifyingContract: string
+}
+
+export const ORDER_DOMAIN_NAME = "Perp Curie Signed Order"
+export const ORDER_DOMAIN_VERSION = "1"
+
+export const ORDER_TYPES = {
+    Order: [
+        { name: "orderType", type: "uint8" },
+        { name: "salt", type: "uint256" },
+        { name: "trader", type: "address" },
+        { name: "baseToken", type: "address" },
+        { name: "isBaseToQuote", type: "bool" },
+        { name: "isExactInput", type: "bool" },
+        { name: "amount", type: "uint256" },
+        { name: "limitPrice", type: "uint256" },
+        { name: "triggerPrice", type: "uint256" },
+        { name: "triggerPriceType", type: "uint8" },
+        { name: "expiry", type: "uint256" },
+        { name: "referralCode", type: "bytes32" },
+    ],
+}
+
+export const CANCEL_ORDER_TYPES = {
+    CancelOrder: [{ name: "orderHash", type: "bytes32" }],
+}
+
+// the signature is bound to the SignedOrderBook the trader approves, so it cannot be replayed by another delegate
+export function getOrderDomain(chainId: number, signedOrderBook: string): OrderDomain {
+    return { name: ORDER_DOMAIN_NAME, version: ORDER_DOMAIN_VERSION, chainId, verifyingContract: signedOrderBook }
+}
+
+export function getOrderHash(domain: OrderDomain, order: Order): string {
+    return _TypedDataEncoder.hash(domain, ORDER_TYPES, order)
+}
+
+export async function signOrder(signer: Wallet, domain: OrderDomain, order: Order): Promise<SignedOrder> {
+    return { order, signature: await signer._signTypedData(domain, ORDER_TYPES, order) }
+}
+
+export async function signCancelOrder(signer: Wallet, domain: OrderDomain, orderHash: string): Promise<string> {
+    return signer._signTypedData(domain, CANCEL_ORDER_TYPES, { orderHash })
+}
+
+export function recoverOrderSigner(domain: OrderDomain, signedOrder: SignedOrder): string {
+    return verifyTypedData(domain, ORDER_TYPES, signedOrder.order, signedOrder.signature)
+}
+
+export function recoverCancelOrderSigner(domain: OrderDomain, orderHash: string, signature: string): string {
+    return verifyTypedData(domain, CANCEL_ORDER_TYPES, { orderHash }, signature)
+}
+
+export function validateOrder(order: Order): void {
+    if (OrderType[order.orderType] === undefined || TriggerPriceType[order.triggerPriceType] === undefined) {
+        throw new Error("SignedOrder: invalid order type or trigger price type")
+    }
+    if (BigNumber.from(order.amount).lte(0)) {
+        throw new Error("SignedOrder: zero amount")
+    }
+    if (order.orderType === OrderType.LIMIT && BigNumber.from(order.limitPrice).isZero()) {
+        throw new Error("SignedOrder: limit order without limit price")
+    }
+    if (order.orderType !== OrderType.LIMIT && BigNumber.from(order.triggerPrice).isZero()) {
+        throw new Error("SignedOrder: stop loss or take profit order without trigger price")
+    }
+}
+
+// the opposite amount of a fill at the limit price as ClearingHouse._checkSlippage() expects, rounding in favor of
+// the trader, i.e. lower bounds of the output round up and upper bounds of the input round down
+// B2Q + exact input: lower bound of output quote, B2Q + exact output: upper bound of input base
+// Q2B + exact input: lower bound of output base, Q2B + exact output: upper bound of input quote
+export function getOppositeAmountBound(order: Order, fillAmount: BigNumberish): BigNumber {
+    const limitPrice = BigNumber.from(order.limitPrice)
+    if (limitPrice.isZero()) {
+        return order.isExactInput ? BigNumber.from(0) : constants.MaxUint256
+    }
+    const amount = BigNumber.from(fillAmount)
+    const isBaseAmount = order.isBaseToQuote === order.isExactInput
+    const numerator = isBaseAmount ? amount.mul(limitPrice) : amount.mul(X10_18)
+    const denominator = isBaseAmount ? X10_18 : limitPrice
+    return order.isExactInput ? numerator.add(denominator).sub(1).div(denominator) : numerator.div(denominator)
+}
+
+// IClearingHouse.OpenPositionParams of a fill, the same as SignedOrderBook._getOpenPositionParams()
+export function getOpenPositionParams(order: Order, fillAmount: BigNumberish): OpenPositionParams {
+    return {
+        baseToken: order.baseToken,
+        isBaseToQuote: order.isBaseToQuote,
+        isExactInput: order.isExactInput,
+        amount: BigNumber.from(fillAmount),
+        oppositeAmountBound: getOppositeAmountBound(order, fillAmount),
+        deadline: BigNumber.from(order.expiry),
+        sqrtPriceLimitX96: BigNumber.from(0),
+        referralCode: order.referralCode,
+    }
+}
@@ -3,7 +3,7 @@ export interface ContractNameAndDir {
     dir: string
 }
 
-// only for slither analysis.
+// for slither analysis, deployment and the storage layout check.
 export const allDeployedContractsNamesAndDirs: ContractNameAndDir[] = [
     { name: "ClearingHouse.sol", dir: "./contracts" },
     { name: "AccountBalance.sol", dir: "./contracts" },
@@ -17,4 +17,5 @@ export const allDeployedContractsNamesAndDirs: ContractNameAndDir[] = [
     { name: "OrderBook.sol", dir: "./contracts" },
     { name: "CollateralManager.sol", dir: "./contracts" },
     { name: "DelegateApproval.sol", dir: "./contracts" },
+    { name: "SignedOrderBook.sol", dir: "./contracts" },
 ]
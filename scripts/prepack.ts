@@ -1,10 +1,17 @@
 import { asyncExec } from "./helper"
+import { checkStorageLayouts, getBaselineRelease } from "./storageLayout"
 
 async function main(): Promise<void> {
+    // the debug files are needed by the storage layout check, so it goes before the cleanup
+    checkStorageLayouts(getBaselineRelease())
+
     await asyncExec("rm -rf artifacts/contracts/test/")
     await asyncExec("rm -rf artifacts/contracts/uniswap/")
     await asyncExec("find artifacts/contracts/ -name '*.dbg.json' -delete")
     await asyncExec("rm -rf contracts/test")
+
+    // sdk/ is the entry of the package, see "main" of package.json
+    await asyncExec("npm run build-sdk")
 }
 
 if (require.main === module) {
@@ -0,0 +1,392 @@
+import { defaultAbiCoder, hexDataSlice } from "ethers/lib/utils"
+import fs from "fs"
+import path from "path"
+
+// the revert reasons of the contracts, e.g. V_IBA, with the comments next to them:
+//   // V_IBA: inconsistent balance amount, to prevent from deflationary tokens
+//   require((IERC20Metadata(token).balanceOf(address(this)).sub(balanceBefore)) == amount, "V_IBA");
+
+export interface RevertReasonSite {
+    // relative to the root of the repo, e.g. contracts/Vault.sol
+    file: string
+    // 1-based, of the first line of the statement
+    line: number
+    statement: "require" | "revert"
+    // the comment next to the statement, as written
+    comment?: string
+}
+
+export interface RevertReason {
+    reason: string
+    // the comment without the prefix of the reason, e.g. "inconsistent balance amount, ..." of V_IBA
+    description?: string
+    sites: RevertReasonSite[]
+}
+
+export interface RevertReasonCatalog {
+    [reason: string]: RevertReason
+}
+
+export interface DecodedRevert {
+    // undefined when reverted without a reason
+    reason?: string
+    // undefined when the reason is not in the catalog
+    revertReason?: RevertReason
+    explanation: string
+}
+
+export interface RevertReasonCoverage {
+    asserted: string[]
+    unasserted: RevertReason[]
+}
+
+// the fields of the errors of hardhat, ethers and the json-rpc nodes having the revert data or the reason
+interface ErrorLike {
+    data?: unknown
+    message?: unknown
+    body?: unknown
+    error?: unknown
+}
+
+// the selector of Error(string)
+const ERROR_SELECTOR = "0x08c379a0"
+
+// the mocks and the helpers of the tests, which are not deployed
+const EXCLUDED_CONTRACT_DIRS = ["contracts/test", "contracts/hardhat-dependency-compiler"]
+
+// how far to look up for the comment of a reason, when it's not right above the statement, e.g. above an if block
+const MAX_COMMENT_DISTANCE = 5
+
+const STATEMENT_REGEX = /\b(require|revert)\s*\(/
+const STRING_LITERAL_REGEX = /^"((?:[^"\\]|\\.)*)"$/
+
+function listFiles(dir: string, extensions: string[], excludedDirs: string[] = []): string[] {
+    const files: string[] = []
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        const filename = path.join(dir, entry.name)
+        if (entry.isDirectory()) {
+            if (!excludedDirs.some(excludedDir => path.relative(excludedDir, filename) === "")) {
+                files.push(...listFiles(filename, extensions, excludedDirs))
+            }
+        } else if (extensions.includes(path.extname(entry.name))) {
+            files.push(filename)
+        }
+    }
+    return files.sort()
+}
+
+// the args of the call of which the open parenthesis is at start, split by the top-level commas;
+// undefined when the parentheses are not closed
+function splitArgs(source: string, start: number): { args: string[]; end: number } | undefined {
+    const args: string[] = []
+    let depth = 0
+    let argStart = start + 1
+    for (let i = start; i < source.length; i++) {
+        const char = source[i]
+        if (char === '"' || char === "'") {
+            // skip the string literal
+            for (i++; i < source.length && source[i] !== char; i++) {
+                if (source[i] === "\\") {
+                    i++
+                }
+            }
+        } else if (char === "/" && source[i + 1] === "/") {
+            i = source.indexOf("\n", i)
+            if (i < 0) {
+                return undefined
+            }
+        } else if (char === "(" || char === "[" || char === "{") {
+            depth++
+        } else if (char === ")" || char === "]" || char === "}") {
+            depth--
+            if (depth === 0) {
+                args.push(source.slice(argStart, i))
+                return { args: args.map(arg => arg.replace(/\/\/.*$/gm, "").trim()), end: i }
+            }
+        } else if (char === "," && depth === 1) {
+            args.push(source.slice(argStart, i))
+            argStart = i + 1
+        }
+    }
+    return undefined
+}
+
+function getLineComment(line: string): string | undefined {
+    const match = line.match(/^\s*\/\/(?!\/)\s?(.*)$/)
+    return match ? match[1].trim() : undefined
+}
+
+// the description when the comment is of the reason, e.g. "V_IBA: inconsistent balance amount" or without the prefix;
+// undefined when it's prefixed by another reason
+function getDescription(reason: string, comment: string): string | undefined {
+    const match = comment.match(/^([A-Za-z0-9]+_[A-Za-z0-9_]+)\s*:\s*(.*)$/)
+    if (!match) {
+        return comment
+    }
+    return match[1] === reason ? match[2] : undefined
+}
+
+// the comment of the reason in the statement, e.g. CH_NEFCM of ClearingHouse, right above it, or prefixed by the
+// reason up to MAX_COMMENT_DISTANCE lines above it
+function findComment(lines: string[], firstLine: number, lastLine: number, reason: string): string | undefined {
+    const isOfReason = (comment: string | undefined) =>
+        comment !== undefined && getDescription(reason, comment) !== undefined && comment.startsWith(reason)
+
+    for (let i = firstLine; i <= lastLine; i++) {
+        const comment = getLineComment(lines[i])
+        if (isOfReason(comment)) {
+            return comment
+        }
+    }
+
+    const commentsAbove: string[] = []
+    for (let i = firstLine - 1; i >= 0; i--) {
+        const comment = getLineComment(lines[i])
+        if (comment === undefined) {
+            break
+        }
+        commentsAbove.unshift(comment)
+    }
+    const prefixed = commentsAbove.find(isOfReason)
+    if (prefixed) {
+        return prefixed
+    }
+    if (commentsAbove.length > 0 && getDescription(reason, commentsAbove[0]) !== undefined) {
+        return commentsAbove.join(" ")
+    }
+
+    for (let i = firstLine - 1; i >= Math.max(0, firstLine - MAX_COMMENT_DISTANCE); i--) {
+        const comment = getLineComment(lines[i])
+        if (isOfReason(comment)) {
+            return comment
+        }
+    }
+    return undefined
+}
+
+// the sites of the require() and revert() with a string literal as the reason in a solidity source
+export function extractRevertReasonSites(source: string, file: string): { reason: string; site: RevertReasonSite }[] {
+    const lines = source.split("\n")
+    const lineStarts = [0]
+    for (let i = 0; i < source.length; i++) {
+        if (source[i] === "\n") {
+            lineStarts.push(i + 1)
+        }
+    }
+    const getLineIndex = (offset: number) => {
+        let index = 0
+        while (index + 1 < lineStarts.length && lineStarts[index + 1] <= offset) {
+            index++
+        }
+        return index
+    }
+
+    const results: { reason: string; site: RevertReasonSite }[] = []
+    const statementRegex = new RegExp(STATEMENT_REGEX.source, "g")
+    let match: RegExpExecArray | null
+    while ((match = statementRegex.exec(source)) !== null) {
+        const firstLine = getLineIndex(match.index)
+        const lineBefore = lines[firstLine].slice(0, match.index - lineStarts[firstLine])
+        // in a comment, or a member such as foo.revert()
+        if (lineBefore.includes("//") || /^\s*\*/.test(lineBefore) || /\.\s*$/.test(lineBefore)) {
+            continue
+        }
+
+        const statement = match[1] as RevertReasonSite["statement"]
+        const split = splitArgs(source, match.index + match[0].length - 1)
+        if (!split) {
+            continue
+        }
+        const reasonArg = statement === "require" ? split.args[1] : split.args[0]
+        const literal = split.args.length === (statement === "require" ? 2 : 1) && reasonArg.match(STRING_LITERAL_REGEX)
+        // e.g. require(cond), revert() or revert(_revertReason)
+        if (!literal) {
+            continue
+        }
+
+        const reason = literal[1]
+        const lastLine = getLineIndex(split.end)
+        // a comment at the end of the statement, e.g. require(cond, "X"); // X: the description
+        const trailingComment = lines[lastLine].slice(split.end - lineStarts[lastLine]).match(/\/\/\s?(.*)$/)
+        const comment =
+            findComment(lines, firstLine, lastLine, reason) || (trailingComment ? trailingComment[1].trim() : undefined)
+        results.push({
+            reason,
+            site: { file, line: firstLine + 1, statement, ...(comment !== undefined ? { comment } : {}) },
+        })
+    }
+    return results
+}
+
+// the catalog of the reasons of the solidity files in the dir except the ones of the tests, the reasons sorted
+// alphabetically
+export function getRevertReasonCatalog(
+    dir = "contracts",
+    excludedDirs: string[] = EXCLUDED_CONTRACT_DIRS,
+): RevertReasonCatalog {
+    const reasons: RevertReasonCatalog = {}
+    for (const filename of listFiles(dir, [".sol"], excludedDirs)) {
+        const file = filename.split(path.sep).join("/")
+        for (const { reason, site } of extractRevertReasonSites(fs.readFileSync(filename, "utf8"), file)) {
+            if (!reasons[reason]) {
+                reasons[reason] = { reason, sites: [] }
+            }
+            const revertReason = reasons[reason]
+            revertReason.sites.push(site)
+            if (revertReason.description === undefined && site.comment !== undefined) {
+                revertReason.description = getDescription(reason, site.comment)
+            }
+        }
+    }
+
+    const catalog: RevertReasonCatalog = {}
+    for (const reason of Object.keys(reasons).sort()) {
+        catalog[reason] = reasons[reason]
+    }
+    return catalog
+}
+
+function isErrorLike(value: unknown): value is ErrorLike {
+    return typeof value === "object" && value !== null
+}
+
+// the reason of Error(string) in the revert data, undefined when it's not Error(string)
+export function decodeRevertData(data: unknown): string | undefined {
+    if (typeof data !== "string" || !data.toLowerCase().startsWith(ERROR_SELECTOR) || data.length < 10) {
+        return undefined
+    }
+    try {
+        return defaultAbiCoder.decode(["string"], hexDataSlice(data, 4))[0]
+    } catch (error) {
+        return undefined
+    }
+}
+
+// the reason in the error of a failed tx or eth_call, by either the revert data or the message of
+// hardhat, ethers and the json-rpc nodes; undefined when reverted without a reason or it's not a revert
+export function getRevertReason(error: unknown): string | undefined {
+    const errors: ErrorLike[] = []
+    for (let current = error; isErrorLike(current) && errors.length < 10; current = current.error) {
+        errors.push(current)
+        if (typeof current.body === "string") {
+            try {
+                const body: unknown = JSON.parse(current.body)
+                if (isErrorLike(body) && isErrorLike(body.error)) {
+                    errors.push(body.error)
+                }
+            } catch (_) {
+                // not a json-rpc response
+            }
+        }
+    }
+
+    for (const { data } of errors) {
+        const reason = decodeRevertData(isErrorLike(data) ? data.data : data)
+        if (reason !== undefined) {
+            return reason
+        }
+    }
+
+    const messages = [error, ...errors.map(({ message }) => message)].filter(
+        (message): message is string => typeof message === "string",
+    )
+    const patterns = [
+        /reverted with reason string '((?:[^'\\]|\\.)*)'/,
+        /execution reverted: ([^"\\\n]*)/,
+        /VM Exception while processing transaction: revert ([^"\\\n]*)/,
+    ]
+    for (const message of messages) {
+        for (const pattern of patterns) {
+            const match = message.match(pattern)
+            if (match) {
+                return match[1].trim()
+            }
+        }
+    }
+    return undefined
+}
+
+// the explanation of the error of a failed tx or eth_call, e.g.
+//   V_NEFC: not enough freeCollateral (contracts/Vault.sol:229)
+export function decodeRevert(error: unknown, catalog: RevertReasonCatalog = getRevertReasonCatalog()): DecodedRevert {
+    const reason = getRevertReason(error)
+    if (reason === undefined) {
+        const message = isErrorLike(error) && typeof error.message === "string" ? error.message : String(error)
+        return { explanation: `reverted without a reason: ${message}` }
+    }
+
+    const revertReason = catalog[reason]
+    if (!revertReason) {
+        return { reason, explanation: `${reason} (not in the catalog)` }
+    }
+    const sites = revertReason.sites.map(({ file, line }) => `${file}:${line}`).join(", ")
+    const description = revertReason.description ? `: ${revertReason.description}` : ""
+    return { reason, revertReason, explanation: `${reason}${description} (${sites})` }
+}
+
+// the reasons asserted by revertedWith() in the tests, and by revertedWith of the scenarios, see scenario.ts
+export function getAssertedRevertReasons(dir = "test"): string[] {
+    const reasons = new Set<string>()
+    for (const filename of listFiles(dir, [".ts", ".yaml", ".yml", ".json"])) {
+        const content = fs.readFileSync(filename, "utf8")
+        const pattern =
+            path.extname(filename) === ".ts"
+                ? /revertedWith\(\s*(["'`])((?:(?!\1)[^\\$]|\\.)*)\1\s*\)/g
+                : /"?revertedWith"?\s*:\s*(["']?)([^"'\s,}#]+)\1/g
+        let match: RegExpExecArray | null
+        while ((match = pattern.exec(content)) !== null) {
+            reasons.add(match[2])
+        }
+    }
+    return Array.from(reasons).sort()
+}
+
+export function getRevertReasonCoverage(
+    catalog: RevertReasonCatalog = getRevertReasonCatalog(),
+    assertedReasons: string[] = getAssertedRevertReasons(),
+): RevertReasonCoverage {
+    const assertedSet = new Set(assertedReasons)
+    const reasons = Object.values(catalog)
+    return {
+        asserted: reasons.filter(({ reason }) => assertedSet.has(reason)).map(({ reason }) => reason),
+        unasserted: reasons.filter(({ reason }) => !assertedSet.has(reason)),
+    }
+}
+
+export function formatCoverage(coverage: RevertReasonCoverage): string {
+    const total = coverage.asserted.length + coverage.unasserted.length
+    const lines = [`${coverage.asserted.length}/${total} revert reasons are asserted by revertedWith`]
+    if (coverage.unasserted.length > 0) {
+        lines.push("never asserted:")
+    }
+    for (const { reason, description, sites } of coverage.unasserted) {
+        const { file, line } = sites[0]
+        lines.push(`    ${reason.padEnd(10)} ${file}:${line}${description ? ` ${description}` : ""}`)
+    }
+    return lines.join("\n")
+}
+
+// npm run revert-reasons -- [catalog|coverage|decode <error message or revert data>]
+async function main(): Promise<void> {
+    const command = process.argv[2] || "catalog"
+    if (command === "catalog") {
+        console.log(JSON.stringify(getRevertReasonCatalog(), null, 4))
+    } else if (command === "coverage") {
+        console.log(formatCoverage(getRevertReasonCoverage()))
+    } else if (command === "decode") {
+        const input = process.argv.slice(3).join(" ")
+        const decoded = decodeRevert(input.startsWith("0x") ? { data: input } : input)
+        console.log(decoded.explanation)
+    } else {
+        throw new Error(`RevertReason: unknown command ${command}`)
+    }
+}
+
+if (require.main === module) {
+    main()
+        .then(() => process.exit(0))
+        .catch(error => {
+            console.error(error.message)
+            process.exit(1)
+        })
+}
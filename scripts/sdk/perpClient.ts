@@ -0,0 +1,349 @@
+import { BigNumber, BigNumberish, constants, ContractReceipt, ContractTransaction, Signer } from "ethers"
+import { parseEther, parseUnits } from "ethers/lib/utils"
+import {
+    AccountBalance,
+    AccountBalance__factory,
+    ClearingHouse,
+    ClearingHouse__factory,
+    IERC20Metadata__factory,
+    OrderBook,
+    OrderBook__factory,
+    Vault,
+    Vault__factory,
+} from "../../typechain"
+import { DeploymentManifest } from "../deploy/manifest"
+import { getLowerBound, getOppositeAmountBound } from "../simulator/slippage"
+
+// a facade over the typechain contracts with the amounts in human units, e.g. "1.5" ETH,
+// the slippage bounds derived from a simulation of the call and a deadline relative to the latest block
+// NOTE: it doesn't depend on hardhat, so it works with any ethers signer; `npm run build-sdk` compiles it with the
+// typechain and the scripts it imports into sdk/, the entry of the npm package, e.g.
+// import { PerpClient } from "@perp/curie-contract"; ethers is a peer dependency
+
+export interface PerpClientContracts {
+    clearingHouse: ClearingHouse
+    vault: Vault
+    accountBalance: AccountBalance
+    orderBook: OrderBook
+}
+
+export interface PerpClientOptions {
+    // the seconds a transaction is valid for after the latest block
+    deadlineSeconds: number
+    // the tolerated change of the simulated amounts in basis points, e.g. 50 = 0.5%, see scripts/simulator/slippage.ts
+    toleranceBps: number
+    referralCode: string
+}
+
+export const DEFAULT_PERP_CLIENT_OPTIONS: PerpClientOptions = {
+    deadlineSeconds: 600,
+    toleranceBps: 50,
+    referralCode: constants.HashZero,
+}
+
+// the amount of a position in 18 decimals, either the notional in quote token or the size in base token
+export type PositionAmount = { notional: string } | { size: string }
+
+export interface OpenPositionParams {
+    baseToken: string
+    isBaseToQuote: boolean
+    isExactInput: boolean
+    amount: BigNumber
+    oppositeAmountBound: BigNumber
+    deadline: BigNumber
+    sqrtPriceLimitX96: BigNumber
+    referralCode: string
+}
+
+export interface RangeLiquidity {
+    // in 18 decimals, e.g. "1.5"
+    base: string
+    quote: string
+    lowerTick: number
+    upperTick: number
+    useTakerBalance?: boolean
+}
+
+// IClearingHouse.PositionChanged
+export interface PositionChange {
+    txHash: string
+    trader: string
+    baseToken: string
+    exchangedPositionSize: BigNumber
+    exchangedPositionNotional: BigNumber
+    fee: BigNumber
+    openNotional: BigNumber
+    realizedPnl: BigNumber
+    sqrtPriceAfterX96: BigNumber
+}
+
+// IClearingHouse.LiquidityChanged
+export interface LiquidityChange {
+    txHash: string
+    maker: string
+    baseToken: string
+    lowerTick: number
+    upperTick: number
+    // positive when added to the pool, negative when removed
+    base: BigNumber
+    quote: BigNumber
+    liquidity: BigNumber
+    quoteFee: BigNumber
+}
+
+export class PerpClient {
+    readonly options: PerpClientOptions
+
+    constructor(
+        readonly contracts: PerpClientContracts,
+        readonly signer: Signer,
+        options: Partial<PerpClientOptions> = {},
+    ) {
+        this.options = { ...DEFAULT_PERP_CLIENT_OPTIONS, ...options }
+    }
+
+    // the contracts of a deployment of scripts/deploy/deploy.ts
+    static fromManifest(
+        manifest: DeploymentManifest,
+        signer: Signer,
+        options: Partial<PerpClientOptions> = {},
+    ): PerpClient {
+        const getAddress = (name: string) => {
+            const deployed = manifest.contracts[name]
+            if (!deployed) {
+                throw new Error(`PerpClient: ${name} is not found in the manifest of ${manifest.network}`)
+            }
+            return deployed.address
+        }
+        const contracts = {
+            clearingHouse: ClearingHouse__factory.connect(getAddress("ClearingHouse"), signer),
+            vault: Vault__factory.connect(getAddress("Vault"), signer),
+            accountBalance: AccountBalance__factory.connect(getAddress("AccountBalance"), signer),
+            orderBook: OrderBook__factory.connect(getAddress("OrderBook"), signer),
+        }
+        return new PerpClient(contracts, signer, options)
+    }
+
+    async openLong(
+        baseToken: string,
+        amount: PositionAmount,
+        options: Partial<PerpClientOptions> = {},
+    ): Promise<PositionChange> {
+        return this.openPosition(await this.getOpenPositionParams(baseToken, false, amount, options))
+    }
+
+    async openShort(
+        baseToken: string,
+        amount: PositionAmount,
+        options: Partial<PerpClientOptions> = {},
+    ): Promise<PositionChange> {
+        return this.openPosition(await this.getOpenPositionParams(baseToken, true, amount, options))
+    }
+
+    // a long by notional pays an exact amount of quote token and a short by size sells an exact amount of base token,
+    // the opposite amount is bounded by the simulated one with the slippage, see ClearingHouse._checkSlippage()
+    async getOpenPositionParams(
+        baseToken: string,
+        isBaseToQuote: boolean,
+        amount: PositionAmount,
+        options: Partial<PerpClientOptions> = {},
+    ): Promise<OpenPositionParams> {
+        const { toleranceBps, referralCode } = { ...this.options, ...options }
+        const isExactInput = isBaseToQuote ? "size" in amount : "notional" in amount
+        const params: OpenPositionParams = {
+            baseToken,
+            isBaseToQuote,
+            isExactInput,
+            amount: parseEther("size" in amount ? amount.size : amount.notional),
+            oppositeAmountBound: BigNumber.from(0),
+            deadline: await this.getDeadline(options),
+            sqrtPriceLimitX96: BigNumber.from(0),
+            referralCode,
+        }
+
+        const { base, quote } = await this.getClearingHouse().callStatic.openPosition(params)
+        // the output of an exact input or the input of an exact output
+        const expectedOppositeAmount = isBaseToQuote === isExactInput ? quote : base
+        params.oppositeAmountBound = getOppositeAmountBound(isExactInput, expectedOppositeAmount, toleranceBps)
+        return params
+    }
+
+    async openPosition(params: OpenPositionParams): Promise<PositionChange> {
+        return this.getPositionChange(await this.getClearingHouse().openPosition(params))
+    }
+
+    // closing a long sells the exact size for at least the bounded quote, closing a short buys the exact size
+    // for at most the bounded quote
+    async closePosition(baseToken: string, options: Partial<PerpClientOptions> = {}): Promise<PositionChange> {
+        const { toleranceBps, referralCode } = { ...this.options, ...options }
+        const trader = await this.signer.getAddress()
+        const positionSize = await this.contracts.accountBalance.getTakerPositionSize(trader, baseToken)
+        if (positionSize.isZero()) {
+            throw new Error(`PerpClient: ${trader} has no position in ${baseToken}`)
+        }
+
+        const params = {
+            baseToken,
+            sqrtPriceLimitX96: 0,
+            oppositeAmountBound: BigNumber.from(0),
+            deadline: await this.getDeadline(options),
+            referralCode,
+        }
+        const { quote } = await this.getClearingHouse().callStatic.closePosition(params)
+        // a long is closed with exact input and a short with exact output
+        params.oppositeAmountBound = getOppositeAmountBound(positionSize.gt(0), quote, toleranceBps)
+        return this.getPositionChange(await this.getClearingHouse().closePosition(params))
+    }
+
+    async addLiquidity(
+        baseToken: string,
+        range: RangeLiquidity,
+        options: Partial<PerpClientOptions> = {},
+    ): Promise<LiquidityChange> {
+        const { toleranceBps } = { ...this.options, ...options }
+        const params = {
+            baseToken,
+            base: parseEther(range.base),
+            quote: parseEther(range.quote),
+            lowerTick: range.lowerTick,
+            upperTick: range.upperTick,
+            minBase: BigNumber.from(0),
+            minQuote: BigNumber.from(0),
+            useTakerBalance: !!range.useTakerBalance,
+            deadline: await this.getDeadline(options),
+        }
+        const { base, quote } = await this.getClearingHouse().callStatic.addLiquidity(params)
+        params.minBase = getLowerBound(base, toleranceBps)
+        params.minQuote = getLowerBound(quote, toleranceBps)
+        return this.getLiquidityChange(await this.getClearingHouse().addLiquidity(params))
+    }
+
+    // removes the whole liquidity of the order when liquidity is not given
+    async removeLiquidity(
+        baseToken: string,
+        lowerTick: number,
+        upperTick: number,
+        liquidity?: BigNumberish,
+        options: Partial<PerpClientOptions> = {},
+    ): Promise<LiquidityChange> {
+        const { toleranceBps } = { ...this.options, ...options }
+        const maker = await this.signer.getAddress()
+        if (liquidity === undefined) {
+            liquidity = (await this.contracts.orderBook.getOpenOrder(maker, baseToken, lowerTick, upperTick)).liquidity
+        }
+        if (BigNumber.from(liquidity).isZero()) {
+            throw new Error(`PerpClient: ${maker} has no liquidity in [${lowerTick}, ${upperTick}) of ${baseToken}`)
+        }
+
+        const params = {
+            baseToken,
+            lowerTick,
+            upperTick,
+            liquidity,
+            minBase: BigNumber.from(0),
+            minQuote: BigNumber.from(0),
+            deadline: await this.getDeadline(options),
+        }
+        const { base, quote } = await this.getClearingHouse().callStatic.removeLiquidity(params)
+        params.minBase = getLowerBound(base, toleranceBps)
+        params.minQuote = getLowerBound(quote, toleranceBps)
+        return this.getLiquidityChange(await this.getClearingHouse().removeLiquidity(params))
+    }
+
+    // removing zero liquidity collects the pending fee of the order only
+    async collectFee(
+        baseToken: string,
+        lowerTick: number,
+        upperTick: number,
+        options: Partial<PerpClientOptions> = {},
+    ): Promise<LiquidityChange> {
+        const params = {
+            baseToken,
+            lowerTick,
+            upperTick,
+            liquidity: 0,
+            minBase: 0,
+            minQuote: 0,
+            deadline: await this.getDeadline(options),
+        }
+        return this.getLiquidityChange(await this.getClearingHouse().removeLiquidity(params))
+    }
+
+    async removeAllLiquidity(baseToken: string, options: Partial<PerpClientOptions> = {}): Promise<LiquidityChange[]> {
+        const { orderBook } = this.contracts
+        const orderIds = await orderBook.getOpenOrderIds(await this.signer.getAddress(), baseToken)
+        const changes: LiquidityChange[] = []
+        for (const orderId of orderIds) {
+            const { lowerTick, upperTick, liquidity } = await orderBook.getOpenOrderById(orderId)
+            changes.push(await this.removeLiquidity(baseToken, lowerTick, upperTick, liquidity, options))
+        }
+        return changes
+    }
+
+    // the settlement token or a collateral token, approves Vault first when the allowance is not enough
+    async deposit(token: string, amount: string): Promise<ContractReceipt> {
+        const { vault } = this.contracts
+        const erc20 = IERC20Metadata__factory.connect(token, this.signer)
+        const amountX10_D = parseUnits(amount, await erc20.decimals())
+        const allowance = await erc20.allowance(await this.signer.getAddress(), vault.address)
+        if (allowance.lt(amountX10_D)) {
+            await (await erc20.approve(vault.address, amountX10_D)).wait()
+        }
+        return (await vault.connect(this.signer).deposit(token, amountX10_D)).wait()
+    }
+
+    // deposits ETH as WETH9, see Vault.depositEther()
+    async depositEther(amount: string): Promise<ContractReceipt> {
+        return (await this.contracts.vault.connect(this.signer).depositEther({ value: parseEther(amount) })).wait()
+    }
+
+    async withdraw(token: string, amount: string): Promise<ContractReceipt> {
+        const decimals = await IERC20Metadata__factory.connect(token, this.signer).decimals()
+        return (await this.contracts.vault.connect(this.signer).withdraw(token, parseUnits(amount, decimals))).wait()
+    }
+
+    async withdrawEther(amount: string): Promise<ContractReceipt> {
+        return (await this.contracts.vault.connect(this.signer).withdrawEther(parseEther(amount))).wait()
+    }
+
+    private getClearingHouse(): ClearingHouse {
+        return this.contracts.clearingHouse.connect(this.signer)
+    }
+
+    private async getDeadline(options: Partial<PerpClientOptions>): Promise<BigNumber> {
+        const { deadlineSeconds } = { ...this.options, ...options }
+        const block = await this.signer.provider.getBlock("latest")
+        return BigNumber.from(block.timestamp + deadlineSeconds)
+    }
+
+    private async getPositionChange(tx: ContractTransaction): Promise<PositionChange> {
+        const receipt = await tx.wait()
+        const event = receipt.events.find(event => event.event === "PositionChanged")
+        if (!event) {
+            throw new Error(`PerpClient: PositionChanged is not found in ${tx.hash}`)
+        }
+        const { trader, baseToken, exchangedPositionSize, exchangedPositionNotional } = event.args
+        const { fee, openNotional, realizedPnl, sqrtPriceAfterX96 } = event.args
+        return {
+            txHash: tx.hash,
+            trader,
+            baseToken,
+            exchangedPositionSize,
+            exchangedPositionNotional,
+            fee,
+            openNotional,
+            realizedPnl,
+            sqrtPriceAfterX96,
+        }
+    }
+
+    private async getLiquidityChange(tx: ContractTransaction): Promise<LiquidityChange> {
+        const receipt = await tx.wait()
+        const event = receipt.events.find(event => event.event === "LiquidityChanged")
+        if (!event) {
+            throw new Error(`PerpClient: LiquidityChanged is not found in ${tx.hash}`)
+        }
+        const { maker, baseToken, lowerTick, upperTick, base, quote, liquidity, quoteFee } = event.args
+        return { txHash: tx.hash, maker, baseToken, lowerTick, upperTick, base, quote, liquidity, quoteFee }
+    }
+}
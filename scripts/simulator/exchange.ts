@@ -0,0 +1,175 @@
+import { BigNumber, BigNumberish } from "ethers"
+import { MarketRegistry, UniswapV3Pool__factory } from "../../typechain"
+import { neg256 } from "../math/perpMath"
+import { toInt256 } from "../math/perpSafeCast"
+import { calcAmountScaledByFeeRatio, calcScaledAmountForSwaps } from "../math/swapMath"
+import { MAX_SQRT_RATIO, MIN_SQRT_RATIO } from "../math/uniswapV3/tickMath"
+import { replaySwap } from "./orderBook"
+import { loadUniswapV3PoolState, swap as poolSwap, UniswapV3PoolState } from "./uniswapV3Pool"
+
+// off-chain replica of Exchange.swap(), which lets bots quote a trade without an eth_call
+// NOTE: the checks relying on twap and index price (EX_OPLAS, EX_OPB) and closing positions are not simulated
+
+// UniswapV3Broker._DUST
+const DUST = 10
+
+export interface MarketInfo {
+    pool: string
+    exchangeFeeRatio: number
+    uniswapFeeRatio: number
+    insuranceFundFeeRatio: number
+    maxPriceSpreadRatio: number
+}
+
+export interface SwapContext {
+    marketInfo: MarketInfo
+    poolState: UniswapV3PoolState
+}
+
+export interface SimulateSwapParams {
+    isBaseToQuote: boolean
+    isExactInput: boolean
+    amount: BigNumberish
+    // 0 means no limit
+    sqrtPriceLimitX96: BigNumberish
+}
+
+export interface SimulatedSwapResponse {
+    // signed deltas of the trader's balances, same as Exchange's InternalSwapResponse
+    base: BigNumber
+    quote: BigNumber
+    exchangedPositionSize: BigNumber
+    exchangedPositionNotional: BigNumber
+    fee: BigNumber
+    insuranceFundFee: BigNumber
+    tickBefore: number
+    tick: number
+    sqrtPriceAfterX96: BigNumber
+    // the pool state after the swap, can be used to simulate consecutive swaps
+    poolState: UniswapV3PoolState
+}
+
+// wordRange is passed to loadUniswapV3PoolState() to limit the number of tick bitmap words loaded
+export async function loadSwapContext(
+    marketRegistry: MarketRegistry,
+    trader: string,
+    baseToken: string,
+    wordRange?: number,
+): Promise<SwapContext> {
+    const marketInfo = await marketRegistry.getMarketInfoByTrader(trader, baseToken)
+    const pool = UniswapV3Pool__factory.connect(marketInfo.pool, marketRegistry.provider)
+    const poolState = await loadUniswapV3PoolState(pool, wordRange)
+    return {
+        marketInfo: {
+            pool: marketInfo.pool,
+            exchangeFeeRatio: marketInfo.exchangeFeeRatio,
+            uniswapFeeRatio: marketInfo.uniswapFeeRatio,
+            insuranceFundFeeRatio: marketInfo.insuranceFundFeeRatio,
+            maxPriceSpreadRatio: marketInfo.maxPriceSpreadRatio,
+        },
+        poolState,
+    }
+}
+
+// UniswapV3Broker.swap(), returns the unsigned amounts of base and quote
+function swapOnUniswapV3Pool(
+    poolState: UniswapV3PoolState,
+    isBaseToQuote: boolean,
+    isExactInput: boolean,
+    amount: BigNumber,
+    sqrtPriceLimitX96: BigNumber,
+): { base: BigNumber; quote: BigNumber; poolState: UniswapV3PoolState } {
+    const specifiedAmount = isExactInput ? toInt256(amount) : neg256(amount)
+    const result = poolSwap(
+        poolState,
+        isBaseToQuote,
+        specifiedAmount,
+        sqrtPriceLimitX96.isZero()
+            ? isBaseToQuote
+                ? MIN_SQRT_RATIO.add(1)
+                : MAX_SQRT_RATIO.sub(1)
+            : sqrtPriceLimitX96,
+    )
+    const [amount0, amount1] = [result.amount0.abs(), result.amount1.abs()]
+
+    // if no price limit, require the full output amount as it's technically possible for amounts to not match
+    if (!isExactInput && sqrtPriceLimitX96.isZero()) {
+        const exactAmount = isExactInput === isBaseToQuote ? amount0 : amount1
+        // UB_UOA: unmatched output amount
+        if (exactAmount.sub(amount).abs().gte(DUST)) {
+            throw new Error("UB_UOA")
+        }
+        return isBaseToQuote
+            ? { base: amount0, quote: amount, poolState: result.state }
+            : { base: amount, quote: amount1, poolState: result.state }
+    }
+
+    return { base: amount0, quote: amount1, poolState: result.state }
+}
+
+export function simulateSwap(context: SwapContext, params: SimulateSwapParams): SimulatedSwapResponse {
+    const { marketInfo, poolState } = context
+    const amount = BigNumber.from(params.amount)
+    const sqrtPriceLimitX96 = BigNumber.from(params.sqrtPriceLimitX96)
+
+    const { scaledAmountForUniswapV3PoolSwap, signedScaledAmountForReplaySwap } = calcScaledAmountForSwaps(
+        params.isBaseToQuote,
+        params.isExactInput,
+        amount,
+        marketInfo.exchangeFeeRatio,
+        marketInfo.uniswapFeeRatio,
+    )
+
+    // simulate the swap to calculate the fees charged in exchange
+    const replayResponse = replaySwap(poolState, {
+        isBaseToQuote: params.isBaseToQuote,
+        amount: signedScaledAmountForReplaySwap,
+        sqrtPriceLimitX96,
+        exchangeFeeRatio: marketInfo.exchangeFeeRatio,
+        uniswapFeeRatio: marketInfo.uniswapFeeRatio,
+        insuranceFundFeeRatio: marketInfo.insuranceFundFeeRatio,
+    })
+
+    const response = swapOnUniswapV3Pool(
+        poolState,
+        params.isBaseToQuote,
+        params.isExactInput,
+        scaledAmountForUniswapV3PoolSwap,
+        sqrtPriceLimitX96,
+    )
+
+    // as we charge fees in ClearingHouse instead of in Uniswap pools,
+    // we need to scale up base or quote amounts to get the exact exchanged position size and notional
+    let exchangedPositionSize: BigNumber
+    let exchangedPositionNotional: BigNumber
+    if (params.isBaseToQuote) {
+        // short: exchangedPositionSize <= 0 && exchangedPositionNotional >= 0
+        exchangedPositionSize = neg256(calcAmountScaledByFeeRatio(response.base, marketInfo.uniswapFeeRatio, false))
+        // due to base to quote fee, exchangedPositionNotional contains the fee
+        exchangedPositionNotional = toInt256(response.quote)
+    } else {
+        // long: exchangedPositionSize >= 0 && exchangedPositionNotional <= 0
+        exchangedPositionSize = toInt256(response.base)
+        if (params.isExactInput && response.quote.eq(scaledAmountForUniswapV3PoolSwap)) {
+            // make sure quote = exchangedPositionNotional - fee = exact input, see Exchange._swap()
+            exchangedPositionNotional = neg256(toInt256(amount.sub(replayResponse.fee)))
+        } else {
+            exchangedPositionNotional = neg256(
+                calcAmountScaledByFeeRatio(response.quote, marketInfo.uniswapFeeRatio, false),
+            )
+        }
+    }
+
+    return {
+        base: exchangedPositionSize,
+        quote: exchangedPositionNotional.sub(replayResponse.fee),
+        exchangedPositionSize,
+        exchangedPositionNotional,
+        fee: replayResponse.fee,
+        insuranceFundFee: replayResponse.insuranceFundFee,
+        tickBefore: poolState.tick,
+        tick: replayResponse.tick,
+        sqrtPriceAfterX96: response.poolState.sqrtPriceX96,
+        poolState: response.poolState,
+    }
+}
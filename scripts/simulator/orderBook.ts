@@ -0,0 +1,91 @@
+import { BigNumber, BigNumberish } from "ethers"
+import { mulDivRoundingUp } from "../math/fullMath"
+import { RATIO_ONE } from "../math/perpMath"
+import { getLiquidityForAmounts } from "../math/uniswapV3/liquidityAmounts"
+import { getSqrtRatioAtTick, MAX_SQRT_RATIO, MIN_SQRT_RATIO } from "../math/uniswapV3/tickMath"
+import { computeSwap, getAmountsForLiquidityDelta, PoolSlot0, UniswapV3PoolState } from "./uniswapV3Pool"
+
+// off-chain replica of OrderBook.addLiquidity() and OrderBook.replaySwap(), fee growth and tick growth infos are
+// not tracked
+
+export interface AddLiquidityParams {
+    lowerTick: number
+    upperTick: number
+    base: BigNumberish
+    quote: BigNumberish
+}
+
+export interface AddLiquidityResponse {
+    base: BigNumber
+    quote: BigNumber
+    liquidity: BigNumber
+}
+
+export interface ReplaySwapParams {
+    isBaseToQuote: boolean
+    // > 0: exact input, < 0: exact output
+    amount: BigNumberish
+    // 0 means no limit
+    sqrtPriceLimitX96: BigNumberish
+    exchangeFeeRatio: BigNumberish
+    uniswapFeeRatio: BigNumberish
+    insuranceFundFeeRatio: BigNumberish
+}
+
+export interface ReplaySwapResponse {
+    tick: number
+    fee: BigNumber
+    insuranceFundFee: BigNumber
+}
+
+// UniswapV3Broker.addLiquidity(): the liquidity of the desired amounts at the current price, and the amounts the
+// pool takes for it; the fee collected from an existing order of the same range is not included
+export function addLiquidity(slot0: PoolSlot0, params: AddLiquidityParams): AddLiquidityResponse {
+    const liquidity = getLiquidityForAmounts(
+        slot0.sqrtPriceX96,
+        getSqrtRatioAtTick(params.lowerTick),
+        getSqrtRatioAtTick(params.upperTick),
+        params.base,
+        params.quote,
+    )
+    // UniswapV3Pool.mint() requires amount > 0 without a reason string
+    if (liquidity.isZero()) {
+        throw new Error("OrderBook: zero liquidity")
+    }
+    const { amount0, amount1 } = getAmountsForLiquidityDelta(slot0, params.lowerTick, params.upperTick, liquidity)
+    return { base: amount0, quote: amount1, liquidity }
+}
+
+export function replaySwap(state: UniswapV3PoolState, params: ReplaySwapParams): ReplaySwapResponse {
+    const sqrtPriceLimitX96 = BigNumber.from(params.sqrtPriceLimitX96).isZero()
+        ? params.isBaseToQuote
+            ? MIN_SQRT_RATIO.add(1)
+            : MAX_SQRT_RATIO.sub(1)
+        : params.sqrtPriceLimitX96
+
+    // isBaseToQuote: fee is charged in base token in uniswap pool; thus, use uniswapFeeRatio to replay
+    // !isBaseToQuote: fee is charged in quote token in clearing house; thus, use exchangeFeeRatio
+    const result = computeSwap(
+        state,
+        params.isBaseToQuote,
+        params.amount,
+        sqrtPriceLimitX96,
+        params.isBaseToQuote ? params.uniswapFeeRatio : params.exchangeFeeRatio,
+    )
+
+    let fee = BigNumber.from(0)
+    let insuranceFundFee = BigNumber.from(0)
+    for (const step of result.steps) {
+        // CH only collects fees when there is liquidity in this range
+        if (step.liquidity.gt(0)) {
+            // note CH only collects quote fee when swapping base -> quote
+            const stepFee = params.isBaseToQuote
+                ? mulDivRoundingUp(step.amountOut, params.exchangeFeeRatio, RATIO_ONE)
+                : step.feeAmount
+            fee = fee.add(stepFee)
+            insuranceFundFee = insuranceFundFee.add(mulDivRoundingUp(stepFee, params.insuranceFundFeeRatio, RATIO_ONE))
+        }
+    }
+
+    return { tick: result.state.tick, fee, insuranceFundFee }
+}
@@ -0,0 +1,162 @@
+import { BigNumber, BigNumberish } from "ethers"
+import { sqrt } from "../math/uniswapV3/priceMath"
+import { MAX_SQRT_RATIO, MIN_SQRT_RATIO } from "../math/uniswapV3/tickMath"
+import { simulateSwap, SwapContext } from "./exchange"
+import { addLiquidity } from "./orderBook"
+import { getAmountsForLiquidityDelta, PoolSlot0 } from "./uniswapV3Pool"
+
+// the slippage bounds of ClearingHouse.openPosition(), closePosition(), addLiquidity() and removeLiquidity()
+// derived from the expected result of the call on the current pool state and a tolerance in basis points
+
+export const BPS_ONE = 10000
+
+export interface TradeBoundsParams {
+    isBaseToQuote: boolean
+    isExactInput: boolean
+    amount: BigNumberish
+    // e.g. 50 = 0.5%
+    toleranceBps: number
+}
+
+export interface TradeBounds {
+    // the unsigned amount of the other side of the trade, as the base or quote returned by openPosition()
+    expectedOppositeAmount: BigNumber
+    oppositeAmountBound: BigNumber
+    expectedSqrtPriceAfterX96: BigNumber
+    sqrtPriceLimitX96: BigNumber
+}
+
+export interface LiquidityBounds {
+    liquidity: BigNumber
+    expectedBase: BigNumber
+    expectedQuote: BigNumber
+    minBase: BigNumber
+    minQuote: BigNumber
+}
+
+function validateToleranceBps(toleranceBps: number): void {
+    if (!Number.isInteger(toleranceBps) || toleranceBps < 0 || toleranceBps >= BPS_ONE) {
+        throw new Error(`Slippage: invalid tolerance ${toleranceBps} bps`)
+    }
+}
+
+export function getLowerBound(amount: BigNumberish, toleranceBps: number): BigNumber {
+    validateToleranceBps(toleranceBps)
+    return BigNumber.from(amount)
+        .mul(BPS_ONE - toleranceBps)
+        .div(BPS_ONE)
+}
+
+// rounding up, so a zero tolerance bounds the exact amount
+export function getUpperBound(amount: BigNumberish, toleranceBps: number): BigNumber {
+    validateToleranceBps(toleranceBps)
+    const numerator = BigNumber.from(amount).mul(BPS_ONE + toleranceBps)
+    return numerator.add(BPS_ONE - 1).div(BPS_ONE)
+}
+
+// same as ClearingHouse._checkSlippage():
+// B2Q + exact input: lower bound of output quote, B2Q + exact output: upper bound of input base
+// Q2B + exact input: lower bound of output base, Q2B + exact output: upper bound of input quote
+export function getOppositeAmountBound(
+    isExactInput: boolean,
+    expectedOppositeAmount: BigNumberish,
+    toleranceBps: number,
+): BigNumber {
+    return isExactInput
+        ? getLowerBound(expectedOppositeAmount, toleranceBps)
+        : getUpperBound(expectedOppositeAmount, toleranceBps)
+}
+
+// the price moves at most the tolerance beyond the expected price after the swap, i.e. the price is limited to
+// expected * (1 - tolerance) for B2Q and expected * (1 + tolerance) for Q2B
+// NOTE: a swap stops at sqrtPriceLimitX96 without reverting; the partial fill of an exact input gets less than
+// expected and is rejected by oppositeAmountBound, while the partial fill of an exact output is within the bound
+export function getSqrtPriceLimitX96(
+    expectedSqrtPriceAfterX96: BigNumberish,
+    isBaseToQuote: boolean,
+    toleranceBps: number,
+): BigNumber {
+    validateToleranceBps(toleranceBps)
+    const sqrtPriceX96 = BigNumber.from(expectedSqrtPriceAfterX96)
+    const ratio = isBaseToQuote ? BPS_ONE - toleranceBps : BPS_ONE + toleranceBps
+    const limit = sqrt(sqrtPriceX96.mul(sqrtPriceX96).mul(ratio).div(BPS_ONE))
+    // Uniswap requires MIN_SQRT_RATIO < limit < MAX_SQRT_RATIO
+    if (isBaseToQuote) {
+        return limit.gt(MIN_SQRT_RATIO) ? limit : MIN_SQRT_RATIO.add(1)
+    }
+    return limit.lt(MAX_SQRT_RATIO) ? limit : MAX_SQRT_RATIO.sub(1)
+}
+
+export function getTradeBounds(context: SwapContext, params: TradeBoundsParams): TradeBounds {
+    const { isBaseToQuote, isExactInput, toleranceBps } = params
+    const response = simulateSwap(context, { isBaseToQuote, isExactInput, amount: params.amount, sqrtPriceLimitX96: 0 })
+    // the output of an exact input or the input of an exact output
+    const expectedOppositeAmount = isBaseToQuote === isExactInput ? response.quote.abs() : response.base.abs()
+    return {
+        expectedOppositeAmount,
+        oppositeAmountBound: getOppositeAmountBound(isExactInput, expectedOppositeAmount, toleranceBps),
+        expectedSqrtPriceAfterX96: response.sqrtPriceAfterX96,
+        sqrtPriceLimitX96: getSqrtPriceLimitX96(response.sqrtPriceAfterX96, isBaseToQuote, toleranceBps),
+    }
+}
+
+// ClearingHouse.closePosition() sells a long position with exact input and buys back a short one with exact output
+export function getClosePositionBounds(
+    context: SwapContext,
+    takerPositionSize: BigNumberish,
+    toleranceBps: number,
+): TradeBounds {
+    const positionSize = BigNumber.from(takerPositionSize)
+    if (positionSize.isZero()) {
+        throw new Error("Slippage: no position to close")
+    }
+    const isBaseToQuote = positionSize.gt(0)
+    return getTradeBounds(context, {
+        isBaseToQuote,
+        isExactInput: isBaseToQuote,
+        amount: positionSize.abs(),
+        toleranceBps,
+    })
+}
+
+// OrderBook.addLiquidity() of the desired amounts at the current price of the pool, see addLiquidity() of ./orderBook
+export function getAddLiquidityBounds(
+    slot0: PoolSlot0,
+    lowerTick: number,
+    upperTick: number,
+    base: BigNumberish,
+    quote: BigNumberish,
+    toleranceBps: number,
+): LiquidityBounds {
+    const response = addLiquidity(slot0, { lowerTick, upperTick, base, quote })
+    return {
+        liquidity: response.liquidity,
+        expectedBase: response.base,
+        expectedQuote: response.quote,
+        minBase: getLowerBound(response.base, toleranceBps),
+        minQuote: getLowerBound(response.quote, toleranceBps),
+    }
+}
+
+// UniswapV3Broker.removeLiquidity(): the amounts the pool returns for the liquidity, rounding down
+export function getRemoveLiquidityBounds(
+    slot0: PoolSlot0,
+    lowerTick: number,
+    upperTick: number,
+    liquidity: BigNumberish,
+    toleranceBps: number,
+): LiquidityBounds {
+    const { amount0, amount1 } = getAmountsForLiquidityDelta(
+        slot0,
+        lowerTick,
+        upperTick,
+        BigNumber.from(liquidity).mul(-1),
+    )
+    return {
+        liquidity: BigNumber.from(liquidity),
+        expectedBase: amount0.abs(),
+        expectedQuote: amount1.abs(),
+        minBase: getLowerBound(amount0.abs(), toleranceBps),
+        minQuote: getLowerBound(amount1.abs(), toleranceBps),
+    }
+}
@@ -0,0 +1,313 @@
+import { BigNumber, BigNumberish } from "ethers"
+import { UniswapV3Pool } from "../../typechain"
+import { addDelta } from "../math/uniswapV3/liquidityMath"
+import { getAmount0DeltaSigned, getAmount1DeltaSigned } from "../math/uniswapV3/sqrtPriceMath"
+import { computeSwapStep } from "../math/uniswapV3/swapMath"
+import {
+    getSqrtRatioAtTick,
+    getTickAtSqrtRatio,
+    MAX_SQRT_RATIO,
+    MAX_TICK,
+    MIN_SQRT_RATIO,
+    MIN_TICK,
+} from "../math/uniswapV3/tickMath"
+
+// off-chain replica of the parts of UniswapV3Pool that are needed to simulate a swap
+// ref: https://github.com/Uniswap/v3-core/blob/main/contracts/UniswapV3Pool.sol
+
+export interface UniswapV3PoolState {
+    sqrtPriceX96: BigNumber
+    tick: number
+    liquidity: BigNumber
+    tickSpacing: number
+    fee: number
+    // word position => bitmap word, only the loaded words are present
+    tickBitmap: Map<number, BigNumber>
+    // initialized tick => liquidityNet
+    liquidityNet: Map<number, BigNumber>
+}
+
+// the fields of UniswapV3Pool.slot0() that the amounts of a position depend on
+export interface PoolSlot0 {
+    sqrtPriceX96: BigNumberish
+    tick: number
+}
+
+export interface PoolSwapStep {
+    tickNext: number
+    initialized: boolean
+    sqrtPriceStartX96: BigNumber
+    sqrtPriceNextX96: BigNumber
+    // liquidity in range during this step
+    liquidity: BigNumber
+    amountIn: BigNumber
+    amountOut: BigNumber
+    feeAmount: BigNumber
+}
+
+export interface PoolSwapResult {
+    amountSpecifiedRemaining: BigNumber
+    amountCalculated: BigNumber
+    state: UniswapV3PoolState
+    steps: PoolSwapStep[]
+}
+
+// floor division for the compressed tick, rounding towards negative infinity
+function compress(tick: number, tickSpacing: number): number {
+    return Math.floor(tick / tickSpacing)
+}
+
+function position(compressed: number): { wordPos: number; bitPos: number } {
+    return { wordPos: compressed >> 8, bitPos: ((compressed % 256) + 256) % 256 }
+}
+
+function bitLength(value: BigNumber): number {
+    if (value.isZero()) {
+        return 0
+    }
+    const hex = value.toHexString().slice(2).replace(/^0+/, "")
+    return (hex.length - 1) * 4 + parseInt(hex[0], 16).toString(2).length
+}
+
+function mostSignificantBit(value: BigNumber): number {
+    return bitLength(value) - 1
+}
+
+function leastSignificantBit(value: BigNumber): number {
+    // isolate the lowest set bit: value & -value == value & (~value + 1)
+    return mostSignificantBit(value.and(value.xor(value.sub(1))))
+}
+
+function getTickBitmapWord(state: UniswapV3PoolState, wordPos: number): BigNumber {
+    const word = state.tickBitmap.get(wordPos)
+    if (word === undefined) {
+        throw new Error(`UniswapV3PoolSimulator: tick bitmap word ${wordPos} is not loaded`)
+    }
+    return word
+}
+
+// TickBitmap.nextInitializedTickWithinOneWord()
+export function nextInitializedTickWithinOneWord(
+    state: UniswapV3PoolState,
+    tick: number,
+    lte: boolean,
+): { next: number; initialized: boolean } {
+    const tickSpacing = state.tickSpacing
+    const compressed = compress(tick, tickSpacing)
+
+    if (lte) {
+        const { wordPos, bitPos } = position(compressed)
+        // all the 1s at or to the right of the current bitPos
+        const mask = BigNumber.from(1).shl(bitPos).sub(1).add(BigNumber.from(1).shl(bitPos))
+        const masked = getTickBitmapWord(state, wordPos).and(mask)
+
+        // if there are no initialized ticks to the right of or at the current tick, return rightmost in the word
+        const initialized = !masked.isZero()
+        const next = initialized
+            ? (compressed - (bitPos - mostSignificantBit(masked))) * tickSpacing
+            : (compressed - bitPos) * tickSpacing
+        return { next, initialized }
+    }
+
+    // start from the word of the next tick, since the current tick state doesn't matter
+    const { wordPos, bitPos } = position(compressed + 1)
+    // all the 1s at or to the left of the bitPos
+    const mask = BigNumber.from(2).pow(256).sub(1).sub(BigNumber.from(1).shl(bitPos).sub(1))
+    const masked = getTickBitmapWord(state, wordPos).and(mask)
+
+    // if there are no initialized ticks to the left of the current tick, return leftmost in the word
+    const initialized = !masked.isZero()
+    const next = initialized
+        ? (compressed + 1 + (leastSignificantBit(masked) - bitPos)) * tickSpacing
+        : (compressed + 1 + (255 - bitPos)) * tickSpacing
+    return { next, initialized }
+}
+
+// load the pool state that a swap depends on
+// wordRange limits the tick bitmap words loaded around the current tick, all words are loaded if it's undefined;
+// simulating a swap that goes beyond the loaded words throws
+export async function loadUniswapV3PoolState(pool: UniswapV3Pool, wordRange?: number): Promise<UniswapV3PoolState> {
+    const [slot0, liquidity, tickSpacing, fee] = await Promise.all([
+        pool.slot0(),
+        pool.liquidity(),
+        pool.tickSpacing(),
+        pool.fee(),
+    ])
+
+    const currentWordPos = position(compress(slot0.tick, tickSpacing)).wordPos
+    const minWordPos = position(compress(MIN_TICK, tickSpacing)).wordPos
+    const maxWordPos = position(compress(MAX_TICK, tickSpacing)).wordPos
+    const fromWordPos = wordRange === undefined ? minWordPos : Math.max(minWordPos, currentWordPos - wordRange)
+    const toWordPos = wordRange === undefined ? maxWordPos : Math.min(maxWordPos, currentWordPos + wordRange)
+
+    const tickBitmap = new Map<number, BigNumber>()
+    const wordPositions: number[] = []
+    for (let wordPos = fromWordPos; wordPos <= toWordPos; wordPos++) {
+        wordPositions.push(wordPos)
+    }
+    const words = await Promise.all(wordPositions.map(wordPos => pool.tickBitmap(wordPos)))
+    wordPositions.forEach((wordPos, i) => tickBitmap.set(wordPos, words[i]))
+
+    const initializedTicks: number[] = []
+    tickBitmap.forEach((word, wordPos) => {
+        for (let bitPos = 0; bitPos < 256; bitPos++) {
+            if (!word.shr(bitPos).and(1).isZero()) {
+                initializedTicks.push((wordPos * 256 + bitPos) * tickSpacing)
+            }
+        }
+    })
+    const ticks = await Promise.all(initializedTicks.map(tick => pool.ticks(tick)))
+    const liquidityNet = new Map<number, BigNumber>()
+    initializedTicks.forEach((tick, i) => liquidityNet.set(tick, ticks[i].liquidityNet))
+
+    return {
+        sqrtPriceX96: slot0.sqrtPriceX96,
+        tick: slot0.tick,
+        liquidity,
+        tickSpacing,
+        fee,
+        tickBitmap,
+        liquidityNet,
+    }
+}
+
+// the swap loop shared by UniswapV3Pool.swap() and OrderBook.replaySwap(), the given state is not modified
+export function computeSwap(
+    state: UniswapV3PoolState,
+    zeroForOne: boolean,
+    amountSpecified: BigNumberish,
+    sqrtPriceLimitX96: BigNumberish,
+    feePips: BigNumberish,
+): PoolSwapResult {
+    const exactInput = BigNumber.from(amountSpecified).gt(0)
+    const limit = BigNumber.from(sqrtPriceLimitX96)
+
+    let amountSpecifiedRemaining = BigNumber.from(amountSpecified)
+    let amountCalculated = BigNumber.from(0)
+    let sqrtPriceX96 = state.sqrtPriceX96
+    let tick = state.tick
+    let liquidity = state.liquidity
+    const steps: PoolSwapStep[] = []
+
+    // continue swapping as long as we haven't used the entire input/output and haven't reached the price limit
+    while (!amountSpecifiedRemaining.isZero() && !sqrtPriceX96.eq(limit)) {
+        const sqrtPriceStartX96 = sqrtPriceX96
+        const { next, initialized } = nextInitializedTickWithinOneWord(state, tick, zeroForOne)
+
+        // ensure that we do not overshoot the min/max tick, as the tick bitmap is not aware of these bounds
+        const tickNext = Math.min(Math.max(next, MIN_TICK), MAX_TICK)
+
+        const sqrtPriceNextX96 = getSqrtRatioAtTick(tickNext)
+        const isTargetBeyondLimit = zeroForOne ? sqrtPriceNextX96.lt(limit) : sqrtPriceNextX96.gt(limit)
+
+        const step = computeSwapStep(
+            sqrtPriceX96,
+            isTargetBeyondLimit ? limit : sqrtPriceNextX96,
+            liquidity,
+            amountSpecifiedRemaining,
+            feePips,
+        )
+        sqrtPriceX96 = step.sqrtRatioNextX96
+        steps.push({
+            tickNext,
+            initialized,
+            sqrtPriceStartX96,
+            sqrtPriceNextX96,
+            liquidity,
+            amountIn: step.amountIn,
+            amountOut: step.amountOut,
+            feeAmount: step.feeAmount,
+        })
+
+        if (exactInput) {
+            amountSpecifiedRemaining = amountSpecifiedRemaining.sub(step.amountIn.add(step.feeAmount))
+            amountCalculated = amountCalculated.sub(step.amountOut)
+        } else {
+            amountSpecifiedRemaining = amountSpecifiedRemaining.add(step.amountOut)
+            amountCalculated = amountCalculated.add(step.amountIn.add(step.feeAmount))
+        }
+
+        if (sqrtPriceX96.eq(sqrtPriceNextX96)) {
+            // we have reached the tick's boundary
+            if (initialized) {
+                let liquidityNet = state.liquidityNet.get(tickNext) || BigNumber.from(0)
+                // if we're moving leftward, we interpret liquidityNet as the opposite sign
+                if (zeroForOne) {
+                    liquidityNet = liquidityNet.mul(-1)
+                }
+                liquidity = addDelta(liquidity, liquidityNet)
+            }
+            tick = zeroForOne ? tickNext - 1 : tickNext
+        } else if (!sqrtPriceX96.eq(sqrtPriceStartX96)) {
+            // recompute unless we're on a lower tick boundary (i.e. already transitioned ticks), and haven't moved
+            tick = getTickAtSqrtRatio(sqrtPriceX96)
+        }
+    }
+
+    return {
+        amountSpecifiedRemaining,
+        amountCalculated,
+        state: { ...state, sqrtPriceX96, tick, liquidity },
+        steps,
+    }
+}
+
+// UniswapV3Pool.swap(), returns the amounts in the perspective of the pool
+export function swap(
+    state: UniswapV3PoolState,
+    zeroForOne: boolean,
+    amountSpecified: BigNumberish,
+    sqrtPriceLimitX96: BigNumberish,
+): { amount0: BigNumber; amount1: BigNumber; state: UniswapV3PoolState; steps: PoolSwapStep[] } {
+    const amountSpecifiedBN = BigNumber.from(amountSpecified)
+    const limit = BigNumber.from(sqrtPriceLimitX96)
+    if (amountSpecifiedBN.isZero()) {
+        throw new Error("AS")
+    }
+    const isValidLimit = zeroForOne
+        ? limit.lt(state.sqrtPriceX96) && limit.gt(MIN_SQRT_RATIO)
+        : limit.gt(state.sqrtPriceX96) && limit.lt(MAX_SQRT_RATIO)
+    if (!isValidLimit) {
+        throw new Error("SPL")
+    }
+
+    const result = computeSwap(state, zeroForOne, amountSpecifiedBN, limit, state.fee)
+    const amountSpecifiedUsed = amountSpecifiedBN.sub(result.amountSpecifiedRemaining)
+    const exactInput = amountSpecifiedBN.gt(0)
+    const [amount0, amount1] =
+        zeroForOne === exactInput
+            ? [amountSpecifiedUsed, result.amountCalculated]
+            : [result.amountCalculated, amountSpecifiedUsed]
+
+    return { amount0, amount1, state: result.state, steps: result.steps }
+}
+
+// the amounts of UniswapV3Pool._modifyPosition() in the perspective of the pool, liquidityDelta is negative when
+// removing; > 0: pool gets, rounding up, < 0: pool provides, rounding down
+export function getAmountsForLiquidityDelta(
+    slot0: PoolSlot0,
+    lowerTick: number,
+    upperTick: number,
+    liquidityDelta: BigNumberish,
+): { amount0: BigNumber; amount1: BigNumber } {
+    const sqrtPriceLowerX96 = getSqrtRatioAtTick(lowerTick)
+    const sqrtPriceUpperX96 = getSqrtRatioAtTick(upperTick)
+    // the current tick is above or below the position when the price is at the tick boundary, so it's compared
+    // instead of the price, same as UniswapV3Pool
+    if (slot0.tick < lowerTick) {
+        return {
+            amount0: getAmount0DeltaSigned(sqrtPriceLowerX96, sqrtPriceUpperX96, liquidityDelta),
+            amount1: BigNumber.from(0),
+        }
+    }
+    if (slot0.tick < upperTick) {
+        return {
+            amount0: getAmount0DeltaSigned(slot0.sqrtPriceX96, sqrtPriceUpperX96, liquidityDelta),
+            amount1: getAmount1DeltaSigned(sqrtPriceLowerX96, slot0.sqrtPriceX96, liquidityDelta),
+        }
+    }
+    return {
+        amount0: BigNumber.from(0),
+        amount1: getAmount1DeltaSigned(sqrtPriceLowerX96, sqrtPriceUpperX96, liquidityDelta),
+    }
+}
@@ -0,0 +1,247 @@
+import fs from "fs"
+import { join } from "path"
+import { writeFile } from "./files"
+import { allDeployedContractsNamesAndDirs } from "./path"
+
+export const STORAGE_LAYOUT_BASE_DIR = "./storage-layouts"
+const ARTIFACTS_DIR = "./artifacts"
+
+// the storageLayout output of solc, see hardhat.config.ts
+interface SolcStorageEntry {
+    contract: string
+    label: string
+    offset: number
+    slot: string
+    type: string
+}
+
+interface SolcStorageType {
+    label: string
+    numberOfBytes: string
+    base?: string
+    key?: string
+    value?: string
+    members?: SolcStorageEntry[]
+}
+
+interface SolcStorageLayout {
+    storage: SolcStorageEntry[]
+    types: { [id: string]: SolcStorageType } | null
+}
+
+// a state variable without the ast ids of solc, so layouts of different builds can be compared
+export interface StorageVariable {
+    // the label of the variable, suffixed by the occurrence when the label is used by several base contracts,
+    // e.g. __gap, __gap#2
+    id: string
+    slot: number
+    offset: number
+    numberOfBytes: number
+    // the type with the members of structs expanded, e.g. mapping(address => struct Foo{bar:uint256})
+    type: string
+}
+
+export interface StorageLayouts {
+    release: string
+    contracts: { [contractName: string]: StorageVariable[] }
+}
+
+export type StorageLayoutIssueKind = "reordered" | "retyped" | "removed" | "inserted"
+
+export interface StorageLayoutIssue {
+    contractName: string
+    kind: StorageLayoutIssueKind
+    message: string
+}
+
+function getTypeDescription(types: SolcStorageLayout["types"], typeId: string): string {
+    const type = types[typeId]
+    if (type.members) {
+        const members = type.members.map(member => `${member.label}:${getTypeDescription(types, member.type)}`)
+        return `${type.label}{${members.join(",")}}`
+    }
+    if (type.key && type.value) {
+        return `mapping(${getTypeDescription(types, type.key)} => ${getTypeDescription(types, type.value)})`
+    }
+    if (type.base) {
+        // "uint256[50]" or "uint256[]"
+        const length = type.label.substring(type.label.lastIndexOf("["))
+        return `${getTypeDescription(types, type.base)}${length}`
+    }
+    return type.label
+}
+
+export function toStorageVariables(layout: SolcStorageLayout): StorageVariable[] {
+    // solc only tells the contract being laid out, not the base contract declaring the variable
+    const occurrences: { [label: string]: number } = {}
+    return layout.storage.map(entry => {
+        occurrences[entry.label] = (occurrences[entry.label] || 0) + 1
+        const occurrence = occurrences[entry.label]
+        return {
+            id: occurrence > 1 ? `${entry.label}#${occurrence}` : entry.label,
+            slot: Number(entry.slot),
+            offset: entry.offset,
+            numberOfBytes: Number(layout.types[entry.type].numberOfBytes),
+            type: getTypeDescription(layout.types, entry.type),
+        }
+    })
+}
+
+// reads the storage layout of the current build through the debug file of the artifact
+export function getStorageLayout(contractName: string, dir = "contracts"): StorageVariable[] {
+    const artifactDir = join(ARTIFACTS_DIR, dir, `${contractName}.sol`)
+    const dbgFile = join(artifactDir, `${contractName}.dbg.json`)
+    if (!fs.existsSync(dbgFile)) {
+        throw new Error(`StorageLayout: ${dbgFile} is not found, compile the contracts first`)
+    }
+    const { buildInfo } = JSON.parse(fs.readFileSync(dbgFile, "utf8"))
+    const { output } = JSON.parse(fs.readFileSync(join(artifactDir, buildInfo), "utf8"))
+    const layout = output.contracts[`${dir}/${contractName}.sol`][contractName].storageLayout as SolcStorageLayout
+    return toStorageVariables(layout)
+}
+
+export function getCurrentStorageLayouts(release: string): StorageLayouts {
+    const contracts: StorageLayouts["contracts"] = {}
+    for (const { name, dir } of allDeployedContractsNamesAndDirs) {
+        const contractName = name.replace(".sol", "")
+        contracts[contractName] = getStorageLayout(contractName, dir.replace("./", ""))
+    }
+    return { release, contracts }
+}
+
+// the released versions in CHANGELOG.md from the latest one, e.g. "## [2.8.2] - 2023-08-15"
+export function getReleases(changelog = "CHANGELOG.md"): string[] {
+    const headings = fs.readFileSync(changelog, "utf8").match(/^## \[\d+\.\d+\.\d+\]/gm) || []
+    return headings.map(heading => heading.substring(4, heading.length - 1))
+}
+
+export function getBaselineFilename(release: string): string {
+    return join(STORAGE_LAYOUT_BASE_DIR, `${release}.json`)
+}
+
+// the latest release with a saved baseline, the release being packed may not have one yet
+export function getBaselineRelease(changelog = "CHANGELOG.md"): string {
+    const release = getReleases(changelog).find(release => fs.existsSync(getBaselineFilename(release)))
+    if (!release) {
+        throw new Error(`StorageLayout: no release in ${changelog} has a baseline in ${STORAGE_LAYOUT_BASE_DIR}`)
+    }
+    return release
+}
+
+function describe(variable: StorageVariable): string {
+    return `${variable.id} (${variable.type}) at slot ${variable.slot} offset ${variable.offset}`
+}
+
+// variables can only be appended after the layout of the baseline; a variable at the same position with the same
+// type is allowed to be renamed
+// NOTE: struct members are compared as a whole, so appending a member to a struct in a mapping is flagged as well
+export function compareStorageVariables(
+    contractName: string,
+    baseline: StorageVariable[],
+    current: StorageVariable[],
+): StorageLayoutIssue[] {
+    const issues: StorageLayoutIssue[] = []
+    const issue = (kind: StorageLayoutIssueKind, message: string) => issues.push({ contractName, kind, message })
+    const getPosition = (variable: StorageVariable) => variable.slot * 32 + variable.offset
+    const findAt = (variables: StorageVariable[], position: number) =>
+        variables.find(variable => getPosition(variable) === position)
+    const findById = (variables: StorageVariable[], id: string) => variables.find(variable => variable.id === id)
+
+    // the variables of the current layout which take the place of the baseline ones
+    const matched: StorageVariable[] = []
+    for (const variable of baseline) {
+        const atSamePosition = findAt(current, getPosition(variable))
+        const withSameId = findById(current, variable.id)
+        if (withSameId && withSameId !== atSamePosition) {
+            issue("reordered", `${describe(variable)} is moved to slot ${withSameId.slot} offset ${withSameId.offset}`)
+            matched.push(withSameId)
+        } else if (atSamePosition && (atSamePosition.id === variable.id || atSamePosition.type === variable.type)) {
+            if (atSamePosition.type !== variable.type || atSamePosition.numberOfBytes !== variable.numberOfBytes) {
+                issue("retyped", `${describe(variable)} is changed to ${atSamePosition.type}`)
+            }
+            matched.push(atSamePosition)
+        } else {
+            issue("removed", `${describe(variable)} is removed`)
+        }
+    }
+
+    const baselineEnd = Math.max(0, ...baseline.map(variable => getPosition(variable) + variable.numberOfBytes))
+    for (const variable of current) {
+        if (matched.indexOf(variable) === -1 && getPosition(variable) < baselineEnd) {
+            issue("inserted", `${describe(variable)} is inserted before the end of the baseline layout`)
+        }
+    }
+    return issues
+}
+
+export function compareStorageLayouts(baseline: StorageLayouts, current: StorageLayouts): StorageLayoutIssue[] {
+    let issues: StorageLayoutIssue[] = []
+    for (const contractName of Object.keys(baseline.contracts)) {
+        const currentVariables = current.contracts[contractName]
+        if (!currentVariables) {
+            issues.push({ contractName, kind: "removed", message: `${contractName} is removed` })
+            continue
+        }
+        issues = issues.concat(
+            compareStorageVariables(contractName, baseline.contracts[contractName], currentVariables),
+        )
+    }
+    return issues
+}
+
+export function formatIssues(baseline: StorageLayouts, issues: StorageLayoutIssue[]): string {
+    const lines = [`storage layout is incompatible with release ${baseline.release}:`]
+    let contractName: string
+    for (const issue of issues) {
+        if (issue.contractName !== contractName) {
+            contractName = issue.contractName
+            lines.push(`  ${contractName}`)
+        }
+        lines.push(`    ${issue.kind.padEnd(9)} ${issue.message}`)
+    }
+    return lines.join("\n")
+}
+
+export async function saveBaseline(release: string): Promise<string> {
+    const filename = getBaselineFilename(release)
+    await writeFile(filename, `${JSON.stringify(getCurrentStorageLayouts(release), null, 4)}\n`)
+    return filename
+}
+
+// compares the current build with the baseline of the release, throws with the diff when they are incompatible
+export function checkStorageLayouts(release: string): void {
+    const filename = getBaselineFilename(release)
+    if (!fs.existsSync(filename)) {
+        throw new Error(`StorageLayout: ${filename} is not found, save the baseline on the tag of ${release} first`)
+    }
+    const baseline = JSON.parse(fs.readFileSync(filename, "utf8")) as StorageLayouts
+    const issues = compareStorageLayouts(baseline, getCurrentStorageLayouts("current"))
+    if (issues.length > 0) {
+        throw new Error(formatIssues(baseline, issues))
+    }
+}
+
+// npm run storage-layout -- [check|save] [release]
+// check compares with the latest release having a baseline, save writes the baseline of the latest release
+async function main(): Promise<void> {
+    const command = process.argv[2] || "check"
+    if (command === "save") {
+        const release = process.argv[3] || getReleases()[0]
+        console.log(`saved ${await saveBaseline(release)}`)
+    } else if (command === "check") {
+        const release = process.argv[3] || getBaselineRelease()
+        checkStorageLayouts(release)
+        console.log(`storage layout is compatible with release ${release}`)
+    } else {
+        throw new Error(`StorageLayout: unknown command ${command}`)
+    }
+}
+
+if (require.main === module) {
+    main()
+        .then(() => process.exit(0))
+        .catch(error => {
+            console.error(error.message)
+            process.exit(1)
+        })
+}
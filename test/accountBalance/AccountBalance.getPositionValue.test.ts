@@ -1,10 +1,17 @@
 import { parseEther, parseUnits } from "ethers/lib/utils"
 import { ethers, waffle } from "hardhat"
-import { BaseToken, TestAccountBalance, TestClearingHouse, TestERC20, UniswapV3Pool, Vault } from "../../typechain"
+import {
+    BaseToken,
+    MockPriceFeedDispatcher,
+    TestAccountBalance,
+    TestClearingHouse,
+    TestERC20,
+    UniswapV3Pool,
+    Vault,
+} from "../../typechain"
 import { ClearingHouseFixture, createClearingHouseFixture } from "../clearingHouse/fixtures"
 import { mockIndexPrice, syncIndexToMarketPrice } from "../shared/utilities"
 
-import { MockContract } from "@eth-optimism/smock"
 import { expect } from "chai"
 import { initMarket } from "../helper/marketHelper"
 import { deposit } from "../helper/token"
@@ -22,7 +29,7 @@ describe("AccountBalance.getTotalPositionValue", () => {
     let baseToken: BaseToken
     let pool: UniswapV3Pool
     let collateralDecimals: number
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
 
     beforeEach(async () => {
         fixture = await loadFixture(createClearingHouseFixture())
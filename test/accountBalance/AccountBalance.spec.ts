@@ -4,6 +4,7 @@ import {
     BaseToken,
     Exchange,
     MarketRegistry,
+    MockPriceFeedDispatcher,
     OrderBook,
     QuoteToken,
     TestClearingHouse,
@@ -14,7 +15,6 @@ import {
 import { ClearingHouseFixture, createClearingHouseFixture } from "../clearingHouse/fixtures"
 import { getMaxTick, getMinTick } from "../helper/number"
 
-import { MockContract } from "@eth-optimism/smock"
 import { parseEther } from "@ethersproject/units"
 import { expect } from "chai"
 import { parseUnits } from "ethers/lib/utils"
@@ -38,8 +38,8 @@ describe("AccountBalance", () => {
     let quoteToken: QuoteToken
     let pool: UniswapV3Pool
     let pool2: UniswapV3Pool
-    let mockedPriceFeedDispatcher: MockContract
-    let mockedPriceFeedDispatcher2: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
+    let mockedPriceFeedDispatcher2: MockPriceFeedDispatcher
     let collateralDecimals: number
     let tickSpacing: number
     let lowerTick: number
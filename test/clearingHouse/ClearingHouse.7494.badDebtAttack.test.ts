@@ -1,10 +1,10 @@
-import { MockContract } from "@eth-optimism/smock"
 import { expect } from "chai"
 import { formatEther, formatUnits, parseUnits } from "ethers/lib/utils"
 import { waffle } from "hardhat"
 import {
     AccountBalance,
     BaseToken,
+    MockPriceFeedDispatcher,
     TestAccountBalance,
     TestClearingHouse,
     TestERC20,
@@ -27,7 +27,7 @@ describe("ClearingHouse 7494 bad debt attack", () => {
     let collateral: TestERC20
     let baseToken: BaseToken
     let pool: UniswapV3Pool
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let collateralDecimals: number
     let fixture: ClearingHouseFixture
 
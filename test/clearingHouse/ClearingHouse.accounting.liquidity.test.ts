@@ -1,10 +1,16 @@
-import { MockContract } from "@eth-optimism/smock"
 import { BigNumber } from "@ethersproject/bignumber"
 import { expect } from "chai"
 import { ContractTransaction } from "ethers"
 import { parseUnits } from "ethers/lib/utils"
 import { waffle } from "hardhat"
-import { BaseToken, TestAccountBalance, TestERC20, UniswapV3Pool, Vault } from "../../typechain"
+import {
+    BaseToken,
+    MockPriceFeedDispatcher,
+    TestAccountBalance,
+    TestERC20,
+    UniswapV3Pool,
+    Vault,
+} from "../../typechain"
 import { addOrder, findLiquidityChangedEvents, removeAllOrders } from "../helper/clearingHouseHelper"
 import { initMarket } from "../helper/marketHelper"
 import { deposit } from "../helper/token"
@@ -19,7 +25,7 @@ describe("ClearingHouse accounting (liquidity)", () => {
     let collateral: TestERC20
     let baseToken: BaseToken
     let pool: UniswapV3Pool
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let collateralDecimals: number
     let fixture: ClearingHouseFixture
 
@@ -1,267 +1,137 @@
-import { MockContract } from "@eth-optimism/smock"
-import { BigNumber } from "@ethersproject/bignumber"
-import { ContractReceipt } from "@ethersproject/contracts"
 import { expect } from "chai"
-import { parseEther, parseUnits } from "ethers/lib/utils"
-import { ethers, waffle } from "hardhat"
-import _ from "lodash"
-import {
-    AccountBalance,
-    BaseToken,
-    Exchange,
-    InsuranceFund,
-    MarketRegistry,
-    OrderBook,
-    TestClearingHouse,
-    TestERC20,
-    Vault,
-} from "../../typechain"
+import { parseUnits } from "ethers/lib/utils"
+import { waffle } from "hardhat"
+import { addOrder } from "../helper/clearingHouseHelper"
 import { initMarket } from "../helper/marketHelper"
-import { deposit } from "../helper/token"
-import { forwardBothTimestamps } from "../shared/time"
-import { filterLogs, mockIndexPrice } from "../shared/utilities"
+import { mintAndDeposit } from "../helper/token"
+import { DEFAULT_RANDOM_SEED } from "../shared/random"
+import { mockIndexPrice } from "../shared/utilities"
+import {
+    FundingArbitrageurAgent,
+    LiquidatorAgent,
+    OraclePriceWalkAgent,
+    RandomTakerAgent,
+    RangeMakerAgent,
+} from "../simulation/agents"
+import { ACCOUNTING_INVARIANTS } from "../simulation/invariants"
+import { MarketSimulation, SimulationMarket } from "../simulation/marketSimulation"
 import { ClearingHouseFixture, createClearingHouseFixture } from "./fixtures"
 
-// WARNING: this test is outdated and will need to catch up with many upgrades if we'd like to run it
-describe.skip("ClearingHouse accounting", () => {
-    const [admin, maker, taker1, taker2, taker3] = waffle.provider.getWallets()
+// the steps are the same every run by the default seed; the long run of npm run test-random-trades takes 5000 steps,
+// and another seed is given by SIMULATION_SEED=<any seed> npm run test-random-trades
+describe("ClearingHouse accounting random trades", () => {
+    const [admin, maker, taker1, taker2, taker3, rangeMaker, liquidator, arbitrageur, degen] =
+        waffle.provider.getWallets()
     const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    const steps = Number(process.env.SIMULATION_STEPS || 1000)
+    const seed = Number(process.env.SIMULATION_SEED || DEFAULT_RANDOM_SEED)
     let fixture: ClearingHouseFixture
-    let clearingHouse: TestClearingHouse
-    let marketRegistry: MarketRegistry
-    let exchange: Exchange
-    let orderBook: OrderBook
-    let accountBalance: AccountBalance
-    let vault: Vault
-    let insuranceFund: InsuranceFund
-    let collateral: TestERC20
-    let baseToken: BaseToken
-    let mockedPriceFeedDispatcher: MockContract
-    let collateralDecimals: number
-
-    let maxTick: number, minTick: number
-    const [lowerTick, upperTick] = [43980, 48000]
-    let getTakerRealizedPnlAndFees: (receipt: ContractReceipt) => [BigNumber, BigNumber]
-    let getMakerQuoteFees: (receipt: ContractReceipt) => BigNumber
-    let getFundingPayment: (receipt: ContractReceipt) => BigNumber
-
-    let takerCollateralAmount: BigNumber
-    let makerCollateralAmount: BigNumber
-
-    let totalTakerRealizedPnl: BigNumber
-    let totalFundingPayment: BigNumber
-    let totalTakerFees: BigNumber
+    let markets: SimulationMarket[]
 
     beforeEach(async () => {
         fixture = await loadFixture(createClearingHouseFixture(undefined, 3000))
-        clearingHouse = fixture.clearingHouse as TestClearingHouse
-        orderBook = fixture.orderBook
-        accountBalance = fixture.accountBalance
-        vault = fixture.vault
-        insuranceFund = fixture.insuranceFund
-        exchange = fixture.exchange
-        marketRegistry = fixture.marketRegistry
-        collateral = fixture.USDC
-        baseToken = fixture.baseToken
-        mockedPriceFeedDispatcher = fixture.mockedPriceFeedDispatcher
-        collateralDecimals = await collateral.decimals()
-
-        getTakerRealizedPnlAndFees = (receipt: ContractReceipt): [BigNumber, BigNumber] => {
-            const logs = filterLogs(receipt, clearingHouse.interface.getEventTopic("PositionChanged"), clearingHouse)
-            let realizedPnl = BigNumber.from(0)
-            let fees = BigNumber.from(0)
-            for (const log of logs) {
-                realizedPnl = realizedPnl.add(log.args.realizedPnl)
-                fees = fees.add(log.args.fee)
-            }
-            return [realizedPnl, fees]
-        }
-
-        getMakerQuoteFees = (receipt: ContractReceipt): BigNumber => {
-            const logs = filterLogs(receipt, orderBook.interface.getEventTopic("LiquidityChanged"), orderBook)
-            let amount = BigNumber.from(0)
-            for (const log of logs) {
-                amount = amount.add(log.args.quoteFee)
-            }
-            return amount
+        markets = [
+            {
+                baseToken: fixture.baseToken.address,
+                pool: fixture.pool,
+                priceFeedDispatcher: fixture.mockedPriceFeedDispatcher,
+                indexPrice: "100",
+            },
+            {
+                baseToken: fixture.baseToken2.address,
+                pool: fixture.pool2,
+                priceFeedDispatcher: fixture.mockedPriceFeedDispatcher2,
+                indexPrice: "100",
+            },
+        ]
+
+        await mintAndDeposit(fixture, maker, 1000000)
+        for (const market of markets) {
+            await mockIndexPrice(market.priceFeedDispatcher, market.indexPrice)
+            // add pool with 0.3% fee
+            const { minTick, maxTick } = await initMarket(fixture, "100", 1000, undefined, undefined, market.baseToken)
+            // maker adds a v2 style liquidity and another v3 style one in range [43980, 48000]
+            await addOrder(fixture, maker, 100, 10000, minTick, maxTick, false, market.baseToken)
+            await addOrder(fixture, maker, 20, 20000, 43980, 48000, false, market.baseToken)
         }
 
-        getFundingPayment = (receipt: ContractReceipt): BigNumber => {
-            const logs = filterLogs(receipt, exchange.interface.getEventTopic("FundingPaymentSettled"), clearingHouse)
-            let fundingPayment = BigNumber.from(0)
-            for (const log of logs) {
-                fundingPayment = fundingPayment.add(log.args.fundingPayment)
-            }
-            return fundingPayment
-        }
-
-        await mockIndexPrice(mockedPriceFeedDispatcher, "100")
-
-        const initPrice = "100"
-        // add pool with 0.3% fee
-        let { maxTick, minTick } = await initMarket(fixture, initPrice, 1000)
-
-        // prepare collateral for maker
-        makerCollateralAmount = parseUnits("1000000", collateralDecimals)
-        await collateral.mint(maker.address, makerCollateralAmount)
-        await deposit(maker, vault, 1000000, collateral)
-
-        // maker add a v2 style liquidity
-        await clearingHouse.connect(maker).addLiquidity({
-            baseToken: baseToken.address,
-            base: parseEther("100"),
-            quote: parseEther("10000"),
-            lowerTick: minTick,
-            upperTick: maxTick,
-            minBase: 0,
-            minQuote: 0,
-            useTakerBalance: false,
-            deadline: ethers.constants.MaxUint256,
-        })
-
-        // maker add another v3 style liquidity in range [43980, 48000]
-        await clearingHouse.connect(maker).addLiquidity({
-            baseToken: baseToken.address,
-            base: parseEther("20"),
-            quote: parseEther("20000"),
-            lowerTick,
-            upperTick,
-            minBase: 0,
-            minQuote: 0,
-            useTakerBalance: false,
-            deadline: ethers.constants.MaxUint256,
-        })
-
-        // prepare collateral for takers
-        takerCollateralAmount = parseUnits("10000000", collateralDecimals)
-        await collateral.mint(taker1.address, takerCollateralAmount)
-        await collateral.connect(taker1).approve(clearingHouse.address, takerCollateralAmount)
-        await deposit(taker1, vault, 1000, collateral)
-
-        await collateral.mint(taker2.address, takerCollateralAmount)
-        await collateral.connect(taker2).approve(clearingHouse.address, takerCollateralAmount)
-        await deposit(taker2, vault, 1000, collateral)
-
-        await collateral.mint(taker3.address, takerCollateralAmount)
-        await collateral.connect(taker3).approve(clearingHouse.address, takerCollateralAmount)
-        await deposit(taker3, vault, 1000, collateral)
-
-        totalFundingPayment = BigNumber.from(0)
-        totalTakerRealizedPnl = BigNumber.from(0)
-        totalTakerFees = BigNumber.from(0)
-        // takers do some random trades
-        for (let i = 0; i < 50; i++) {
-            const quoteAmount = `${Math.floor((Math.random() + 0.1) * 300)}`
-            const isBaseToQuote = _.sample([true, false])
-            const taker = _.sample([taker1, taker2, taker3])
-
-            // randomly open a position and calc realized pnl
-            const receipt = await (
-                await clearingHouse.connect(taker).openPosition({
-                    baseToken: baseToken.address,
-                    isBaseToQuote,
-                    isExactInput: isBaseToQuote ? false : true,
-                    oppositeAmountBound: 0,
-                    amount: quoteAmount,
-                    sqrtPriceLimitX96: 0,
-                    deadline: ethers.constants.MaxUint256,
-                    referralCode: ethers.constants.HashZero,
-                })
-            ).wait()
-            totalFundingPayment = totalFundingPayment.add(getFundingPayment(receipt))
-            const [realizedPnl, fee] = getTakerRealizedPnlAndFees(receipt)
-            totalTakerRealizedPnl = totalTakerRealizedPnl.add(realizedPnl)
-            totalTakerFees = totalTakerFees.add(fee)
-
-            await forwardBothTimestamps(clearingHouse, 300)
+        for (const trader of [taker1, taker2, taker3, rangeMaker, liquidator, arbitrageur]) {
+            await mintAndDeposit(fixture, trader, 10000)
         }
+        await mintAndDeposit(fixture, degen, 100)
+        // the capacity of the insurance fund to cover the bad debt of the liquidations
+        await fixture.USDC.mint(fixture.insuranceFund.address, parseUnits("1000000", 6))
     })
 
-    it("sum of all positions should be close to zero", async () => {
-        // taker and maker's position size
-        let totalPositionSize = BigNumber.from(0)
-
-        for (const user of [maker, taker1, taker2, taker3]) {
-            totalPositionSize = totalPositionSize.add(
-                await accountBalance.getTotalPositionSize(user.address, baseToken.address),
-            )
+    it("keeps the accounting invariants with random takers", async function () {
+        this.timeout(steps * 2000)
+        const simulation = new MarketSimulation(
+            fixture,
+            markets,
+            [
+                new RandomTakerAgent("taker", [taker1, taker2, taker3], {
+                    minQuote: 30,
+                    maxQuote: 330,
+                    closeChance: 0.2,
+                }),
+            ],
+            ACCOUNTING_INVARIANTS,
+            { seed, makers: [maker] },
+        )
+
+        const stats = await simulation.run(steps)
+        expect(stats.steps).to.be.eq(steps)
+        expect(simulation.ledger.takerFees).to.be.gt(0)
+
+        await simulation.settle()
+        for (const trader of [taker1, taker2, taker3]) {
+            expect(await fixture.accountBalance.getBaseTokens(trader.address)).to.be.deep.eq([])
         }
-        // sum of position size should be close to zero
-        expect(totalPositionSize).to.closeTo("0", 50)
     })
 
-    it("sum of all funding payments should be close to zero", async () => {
-        // maker remove all liquidity and settle all funding payment
-        for (const user of [maker, taker1, taker2, taker3]) {
-            totalFundingPayment = totalFundingPayment.add(
-                await exchange.getPendingFundingPayment(user.address, baseToken.address),
-            )
-        }
-        expect(totalFundingPayment).to.closeTo("0", 50)
+    it("keeps the accounting invariants with makers, liquidators, arbitrageurs and a moving index price", async function () {
+        this.timeout(steps * 4000)
+        const simulation = new MarketSimulation(
+            fixture,
+            markets,
+            [
+                new RandomTakerAgent("taker", [taker1, taker2, taker3], {
+                    minQuote: 30,
+                    maxQuote: 330,
+                    closeChance: 0.2,
+                }),
+                // up to 10x leverage so some of the positions are liquidated
+                new RandomTakerAgent("degen", [degen], { minQuote: 100, maxQuote: 1000, closeChance: 0.1 }, 0.5),
+                new RangeMakerAgent(
+                    "rangeMaker",
+                    rangeMaker,
+                    fixture,
+                    markets.map(({ baseToken }) => ({
+                        baseToken,
+                        base: "10",
+                        quote: "1000",
+                        halfRangeTicks: 600,
+                        bandTicks: 300,
+                    })),
+                    0.5,
+                ),
+                new LiquidatorAgent("liquidator", liquidator, fixture, 0.5),
+                new FundingArbitrageurAgent("arbitrageur", arbitrageur, { spreadRatio: 0.01, quote: 100 }),
+                new OraclePriceWalkAgent("oracle", { volatility: 0.01, jumpChance: 0.05, jumpRatio: 0.1 }),
+            ],
+            ACCOUNTING_INVARIANTS,
+            { seed, makers: [maker] },
+        )
+
+        const stats = await simulation.run(steps)
+        expect(stats.steps).to.be.eq(steps)
+
+        await simulation.settle()
     })
 
-    it("sum of realized pnl should close to zero after everyone close positions", async () => {
-        for (const taker of [taker1, taker2, taker3]) {
-            const positionSize = await accountBalance.getTotalPositionSize(taker.address, baseToken.address)
-            if (positionSize.eq(0)) {
-                continue
-            }
-
-            const receipt = await (
-                await clearingHouse.connect(taker).closePosition({
-                    baseToken: baseToken.address,
-                    sqrtPriceLimitX96: parseEther("0"),
-                    oppositeAmountBound: parseEther("0"),
-                    deadline: ethers.constants.MaxUint256,
-                    referralCode: ethers.constants.HashZero,
-                })
-            ).wait()
-
-            const [realizedPnl, fee] = getTakerRealizedPnlAndFees(receipt)
-            totalTakerRealizedPnl = totalTakerRealizedPnl.add(realizedPnl)
-            totalTakerFees = totalTakerFees.add(fee)
-        }
-
-        // maker's position size should be close to 0
-        const makerPositionSize = await accountBalance.getTotalPositionSize(maker.address, baseToken.address)
-        expect(makerPositionSize).to.closeTo("0", 200)
-
-        // maker remove all liquidity and collect fee
-        let makerFee = BigNumber.from(0)
-        let receipt = await (
-            await clearingHouse.connect(maker).removeLiquidity({
-                baseToken: baseToken.address,
-                lowerTick: minTick,
-                upperTick: maxTick,
-                liquidity: (await orderBook.getOpenOrder(maker.address, baseToken.address, minTick, maxTick)).liquidity,
-                minBase: parseEther("0"),
-                minQuote: parseEther("0"),
-                deadline: ethers.constants.MaxUint256,
-            })
-        ).wait()
-        makerFee = makerFee.add(getMakerQuoteFees(receipt))
-
-        receipt = await (
-            await clearingHouse.connect(maker).removeLiquidity({
-                baseToken: baseToken.address,
-                lowerTick,
-                upperTick,
-                liquidity: (
-                    await orderBook.getOpenOrder(maker.address, baseToken.address, lowerTick, upperTick)
-                ).liquidity,
-                minBase: parseEther("0"),
-                minQuote: parseEther("0"),
-                deadline: ethers.constants.MaxUint256,
-            })
-        ).wait()
-        makerFee = makerFee.add(getMakerQuoteFees(receipt))
-
-        const insuranceFundFee = (await accountBalance.getPnlAndPendingFee(insuranceFund.address))[0]
-
-        // maker's fee + insurance fund fee should be close to taker's fees paid
-        expect(makerFee.add(insuranceFundFee)).to.closeTo(totalTakerFees, 10)
-
-        // there's an error about 3000wei
-        expect(totalTakerRealizedPnl.add(makerFee).add(insuranceFundFee)).to.closeTo("0", 3000)
+    it("force error, no agents", async () => {
+        expect(() => new MarketSimulation(fixture, markets, [], ACCOUNTING_INVARIANTS)).to.throw(
+            "Simulation: no agents",
+        )
     })
 })
@@ -1,4 +1,3 @@
-import { MockContract } from "@eth-optimism/smock"
 import { expect } from "chai"
 import { BigNumber, BigNumberish, ContractTransaction } from "ethers"
 import { parseEther, parseUnits } from "ethers/lib/utils"
@@ -7,6 +6,7 @@ import { it } from "mocha"
 import {
     BaseToken,
     InsuranceFund,
+    MockPriceFeedDispatcher,
     OrderBook,
     QuoteToken,
     TestAccountBalance,
@@ -44,7 +44,7 @@ describe("ClearingHouse accounting verification in xyk pool", () => {
     let baseToken: BaseToken
     let quoteToken: QuoteToken
     let pool: UniswapV3Pool
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let collateralDecimals: number
     let lowerTick: number
     let upperTick: number
@@ -1,8 +1,9 @@
-import { MockContract } from "@eth-optimism/smock"
 import { expect } from "chai"
+import { BigNumber } from "ethers"
 import { parseEther, parseUnits } from "ethers/lib/utils"
 import { ethers, waffle } from "hardhat"
-import { BaseToken, TestClearingHouse, TestERC20, Vault } from "../../typechain"
+import { getAddLiquidityBounds } from "../../scripts/simulator/slippage"
+import { BaseToken, MockPriceFeedDispatcher, TestClearingHouse, TestERC20, Vault } from "../../typechain"
 import { initMarket } from "../helper/marketHelper"
 import { deposit } from "../helper/token"
 import { mockIndexPrice } from "../shared/utilities"
@@ -16,7 +17,34 @@ describe("ClearingHouse addLiquidity slippage", () => {
     let vault: Vault
     let collateral: TestERC20
     let baseToken: BaseToken
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
+
+    async function addLiquidityWithinBounds(base: BigNumber, quote: BigNumber, lowerTick: number, upperTick: number) {
+        const slot0 = await fixture.pool.slot0()
+        const bounds = getAddLiquidityBounds(slot0, lowerTick, upperTick, base, quote, 50)
+        const params = {
+            baseToken: baseToken.address,
+            base,
+            quote,
+            lowerTick,
+            upperTick,
+            minBase: bounds.minBase,
+            minQuote: bounds.minQuote,
+            useTakerBalance: false,
+            deadline: ethers.constants.MaxUint256,
+        }
+
+        const response = await clearingHouse.connect(alice).callStatic.addLiquidity(params)
+        expect(response.liquidity).to.be.eq(bounds.liquidity)
+        expect(response.base).to.be.eq(bounds.expectedBase)
+        expect(response.quote).to.be.eq(bounds.expectedQuote)
+        await clearingHouse.connect(alice).addLiquidity(params)
+
+        // zero tolerance bounds the exact amounts
+        const exactBounds = getAddLiquidityBounds(slot0, lowerTick, upperTick, base, quote, 0)
+        expect(exactBounds.minBase).to.be.eq(bounds.expectedBase)
+        expect(exactBounds.minQuote).to.be.eq(bounds.expectedQuote)
+    }
 
     beforeEach(async () => {
         fixture = await loadFixture(createClearingHouseFixture())
@@ -77,6 +105,10 @@ describe("ClearingHouse addLiquidity slippage", () => {
                 }),
             ).to.revertedWith("CH_TE")
         })
+
+        it("adds liquidity above price with only base within the bounds", async () => {
+            await addLiquidityWithinBounds(parseEther("1"), BigNumber.from(0), 50200, 50400)
+        })
     })
 
     // simulation results:
@@ -144,5 +176,10 @@ describe("ClearingHouse addLiquidity slippage", () => {
                 }),
             ).to.revertedWith("CH_PSCF")
         })
+
+        it("adds liquidity below and within price within the bounds", async () => {
+            await addLiquidityWithinBounds(BigNumber.from(0), parseEther("100"), 50000, 50200)
+            await addLiquidityWithinBounds(parseEther("1"), parseEther("100"), 50000, 50400)
+        })
     })
 })
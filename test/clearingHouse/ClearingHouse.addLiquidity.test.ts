@@ -1,4 +1,3 @@
-import { MockContract } from "@eth-optimism/smock"
 import { defaultAbiCoder } from "@ethersproject/abi"
 import { keccak256 } from "@ethersproject/solidity"
 import { expect } from "chai"
@@ -9,6 +8,7 @@ import {
     BaseToken,
     ClearingHouseConfig,
     MarketRegistry,
+    MockPriceFeedDispatcher,
     OrderBook,
     QuoteToken,
     TestAccountBalance,
@@ -38,8 +38,8 @@ describe("ClearingHouse addLiquidity", () => {
     let baseToken2: BaseToken
     let quoteToken: QuoteToken
     let pool: UniswapV3Pool
-    let mockedPriceFeedDispatcher: MockContract
-    let mockedPriceFeedDispatcher2: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
+    let mockedPriceFeedDispatcher2: MockPriceFeedDispatcher
     let collateralDecimals: number
 
     beforeEach(async () => {
@@ -1,9 +1,9 @@
-import { MockContract } from "@eth-optimism/smock"
 import { expect } from "chai"
 import { parseEther, parseUnits } from "ethers/lib/utils"
 import { waffle } from "hardhat"
 import {
     BaseToken,
+    MockPriceFeedDispatcher,
     TestAccountBalance,
     TestClearingHouse,
     TestERC20,
@@ -29,7 +29,7 @@ describe("ClearingHouse badDebt", () => {
     let vault: Vault
     let baseToken: BaseToken
     let pool: UniswapV3Pool
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let lowerTick: number, upperTick: number
 
     beforeEach(async () => {
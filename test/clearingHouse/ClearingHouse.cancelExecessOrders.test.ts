@@ -1,10 +1,10 @@
-import { MockContract } from "@eth-optimism/smock"
 import { BigNumber } from "@ethersproject/bignumber"
 import { expect } from "chai"
 import { parseEther, parseUnits } from "ethers/lib/utils"
 import { ethers, waffle } from "hardhat"
 import {
     BaseToken,
+    MockPriceFeedDispatcher,
     OrderBook,
     QuoteToken,
     TestAccountBalance,
@@ -32,8 +32,8 @@ describe("ClearingHouse cancelExcessOrders", () => {
     let baseToken2: BaseToken
     let quoteToken: QuoteToken
     let pool: UniswapV3Pool
-    let mockedPriceFeedDispatcher: MockContract
-    let mockedPriceFeedDispatcher2: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
+    let mockedPriceFeedDispatcher2: MockPriceFeedDispatcher
     let collateralDecimals: number
     let baseAmount: BigNumber
 
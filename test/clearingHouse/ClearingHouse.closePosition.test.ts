@@ -1,9 +1,9 @@
-import { MockContract } from "@eth-optimism/smock"
 import { expect } from "chai"
 import { parseEther, parseUnits } from "ethers/lib/utils"
 import { ethers, waffle } from "hardhat"
 import {
     BaseToken,
+    MockPriceFeedDispatcher,
     OrderBook,
     TestAccountBalance,
     TestClearingHouse,
@@ -30,7 +30,7 @@ describe("ClearingHouse closePosition", () => {
     let collateral: TestERC20
     let vault: Vault
     let baseToken: BaseToken
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let lowerTick = "50000" // 148.3760629231
     let upperTick = "50200" // 151.3733068587
     let pool: UniswapV3Pool
@@ -1,4 +1,3 @@
-import { MockContract } from "@eth-optimism/smock"
 import { BigNumber } from "@ethersproject/bignumber"
 import { expect } from "chai"
 import { parseEther, parseUnits } from "ethers/lib/utils"
@@ -7,6 +6,7 @@ import {
     AccountBalance,
     BaseToken,
     MarketRegistry,
+    MockPriceFeedDispatcher,
     OrderBook,
     TestClearingHouse,
     TestERC20,
@@ -28,7 +28,7 @@ describe("ClearingHouse customized fee", () => {
     let vault: Vault
     let collateral: TestERC20
     let baseToken: BaseToken
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let collateralDecimals: number
     const lowerTick: number = 0
     const upperTick: number = 100000
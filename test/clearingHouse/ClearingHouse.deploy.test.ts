@@ -0,0 +1,178 @@
+import { expect } from "chai"
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { ethers, upgrades, waffle } from "hardhat"
+import { DEFAULT_LOCAL_CONFIG, DeployConfig, loadDeployConfig } from "../../scripts/deploy/config"
+import { deploy, getProxyDeployOrder } from "../../scripts/deploy/deploy"
+import { allDeployedContractsNamesAndDirs } from "../../scripts/path"
+import {
+    ClearingHouse,
+    CollateralManager,
+    Exchange,
+    OrderBook,
+    QuoteToken,
+    SignedOrderBook,
+    TestChainlinkPriceFeed,
+    TestERC20,
+    Vault,
+} from "../../typechain"
+import { createBaseTokenFixture } from "../shared/fixtures"
+
+describe("ClearingHouse deployment", () => {
+    const [admin] = waffle.provider.getWallets()
+    let dir: string
+    let manifestFilename: string
+    let config: DeployConfig
+    let WETH: TestERC20
+
+    beforeEach(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "deployments-"))
+        manifestFilename = path.join(dir, "hardhat.json")
+
+        const { mockedPriceFeedDispatcher } = await createBaseTokenFixture()()
+        const tokenFactory = await ethers.getContractFactory("TestERC20")
+        WETH = (await tokenFactory.deploy()) as TestERC20
+        await WETH.__TestERC20_init("TestWETH", "WETH", 18)
+        const priceFeedFactory = await ethers.getContractFactory("TestChainlinkPriceFeed")
+        const wethPriceFeed = (await priceFeedFactory.deploy()) as TestChainlinkPriceFeed
+
+        config = {
+            ...DEFAULT_LOCAL_CONFIG,
+            baseTokens: [{ name: "vETH", symbol: "vETH", priceFeed: mockedPriceFeedDispatcher.address }],
+            collaterals: [
+                {
+                    token: WETH.address,
+                    priceFeed: wethPriceFeed.address,
+                    collateralRatio: 700000,
+                    discountRatio: 100000,
+                    depositCap: "1000",
+                },
+            ],
+        }
+    })
+
+    afterEach(async () => {
+        fs.rmSync(dir, { recursive: true, force: true })
+    })
+
+    it("deploys all contracts behind proxies and wires them", async () => {
+        const manifest = await deploy(config, admin, manifestFilename, () => {})
+        const { contracts } = manifest
+
+        const proxyNames = allDeployedContractsNamesAndDirs
+            .map(({ name }) => name.replace(".sol", ""))
+            .filter(name => name !== "BaseToken")
+        expect(Object.keys(contracts)).to.have.members(
+            ["SettlementToken", "UniswapV3Factory", "WETH9", "vETH"].concat(proxyNames),
+        )
+        for (const name of proxyNames.concat("vETH")) {
+            expect(contracts[name].implementation).to.be.eq(
+                await upgrades.erc1967.getImplementationAddress(contracts[name].address),
+            )
+        }
+        expect(contracts.vETH.contractName).to.be.eq("BaseToken")
+        expect(JSON.parse(fs.readFileSync(manifestFilename, "utf8"))).to.deep.eq(manifest)
+
+        const clearingHouse = (await ethers.getContractAt(
+            "ClearingHouse",
+            contracts.ClearingHouse.address,
+        )) as ClearingHouse
+        expect(await clearingHouse.getVault()).to.be.eq(contracts.Vault.address)
+        expect(await clearingHouse.getExchange()).to.be.eq(contracts.Exchange.address)
+        expect(await clearingHouse.getOrderBook()).to.be.eq(contracts.OrderBook.address)
+        expect(await clearingHouse.getAccountBalance()).to.be.eq(contracts.AccountBalance.address)
+        expect(await clearingHouse.getInsuranceFund()).to.be.eq(contracts.InsuranceFund.address)
+        expect(await clearingHouse.getDelegateApproval()).to.be.eq(contracts.DelegateApproval.address)
+
+        const vault = (await ethers.getContractAt("Vault", contracts.Vault.address)) as Vault
+        expect(await vault.getClearingHouse()).to.be.eq(clearingHouse.address)
+        expect(await vault.getCollateralManager()).to.be.eq(contracts.CollateralManager.address)
+        expect(await vault.getSettlementToken()).to.be.eq(contracts.SettlementToken.address)
+        expect(await vault.getWETH9()).to.be.eq(contracts.WETH9.address)
+
+        const exchange = (await ethers.getContractAt("Exchange", contracts.Exchange.address)) as Exchange
+        expect(await exchange.getAccountBalance()).to.be.eq(contracts.AccountBalance.address)
+        expect(await exchange.getClearingHouse()).to.be.eq(clearingHouse.address)
+        const orderBook = (await ethers.getContractAt("OrderBook", contracts.OrderBook.address)) as OrderBook
+        expect(await orderBook.getExchange()).to.be.eq(exchange.address)
+        const signedOrderBook = (await ethers.getContractAt(
+            "SignedOrderBook",
+            contracts.SignedOrderBook.address,
+        )) as SignedOrderBook
+        expect(await signedOrderBook.getClearingHouse()).to.be.eq(clearingHouse.address)
+
+        // base tokens are token0 of their pools
+        expect(contracts.vETH.address.toLowerCase() < contracts.QuoteToken.address.toLowerCase()).to.be.true
+        for (const name of ["QuoteToken", "vETH"]) {
+            const token = (await ethers.getContractAt("QuoteToken", contracts[name].address)) as QuoteToken
+            expect(await token.isInWhitelist(clearingHouse.address)).to.be.true
+            expect(await token.balanceOf(clearingHouse.address)).to.be.eq(ethers.constants.MaxUint256)
+        }
+
+        const collateralManager = (await ethers.getContractAt(
+            "CollateralManager",
+            contracts.CollateralManager.address,
+        )) as CollateralManager
+        expect(await collateralManager.isCollateral(WETH.address)).to.be.true
+        expect(await collateralManager.getMaxCollateralTokensPerAccount()).to.be.eq(5)
+    })
+
+    it("sends no transaction when everything is deployed and wired", async () => {
+        const manifest = await deploy(config, admin, manifestFilename, () => {})
+        const nonce = await admin.getTransactionCount()
+
+        const logs: string[] = []
+        expect(await deploy(config, admin, manifestFilename, message => logs.push(message))).to.deep.eq(manifest)
+        expect(await admin.getTransactionCount()).to.be.eq(nonce)
+        expect(logs).to.deep.eq([])
+    })
+
+    it("resumes an interrupted deployment", async () => {
+        // interrupted right after Vault is deployed
+        const interrupt = (message: string) => {
+            if (message.startsWith("deployed Vault")) {
+                throw new Error("interrupted")
+            }
+        }
+        let isInterrupted = false
+        try {
+            await deploy(config, admin, manifestFilename, interrupt)
+        } catch (e: any) {
+            isInterrupted = e.message === "interrupted"
+        }
+        expect(isInterrupted).to.be.true
+        const { contracts } = JSON.parse(fs.readFileSync(manifestFilename, "utf8"))
+        expect(contracts.ClearingHouse).to.be.undefined
+
+        const logs: string[] = []
+        const manifest = await deploy(config, admin, manifestFilename, message => logs.push(message))
+        expect(manifest.contracts.Vault).to.deep.eq(contracts.Vault)
+        const deployOrder = getProxyDeployOrder()
+        expect(logs.filter(message => message.startsWith("deployed")).map(message => message.split(" ")[1])).to.deep.eq(
+            deployOrder.slice(deployOrder.indexOf("Vault") + 1).concat("vETH"),
+        )
+
+        const vault = (await ethers.getContractAt("Vault", contracts.Vault.address)) as Vault
+        expect(await vault.getClearingHouse()).to.be.eq(manifest.contracts.ClearingHouse.address)
+    })
+
+    it("deploys the contracts of scripts/path.ts after the contracts their initializers take", async () => {
+        const deployOrder = getProxyDeployOrder()
+        expect(deployOrder).to.have.members(
+            allDeployedContractsNamesAndDirs
+                .map(({ name }) => name.replace(".sol", ""))
+                .filter(name => name !== "BaseToken"),
+        )
+        expect(deployOrder.indexOf("MarketRegistry")).to.be.gt(deployOrder.indexOf("QuoteToken"))
+        expect(deployOrder.indexOf("Vault")).to.be.gt(deployOrder.indexOf("AccountBalance"))
+        expect(deployOrder.indexOf("Vault")).to.be.gt(deployOrder.indexOf("Exchange"))
+        expect(deployOrder.indexOf("ClearingHouse")).to.be.gt(deployOrder.indexOf("Vault"))
+        expect(deployOrder.indexOf("CollateralManager")).to.be.gt(deployOrder.indexOf("Vault"))
+    })
+
+    it("force error, a config file is required for the other networks", async () => {
+        expect(() => loadDeployConfig("arbitrum")).to.throw("a config file is required for network arbitrum")
+        expect(loadDeployConfig("localhost")).to.be.eq(DEFAULT_LOCAL_CONFIG)
+    })
+})
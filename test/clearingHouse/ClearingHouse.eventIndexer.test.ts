@@ -0,0 +1,176 @@
+import { expect } from "chai"
+import { parseEther, parseUnits } from "ethers/lib/utils"
+import { ethers, waffle } from "hardhat"
+import { IndexerDatabase } from "../../scripts/indexer/database"
+import { EventIndexer } from "../../scripts/indexer/eventIndexer"
+import { getTraderState } from "../../scripts/indexer/traderState"
+import { TestAccountBalance, TestClearingHouse } from "../../typechain"
+import {
+    addOrder,
+    b2qExactInput,
+    b2qExactOutput,
+    closePosition,
+    q2bExactInput,
+    removeOrder,
+} from "../helper/clearingHouseHelper"
+import { initMarket } from "../helper/marketHelper"
+import { deposit, mintAndDeposit } from "../helper/token"
+import { forwardBothTimestamps, initiateBothTimestamps } from "../shared/time"
+import { mockIndexPrice, mockMarkPrice } from "../shared/utilities"
+import { ClearingHouseFixture, createClearingHouseFixture } from "./fixtures"
+
+describe("ClearingHouse event indexer", () => {
+    const [admin, alice, bob, carol, davis, emma] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    let fixture: ClearingHouseFixture
+    let clearingHouse: TestClearingHouse
+    let accountBalance: TestAccountBalance
+    let db: IndexerDatabase
+    let indexer: EventIndexer
+    let minTick: number
+    let maxTick: number
+
+    // compares the state rebuilt from the events with the chain, at the given block or the latest one
+    async function expectStateMatched(blockTag?: number): Promise<void> {
+        await indexer.sync()
+
+        const { vault, insuranceFund, baseToken, baseToken2, USDC, WETH } = fixture
+        const overrides = blockTag === undefined ? {} : { blockTag }
+        const traders = [alice, bob, carol, davis, emma].map(wallet => wallet.address).concat(insuranceFund.address)
+        for (const trader of traders) {
+            const state = getTraderState(db, trader, blockTag)
+
+            expect(Object.keys(state.markets)).to.have.members(await accountBalance.getBaseTokens(trader, overrides))
+            for (const baseTokenAddr of [baseToken.address, baseToken2.address]) {
+                const info = await accountBalance.getAccountInfo(trader, baseTokenAddr, overrides)
+                const market = state.markets[baseTokenAddr]
+                expect(info.takerPositionSize).to.be.eq(market ? market.takerPositionSize : 0)
+                expect(info.takerOpenNotional).to.be.eq(market ? market.takerOpenNotional : 0)
+            }
+
+            const [owedRealizedPnl] = await accountBalance.getPnlAndPendingFee(trader, overrides)
+            expect(owedRealizedPnl).to.be.eq(state.owedRealizedPnl)
+            for (const token of [USDC.address, WETH.address]) {
+                expect(await vault.getBalanceByToken(trader, token, overrides)).to.be.eq(state.balances[token] || 0)
+            }
+        }
+    }
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseFixture())
+        clearingHouse = fixture.clearingHouse as TestClearingHouse
+        accountBalance = fixture.accountBalance as TestAccountBalance
+
+        const ticks = await initMarket(fixture, "10")
+        await initMarket(fixture, "10", undefined, undefined, undefined, fixture.baseToken2.address)
+        await mockIndexPrice(fixture.mockedPriceFeedDispatcher, "10")
+        await mockIndexPrice(fixture.mockedPriceFeedDispatcher2, "10")
+        minTick = ticks.minTick
+        maxTick = ticks.maxTick
+
+        // alice is a full range maker of both markets, carol only provides quote below the current price
+        await mintAndDeposit(fixture, alice, 100000)
+        await addOrder(fixture, alice, 1000, 10000, minTick, maxTick)
+        await addOrder(fixture, alice, 1000, 10000, minTick, maxTick, false, fixture.baseToken2.address)
+        await mintAndDeposit(fixture, carol, 1000)
+        await addOrder(fixture, carol, 0, 100, 22000, 22800)
+
+        await mintAndDeposit(fixture, bob, 1000)
+        await mintAndDeposit(fixture, davis, 100000)
+
+        // increase insuranceFund capacity
+        await fixture.USDC.mint(fixture.insuranceFund.address, parseUnits("1000000", 6))
+
+        await initiateBothTimestamps(clearingHouse)
+
+        db = new IndexerDatabase(":memory:")
+        indexer = new EventIndexer({ clearingHouse, accountBalance, vault: fixture.vault }, db, 0, 50)
+    })
+
+    afterEach(() => {
+        db.close()
+    })
+
+    it("rebuilds the positions of takers and makers", async () => {
+        // open, reduce and reverse
+        await q2bExactInput(fixture, bob, 100)
+        await expectStateMatched()
+        await b2qExactInput(fixture, bob, 0.5)
+        await b2qExactOutput(fixture, bob, 300)
+        await q2bExactInput(fixture, bob, 50, fixture.baseToken2.address)
+        await expectStateMatched()
+
+        // carol's order is filled by bob's short, removing it turns the impermanent position into a taker position
+        const order = await fixture.orderBook.getOpenOrder(carol.address, fixture.baseToken.address, 22000, 22800)
+        await removeOrder(fixture, carol, order.liquidity, 22000, 22800)
+        await closePosition(fixture, bob)
+        await expectStateMatched()
+
+        await closePosition(fixture, carol)
+        await closePosition(fixture, bob, 0, fixture.baseToken2.address)
+        await expectStateMatched()
+    })
+
+    it("rebuilds owed realized pnl and balances after funding and withdrawal", async () => {
+        await q2bExactInput(fixture, bob, 100)
+        await mockIndexPrice(fixture.mockedPriceFeedDispatcher, "9")
+        await forwardBothTimestamps(clearingHouse, 3600)
+
+        // funding is settled and owed realized pnl is settled into the balance when withdrawing
+        await fixture.vault.connect(bob).withdraw(fixture.USDC.address, parseUnits("100", 6))
+        await expectStateMatched()
+
+        // maker fees are realized when removing liquidity
+        const order = await fixture.orderBook.getOpenOrder(alice.address, fixture.baseToken.address, minTick, maxTick)
+        await removeOrder(fixture, alice, order.liquidity.div(2), minTick, maxTick)
+        await forwardBothTimestamps(clearingHouse, 3600)
+        await closePosition(fixture, bob)
+        await expectStateMatched()
+    })
+
+    it("rebuilds the states after liquidation, collateral liquidation and bad debt settlement", async () => {
+        // emma only has 1 weth, whose collateral value is 100 * 0.7 = 70
+        fixture.mockedWethPriceFeed.smocked.getPrice.will.return.with(parseUnits("100", 8))
+        await fixture.WETH.mint(emma.address, parseEther("1"))
+        await deposit(emma, fixture.vault, 1, fixture.WETH)
+        await q2bExactInput(fixture, emma, 300)
+
+        // davis liquidates emma's position
+        await mockMarkPrice(accountBalance, fixture.baseToken.address, "5")
+        await clearingHouse
+            .connect(davis)
+            ["liquidate(address,address,int256)"](emma.address, fixture.baseToken.address, 0)
+        await expectStateMatched()
+
+        // then liquidates all of emma's weth, the remaining debt is settled to the insurance fund
+        await fixture.USDC.mint(davis.address, parseUnits("1000", 6))
+        await fixture.USDC.connect(davis).approve(fixture.vault.address, ethers.constants.MaxUint256)
+        while ((await fixture.vault.getBalanceByToken(emma.address, fixture.WETH.address)).gt(0)) {
+            const { maxLiquidatableCollateral } = await fixture.vault.getMaxRepaidSettlementAndLiquidatableCollateral(
+                emma.address,
+                fixture.WETH.address,
+            )
+            await fixture.vault
+                .connect(davis)
+                .liquidateCollateral(emma.address, fixture.WETH.address, maxLiquidatableCollateral, false)
+        }
+        expect(await fixture.vault.getAccountValue(emma.address)).to.be.eq(0)
+        await expectStateMatched()
+    })
+
+    it("rebuilds the historical states", async () => {
+        await q2bExactInput(fixture, bob, 100)
+        const blockNumber = await waffle.provider.getBlockNumber()
+
+        await b2qExactOutput(fixture, bob, 300)
+        await closePosition(fixture, bob)
+        await expectStateMatched()
+
+        // bob's state at the block after the first trade
+        await expectStateMatched(blockNumber)
+        expect(getTraderState(db, bob.address, blockNumber).markets[fixture.baseToken.address]).not.be.undefined
+        expect(getTraderState(db, bob.address).markets[fixture.baseToken.address]).be.undefined
+
+        expect(() => getTraderState(db, bob.address, blockNumber + 100)).to.throw("is not indexed yet")
+    })
+})
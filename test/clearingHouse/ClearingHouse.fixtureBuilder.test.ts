@@ -0,0 +1,159 @@
+import { expect } from "chai"
+import { parseEther, parseUnits } from "ethers/lib/utils"
+import { ethers, waffle } from "hardhat"
+import { formatSqrtPriceX96ToPrice } from "../../scripts/math/uniswapV3/priceMath"
+import { TestClearingHouse } from "../../typechain"
+import { getMaxTick, getMinTick } from "../helper/number"
+import { deposit } from "../helper/token"
+import { isAscendingTokenOrder } from "../shared/utilities"
+import { ClearingHouseFixtureBuilder } from "./fixtureBuilder"
+
+describe("ClearingHouse fixture builder", () => {
+    const [admin, maker, taker] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+
+    const createFixture = new ClearingHouseFixtureBuilder()
+        .withMarket({ symbol: "ETH", price: "3000", feeTier: 3000 })
+        .withMarket({ symbol: "BTC", price: "40000", exFeeRatio: 1000, ifFeeRatio: 200000 })
+        .withMarket({ symbol: "SOL", price: "100", feeTier: 500, maxTickCrossedWithinBlock: 100 })
+        .withMarket({ symbol: "NEW" })
+        .withCollateral({
+            symbol: "WBTC",
+            decimals: 8,
+            price: "40000",
+            collateralRatio: 700000,
+            discountRatio: 100000,
+            depositCap: "10",
+        })
+        .build()
+
+    it("deploys every market with the base token as token0", async () => {
+        const { markets, quoteToken, marketRegistry, exchange } = await loadFixture(createFixture)
+
+        for (const { baseToken, pool, feeTier } of [markets.ETH, markets.BTC, markets.SOL, markets.NEW]) {
+            expect(isAscendingTokenOrder(baseToken.address, quoteToken.address)).to.be.true
+            expect(await pool.token0()).to.be.eq(baseToken.address)
+            expect(await pool.token1()).to.be.eq(quoteToken.address)
+            expect(await pool.fee()).to.be.eq(feeTier)
+        }
+        expect(await markets.ETH.baseToken.symbol()).to.be.eq("ETH")
+        expect(markets.ETH.feeTier).to.be.eq(3000)
+        expect(markets.BTC.feeTier).to.be.eq(10000)
+
+        const btcInfo = await marketRegistry.getMarketInfo(markets.BTC.baseToken.address)
+        expect(btcInfo.pool).to.be.eq(markets.BTC.pool.address)
+        expect(btcInfo.exchangeFeeRatio).to.be.eq(1000)
+        expect(btcInfo.insuranceFundFeeRatio).to.be.eq(200000)
+        expect(await exchange.getMaxTickCrossedWithinBlock(markets.SOL.baseToken.address)).to.be.eq(100)
+    })
+
+    it("initializes the markets with a price", async () => {
+        const { markets, marketRegistry } = await loadFixture(createFixture)
+
+        for (const [{ baseToken, pool }, price] of [
+            [markets.ETH, 3000],
+            [markets.BTC, 40000],
+            [markets.SOL, 100],
+        ] as const) {
+            expect(await marketRegistry.hasPool(baseToken.address)).to.be.true
+            expect(await baseToken.getIndexPrice(0)).to.be.eq(parseEther(price.toString()))
+            expect(Number(formatSqrtPriceX96ToPrice((await pool.slot0()).sqrtPriceX96))).to.be.closeTo(
+                price,
+                price / 1e6,
+            )
+            expect((await pool.slot0()).observationCardinalityNext).to.be.eq(500)
+        }
+
+        // the market without a price is left for initMarket()
+        expect(await marketRegistry.hasPool(markets.NEW.baseToken.address)).to.be.false
+        expect((await markets.NEW.pool.slot0()).sqrtPriceX96).to.be.eq(0)
+    })
+
+    it("adds the collaterals", async () => {
+        const { collaterals, collateralManager, vault } = await loadFixture(createFixture)
+        const { token, mockedPriceFeed } = collaterals.WBTC
+
+        expect(await token.decimals()).to.be.eq(8)
+        const config = await collateralManager.getCollateralConfig(token.address)
+        expect(config.priceFeed).to.be.eq(mockedPriceFeed.address)
+        expect(config.collateralRatio).to.be.eq(700000)
+        expect(config.discountRatio).to.be.eq(100000)
+        expect(config.depositCap).to.be.eq(parseUnits("10", 8))
+
+        await token.mint(taker.address, parseUnits("11", 8))
+        await deposit(taker, vault, 1, token)
+        expect(await vault.getBalanceByToken(taker.address, token.address)).to.be.eq(parseUnits("1", 8))
+        // 1 WBTC * 40000 * 70%
+        expect(await vault.getFreeCollateral(taker.address)).to.be.eq(parseUnits("28000", 6))
+
+        await token.connect(taker).approve(vault.address, parseUnits("10", 8))
+        await expect(vault.connect(taker).deposit(token.address, parseUnits("10", 8))).to.be.revertedWith("V_GTDC")
+    })
+
+    it("trades in a market", async () => {
+        const { clearingHouse, accountBalance, vault, USDC, markets } = await loadFixture(createFixture)
+        const { baseToken } = markets.ETH
+
+        for (const trader of [maker, taker]) {
+            await USDC.mint(trader.address, parseUnits("100000", 6))
+            await deposit(trader, vault, 100000, USDC)
+        }
+        await clearingHouse.connect(maker).addLiquidity({
+            baseToken: baseToken.address,
+            base: parseEther("10"),
+            quote: parseEther("30000"),
+            lowerTick: getMinTick(60),
+            upperTick: getMaxTick(60),
+            minBase: 0,
+            minQuote: 0,
+            useTakerBalance: false,
+            deadline: ethers.constants.MaxUint256,
+        })
+
+        await clearingHouse.connect(taker).openPosition({
+            baseToken: baseToken.address,
+            isBaseToQuote: false,
+            isExactInput: false,
+            oppositeAmountBound: ethers.constants.MaxUint256,
+            amount: parseEther("1"),
+            sqrtPriceLimitX96: 0,
+            deadline: ethers.constants.MaxUint256,
+            referralCode: ethers.constants.HashZero,
+        })
+        expect(await accountBalance.getTotalPositionSize(taker.address, baseToken.address)).to.be.eq(parseEther("1"))
+    })
+
+    it("deploys the contracts of which the timestamp can be mocked by default", async () => {
+        const { clearingHouse } = await loadFixture(createFixture)
+        await (clearingHouse as TestClearingHouse).setBlockTimestamp(12345)
+        expect(await (clearingHouse as TestClearingHouse).getBlockTimestamp()).to.be.eq(12345)
+    })
+
+    it("deploys the contracts of the real timestamp", async () => {
+        const { clearingHouse } = await loadFixture(
+            new ClearingHouseFixtureBuilder()
+                .withMockedTime(false)
+                .withMarket({ symbol: "ETH", price: "3000" })
+                .build(),
+        )
+        expect("setBlockTimestamp" in clearingHouse).to.be.false
+    })
+
+    it("force error, duplicated market", async () => {
+        expect(() =>
+            new ClearingHouseFixtureBuilder().withMarket({ symbol: "ETH" }).withMarket({ symbol: "ETH" }),
+        ).to.throw("FixtureBuilder: duplicated market ETH")
+    })
+
+    it("force error, duplicated collateral", async () => {
+        const collateral = { decimals: 18, price: "1", collateralRatio: 1e6, discountRatio: 0, depositCap: "1" }
+        expect(() =>
+            new ClearingHouseFixtureBuilder()
+                .withCollateral({ symbol: "WETH", ...collateral })
+                .withCollateral({ symbol: "WETH", ...collateral }),
+        ).to.throw("FixtureBuilder: duplicated collateral WETH")
+        expect(() => new ClearingHouseFixtureBuilder().withCollateral({ symbol: "USDC", ...collateral })).to.throw(
+            "FixtureBuilder: duplicated collateral USDC",
+        )
+    })
+})
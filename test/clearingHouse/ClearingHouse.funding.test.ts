@@ -1,4 +1,3 @@
-import { MockContract } from "@eth-optimism/smock"
 import { parseEther } from "@ethersproject/units"
 import { expect } from "chai"
 import { parseUnits } from "ethers/lib/utils"
@@ -6,6 +5,7 @@ import { ethers, waffle } from "hardhat"
 import {
     BaseToken,
     ClearingHouseConfig,
+    MockPriceFeedDispatcher,
     OrderBook,
     TestAccountBalance,
     TestClearingHouse,
@@ -33,7 +33,7 @@ describe("ClearingHouse funding", () => {
     let collateral: TestERC20
     let baseToken: BaseToken
     let quoteToken: QuoteToken
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let collateralDecimals: number
     let fixture: ClearingHouseFixture
 
@@ -0,0 +1,229 @@
+import { expect } from "chai"
+import { BigNumber } from "ethers"
+import { parseEther, parseUnits } from "ethers/lib/utils"
+import { ethers, waffle } from "hardhat"
+import {
+    getFundingGrowthGlobalAndTwaps,
+    getFundingRate,
+    getMarkPrice,
+    getPendingFundingPayment,
+} from "../../scripts/funding/funding"
+import {
+    FundingConfig,
+    FundingContracts,
+    loadFundingConfig,
+    loadMarketFundingSnapshot,
+    loadTraderFundingSnapshot,
+    MarketFundingSnapshot,
+} from "../../scripts/funding/fundingSnapshot"
+import {
+    BaseToken,
+    ClearingHouseConfig,
+    MockPriceFeedDispatcher,
+    TestAccountBalance,
+    TestClearingHouse,
+    TestERC20,
+    TestExchange,
+    Vault,
+} from "../../typechain"
+import { b2qExactInput, q2bExactOutput } from "../helper/clearingHouseHelper"
+import { initMarket } from "../helper/marketHelper"
+import { deposit } from "../helper/token"
+import { forwardBothTimestamps, initiateBothTimestamps } from "../shared/time"
+import { mockIndexPrice } from "../shared/utilities"
+import { ClearingHouseFixture, createClearingHouseFixture } from "./fixtures"
+
+describe("ClearingHouse funding calculator", () => {
+    const [admin, alice, bob, carol] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    let fixture: ClearingHouseFixture
+    let clearingHouse: TestClearingHouse
+    let clearingHouseConfig: ClearingHouseConfig
+    let exchange: TestExchange
+    let accountBalance: TestAccountBalance
+    let vault: Vault
+    let collateral: TestERC20
+    let baseToken: BaseToken
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
+    let contracts: FundingContracts
+    let collateralDecimals: number
+
+    async function loadMarket(): Promise<{ config: FundingConfig; market: MarketFundingSnapshot }> {
+        const config = await loadFundingConfig(contracts)
+        const timestamp = (await exchange.getBlockTimestamp()).toNumber()
+        const market = await loadMarketFundingSnapshot(contracts, config, baseToken.address, timestamp)
+        return { config, market }
+    }
+
+    // the pending funding payment predicted off-chain, which has to be the same as the one of Exchange
+    async function getPredictedPendingFundingPayment(trader: string): Promise<BigNumber> {
+        const { config, market } = await loadMarket()
+        const traderSnapshot = await loadTraderFundingSnapshot(contracts, config, market, trader)
+        const predicted = getPendingFundingPayment(market, config, traderSnapshot)
+        expect(predicted).to.be.eq(await exchange.getPendingFundingPayment(trader, baseToken.address))
+        return predicted
+    }
+
+    async function openPosition(trader: typeof bob, isBaseToQuote: boolean, amount: string): Promise<void> {
+        await clearingHouse.connect(trader).openPosition({
+            baseToken: baseToken.address,
+            isBaseToQuote,
+            isExactInput: isBaseToQuote,
+            oppositeAmountBound: isBaseToQuote ? 0 : ethers.constants.MaxUint256,
+            amount: parseEther(amount),
+            sqrtPriceLimitX96: 0,
+            deadline: ethers.constants.MaxUint256,
+            referralCode: ethers.constants.HashZero,
+        })
+    }
+
+    async function addLiquidity(base: string, quote: string, lowerTick: number, upperTick: number): Promise<void> {
+        await clearingHouse.connect(alice).addLiquidity({
+            baseToken: baseToken.address,
+            base: parseEther(base),
+            quote: parseEther(quote),
+            lowerTick,
+            upperTick,
+            minBase: 0,
+            minQuote: 0,
+            useTakerBalance: false,
+            deadline: ethers.constants.MaxUint256,
+        })
+    }
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseFixture())
+        clearingHouse = fixture.clearingHouse as TestClearingHouse
+        clearingHouseConfig = fixture.clearingHouseConfig
+        exchange = fixture.exchange as TestExchange
+        accountBalance = fixture.accountBalance as TestAccountBalance
+        vault = fixture.vault
+        collateral = fixture.USDC
+        baseToken = fixture.baseToken
+        mockedPriceFeedDispatcher = fixture.mockedPriceFeedDispatcher
+        collateralDecimals = await collateral.decimals()
+        contracts = {
+            accountBalance,
+            exchange,
+            orderBook: fixture.orderBook,
+            marketRegistry: fixture.marketRegistry,
+            clearingHouseConfig,
+        }
+
+        // same as ClearingHouse.funding.test.ts, so are the numbers
+        await initMarket(fixture, "154.4310961", undefined, 0)
+        await mockIndexPrice(mockedPriceFeedDispatcher, "154")
+
+        await collateral.mint(alice.address, parseUnits("10000", collateralDecimals))
+        await deposit(alice, vault, 10000, collateral)
+        await collateral.mint(bob.address, parseUnits("1000", collateralDecimals))
+        await deposit(bob, vault, 1000, collateral)
+        await collateral.mint(carol.address, parseUnits("1000", collateralDecimals))
+        await deposit(carol, vault, 1000, collateral)
+
+        // NOTE: Should be the last step in beforeEach
+        await initiateBothTimestamps(clearingHouse)
+    })
+
+    describe("one maker with one order, multiple takers", () => {
+        beforeEach(async () => {
+            await addLiquidity("0", "100", 50200, 50400)
+        })
+
+        it("predicts the funding with twap; two takers; positive then negative funding", async () => {
+            await mockIndexPrice(mockedPriceFeedDispatcher, "150.953124")
+            await openPosition(bob, true, "0.099")
+            await forwardBothTimestamps(clearingHouse, 300)
+            expect(await getPredictedPendingFundingPayment(bob.address)).to.be.eq(parseEther("-0.001031250281599379"))
+
+            await openPosition(carol, false, "0.09")
+            await forwardBothTimestamps(clearingHouse, 450)
+            await mockIndexPrice(mockedPriceFeedDispatcher, "156.953124")
+            expect(await getPredictedPendingFundingPayment(bob.address)).to.be.eq(parseEther("0.000388517665061314"))
+            expect(await getPredictedPendingFundingPayment(carol.address)).to.be.eq(parseEther("-0.001290698133327903"))
+            expect(await getPredictedPendingFundingPayment(alice.address)).to.be.eq(parseEther("0.000902180468266589"))
+
+            // the twaps emitted by FundingUpdated of the next swap
+            const { config, market } = await loadMarket()
+            const { marketTwap, indexTwap } = getFundingGrowthGlobalAndTwaps(market, config)
+            expect(marketTwap).to.be.eq(parseEther("154.199634648900471640"))
+            expect(indexTwap).to.be.eq(parseEther("156.953124"))
+
+            // negative funding: shorts pay longs
+            const { fundingRate } = getFundingRate(market, config)
+            expect(fundingRate).to.be.lt(0)
+        })
+
+        it("predicts the funding without twap after the funding is settled", async () => {
+            await mockIndexPrice(mockedPriceFeedDispatcher, "150.953124")
+            await openPosition(bob, true, "0.099")
+            await forwardBothTimestamps(clearingHouse, 3600)
+            expect(await getPredictedPendingFundingPayment(bob.address)).to.be.eq(parseEther("-0.012375003379192556"))
+            expect(await getPredictedPendingFundingPayment(alice.address)).to.be.eq(parseEther("0.012375003379192556"))
+
+            const { config, market } = await loadMarket()
+            const { marketTwap, indexTwap, fundingRate } = getFundingRate(market, config)
+            expect(marketTwap).to.be.eq(parseEther("153.953124819198195396"))
+            expect(indexTwap).to.be.eq(parseEther("150.953124"))
+            // (153.953124819198195396 - 150.953124) / 150.953124 = 0.0198738675
+            expect(fundingRate).to.be.gt(parseEther("0.019873"))
+            expect(fundingRate).to.be.lt(parseEther("0.019874"))
+
+            // the funding is settled by the swap and the growth is read from the storage of Exchange
+            await openPosition(bob, true, "0.0000000001")
+            await forwardBothTimestamps(clearingHouse, 3600)
+            expect(await getPredictedPendingFundingPayment(bob.address)).to.be.lt(0)
+        })
+
+        it("predicts the mark price", async () => {
+            await openPosition(bob, true, "0.099")
+            await forwardBothTimestamps(clearingHouse, 300)
+            await mockIndexPrice(mockedPriceFeedDispatcher, "152")
+
+            const { config, market } = await loadMarket()
+            expect(getMarkPrice(market, config)).to.be.eq(await accountBalance.getMarkPrice(baseToken.address))
+        })
+
+        it("force error, the snapshot has no observation of the twap interval", async () => {
+            await openPosition(bob, true, "0.099")
+            await forwardBothTimestamps(clearingHouse, 300)
+
+            const { config, market } = await loadMarket()
+            expect(() => getFundingGrowthGlobalAndTwaps(market, { ...config, twapInterval: 100 })).to.throw(
+                "Funding: tickCumulative of 100 seconds ago is not in the snapshot",
+            )
+        })
+    })
+
+    describe("max funding rate exceeded", () => {
+        beforeEach(async () => {
+            await mockIndexPrice(mockedPriceFeedDispatcher, "150.953124")
+            await clearingHouseConfig.setMaxFundingRate(0.1e6)
+            await addLiquidity("10", "10000", 20000, 80000)
+            await collateral.mint(bob.address, parseUnits("1000000", collateralDecimals))
+            await deposit(bob, vault, 1000000, collateral)
+        })
+
+        it("clamps the funding rate when markTwap is above indexTwap", async () => {
+            await q2bExactOutput(fixture, bob, 0.1)
+            await mockIndexPrice(mockedPriceFeedDispatcher, "50")
+            await forwardBothTimestamps(clearingHouse, 100)
+
+            const { config, market } = await loadMarket()
+            expect(getFundingRate(market, config).fundingRate).to.be.eq(parseEther("0.1"))
+            expect(await getPredictedPendingFundingPayment(bob.address)).to.be.eq(parseEther("0.000578703703703703"))
+            expect(await getPredictedPendingFundingPayment(alice.address)).to.be.eq(parseEther("-0.000578703703703703"))
+        })
+
+        it("clamps the funding rate when markTwap is below indexTwap", async () => {
+            await b2qExactInput(fixture, bob, 0.1)
+            await mockIndexPrice(mockedPriceFeedDispatcher, "200")
+            await forwardBothTimestamps(clearingHouse, 100)
+
+            const { config, market } = await loadMarket()
+            expect(getFundingRate(market, config).fundingRate).to.be.eq(parseEther("-0.1"))
+            expect(await getPredictedPendingFundingPayment(bob.address)).to.be.eq(parseEther("0.002314814814814814"))
+            expect(await getPredictedPendingFundingPayment(alice.address)).to.be.eq(parseEther("-0.002314814814814814"))
+        })
+    })
+})
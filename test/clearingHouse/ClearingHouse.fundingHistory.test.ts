@@ -0,0 +1,192 @@
+import { expect } from "chai"
+import { parseEther, parseUnits } from "ethers/lib/utils"
+import { ethers, waffle } from "hardhat"
+import {
+    formatFundingHistoryJson,
+    formatFundingRatesCsv,
+    formatRealizedFundingsCsv,
+    FundingHistoryContracts,
+    getFundingRateOfUpdate,
+    getFundingRateSeries,
+    loadFundingHistory,
+} from "../../scripts/funding/fundingHistory"
+import { BaseToken, MockPriceFeedDispatcher, TestClearingHouse, TestERC20, TestExchange, Vault } from "../../typechain"
+import { initMarket } from "../helper/marketHelper"
+import { deposit } from "../helper/token"
+import { forwardBothTimestamps, initiateBothTimestamps } from "../shared/time"
+import { mockIndexPrice } from "../shared/utilities"
+import { ClearingHouseFixture, createClearingHouseFixture } from "./fixtures"
+
+describe("ClearingHouse funding history", () => {
+    const [admin, alice, bob] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    const interval = 3600
+    let fixture: ClearingHouseFixture
+    let clearingHouse: TestClearingHouse
+    let exchange: TestExchange
+    let vault: Vault
+    let collateral: TestERC20
+    let baseToken: BaseToken
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
+    let contracts: FundingHistoryContracts
+
+    // returns the timestamp of the block
+    async function shortByBob(amount: string): Promise<number> {
+        const tx = await clearingHouse.connect(bob).openPosition({
+            baseToken: baseToken.address,
+            isBaseToQuote: true,
+            isExactInput: true,
+            oppositeAmountBound: 0,
+            amount: parseEther(amount),
+            sqrtPriceLimitX96: 0,
+            deadline: ethers.constants.MaxUint256,
+            referralCode: ethers.constants.HashZero,
+        })
+        const receipt = await tx.wait()
+        return (await ethers.provider.getBlock(receipt.blockNumber)).timestamp
+    }
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseFixture())
+        clearingHouse = fixture.clearingHouse as TestClearingHouse
+        exchange = fixture.exchange as TestExchange
+        vault = fixture.vault
+        collateral = fixture.USDC
+        baseToken = fixture.baseToken
+        mockedPriceFeedDispatcher = fixture.mockedPriceFeedDispatcher
+        contracts = { clearingHouse, exchange, clearingHouseConfig: fixture.clearingHouseConfig }
+
+        await initMarket(fixture, "154.4310961", undefined, 0)
+        await mockIndexPrice(mockedPriceFeedDispatcher, "150.953124")
+
+        const collateralDecimals = await collateral.decimals()
+        await collateral.mint(alice.address, parseUnits("10000", collateralDecimals))
+        await deposit(alice, vault, 10000, collateral)
+        await collateral.mint(bob.address, parseUnits("1000", collateralDecimals))
+        await deposit(bob, vault, 1000, collateral)
+
+        await clearingHouse.connect(alice).addLiquidity({
+            baseToken: baseToken.address,
+            base: 0,
+            quote: parseEther("100"),
+            lowerTick: 50200,
+            upperTick: 50400,
+            minBase: 0,
+            minQuote: 0,
+            useTakerBalance: false,
+            deadline: ethers.constants.MaxUint256,
+        })
+
+        // NOTE: Should be the last step in beforeEach
+        await initiateBothTimestamps(clearingHouse)
+    })
+
+    it("reconstructs the funding rates and the realized funding of a positive then negative funding", async () => {
+        // the settlement of addLiquidity() is skipped, the history starts from the first short of bob
+        const fromBlock = (await ethers.provider.getBlockNumber()) + 1
+        const firstTimestamp = await shortByBob("0.099")
+
+        // positive funding for an hour, see ClearingHouse.funding.test.ts
+        await forwardBothTimestamps(clearingHouse, 3600)
+        await shortByBob("0.0000000001")
+
+        // negative funding for an hour
+        await mockIndexPrice(mockedPriceFeedDispatcher, "156.953124")
+        await forwardBothTimestamps(clearingHouse, 3600)
+        const pendingFundingPayment = await exchange.getPendingFundingPayment(bob.address, baseToken.address)
+        const lastTimestamp = await shortByBob("0.0000000001")
+
+        const { fundingRates, realizedFundings } = await loadFundingHistory(contracts, { fromBlock, interval })
+
+        // the intervals from the first to the last settlement
+        expect(fundingRates.length).to.be.gte(2)
+        expect(fundingRates[0].timestamp).to.be.eq(Math.floor(firstTimestamp / interval) * interval)
+        expect(fundingRates.reduce((seconds, point) => seconds + point.accruedSeconds, 0)).to.be.eq(
+            lastTimestamp - firstTimestamp,
+        )
+        for (const point of fundingRates) {
+            expect(point.baseToken).to.be.eq(baseToken.address)
+            expect(point.timestamp % interval).to.be.eq(0)
+        }
+
+        // the first interval is accrued at the twaps emitted by the second settlement only
+        expect(fundingRates[0].marketTwap).to.be.eq(parseEther("153.953124819198195396"))
+        expect(fundingRates[0].indexTwap).to.be.eq(parseEther("150.953124"))
+        expect(fundingRates[0].fundingRate).to.be.gt(0)
+        expect(fundingRates[fundingRates.length - 1].indexTwap).to.be.eq(parseEther("156.953124"))
+        expect(fundingRates[fundingRates.length - 1].fundingRate).to.be.lt(0)
+
+        expect(realizedFundings.length).to.be.eq(1)
+        expect(realizedFundings[0].trader).to.be.eq(bob.address)
+        expect(realizedFundings[0].baseToken).to.be.eq(baseToken.address)
+        expect(realizedFundings[0].fundingPayment).to.be.eq(
+            parseEther("-0.012375003379192556").add(pendingFundingPayment),
+        )
+        expect(realizedFundings[0].settlements).to.be.eq(2)
+    })
+
+    it("exports the history in CSV and JSON", async () => {
+        const fromBlock = (await ethers.provider.getBlockNumber()) + 1
+        await shortByBob("0.099")
+        await forwardBothTimestamps(clearingHouse, 3600)
+        await shortByBob("0.0000000001")
+
+        const history = await loadFundingHistory(contracts, { fromBlock, interval })
+        const rateLines = formatFundingRatesCsv(history.fundingRates).trim().split("\n")
+        expect(rateLines[0]).to.be.eq("baseToken,timestamp,time,accruedSeconds,fundingRate,marketTwap,indexTwap")
+        expect(rateLines.length).to.be.eq(history.fundingRates.length + 1)
+        expect(rateLines[1]).to.include(`${baseToken.address},${history.fundingRates[0].timestamp},`)
+        expect(rateLines[1]).to.include(",153.953124819198195396,150.953124")
+
+        expect(formatRealizedFundingsCsv(history.realizedFundings)).to.be.eq(
+            `trader,baseToken,fundingPayment,settlements\n${bob.address},${baseToken.address},-0.012375003379192556,1\n`,
+        )
+
+        const json = JSON.parse(formatFundingHistoryJson(history))
+        expect(json.fundingRates.length).to.be.eq(history.fundingRates.length)
+        expect(json.realizedFundings[0].fundingPayment).to.be.eq("-0.012375003379192556")
+    })
+
+    it("scans the given market only", async () => {
+        await shortByBob("0.099")
+        await forwardBothTimestamps(clearingHouse, 3600)
+        await shortByBob("0.0000000001")
+
+        const history = await loadFundingHistory(contracts, {
+            baseToken: fixture.baseToken2.address,
+            fromBlock: 0,
+            interval,
+        })
+        expect(history).to.deep.eq({ fundingRates: [], realizedFundings: [] })
+    })
+
+    it("clamps the funding rate by the max funding rate", async () => {
+        const update = {
+            baseToken: baseToken.address,
+            blockNumber: 2,
+            logIndex: 0,
+            timestamp: 7200,
+            marketTwap: parseEther("200"),
+            indexTwap: parseEther("100"),
+        }
+        expect(getFundingRateOfUpdate(update, 0.1e6)).to.be.eq(parseEther("0.1"))
+        expect(getFundingRateOfUpdate({ ...update, marketTwap: parseEther("50") }, 0.1e6)).to.be.eq(parseEther("-0.1"))
+        expect(getFundingRateOfUpdate({ ...update, marketTwap: parseEther("101") }, 0.1e6)).to.be.eq(parseEther("0.01"))
+
+        // 10% a day over 1.5 hours is split into the two hours
+        const [first, second] = getFundingRateSeries(
+            [{ ...update, blockNumber: 1, timestamp: 1800 }, update],
+            interval,
+            0.1e6,
+        )
+        expect(first.fundingRate).to.be.eq(parseEther("0.1").mul(1800).div(86400))
+        expect(second.fundingRate).to.be.eq(parseEther("0.1").mul(3600).div(86400))
+        expect(second.marketTwap).to.be.eq(parseEther("200"))
+        expect(second.accruedSeconds).to.be.eq(3600)
+    })
+
+    it("force error, invalid interval", async () => {
+        expect(() => getFundingRateSeries([], 0, 0.1e6)).to.throw("FundingHistory: invalid interval 0")
+        expect(() => getFundingRateSeries([], 1.5, 0.1e6)).to.throw("FundingHistory: invalid interval 1.5")
+    })
+})
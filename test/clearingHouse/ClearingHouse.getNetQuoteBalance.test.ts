@@ -1,8 +1,15 @@
-import { MockContract } from "@eth-optimism/smock"
 import { expect } from "chai"
 import { parseEther, parseUnits } from "ethers/lib/utils"
 import { ethers, waffle } from "hardhat"
-import { BaseToken, OrderBook, TestAccountBalance, TestClearingHouse, TestERC20, Vault } from "../../typechain"
+import {
+    BaseToken,
+    MockPriceFeedDispatcher,
+    OrderBook,
+    TestAccountBalance,
+    TestClearingHouse,
+    TestERC20,
+    Vault,
+} from "../../typechain"
 import { initMarket } from "../helper/marketHelper"
 import { deposit } from "../helper/token"
 import { mockIndexPrice } from "../shared/utilities"
@@ -18,7 +25,7 @@ describe("ClearingHouse getNetQuoteBalanceAndPendingFee", () => {
     let vault: Vault
     let collateral: TestERC20
     let baseToken: BaseToken
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let collateralDecimals: number
 
     beforeEach(async () => {
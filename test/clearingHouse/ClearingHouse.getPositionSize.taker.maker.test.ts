@@ -1,10 +1,9 @@
-import { MockContract } from "@eth-optimism/smock"
 import { BigNumber } from "@ethersproject/bignumber"
 import { expect } from "chai"
 import { BigNumberish, Wallet } from "ethers"
 import { parseEther } from "ethers/lib/utils"
 import { waffle } from "hardhat"
-import { AccountBalance, BaseToken, OrderBook, UniswapV3Pool } from "../../typechain"
+import { AccountBalance, BaseToken, MockPriceFeedDispatcher, OrderBook, UniswapV3Pool } from "../../typechain"
 import {
     addOrder,
     b2qExactInput,
@@ -29,7 +28,7 @@ describe("ClearingHouse getPositionSize for taker + maker in xyk pool", () => {
     let accountBalance: AccountBalance
     let orderBook: OrderBook
     let baseToken: BaseToken
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let pool: UniswapV3Pool
     let lowerTick: number
     let upperTick: number
@@ -1,9 +1,15 @@
-import { MockContract } from "@eth-optimism/smock"
 import { parseEther } from "@ethersproject/units"
 import { expect } from "chai"
 import { parseUnits } from "ethers/lib/utils"
 import { ethers, waffle } from "hardhat"
-import { AccountBalance, BaseToken, TestClearingHouse, TestERC20, Vault } from "../../typechain"
+import {
+    AccountBalance,
+    BaseToken,
+    MockPriceFeedDispatcher,
+    TestClearingHouse,
+    TestERC20,
+    Vault,
+} from "../../typechain"
 import { initMarket } from "../helper/marketHelper"
 import { deposit } from "../helper/token"
 import { mockIndexPrice } from "../shared/utilities"
@@ -18,7 +24,7 @@ describe("ClearingHouse.getTotalPositionSize", () => {
     let vault: Vault
     let collateral: TestERC20
     let baseToken: BaseToken
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let collateralDecimals: number
 
     beforeEach(async () => {
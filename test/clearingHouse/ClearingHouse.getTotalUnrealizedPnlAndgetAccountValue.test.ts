@@ -1,9 +1,15 @@
-import { MockContract } from "@eth-optimism/smock"
 import { BigNumber } from "@ethersproject/bignumber"
 import { expect } from "chai"
 import { parseEther, parseUnits } from "ethers/lib/utils"
 import { ethers, waffle } from "hardhat"
-import { BaseToken, TestAccountBalance, TestClearingHouse, TestERC20, Vault } from "../../typechain"
+import {
+    BaseToken,
+    MockPriceFeedDispatcher,
+    TestAccountBalance,
+    TestClearingHouse,
+    TestERC20,
+    Vault,
+} from "../../typechain"
 import { initMarket } from "../helper/marketHelper"
 import { deposit } from "../helper/token"
 import { mockIndexPrice, mockMarkPrice } from "../shared/utilities"
@@ -18,7 +24,7 @@ describe("ClearingHouse getTotalUnrealizedPnl & getAccountValue", () => {
     let vault: Vault
     let collateral: TestERC20
     let baseToken: BaseToken
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let collateralDecimals: number
     let makerCollateral: BigNumber
     let takerCollateral: BigNumber
@@ -1,4 +1,3 @@
-import { MockContract } from "@eth-optimism/smock"
 import { expect } from "chai"
 import { parseEther, parseUnits } from "ethers/lib/utils"
 import { ethers, waffle } from "hardhat"
@@ -8,6 +7,7 @@ import {
     ClearingHouse,
     InsuranceFund,
     MarketRegistry,
+    MockPriceFeedDispatcher,
     TestERC20,
     Vault,
 } from "../../typechain"
@@ -27,7 +27,7 @@ describe("ClearingHouse insurance fee in v3 pool", () => {
     let insuranceFund: InsuranceFund
     let collateral: TestERC20
     let baseToken: BaseToken
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let collateralDecimals: number
 
     beforeEach(async () => {
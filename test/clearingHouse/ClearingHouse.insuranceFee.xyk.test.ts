@@ -1,4 +1,3 @@
-import { MockContract } from "@eth-optimism/smock"
 import { expect } from "chai"
 import { parseEther, parseUnits } from "ethers/lib/utils"
 import { ethers, waffle } from "hardhat"
@@ -8,6 +7,7 @@ import {
     ClearingHouse,
     InsuranceFund,
     MarketRegistry,
+    MockPriceFeedDispatcher,
     TestERC20,
     UniswapV3Pool,
     Vault,
@@ -29,7 +29,7 @@ describe("ClearingHouse insurance fee in xyk pool", () => {
     let collateral: TestERC20
     let baseToken: BaseToken
     let pool: UniswapV3Pool
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let collateralDecimals: number
     let lowerTick: number
     let upperTick: number
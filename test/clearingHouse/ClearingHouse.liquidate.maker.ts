@@ -1,4 +1,3 @@
-import { MockContract } from "@eth-optimism/smock"
 import { parseEther } from "@ethersproject/units"
 import { expect } from "chai"
 import { parseUnits } from "ethers/lib/utils"
@@ -9,6 +8,7 @@ import {
     Exchange,
     InsuranceFund,
     MarketRegistry,
+    MockPriceFeedDispatcher,
     OrderBook,
     QuoteToken,
     TestAccountBalance,
@@ -37,8 +37,8 @@ describe("ClearingHouse liquidate maker", () => {
     let collateral: TestERC20
     let quoteToken: QuoteToken
     let baseToken: BaseToken
-    let mockedPriceFeedDispatcher: MockContract
-    let mockedPriceFeedDispatcher2: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
+    let mockedPriceFeedDispatcher2: MockPriceFeedDispatcher
     let baseToken2: BaseToken
     let pool2: UniswapV3Pool
     let lowerTick: number
@@ -0,0 +1,142 @@
+import { expect } from "chai"
+import { parseUnits } from "ethers/lib/utils"
+import { waffle } from "hardhat"
+import { LiquidationKeeper } from "../../scripts/keeper/liquidationKeeper"
+import {
+    BaseToken,
+    MockPriceFeedDispatcher,
+    OrderBook,
+    TestAccountBalance,
+    TestClearingHouse,
+    TestERC20,
+    Vault,
+} from "../../typechain"
+import { addOrder, q2bExactInput } from "../helper/clearingHouseHelper"
+import { initMarket } from "../helper/marketHelper"
+import { mintAndDeposit } from "../helper/token"
+import { filterLogs, mockIndexPrice, mockMarkPrice } from "../shared/utilities"
+import { ClearingHouseFixture, createClearingHouseFixture } from "./fixtures"
+
+describe("ClearingHouse liquidation keeper", () => {
+    const [admin, alice, bob, carol, davis] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    let fixture: ClearingHouseFixture
+    let clearingHouse: TestClearingHouse
+    let accountBalance: TestAccountBalance
+    let orderBook: OrderBook
+    let vault: Vault
+    let collateral: TestERC20
+    let baseToken: BaseToken
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
+    let keeper: LiquidationKeeper
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseFixture())
+        clearingHouse = fixture.clearingHouse as TestClearingHouse
+        accountBalance = fixture.accountBalance as TestAccountBalance
+        orderBook = fixture.orderBook
+        vault = fixture.vault
+        collateral = fixture.USDC
+        baseToken = fixture.baseToken
+        mockedPriceFeedDispatcher = fixture.mockedPriceFeedDispatcher
+
+        const initPrice = "10"
+        const { maxTick, minTick } = await initMarket(fixture, initPrice, undefined, 0)
+        await mockIndexPrice(mockedPriceFeedDispatcher, initPrice)
+
+        // alice and carol add v2 style liquidity
+        await mintAndDeposit(fixture, alice, 200)
+        await addOrder(fixture, alice, 10, 100, minTick, maxTick)
+        await mintAndDeposit(fixture, carol, 1000)
+        await addOrder(fixture, carol, 90, 900, minTick, maxTick)
+
+        // bob long, price after swap: 39.601
+        await mintAndDeposit(fixture, bob, 10000000)
+        await mockIndexPrice(mockedPriceFeedDispatcher, "40")
+        await q2bExactInput(fixture, bob, 1000)
+
+        // davis needs fund to be a liquidator
+        await mintAndDeposit(fixture, davis, 100000)
+
+        // increase insuranceFund capacity
+        await collateral.mint(fixture.insuranceFund.address, parseUnits("1000000", 6))
+
+        keeper = new LiquidationKeeper({ clearingHouse, accountBalance, orderBook, vault }, davis, 0, () => {})
+    })
+
+    it("indexes the traders from Deposited and PositionChanged events", async () => {
+        expect(await keeper.traderIndex.sync()).to.have.members([
+            alice.address,
+            bob.address,
+            carol.address,
+            davis.address,
+        ])
+        expect(await keeper.traderIndex.sync()).to.deep.eq([])
+    })
+
+    it("does nothing when no one is liquidatable", async () => {
+        expect(await keeper.isLiquidatable(alice.address)).to.be.false
+        expect(await keeper.runOnce()).to.deep.eq([])
+        expect(await orderBook.getOpenOrderIds(alice.address, baseToken.address)).to.have.length(1)
+    })
+
+    it("cancels the orders of the makers and liquidates their impermanent positions", async () => {
+        await mockMarkPrice(accountBalance, baseToken.address, "115")
+
+        // both of the makers are short and have bad debt, bob is long and profitable
+        expect(await keeper.isLiquidatable(alice.address)).to.be.true
+        expect(await keeper.isLiquidatable(carol.address)).to.be.true
+        expect(await keeper.isLiquidatable(bob.address)).to.be.false
+
+        const aliceImpermanentPositionSize = await accountBalance.getTotalPositionSize(alice.address, baseToken.address)
+        const carolImpermanentPositionSize = await accountBalance.getTotalPositionSize(carol.address, baseToken.address)
+
+        const results = await keeper.runOnce()
+        expect(results.map(result => result.trader)).to.have.members([alice.address, carol.address])
+
+        for (const result of results) {
+            expect(result.baseToken).to.be.eq(baseToken.address)
+            expect(await accountBalance.hasOrder(result.trader)).to.be.false
+            expect(await accountBalance.getTotalPositionSize(result.trader, baseToken.address)).to.be.eq(0)
+
+            const receipt = await waffle.provider.getTransactionReceipt(result.txHash)
+            const logs = filterLogs(receipt, clearingHouse.interface.getEventTopic("PositionLiquidated"), clearingHouse)
+            expect(logs).to.have.length(1)
+            expect(logs[0].args.trader).to.be.eq(result.trader)
+            expect(logs[0].args.positionSize).to.be.eq(result.positionSize.abs())
+            expect(logs[0].args.liquidator).to.be.eq(davis.address)
+        }
+
+        // the whole position is liquidated since the account value is below half of the margin requirement
+        expect(results.find(result => result.trader === alice.address).positionSize).to.be.eq(
+            aliceImpermanentPositionSize,
+        )
+        expect(results.find(result => result.trader === carol.address).positionSize).to.be.eq(
+            carolImpermanentPositionSize,
+        )
+
+        // bob is untouched and the next round has nothing to do
+        expect(await accountBalance.getTakerPositionSize(bob.address, baseToken.address)).to.be.gt(0)
+        expect(await keeper.runOnce()).to.deep.eq([])
+    })
+
+    it("keeps going when the liquidation of a trader fails", async () => {
+        await mockMarkPrice(accountBalance, baseToken.address, "115")
+
+        // admin has no collateral, so the liquidations revert with CH_NEFCI after the orders are cancelled
+        const logs: string[] = []
+        const poorKeeper = new LiquidationKeeper({ clearingHouse, accountBalance, orderBook, vault }, admin, 0, log =>
+            logs.push(log),
+        )
+        expect(await poorKeeper.runOnce()).to.deep.eq([])
+
+        expect(logs.filter(log => log.startsWith("failed to liquidate"))).to.have.length(2)
+        expect(logs.filter(log => log.includes("CH_NEFCI"))).to.have.length(2)
+        expect(await accountBalance.hasOrder(alice.address)).to.be.false
+        expect(await accountBalance.hasOrder(carol.address)).to.be.false
+
+        // a funded keeper picks them up in the next round
+        const results = await keeper.runOnce()
+        expect(results.map(result => result.trader)).to.have.members([alice.address, carol.address])
+    })
+})
@@ -0,0 +1,197 @@
+import { expect } from "chai"
+import { parseEther, parseUnits } from "ethers/lib/utils"
+import { waffle } from "hardhat"
+import { getRange, MakerBot, MakerMarketConfig } from "../../scripts/keeper/makerBot"
+import { PerpClient } from "../../scripts/sdk/perpClient"
+import { BaseToken, MarketRegistry, OrderBook, UniswapV3Pool } from "../../typechain"
+import { initMarket } from "../helper/marketHelper"
+import { mockIndexPrice } from "../shared/utilities"
+import { ClearingHouseFixture, createClearingHouseFixture } from "./fixtures"
+
+describe("ClearingHouse maker bot", () => {
+    const [admin, alice, bob] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    let fixture: ClearingHouseFixture
+    let orderBook: OrderBook
+    let marketRegistry: MarketRegistry
+    let baseToken: BaseToken
+    let pool: UniswapV3Pool
+    let aliceClient: PerpClient
+    let bobClient: PerpClient
+    let market: MakerMarketConfig
+    let logs: string[]
+
+    function createClient(wallet: typeof alice): PerpClient {
+        return new PerpClient(
+            {
+                clearingHouse: fixture.clearingHouse,
+                vault: fixture.vault,
+                accountBalance: fixture.accountBalance,
+                orderBook: fixture.orderBook,
+            },
+            wallet,
+        )
+    }
+
+    function createBot(config: Partial<MakerMarketConfig> = {}): MakerBot {
+        return new MakerBot(aliceClient, marketRegistry, [{ ...market, ...config }], message => logs.push(message))
+    }
+
+    async function getTick(): Promise<number> {
+        return (await pool.slot0()).tick
+    }
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseFixture())
+        orderBook = fixture.orderBook
+        marketRegistry = fixture.marketRegistry
+        baseToken = fixture.baseToken
+        pool = fixture.pool
+
+        // tick 50199, the tick spacing is 200
+        await initMarket(fixture, "151.373306858723226652", undefined, 0)
+        await mockIndexPrice(fixture.mockedPriceFeedDispatcher, "151")
+
+        aliceClient = createClient(alice)
+        bobClient = createClient(bob)
+        const decimals = await fixture.USDC.decimals()
+        for (const wallet of [alice, bob]) {
+            await fixture.USDC.mint(wallet.address, parseUnits("100000", decimals))
+        }
+        await aliceClient.deposit(fixture.USDC.address, "100000")
+        await bobClient.deposit(fixture.USDC.address, "10000")
+
+        market = { baseToken: baseToken.address, base: "10", quote: "1500", halfRangeTicks: 1000, bandTicks: 300 }
+        logs = []
+    })
+
+    it("rounds a range outwards to the tick spacing", async () => {
+        expect(getRange(50199, 1000, 200)).to.deep.eq({ lowerTick: 49000, upperTick: 51200 })
+        expect(getRange(-50199, 1000, 200)).to.deep.eq({ lowerTick: -51200, upperTick: -49000 })
+        expect(getRange(400, 0, 200)).to.deep.eq({ lowerTick: 400, upperTick: 600 })
+    })
+
+    it("adds a range around the price and keeps it while the price is in band", async () => {
+        const bot = createBot()
+        const [result] = await bot.runOnce()
+        expect(result.tick).to.be.eq(50199)
+        expect(result.removed).to.deep.eq([])
+        expect(result.added.lowerTick).to.be.eq(49000)
+        expect(result.added.upperTick).to.be.eq(51200)
+        expect(bot.getRanges(baseToken.address)).to.deep.eq([{ lowerTick: 49000, upperTick: 51200 }])
+        expect(await orderBook.getOpenOrderIds(alice.address, baseToken.address)).to.have.length(1)
+
+        // the price moves but stays in band
+        await bobClient.openLong(baseToken.address, { notional: "100" })
+        expect(await getTick()).to.be.lte(50100 + market.bandTicks)
+        expect(await bot.runOnce()).to.deep.eq([])
+    })
+
+    it("moves the range when the price leaves the band and realizes the fee", async () => {
+        const bot = createBot()
+        await bot.runOnce()
+
+        // the price moves about 630 ticks up
+        await bobClient.openLong(baseToken.address, { notional: "1000" })
+        const tick = await getTick()
+        expect(tick).to.be.gt(50100 + market.bandTicks)
+        expect(tick).to.be.lt(51200)
+
+        const [result] = await bot.runOnce()
+        expect(result.tick).to.be.eq(tick)
+        expect(result.removed).to.have.length(1)
+        expect(result.removed[0].lowerTick).to.be.eq(49000)
+        expect(result.removed[0].upperTick).to.be.eq(51200)
+        // bob pays 1% fee of 1000 to alice, the only maker
+        expect(result.removed[0].quoteFee).to.be.closeTo(parseEther("10"), 1e6)
+        expect(result.collectedFee).to.be.eq(result.removed[0].quoteFee)
+        // alice has no taker position before, so her impermanent position is taken without realizing any pnl
+        expect(result.realizedPnl).to.be.eq(0)
+
+        const range = getRange(tick, market.halfRangeTicks, 200)
+        expect(result.added.lowerTick).to.be.eq(range.lowerTick)
+        expect(result.added.upperTick).to.be.eq(range.upperTick)
+        expect(bot.getRanges(baseToken.address)).to.deep.eq([range])
+        const orderIds = await orderBook.getOpenOrderIds(alice.address, baseToken.address)
+        expect(orderIds).to.have.length(1)
+        const order = await orderBook.getOpenOrderById(orderIds[0])
+        expect(order.lowerTick).to.be.eq(range.lowerTick)
+        expect(order.upperTick).to.be.eq(range.upperTick)
+
+        expect(bot.getPnl(baseToken.address)).to.deep.eq({
+            collectedFee: result.collectedFee,
+            realizedPnl: result.realizedPnl,
+        })
+    })
+
+    it("collects the pending fee of the range in band", async () => {
+        const bot = createBot({ minFeeToCollect: parseEther("1") })
+        await bot.runOnce()
+
+        // bob pays about 2 + 2 fee and the price returns
+        await bobClient.openLong(baseToken.address, { notional: "200" })
+        await bobClient.closePosition(baseToken.address)
+        const pendingFee = await orderBook.getPendingFee(alice.address, baseToken.address, 49000, 51200)
+        expect(pendingFee).to.be.gt(parseEther("1"))
+
+        const [result] = await bot.runOnce()
+        expect(result.removed).to.deep.eq([])
+        expect(result.added).to.be.undefined
+        expect(result.collected.quoteFee).to.be.eq(pendingFee)
+        expect(result.collected.liquidity).to.be.eq(0)
+        expect(bot.getPnl(baseToken.address).collectedFee).to.be.eq(pendingFee)
+        expect(await orderBook.getPendingFee(alice.address, baseToken.address, 49000, 51200)).to.be.eq(0)
+
+        // nothing to collect
+        expect(await bot.runOnce()).to.deep.eq([])
+    })
+
+    it("adopts the open orders of the maker", async () => {
+        await aliceClient.addLiquidity(baseToken.address, {
+            base: "10",
+            quote: "1500",
+            lowerTick: 48000,
+            upperTick: 52000,
+        })
+
+        const bot = createBot()
+        await bot.adoptOpenOrders()
+        expect(bot.getRanges(baseToken.address)).to.deep.eq([{ lowerTick: 48000, upperTick: 52000 }])
+        // the center 50000 is in band
+        expect(await bot.runOnce()).to.deep.eq([])
+    })
+
+    it("forgets the range removed by others", async () => {
+        const bot = createBot()
+        await bot.runOnce()
+        await aliceClient.removeAllLiquidity(baseToken.address)
+
+        // the range in band is removed, so a new one is added
+        const [result] = await bot.runOnce()
+        expect(result.removed).to.deep.eq([])
+        expect(result.added.lowerTick).to.be.eq(49000)
+        expect(bot.getRanges(baseToken.address)).to.have.length(1)
+    })
+
+    it("respects the max orders per market", async () => {
+        await marketRegistry.setMaxOrdersPerMarket(1)
+        // an order not managed by the bot
+        await aliceClient.addLiquidity(baseToken.address, {
+            base: "10",
+            quote: "1500",
+            lowerTick: 48000,
+            upperTick: 52000,
+        })
+
+        const bot = createBot()
+        const [result] = await bot.runOnce()
+        expect(result.added).to.be.undefined
+        expect(logs[0]).to.include("orders at most")
+        expect(bot.getRanges(baseToken.address)).to.deep.eq([])
+        expect(await orderBook.getOpenOrderIds(alice.address, baseToken.address)).to.have.length(1)
+    })
+
+    it("force error, invalid range", async () => {
+        expect(() => createBot({ halfRangeTicks: 0 })).to.throw(`MakerBot: invalid range of ${baseToken.address}`)
+    })
+})
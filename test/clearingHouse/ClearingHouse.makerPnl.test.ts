@@ -0,0 +1,266 @@
+import { expect } from "chai"
+import { parseEther, parseUnits } from "ethers/lib/utils"
+import { ethers, waffle } from "hardhat"
+import { loadMakerPnl, MarketMakerPnl } from "../../scripts/health/makerPnl"
+import { BaseToken, OrderBook, TestAccountBalance, TestClearingHouse } from "../../typechain"
+import { addOrder, closePosition, q2bExactInput, removeAllOrders } from "../helper/clearingHouseHelper"
+import { initMarket } from "../helper/marketHelper"
+import { mintAndDeposit } from "../helper/token"
+import { forwardBothTimestamps, initiateBothTimestamps } from "../shared/time"
+import { mockIndexPrice, mockMarkPrice } from "../shared/utilities"
+import { ClearingHouseFixture, createClearingHouseFixture } from "./fixtures"
+
+// the scenarios of ClearingHouse.removeLiquidity.with_fee(maker).test.ts
+describe("ClearingHouse maker pnl", () => {
+    const [admin, alice, bob, carol, davis] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    let fixture: ClearingHouseFixture
+    let clearingHouse: TestClearingHouse
+    let accountBalance: TestAccountBalance
+    let orderBook: OrderBook
+    let baseToken: BaseToken
+    const lowerTick = 50000 // 148.3760629
+    const upperTick = 50200 // 151.3733069
+
+    async function getMarketPnl(trader: string): Promise<MarketMakerPnl> {
+        const markets = await loadMakerPnl(fixture, trader)
+        expect(markets).to.have.length(1)
+        expect(markets[0].baseToken).to.be.eq(baseToken.address)
+        return markets[0]
+    }
+
+    async function addLiquidity(trader: typeof alice, base: string, quote: string): Promise<void> {
+        await clearingHouse.connect(trader).addLiquidity({
+            baseToken: baseToken.address,
+            base: parseEther(base),
+            quote: parseEther(quote),
+            lowerTick,
+            upperTick,
+            minBase: 0,
+            minQuote: 0,
+            useTakerBalance: false,
+            deadline: ethers.constants.MaxUint256,
+        })
+    }
+
+    async function removeLiquidity(trader: typeof alice, removeAll: boolean): Promise<void> {
+        const { liquidity } = await orderBook.getOpenOrder(trader.address, baseToken.address, lowerTick, upperTick)
+        await clearingHouse.connect(trader).removeLiquidity({
+            baseToken: baseToken.address,
+            lowerTick,
+            upperTick,
+            liquidity: removeAll ? liquidity : 0,
+            minBase: 0,
+            minQuote: 0,
+            deadline: ethers.constants.MaxUint256,
+        })
+    }
+
+    async function swap(trader: typeof alice, isBaseToQuote: boolean, amount: string): Promise<void> {
+        await clearingHouse.connect(trader).openPosition({
+            baseToken: baseToken.address,
+            isBaseToQuote,
+            isExactInput: true,
+            oppositeAmountBound: 0,
+            amount: parseEther(amount),
+            sqrtPriceLimitX96: 0,
+            deadline: ethers.constants.MaxUint256,
+            referralCode: ethers.constants.HashZero,
+        })
+    }
+
+    // the decomposition adds up to the owed realized pnl and the unrealized pnl of AccountBalance
+    async function expectPnlMatched(trader: string, pnl: MarketMakerPnl): Promise<void> {
+        const [owedRealizedPnl, unrealizedPnl, pendingFee] = await accountBalance.getPnlAndPendingFee(trader)
+        expect(pnl.realizedPnl).to.be.eq(owedRealizedPnl)
+        expect(pnl.unrealizedPnl).to.be.closeTo(unrealizedPnl, 1)
+        expect(pnl.pendingFee).to.be.eq(pendingFee)
+        expect(pnl.totalPnl).to.be.eq(
+            pnl.realizedPnl.add(pnl.unrealizedPnl).add(pnl.pendingFee).add(pnl.pendingFunding),
+        )
+    }
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseFixture())
+        clearingHouse = fixture.clearingHouse as TestClearingHouse
+        accountBalance = fixture.accountBalance as TestAccountBalance
+        orderBook = fixture.orderBook
+        baseToken = fixture.baseToken
+
+        for (const trader of [alice, bob, carol]) {
+            await mintAndDeposit(fixture, trader, 1000)
+        }
+    })
+
+    describe("one maker; a trader swaps base to quote, thus the maker receives B2QFee", () => {
+        const fee = parseEther("0.000615133417572502")
+
+        beforeEach(async () => {
+            await initMarket(fixture, "151.3733069", undefined, 0)
+            await mockIndexPrice(fixture.mockedPriceFeedDispatcher, "151")
+
+            await addLiquidity(alice, "0", "0.122414646")
+            await swap(bob, true, "0.0004084104205")
+        })
+
+        it("reports the fee as pending until it is collected by removing zero liquidity", async () => {
+            const before = await getMarketPnl(alice.address)
+            expect(before.orders).to.have.length(1)
+            const [order] = before.orders
+            expect(order.lowerTick).to.be.eq(lowerTick)
+            expect(order.upperTick).to.be.eq(upperTick)
+            expect(order.pendingFee).to.be.eq(fee)
+            expect(order.collectedFee).to.be.eq(0)
+            // the base paid by bob is in the order while the quote bob gets is taken from it
+            expect(order.impermanentPositionSize).to.be.eq(
+                await accountBalance.getTotalPositionSize(alice.address, baseToken.address),
+            )
+            expect(order.impermanentOpenNotional).to.be.eq(
+                await accountBalance.getTotalOpenNotional(alice.address, baseToken.address),
+            )
+            expect(before.unrealizedTakerPnl).to.be.eq(0)
+            await expectPnlMatched(alice.address, before)
+
+            await removeLiquidity(alice, false)
+
+            const after = await getMarketPnl(alice.address)
+            expect(after.orders[0].pendingFee).to.be.eq(0)
+            expect(after.orders[0].collectedFee).to.be.eq(fee)
+            expect(after.collectedFee).to.be.eq(fee)
+            expect(after.realizedPnl).to.be.eq(fee)
+            await expectPnlMatched(alice.address, after)
+        })
+
+        it("turns the impermanent position into a taker position when the liquidity is removed", async () => {
+            await removeLiquidity(alice, true)
+
+            const after = await getMarketPnl(alice.address)
+            const [order] = after.orders
+            expect(order.liquidity).to.be.eq(0)
+            expect(order.collectedFee).to.be.eq(fee)
+            expect(order.impermanentPnl).to.be.eq(0)
+            expect(after.impermanentPnl).to.be.eq(0)
+
+            // alice gets 0.0004084104205 base paid by bob and
+            // 0.122414646 - 0.000615133417572502 (fee) - 0.06089820833967775 (bob gets) = 0.06090130424 quote
+            const positionSize = await accountBalance.getTakerPositionSize(alice.address, baseToken.address)
+            expect(positionSize).to.be.eq(parseEther("0.0004084104205").sub(1))
+            expect(await accountBalance.getTakerOpenNotional(alice.address, baseToken.address)).to.be.eq(
+                parseEther("0.060901304242749750").sub(parseEther("0.122414646")),
+            )
+            // alice has no taker position before, so there's nothing to realize
+            expect(after.realizedTakerPnl).to.be.eq(0)
+            expect(after.realizedPnl).to.be.eq(fee)
+            await expectPnlMatched(alice.address, after)
+
+            // alice closes the taker position against the liquidity of carol
+            await addOrder(fixture, carol, 10, 1500, 48000, 52000)
+            await closePosition(fixture, alice)
+            const closed = await getMarketPnl(alice.address)
+            expect(closed.unrealizedTakerPnl).to.be.eq(0)
+            expect(closed.realizedTakerPnl).to.be.not.eq(0)
+            expect(closed.realizedPnl).to.be.eq(fee.add(closed.realizedTakerPnl).add(closed.realizedFunding))
+            await expectPnlMatched(alice.address, closed)
+        })
+    })
+
+    describe("multi makers", () => {
+        beforeEach(async () => {
+            await initMarket(fixture, "148.3760629", undefined, 0)
+            await mockIndexPrice(fixture.mockedPriceFeedDispatcher, "148")
+        })
+
+        it("alice receives 3/4 of fee, while carol receives only 1/4", async () => {
+            const base = 0.000816820841
+            await addLiquidity(alice, (base * 3).toString(), "0")
+            await addLiquidity(carol, base.toString(), "0")
+
+            await swap(bob, false, "0.1135501475")
+            await swap(bob, true, "0.0007507052579")
+
+            const alicePendingPnl = await getMarketPnl(alice.address)
+            const carolPendingPnl = await getMarketPnl(carol.address)
+            expect(alicePendingPnl.pendingFee).to.be.eq(parseEther("0.001688966920907494"))
+            expect(carolPendingPnl.pendingFee).to.be.eq(parseEther("0.000562988973635831"))
+
+            await removeLiquidity(alice, false)
+            await removeLiquidity(carol, false)
+
+            const alicePnl = await getMarketPnl(alice.address)
+            expect(alicePnl.collectedFee).to.be.eq(parseEther("0.001688966920907494"))
+            expect(alicePnl.pendingFee).to.be.eq(0)
+            await expectPnlMatched(alice.address, alicePnl)
+
+            const carolPnl = await getMarketPnl(carol.address)
+            expect(carolPnl.collectedFee).to.be.eq(parseEther("0.000562988973635831"))
+            expect(carolPnl.pendingFee).to.be.eq(0)
+            await expectPnlMatched(carol.address, carolPnl)
+
+            // alice still has -0.002450462523 base debt, so her impermanent position is bob's base
+            expect(alicePnl.orders[0].impermanentPositionSize).to.be.eq(
+                await accountBalance.getTotalPositionSize(alice.address, baseToken.address),
+            )
+        })
+    })
+
+    describe("a maker holding the taker position of the removed liquidity", () => {
+        beforeEach(async () => {
+            const { minTick, maxTick } = await initMarket(fixture, "10")
+            await mockIndexPrice(fixture.mockedPriceFeedDispatcher, "10")
+            await mintAndDeposit(fixture, carol, 100000)
+            await addOrder(fixture, carol, 1000, 10000, minTick, maxTick)
+
+            // alice's order takes a part of bob's long, which becomes alice's short taker position
+            await addOrder(fixture, alice, 10, 100, minTick, maxTick)
+            await q2bExactInput(fixture, bob, 100)
+            await removeAllOrders(fixture, alice)
+
+            // NOTE: Should be the last step in beforeEach
+            await initiateBothTimestamps(clearingHouse)
+        })
+
+        it("includes the pnl realized by quitting the closed market", async () => {
+            const before = await getMarketPnl(alice.address)
+            expect(before.unrealizedTakerPnl).to.be.not.eq(0)
+
+            await baseToken.pause()
+            await forwardBothTimestamps(clearingHouse, 100)
+            await baseToken["close(uint256)"](parseEther("9"))
+            await forwardBothTimestamps(clearingHouse)
+            const receipt = await (await clearingHouse.quitMarket(alice.address, baseToken.address)).wait()
+            const [closed] = await clearingHouse.queryFilter(
+                clearingHouse.filters.PositionClosed(alice.address, null),
+                receipt.blockNumber,
+            )
+
+            const after = await getMarketPnl(alice.address)
+            expect(after.unrealizedTakerPnl).to.be.eq(0)
+            expect(after.realizedTakerPnl.sub(before.realizedTakerPnl)).to.be.eq(closed.args.realizedPnl)
+            await expectPnlMatched(alice.address, after)
+        })
+
+        it("includes the penalty of the liquidated position", async () => {
+            await mintAndDeposit(fixture, davis, 100000)
+            await fixture.USDC.mint(fixture.insuranceFund.address, parseUnits("1000000", 6))
+            await q2bExactInput(fixture, alice, 2000)
+
+            await mockMarkPrice(accountBalance, baseToken.address, "5")
+            const receipt = await (
+                await clearingHouse
+                    .connect(davis)
+                    ["liquidate(address,address,int256)"](alice.address, baseToken.address, 0)
+            ).wait()
+            const [liquidated] = await clearingHouse.queryFilter(
+                clearingHouse.filters.PositionLiquidated(alice.address, null),
+                receipt.blockNumber,
+            )
+
+            const pnl = await getMarketPnl(alice.address)
+            expect(pnl.liquidationPenalty).to.be.eq(liquidated.args.liquidationFee.mul(-1))
+            expect(pnl.realizedPnl).to.be.eq(
+                pnl.collectedFee.add(pnl.realizedFunding).add(pnl.realizedTakerPnl).add(pnl.liquidationPenalty),
+            )
+            await expectPnlMatched(alice.address, pnl)
+        })
+    })
+})
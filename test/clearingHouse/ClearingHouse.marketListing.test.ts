@@ -0,0 +1,192 @@
+import { expect } from "chai"
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { ethers, waffle } from "hardhat"
+import { DeploymentManifest } from "../../scripts/deploy/manifest"
+import { MarketLister } from "../../scripts/market/marketLister"
+import { loadMarketSpec, MarketSpec } from "../../scripts/market/marketSpec"
+import {
+    BaseToken,
+    MarketRegistry,
+    MockPriceFeedDispatcher,
+    QuoteToken,
+    TestExchange,
+    UniswapV3Pool,
+} from "../../typechain"
+import { addOrder, q2bExactInput } from "../helper/clearingHouseHelper"
+import { mintAndDeposit } from "../helper/token"
+import { createBaseTokenFixture } from "../shared/fixtures"
+import { forwardRealTimestamp } from "../shared/time"
+import { encodePriceSqrt, mockIndexPrice } from "../shared/utilities"
+import { ClearingHouseFixture, createClearingHouseFixture } from "./fixtures"
+
+describe("ClearingHouse market listing", () => {
+    const [admin, alice, bob, carol] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    let fixture: ClearingHouseFixture
+    let marketRegistry: MarketRegistry
+    let exchange: TestExchange
+    let quoteToken: QuoteToken
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
+    let manifest: DeploymentManifest
+    let manifestFilename: string
+    let spec: MarketSpec
+
+    function createLister(log: (message: string) => void = () => {}): MarketLister {
+        return new MarketLister(admin, manifest, manifestFilename, log)
+    }
+
+    async function expectListingError(spec: MarketSpec, message: string): Promise<void> {
+        let error = ""
+        try {
+            await createLister().list(spec)
+        } catch (e: any) {
+            error = e.message
+        }
+        expect(error).to.include(message)
+    }
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseFixture())
+        marketRegistry = fixture.marketRegistry
+        exchange = fixture.exchange as TestExchange
+        quoteToken = fixture.quoteToken
+
+        // the base token of the fixture is not used, only its price feed
+        mockedPriceFeedDispatcher = (await createBaseTokenFixture("RandomTestToken0", "randomToken0")())
+            .mockedPriceFeedDispatcher
+        await mockIndexPrice(mockedPriceFeedDispatcher, "150")
+
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "deployments-"))
+        manifestFilename = path.join(dir, "hardhat.json")
+        manifest = {
+            network: "hardhat",
+            chainId: await admin.getChainId(),
+            contracts: {
+                MarketRegistry: { contractName: "MarketRegistry", address: marketRegistry.address },
+                Exchange: { contractName: "TestExchange", address: exchange.address },
+            },
+        }
+
+        spec = {
+            baseToken: { name: "vSOL", symbol: "vSOL", priceFeedDispatcher: mockedPriceFeedDispatcher.address },
+            uniswapFeeRatio: fixture.uniFeeTier,
+            initialPrice: "148",
+            exchangeFeeRatio: 1000,
+            insuranceFundFeeRatio: 100000,
+            maxTickCrossedWithinBlock: 1000,
+            marketMaxPriceSpreadRatio: 200000,
+        }
+    })
+
+    it("lists a market which can be traded", async () => {
+        const { baseToken, pool, batches } = await createLister().list(spec)
+        expect(batches).to.deep.eq([])
+
+        expect(manifest.contracts.vSOL.address).to.be.eq(baseToken)
+        expect(baseToken.toLowerCase() < quoteToken.address.toLowerCase()).to.be.true
+        expect(await marketRegistry.getPool(baseToken)).to.be.eq(pool)
+        expect(await marketRegistry.getFeeRatio(baseToken)).to.be.eq(1000)
+        expect(await marketRegistry.getInsuranceFundFeeRatio(baseToken)).to.be.eq(100000)
+        expect(await marketRegistry.getMarketMaxPriceSpreadRatio(baseToken)).to.be.eq(200000)
+        expect(await exchange.getMaxTickCrossedWithinBlock(baseToken)).to.be.eq(1000)
+
+        const uniswapV3Pool = (await ethers.getContractAt("UniswapV3Pool", pool)) as UniswapV3Pool
+        const slot0 = await uniswapV3Pool.slot0()
+        expect(slot0.sqrtPriceX96).to.be.eq(encodePriceSqrt("148", "1"))
+        expect(slot0.observationCardinalityNext).to.be.eq(500)
+
+        // the market twap needs the observations of 30 minutes, see initMarket()
+        await forwardRealTimestamp(2000)
+        await mintAndDeposit(fixture, alice, 10000)
+        await mintAndDeposit(fixture, bob, 1000)
+        await addOrder(fixture, alice, 100, 10000, 48000, 52000, false, baseToken)
+        await q2bExactInput(fixture, bob, 100, baseToken)
+        expect(await fixture.accountBalance.getTakerPositionSize(bob.address, baseToken)).to.be.gt(0)
+    })
+
+    it("sends no transaction when the market is listed", async () => {
+        const listing = await createLister().list(spec)
+        const nonce = await admin.getTransactionCount()
+
+        const logs: string[] = []
+        expect(await createLister(message => logs.push(message)).list(spec)).to.deep.eq(listing)
+        expect(await admin.getTransactionCount()).to.be.eq(nonce)
+        expect(logs).to.deep.eq([])
+    })
+
+    it("batches the calls of the contracts owned by the multisig", async () => {
+        for (const contract of [marketRegistry, exchange, quoteToken]) {
+            await contract.setOwner(carol.address)
+            await contract.connect(carol).updateOwner()
+        }
+        spec.baseToken.owner = carol.address
+
+        const logs: string[] = []
+        const { baseToken, batches } = await createLister(message => logs.push(message)).list(spec)
+        expect(await marketRegistry.hasPool(baseToken)).to.be.false
+        expect(
+            logs
+                .filter(message => message.startsWith("batched"))
+                .map(message => message.replace(/^batched ([\w.]+)\(.*$/, "$1")),
+        ).to.deep.eq([
+            "vSOL.updateOwner",
+            "QuoteToken.addWhitelist",
+            "MarketRegistry.addPool",
+            "MarketRegistry.setFeeRatio",
+            "MarketRegistry.setInsuranceFundFeeRatio",
+            "Exchange.setMaxTickCrossedWithinBlock",
+            "MarketRegistry.setMarketMaxPriceSpreadRatio",
+        ])
+        expect(batches.length).to.be.eq(1)
+        expect(batches[0].meta.createdFromSafeAddress).to.be.eq(carol.address)
+        expect(batches[0].chainId).to.be.eq(String(manifest.chainId))
+
+        for (const transaction of batches[0].transactions) {
+            await carol.sendTransaction({ to: transaction.to, data: transaction.data })
+        }
+        const base = (await ethers.getContractAt("BaseToken", baseToken)) as BaseToken
+        expect(await base.owner()).to.be.eq(carol.address)
+        expect(await marketRegistry.getFeeRatio(baseToken)).to.be.eq(1000)
+
+        // the listing is finished
+        const nonce = await admin.getTransactionCount()
+        expect((await createLister().list(spec)).batches).to.deep.eq([])
+        expect(await admin.getTransactionCount()).to.be.eq(nonce)
+    })
+
+    it("force error, the fee tier is not enabled or the initial price is too far from the index price", async () => {
+        await expectListingError({ ...spec, uniswapFeeRatio: 123 }, "fee tier 123 is not enabled by UniswapV3Factory")
+        await expectListingError({ ...spec, initialPrice: "185" }, "initial price 185 is more than 20% away")
+        await expectListingError(
+            { ...spec, marketMaxPriceSpreadRatio: undefined, initialPrice: "130" },
+            "initial price 130 is more than 10% away from index price 150",
+        )
+    })
+
+    it("loads a spec in YAML", async () => {
+        const filename = path.join(path.dirname(manifestFilename), "vSOL.yml")
+        fs.writeFileSync(
+            filename,
+            [
+                "baseToken:",
+                "    name: vSOL",
+                "    symbol: vSOL",
+                `    priceFeedDispatcher: "${mockedPriceFeedDispatcher.address}"`,
+                `uniswapFeeRatio: ${fixture.uniFeeTier}`,
+                'initialPrice: "148"',
+                "exchangeFeeRatio: 1000",
+                "insuranceFundFeeRatio: 100000",
+                "maxTickCrossedWithinBlock: 1000",
+                "marketMaxPriceSpreadRatio: 200000",
+            ].join("\n"),
+        )
+        expect(loadMarketSpec(filename)).to.deep.eq(spec)
+
+        fs.writeFileSync(filename, "baseToken:\n    name: vSOL\n    symbol: vSOL\n")
+        expect(() => loadMarketSpec(filename)).to.throw(
+            "either baseToken.priceFeedDispatcher or baseToken.chainlinkPriceFeedV3 is required",
+        )
+    })
+})
@@ -1,10 +1,10 @@
-import { MockContract } from "@eth-optimism/smock"
 import { expect } from "chai"
 import { parseUnits } from "ethers/lib/utils"
 import { waffle } from "hardhat"
 import {
     BaseToken,
     InsuranceFund,
+    MockPriceFeedDispatcher,
     OrderBook,
     QuoteToken,
     TestClearingHouse,
@@ -34,8 +34,8 @@ describe("ClearingHouse new market listing", () => {
     let quoteToken: QuoteToken
     let baseToken: BaseToken
     let baseToken3: BaseToken
-    let mockedPriceFeedDispatcher: MockContract
-    let mockedPriceFeedDispatcher3: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
+    let mockedPriceFeedDispatcher3: MockPriceFeedDispatcher
     let pool3Addr: string
 
     let lowerTick: number
@@ -1,9 +1,9 @@
-import { MockContract } from "@eth-optimism/smock"
 import { parseEther } from "@ethersproject/units"
 import { parseUnits } from "ethers/lib/utils"
 import { ethers, waffle } from "hardhat"
 import {
     BaseToken,
+    MockPriceFeedDispatcher,
     OrderBook,
     TestAccountBalance,
     TestClearingHouse,
@@ -28,7 +28,7 @@ describe.skip("ClearingHouse.openPosition gasEstimation", () => {
     let vault: Vault
     let collateral: TestERC20
     let baseToken: BaseToken
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let pool: UniswapV3Pool
     let lowerTick: number
     let upperTick: number
@@ -1,9 +1,16 @@
-import { MockContract } from "@eth-optimism/smock"
 import { parseEther } from "@ethersproject/units"
 import { expect } from "chai"
 import { parseUnits } from "ethers/lib/utils"
 import { waffle } from "hardhat"
-import { AccountBalance, BaseToken, Exchange, TestClearingHouse, TestERC20, Vault } from "../../typechain"
+import {
+    AccountBalance,
+    BaseToken,
+    Exchange,
+    MockPriceFeedDispatcher,
+    TestClearingHouse,
+    TestERC20,
+    Vault,
+} from "../../typechain"
 import { addOrder, b2qExactInput, q2bExactOutput } from "../helper/clearingHouseHelper"
 import { initMarket } from "../helper/marketHelper"
 import { deposit } from "../helper/token"
@@ -19,7 +26,7 @@ describe("ClearingHouse isIncreasePosition when trader is both of maker and take
     let vault: Vault
     let collateral: TestERC20
     let baseToken: BaseToken
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let lowerTick: number
     let upperTick: number
     let collateralDecimals: number
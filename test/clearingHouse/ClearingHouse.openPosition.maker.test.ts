@@ -1,9 +1,16 @@
-import { MockContract } from "@eth-optimism/smock"
 import { parseEther } from "@ethersproject/units"
 import { expect } from "chai"
 import { parseUnits } from "ethers/lib/utils"
 import { ethers, waffle } from "hardhat"
-import { AccountBalance, BaseToken, OrderBook, TestClearingHouse, TestERC20, Vault } from "../../typechain"
+import {
+    AccountBalance,
+    BaseToken,
+    MockPriceFeedDispatcher,
+    OrderBook,
+    TestClearingHouse,
+    TestERC20,
+    Vault,
+} from "../../typechain"
 import { initMarket } from "../helper/marketHelper"
 import { deposit } from "../helper/token"
 import { mockIndexPrice } from "../shared/utilities"
@@ -19,9 +26,9 @@ describe("ClearingHouse maker close position", () => {
     let vault: Vault
     let collateral: TestERC20
     let baseToken: BaseToken
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let baseToken2: BaseToken
-    let mockedPriceFeedDispatcher2: MockContract
+    let mockedPriceFeedDispatcher2: MockPriceFeedDispatcher
     let lowerTick: number
     let upperTick: number
     let collateralDecimals: number
@@ -1,4 +1,3 @@
-import { MockContract } from "@eth-optimism/smock"
 import { expect } from "chai"
 import { parseEther, parseUnits } from "ethers/lib/utils"
 import { ethers, waffle } from "hardhat"
@@ -7,6 +6,7 @@ import {
     ClearingHouseConfig,
     Exchange,
     MarketRegistry,
+    MockPriceFeedDispatcher,
     OrderBook,
     QuoteToken,
     TestAccountBalance,
@@ -35,7 +35,7 @@ describe("ClearingHouse openPosition oneWeiFee", () => {
     let baseToken: BaseToken
     let quoteToken: QuoteToken
     let pool: UniswapV3Pool
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let collateralDecimals: number
 
     beforeEach(async () => {
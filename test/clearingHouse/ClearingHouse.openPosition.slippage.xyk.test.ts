@@ -1,8 +1,15 @@
-import { MockContract } from "@eth-optimism/smock"
 import { expect } from "chai"
+import { BigNumberish } from "ethers"
 import { parseEther, parseUnits } from "ethers/lib/utils"
 import { ethers, waffle } from "hardhat"
-import { BaseToken, TestClearingHouse, TestERC20, Vault } from "../../typechain"
+import { loadSwapContext } from "../../scripts/simulator/exchange"
+import {
+    getClosePositionBounds,
+    getTradeBounds,
+    TradeBounds,
+    TradeBoundsParams,
+} from "../../scripts/simulator/slippage"
+import { BaseToken, MockPriceFeedDispatcher, TestClearingHouse, TestERC20, Vault } from "../../typechain"
 import { initMarket } from "../helper/marketHelper"
 import { deposit } from "../helper/token"
 import { mockIndexPrice } from "../shared/utilities"
@@ -17,7 +24,7 @@ describe("ClearingHouse slippage in xyk pool", () => {
     let vault: Vault
     let collateral: TestERC20
     let baseToken: BaseToken
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let collateralDecimals: number
     let lowerTick: number
     let upperTick: number
@@ -179,4 +186,134 @@ describe("ClearingHouse slippage in xyk pool", () => {
             ).to.be.revertedWith("CH_TLRS")
         })
     })
+
+    describe("slippage bounds", () => {
+        const toleranceBps = 50
+        const types: Omit<TradeBoundsParams, "toleranceBps">[] = [
+            { isBaseToQuote: true, isExactInput: true, amount: parseEther("2.5") },
+            { isBaseToQuote: true, isExactInput: false, amount: parseEther("25") },
+            { isBaseToQuote: false, isExactInput: true, amount: parseEther("25") },
+            { isBaseToQuote: false, isExactInput: false, amount: parseEther("2") },
+        ]
+
+        async function getBounds(params: Omit<TradeBoundsParams, "toleranceBps">): Promise<TradeBounds> {
+            const context = await loadSwapContext(fixture.marketRegistry, taker.address, baseToken.address)
+            return getTradeBounds(context, { ...params, toleranceBps })
+        }
+
+        function getOpenPositionParams(
+            params: Omit<TradeBoundsParams, "toleranceBps">,
+            bounds: TradeBounds,
+            sqrtPriceLimitX96: BigNumberish = bounds.sqrtPriceLimitX96,
+        ) {
+            return {
+                baseToken: baseToken.address,
+                isBaseToQuote: params.isBaseToQuote,
+                isExactInput: params.isExactInput,
+                amount: params.amount,
+                oppositeAmountBound: bounds.oppositeAmountBound,
+                sqrtPriceLimitX96,
+                deadline: ethers.constants.MaxUint256,
+                referralCode: ethers.constants.HashZero,
+            }
+        }
+
+        it("opens positions of all the 4 types within the bounds", async () => {
+            for (const params of types) {
+                const bounds = await getBounds(params)
+                if (params.isBaseToQuote) {
+                    expect(bounds.sqrtPriceLimitX96).to.be.lt(bounds.expectedSqrtPriceAfterX96)
+                } else {
+                    expect(bounds.sqrtPriceLimitX96).to.be.gt(bounds.expectedSqrtPriceAfterX96)
+                }
+                if (params.isExactInput) {
+                    expect(bounds.oppositeAmountBound).to.be.lt(bounds.expectedOppositeAmount)
+                } else {
+                    expect(bounds.oppositeAmountBound).to.be.gt(bounds.expectedOppositeAmount)
+                }
+
+                const { base, quote } = await clearingHouse
+                    .connect(taker)
+                    .callStatic.openPosition(getOpenPositionParams(params, bounds))
+                expect(params.isBaseToQuote === params.isExactInput ? quote : base).to.be.eq(
+                    bounds.expectedOppositeAmount,
+                )
+
+                await clearingHouse.connect(taker).openPosition(getOpenPositionParams(params, bounds))
+                expect((await fixture.pool.slot0()).sqrtPriceX96).to.be.eq(bounds.expectedSqrtPriceAfterX96)
+            }
+        })
+
+        it("force error, the price moves beyond the tolerance before the trade", async () => {
+            const [b2qExactInput, b2qExactOutput, q2bExactInput, q2bExactOutput] = types
+
+            // maker shorts 5 ETH before the shorts of taker
+            const b2qExactInputBounds = await getBounds(b2qExactInput)
+            const b2qExactOutputBounds = await getBounds(b2qExactOutput)
+            await clearingHouse.connect(maker).openPosition({
+                baseToken: baseToken.address,
+                isBaseToQuote: true,
+                isExactInput: true,
+                amount: parseEther("5"),
+                oppositeAmountBound: 0,
+                sqrtPriceLimitX96: 0,
+                deadline: ethers.constants.MaxUint256,
+                referralCode: ethers.constants.HashZero,
+            })
+            await expect(
+                clearingHouse.connect(taker).openPosition(getOpenPositionParams(b2qExactInput, b2qExactInputBounds, 0)),
+            ).to.be.revertedWith("CH_TLRS")
+            await expect(
+                clearingHouse
+                    .connect(taker)
+                    .openPosition(getOpenPositionParams(b2qExactOutput, b2qExactOutputBounds, 0)),
+            ).to.be.revertedWith("CH_TMRS")
+
+            // maker longs 10 ETH before the longs of taker
+            const q2bExactInputBounds = await getBounds(q2bExactInput)
+            const q2bExactOutputBounds = await getBounds(q2bExactOutput)
+            await clearingHouse.connect(maker).openPosition({
+                baseToken: baseToken.address,
+                isBaseToQuote: false,
+                isExactInput: false,
+                amount: parseEther("10"),
+                oppositeAmountBound: 0,
+                sqrtPriceLimitX96: 0,
+                deadline: ethers.constants.MaxUint256,
+                referralCode: ethers.constants.HashZero,
+            })
+            await expect(
+                clearingHouse.connect(taker).openPosition(getOpenPositionParams(q2bExactInput, q2bExactInputBounds, 0)),
+            ).to.be.revertedWith("CH_TLRL")
+            await expect(
+                clearingHouse
+                    .connect(taker)
+                    .openPosition(getOpenPositionParams(q2bExactOutput, q2bExactOutputBounds, 0)),
+            ).to.be.revertedWith("CH_TMRL")
+        })
+
+        it("closes positions within the bounds", async () => {
+            for (const params of [types[0], types[2]]) {
+                await clearingHouse.connect(taker).openPosition(getOpenPositionParams(params, await getBounds(params)))
+
+                const positionSize = await fixture.accountBalance.getTakerPositionSize(taker.address, baseToken.address)
+                const context = await loadSwapContext(fixture.marketRegistry, taker.address, baseToken.address)
+                const bounds = getClosePositionBounds(context, positionSize, toleranceBps)
+                const closePositionParams = {
+                    baseToken: baseToken.address,
+                    sqrtPriceLimitX96: bounds.sqrtPriceLimitX96,
+                    oppositeAmountBound: bounds.oppositeAmountBound,
+                    deadline: ethers.constants.MaxUint256,
+                    referralCode: ethers.constants.HashZero,
+                }
+
+                // a long is sold for quote and a short is bought back with quote
+                const { quote } = await clearingHouse.connect(taker).callStatic.closePosition(closePositionParams)
+                expect(quote).to.be.eq(bounds.expectedOppositeAmount)
+
+                await clearingHouse.connect(taker).closePosition(closePositionParams)
+                expect(await fixture.accountBalance.getTakerPositionSize(taker.address, baseToken.address)).to.be.eq(0)
+            }
+        })
+    })
 })
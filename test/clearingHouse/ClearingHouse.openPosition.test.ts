@@ -1,4 +1,3 @@
-import { MockContract } from "@eth-optimism/smock"
 import { expect } from "chai"
 import { BigNumber } from "ethers"
 import { parseEther, parseUnits } from "ethers/lib/utils"
@@ -8,6 +7,7 @@ import {
     ClearingHouseConfig,
     Exchange,
     MarketRegistry,
+    MockPriceFeedDispatcher,
     OrderBook,
     QuoteToken,
     TestAccountBalance,
@@ -39,8 +39,8 @@ describe("ClearingHouse openPosition", () => {
     let baseToken2: BaseToken
     let quoteToken: QuoteToken
     let pool: UniswapV3Pool
-    let mockedPriceFeedDispatcher: MockContract
-    let mockedPriceFeedDispatcher2: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
+    let mockedPriceFeedDispatcher2: MockPriceFeedDispatcher
     let collateralDecimals: number
     const lowerTick: number = 0
     const upperTick: number = 100000
@@ -1,10 +1,10 @@
-import { MockContract } from "@eth-optimism/smock"
 import { expect } from "chai"
 import { parseEther } from "ethers/lib/utils"
 import { ethers, waffle } from "hardhat"
 import {
     BaseToken,
     DelegateApproval,
+    MockPriceFeedDispatcher,
     TestAccountBalance,
     TestClearingHouse,
     TestLimitOrderBook,
@@ -25,7 +25,7 @@ describe("ClearingHouse openPositionFor", () => {
     let accountBalance: TestAccountBalance
     let baseToken: BaseToken
     let pool: UniswapV3Pool
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let delegateApproval: DelegateApproval
     let limitOrderBook: TestLimitOrderBook
 
@@ -1,4 +1,3 @@
-import { MockContract } from "@eth-optimism/smock"
 import { expect } from "chai"
 import { parseEther, parseUnits } from "ethers/lib/utils"
 import { ethers, waffle } from "hardhat"
@@ -8,6 +7,7 @@ import {
     ClearingHouseConfig,
     Exchange,
     MarketRegistry,
+    MockPriceFeedDispatcher,
     TestClearingHouse,
     TestERC20,
     Vault,
@@ -30,7 +30,7 @@ describe("ClearingHouse partial close in xyk pool", () => {
     let vault: Vault
     let collateral: TestERC20
     let baseToken: BaseToken
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let collateralDecimals: number
     let lowerTick: number
     let upperTick: number
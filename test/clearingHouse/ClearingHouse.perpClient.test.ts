@@ -0,0 +1,172 @@
+import { expect } from "chai"
+import { parseEther, parseUnits } from "ethers/lib/utils"
+import { ethers, waffle } from "hardhat"
+import { PerpClient } from "../../scripts/sdk/perpClient"
+import { BaseToken, OrderBook, TestAccountBalance, TestERC20, TestWETH9, Vault } from "../../typechain"
+import { initMarket } from "../helper/marketHelper"
+import { mockIndexPrice } from "../shared/utilities"
+import { ClearingHouseFixture, createClearingHouseFixture } from "./fixtures"
+
+describe("ClearingHouse PerpClient", () => {
+    const [admin, alice, bob, carol] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    let fixture: ClearingHouseFixture
+    let vault: Vault
+    let orderBook: OrderBook
+    let accountBalance: TestAccountBalance
+    let usdc: TestERC20
+    let baseToken: BaseToken
+    let aliceClient: PerpClient
+    let bobClient: PerpClient
+    let carolClient: PerpClient
+    const lowerTick = 48000
+    const upperTick = 52000
+
+    function createClient(wallet: typeof alice): PerpClient {
+        return new PerpClient(
+            {
+                clearingHouse: fixture.clearingHouse,
+                vault: fixture.vault,
+                accountBalance: fixture.accountBalance,
+                orderBook: fixture.orderBook,
+            },
+            wallet,
+        )
+    }
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseFixture())
+        vault = fixture.vault
+        orderBook = fixture.orderBook
+        accountBalance = fixture.accountBalance as TestAccountBalance
+        usdc = fixture.USDC
+        baseToken = fixture.baseToken
+
+        await initMarket(fixture, "151.373306858723226652", undefined, 0)
+        await mockIndexPrice(fixture.mockedPriceFeedDispatcher, "151")
+
+        aliceClient = createClient(alice)
+        bobClient = createClient(bob)
+        carolClient = createClient(carol)
+        const decimals = await usdc.decimals()
+        for (const wallet of [alice, bob, carol]) {
+            await usdc.mint(wallet.address, parseUnits("100000", decimals))
+        }
+        await aliceClient.deposit(usdc.address, "100000")
+        await bobClient.deposit(usdc.address, "1000")
+        await carolClient.deposit(usdc.address, "10000")
+    })
+
+    describe("with liquidity", () => {
+        beforeEach(async () => {
+            await aliceClient.addLiquidity(baseToken.address, { base: "100", quote: "15000", lowerTick, upperTick })
+        })
+
+        it("opens long and short positions by notional or size and closes them", async () => {
+            const long = await bobClient.openLong(baseToken.address, { size: "1" })
+            expect(long.trader).to.be.eq(bob.address)
+            expect(long.baseToken).to.be.eq(baseToken.address)
+            expect(long.exchangedPositionSize).to.be.eq(parseEther("1"))
+            expect(long.exchangedPositionNotional).to.be.lt(0)
+
+            const short = await bobClient.openShort(baseToken.address, { size: "0.4" })
+            expect(short.exchangedPositionSize).to.be.eq(parseEther("-0.4"))
+
+            const longByNotional = await bobClient.openLong(baseToken.address, { notional: "10" })
+            expect(longByNotional.exchangedPositionSize).to.be.gt(0)
+            const shortByNotional = await bobClient.openShort(baseToken.address, { notional: "10" })
+            expect(shortByNotional.exchangedPositionSize).to.be.lt(0)
+
+            const positionSize = await accountBalance.getTakerPositionSize(bob.address, baseToken.address)
+            expect(positionSize).to.be.eq(
+                long.exchangedPositionSize
+                    .add(short.exchangedPositionSize)
+                    .add(longByNotional.exchangedPositionSize)
+                    .add(shortByNotional.exchangedPositionSize),
+            )
+
+            const close = await bobClient.closePosition(baseToken.address)
+            expect(close.exchangedPositionSize).to.be.eq(positionSize.mul(-1))
+            expect(close.openNotional).to.be.eq(0)
+            expect(await accountBalance.getTakerPositionSize(bob.address, baseToken.address)).to.be.eq(0)
+        })
+
+        it("bounds the opposite amount by the simulated one with the slippage", async () => {
+            // long by notional, the base received is bounded
+            const params = await bobClient.getOpenPositionParams(baseToken.address, false, { notional: "100" })
+            expect(params.isExactInput).to.be.true
+            const { base } = await fixture.clearingHouse
+                .connect(bob)
+                .callStatic.openPosition({ ...params, oppositeAmountBound: 0 })
+            expect(params.oppositeAmountBound).to.be.eq(base.mul(9950).div(1e4))
+
+            // short by notional, the base paid is bounded
+            const shortParams = await bobClient.getOpenPositionParams(baseToken.address, true, { notional: "100" })
+            expect(shortParams.isExactInput).to.be.false
+            const short = await fixture.clearingHouse
+                .connect(bob)
+                .callStatic.openPosition({ ...shortParams, oppositeAmountBound: 0 })
+            // rounding up
+            expect(shortParams.oppositeAmountBound).to.be.eq(short.base.mul(10050).add(9999).div(1e4))
+
+            // the price is pushed up before the long
+            await carolClient.openLong(baseToken.address, { notional: "1000" })
+            await expect(bobClient.openPosition(params)).to.be.revertedWith("CH_TLRL")
+        })
+
+        it("removes all liquidity of the maker", async () => {
+            const order = await orderBook.getOpenOrder(alice.address, baseToken.address, lowerTick, upperTick)
+            const changes = await aliceClient.removeAllLiquidity(baseToken.address)
+
+            expect(changes.length).to.be.eq(1)
+            expect(changes[0].maker).to.be.eq(alice.address)
+            expect(changes[0].lowerTick).to.be.eq(lowerTick)
+            expect(changes[0].upperTick).to.be.eq(upperTick)
+            expect(changes[0].liquidity).to.be.eq(order.liquidity.mul(-1))
+            expect(await orderBook.hasOrder(alice.address, [baseToken.address])).to.be.false
+        })
+    })
+
+    it("adds range liquidity", async () => {
+        const change = await aliceClient.addLiquidity(baseToken.address, {
+            base: "10",
+            quote: "1500",
+            lowerTick,
+            upperTick,
+        })
+
+        const order = await orderBook.getOpenOrder(alice.address, baseToken.address, lowerTick, upperTick)
+        expect(change.liquidity).to.be.eq(order.liquidity)
+        expect(change.base).to.be.eq(order.baseDebt)
+        expect(change.quote).to.be.eq(order.quoteDebt)
+    })
+
+    it("deposits and withdraws the settlement token and ETH", async () => {
+        await aliceClient.withdraw(usdc.address, "100")
+        expect(await vault.getBalance(alice.address)).to.be.eq(parseUnits("99900", await usdc.decimals()))
+
+        const weth9Factory = await ethers.getContractFactory("TestWETH9")
+        const weth9 = (await weth9Factory.deploy()) as TestWETH9
+        await fixture.collateralManager.addCollateral(weth9.address, {
+            priceFeed: fixture.mockedWethPriceFeedDispatcher.address,
+            collateralRatio: (0.7e6).toString(),
+            discountRatio: (0.1e6).toString(),
+            depositCap: parseEther("1000"),
+        })
+        await vault.setWETH9(weth9.address)
+
+        await aliceClient.depositEther("1")
+        await aliceClient.withdrawEther("0.4")
+        expect(await vault.getBalanceByToken(alice.address, weth9.address)).to.be.eq(parseEther("0.6"))
+    })
+
+    it("force error, no position to close", async () => {
+        let error = ""
+        try {
+            await bobClient.closePosition(baseToken.address)
+        } catch (e: any) {
+            error = e.message
+        }
+        expect(error).to.be.eq(`PerpClient: ${bob.address} has no position in ${baseToken.address}`)
+    })
+})
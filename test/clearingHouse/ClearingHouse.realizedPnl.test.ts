@@ -1,4 +1,3 @@
-import { MockContract } from "@eth-optimism/smock"
 import { expect } from "chai"
 import { BigNumber } from "ethers"
 import { parseEther, parseUnits } from "ethers/lib/utils"
@@ -7,6 +6,7 @@ import {
     AccountBalance,
     BaseToken,
     MarketRegistry,
+    MockPriceFeedDispatcher,
     OrderBook,
     TestClearingHouse,
     TestERC20,
@@ -36,7 +36,7 @@ describe("ClearingHouse realizedPnl", () => {
     let vault: Vault
     let collateral: TestERC20
     let baseToken: BaseToken
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let collateralDecimals: number
     let takerUsdcBalanceBefore: BigNumber
     const lowerTick: number = 46200
@@ -1,9 +1,9 @@
-import { MockContract } from "@eth-optimism/smock"
 import { expect } from "chai"
 import { BigNumberish } from "ethers"
 import { parseEther, parseUnits } from "ethers/lib/utils"
 import { ethers, waffle } from "hardhat"
-import { BaseToken, OrderBook, TestClearingHouse, TestERC20, Vault } from "../../typechain"
+import { getRemoveLiquidityBounds } from "../../scripts/simulator/slippage"
+import { BaseToken, MockPriceFeedDispatcher, OrderBook, TestClearingHouse, TestERC20, Vault } from "../../typechain"
 import { initMarket } from "../helper/marketHelper"
 import { deposit } from "../helper/token"
 import { mockIndexPrice } from "../shared/utilities"
@@ -18,7 +18,26 @@ describe("ClearingHouse removeLiquidity slippage", () => {
     let vault: Vault
     let collateral: TestERC20
     let baseToken: BaseToken
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
+
+    async function removeLiquidityWithinBounds(liquidity: BigNumberish, lowerTick: number, upperTick: number) {
+        const slot0 = await fixture.pool.slot0()
+        const bounds = getRemoveLiquidityBounds(slot0, lowerTick, upperTick, liquidity, 50)
+        const params = {
+            baseToken: baseToken.address,
+            lowerTick,
+            upperTick,
+            liquidity,
+            minBase: bounds.minBase,
+            minQuote: bounds.minQuote,
+            deadline: ethers.constants.MaxUint256,
+        }
+
+        const response = await clearingHouse.connect(alice).callStatic.removeLiquidity(params)
+        expect(response.base).to.be.eq(bounds.expectedBase)
+        expect(response.quote).to.be.eq(bounds.expectedQuote)
+        await clearingHouse.connect(alice).removeLiquidity(params)
+    }
 
     beforeEach(async () => {
         fixture = await loadFixture(createClearingHouseFixture())
@@ -90,6 +109,10 @@ describe("ClearingHouse removeLiquidity slippage", () => {
                 }),
             ).to.revertedWith("CH_TE")
         })
+
+        it("removes liquidity above price with only base within the bounds", async () => {
+            await removeLiquidityWithinBounds(liquidity, 50200, 50400)
+        })
     })
 
     // simulation results:
@@ -129,5 +152,9 @@ describe("ClearingHouse removeLiquidity slippage", () => {
                 }),
             ).to.revertedWith("CH_PSCF")
         })
+
+        it("removes liquidity below price with only quote token within the bounds", async () => {
+            await removeLiquidityWithinBounds(liquidity, 50000, 50200)
+        })
     })
 })
@@ -1,11 +1,19 @@
-import { MockContract } from "@eth-optimism/smock"
 import { LogDescription } from "@ethersproject/abi"
 import { TransactionReceipt } from "@ethersproject/abstract-provider"
 import { BigNumber } from "@ethersproject/bignumber"
 import { expect } from "chai"
 import { parseEther, parseUnits } from "ethers/lib/utils"
 import { ethers, waffle } from "hardhat"
-import { AccountBalance, BaseToken, OrderBook, QuoteToken, TestClearingHouse, TestERC20, Vault } from "../../typechain"
+import {
+    AccountBalance,
+    BaseToken,
+    MockPriceFeedDispatcher,
+    OrderBook,
+    QuoteToken,
+    TestClearingHouse,
+    TestERC20,
+    Vault,
+} from "../../typechain"
 import { addOrder, b2qExactInput, closePosition, q2bExactInput, removeAllOrders } from "../helper/clearingHouseHelper"
 import { initMarket } from "../helper/marketHelper"
 import { deposit } from "../helper/token"
@@ -22,7 +30,7 @@ describe("ClearingHouse removeLiquidity with fee", () => {
     let vault: Vault
     let baseToken: BaseToken
     let quoteToken: QuoteToken
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let fixture: ClearingHouseFixture
 
     function findLiquidityChangedEvents(receipt: TransactionReceipt): LogDescription[] {
@@ -1,4 +1,3 @@
-import { MockContract } from "@eth-optimism/smock"
 import { keccak256 } from "@ethersproject/solidity"
 import { expect } from "chai"
 import { BigNumber } from "ethers"
@@ -7,6 +6,7 @@ import { ethers, waffle } from "hardhat"
 import {
     BaseToken,
     Exchange,
+    MockPriceFeedDispatcher,
     OrderBook,
     QuoteToken,
     TestClearingHouse,
@@ -30,7 +30,7 @@ describe("ClearingHouse removeLiquidity without fee", () => {
     let baseToken: BaseToken
     let quoteToken: QuoteToken
     let pool: UniswapV3Pool
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let collateralDecimals: number
 
     beforeEach(async () => {
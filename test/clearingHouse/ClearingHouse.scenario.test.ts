@@ -0,0 +1,88 @@
+import { expect } from "chai"
+import { waffle } from "hardhat"
+import {
+    findScenarioFiles,
+    getGoldenTraceFilename,
+    loadScenario,
+    Scenario,
+    validateScenario,
+} from "../scenario/scenario"
+import { matchGoldenTrace, ScenarioRunner } from "../scenario/scenarioRunner"
+import { createClearingHouseFixture } from "./fixtures"
+
+describe("ClearingHouse scenarios", () => {
+    const [admin, ...wallets] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+
+    for (const filename of findScenarioFiles()) {
+        const scenario = loadScenario(filename)
+
+        it(scenario.name, async () => {
+            const { canMockTime, uniFeeTier } = scenario.fixture || {}
+            const fixture = await loadFixture(createClearingHouseFixture(canMockTime, uniFeeTier))
+            const trace = await new ScenarioRunner(scenario, fixture, wallets).run()
+            matchGoldenTrace(trace, getGoldenTraceFilename(filename))
+        })
+    }
+
+    describe("validation", () => {
+        function createScenario(override: Partial<Scenario> = {}): Scenario {
+            return {
+                name: "test",
+                traders: ["alice"],
+                steps: [{ action: "mintAndDeposit", trader: "alice", amount: 100 }],
+                ...override,
+            }
+        }
+
+        it("accepts a valid scenario", async () => {
+            expect(() => validateScenario(createScenario())).to.not.throw()
+        })
+
+        it("force error, unsupported action", async () => {
+            expect(() => validateScenario(createScenario({ steps: [{ action: "liquidate" }] }))).to.throw(
+                "Scenario: test step 0 liquidate is not a supported action",
+            )
+        })
+
+        it("force error, missing param", async () => {
+            expect(() =>
+                validateScenario(createScenario({ steps: [{ action: "addOrder", trader: "alice" }] })),
+            ).to.throw("Scenario: test step 0 addOrder requires base")
+        })
+
+        it("force error, unknown trader", async () => {
+            expect(() =>
+                validateScenario(createScenario({ steps: [{ action: "closePosition", trader: "bob" }] })),
+            ).to.throw("Scenario: test step 0 closePosition has an unknown trader bob")
+        })
+
+        it("force error, duplicated traders", async () => {
+            expect(() => validateScenario(createScenario({ traders: ["alice", "alice"] }))).to.throw(
+                "Scenario: test has empty or duplicated traders",
+            )
+        })
+
+        it("force error, missing golden trace", async () => {
+            const updateGoldenTrace = process.env.UPDATE_GOLDEN_TRACE
+            delete process.env.UPDATE_GOLDEN_TRACE
+            try {
+                expect(() => matchGoldenTrace({ name: "test", steps: [] }, "scenarios/missing.trace.json")).to.throw(
+                    "Scenario: scenarios/missing.trace.json of test does not exist",
+                )
+            } finally {
+                if (updateGoldenTrace !== undefined) {
+                    process.env.UPDATE_GOLDEN_TRACE = updateGoldenTrace
+                }
+            }
+        })
+
+        it("force error, expecting a revert of a step without tx", async () => {
+            expect(() =>
+                validateScenario(
+                    createScenario({ steps: [{ action: "mockIndexPrice", price: "100", revertedWith: "CH_NEFCI" }] }),
+                ),
+            ).to.throw("Scenario: test step 0 mockIndexPrice sends no tx to revert or emit events")
+        })
+    })
+})
@@ -1,4 +1,3 @@
-import { MockContract } from "@eth-optimism/smock"
 import { expect } from "chai"
 import { parseEther, parseUnits } from "ethers/lib/utils"
 import { ethers, waffle } from "hardhat"
@@ -9,6 +8,7 @@ import {
     CollateralManager,
     InsuranceFund,
     MarketRegistry,
+    MockPriceFeedDispatcher,
     OrderBook,
     TestAccountBalance,
     TestChainlinkPriceFeed,
@@ -41,7 +41,7 @@ describe("Sequencer Down", () => {
     let pool: UniswapV3Pool
     let baseToken: BaseToken
     let marketRegistry: MarketRegistry
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let usdcDecimals: number
     let fixture: ClearingHouseFixture
 
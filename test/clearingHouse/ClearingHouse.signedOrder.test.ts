@@ -0,0 +1,453 @@
+import { expect } from "chai"
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { parseEther } from "ethers/lib/utils"
+import { ethers, waffle } from "hardhat"
+import { SignedOrderKeeper } from "../../scripts/keeper/signedOrderKeeper"
+import { OrderService } from "../../scripts/order/orderService"
+import {
+    getOrderDomain,
+    getOrderHash,
+    Order,
+    OrderDomain,
+    OrderType,
+    signCancelOrder,
+    signOrder,
+    TriggerPriceType,
+} from "../../scripts/order/signedOrder"
+import {
+    BaseToken,
+    DelegateApproval,
+    MockPriceFeedDispatcher,
+    SignedOrderBook,
+    TestAccountBalance,
+    TestClearingHouse,
+    UniswapV3Pool,
+} from "../../typechain"
+import { initMarket } from "../helper/marketHelper"
+import { priceToTick } from "../helper/number"
+import { mintAndDeposit } from "../helper/token"
+import { mockIndexPrice, syncIndexToMarketPrice } from "../shared/utilities"
+import { ClearingHouseWithDelegateApprovalFixture, createClearingHouseWithDelegateApprovalFixture } from "./fixtures"
+
+describe("ClearingHouse signed orders", () => {
+    const [admin, maker, trader, keeper, alice] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+
+    let fixture: ClearingHouseWithDelegateApprovalFixture
+    let clearingHouse: TestClearingHouse
+    let accountBalance: TestAccountBalance
+    let baseToken: BaseToken
+    let pool: UniswapV3Pool
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
+    let delegateApproval: DelegateApproval
+    let signedOrderBook: SignedOrderBook
+    let domain: OrderDomain
+    let orderService: OrderService
+    let now: number
+    let salt = 0
+
+    function createOrder(overrides: Partial<Order> = {}): Order {
+        return {
+            orderType: OrderType.LIMIT,
+            salt: salt++,
+            trader: trader.address,
+            baseToken: baseToken.address,
+            isBaseToQuote: false,
+            isExactInput: true,
+            amount: parseEther("300"),
+            limitPrice: parseEther("3000"),
+            triggerPrice: 0,
+            triggerPriceType: TriggerPriceType.MARK_PRICE,
+            expiry: now + 3600,
+            referralCode: ethers.constants.HashZero,
+            ...overrides,
+        }
+    }
+
+    async function submitOrder(overrides: Partial<Order> = {}): Promise<string> {
+        return orderService.submit(await signOrder(trader, domain, createOrder(overrides)), now)
+    }
+
+    function createKeeper(maxFillAmount?: string, log: (message: string) => void = () => {}) {
+        return new SignedOrderKeeper(
+            { accountBalance, delegateApproval, signedOrderBook: signedOrderBook.connect(keeper) },
+            orderService,
+            maxFillAmount && parseEther(maxFillAmount),
+            log,
+        )
+    }
+
+    async function expectError(fn: () => Promise<unknown> | unknown, message: string): Promise<void> {
+        let error = ""
+        try {
+            await fn()
+        } catch (e: any) {
+            error = e.message
+        }
+        expect(error).to.include(message)
+    }
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseWithDelegateApprovalFixture())
+        clearingHouse = fixture.clearingHouse as TestClearingHouse
+        accountBalance = fixture.accountBalance as TestAccountBalance
+        baseToken = fixture.baseToken
+        mockedPriceFeedDispatcher = fixture.mockedPriceFeedDispatcher
+        pool = fixture.pool
+        delegateApproval = fixture.delegateApproval
+        const signedOrderBookFactory = await ethers.getContractFactory("SignedOrderBook")
+        signedOrderBook = (await signedOrderBookFactory.deploy()) as SignedOrderBook
+        await signedOrderBook.initialize(clearingHouse.address)
+
+        await initMarket(fixture, "2960", undefined, 0)
+        await syncIndexToMarketPrice(mockedPriceFeedDispatcher, pool)
+
+        await mintAndDeposit(fixture, maker, 1_000_000_000_000)
+        await clearingHouse.connect(maker).addLiquidity({
+            baseToken: baseToken.address,
+            base: parseEther("3000"),
+            quote: parseEther("10000000"),
+            lowerTick: priceToTick(2900, await pool.tickSpacing()),
+            upperTick: priceToTick(3100, await pool.tickSpacing()),
+            minBase: 0,
+            minQuote: 0,
+            useTakerBalance: false,
+            deadline: ethers.constants.MaxUint256,
+        })
+        await mintAndDeposit(fixture, trader, 1000)
+
+        // the deadline of openPositionFor() is checked with the mocked timestamp of ClearingHouse
+        now = (await clearingHouse.getBlockTimestamp()).toNumber()
+        domain = getOrderDomain(await admin.getChainId(), signedOrderBook.address)
+        orderService = new OrderService(domain)
+        await delegateApproval.connect(trader).approve(signedOrderBook.address, fixture.clearingHouseOpenPositionAction)
+    })
+
+    afterEach(async () => {
+        orderService.close()
+    })
+
+    it("fills a limit order partially through SignedOrderBook until it is filled", async () => {
+        const orderHash = await submitOrder()
+        const orderKeeper = createKeeper("100")
+
+        for (let i = 1; i <= 3; i++) {
+            const executions = await orderKeeper.runOnce(now)
+            expect(executions.length).to.be.eq(1)
+            expect(executions[0].orderHash).to.be.eq(orderHash)
+            expect(executions[0].fillAmount).to.be.eq(parseEther("100"))
+            expect(orderService.getOrder(orderHash).filledAmount).to.be.eq(parseEther("100").mul(i))
+        }
+
+        const state = orderService.getOrder(orderHash)
+        expect(state.status).to.be.eq("filled")
+        expect(state.fills.length).to.be.eq(3)
+        expect(await orderKeeper.runOnce(now)).to.deep.eq([])
+        expect(await accountBalance.getTakerOpenNotional(trader.address, baseToken.address)).to.be.eq(
+            parseEther("-300"),
+        )
+        expect(await signedOrderBook.getFilledAmount(orderHash)).to.be.eq(parseEther("300"))
+    })
+
+    it("does not fill a limit order before the price reaches the limit price", async () => {
+        // sell at 3100 while the price is around 2960
+        const orderHash = await submitOrder({
+            isBaseToQuote: true,
+            amount: parseEther("0.1"),
+            limitPrice: parseEther("3100"),
+        })
+        expect(await createKeeper().runOnce(now)).to.deep.eq([])
+        expect(orderService.getOrder(orderHash).status).to.be.eq("open")
+    })
+
+    it("keeps a limit order open when the fill is worse than the limit price", async () => {
+        // the index price reaches the limit price but the market price does not
+        const orderHash = await submitOrder({
+            limitPrice: parseEther("2950"),
+            triggerPriceType: TriggerPriceType.INDEX_PRICE,
+        })
+        await mockIndexPrice(mockedPriceFeedDispatcher, "2900")
+
+        const logs: string[] = []
+        expect(await createKeeper(undefined, message => logs.push(message)).runOnce(now)).to.deep.eq([])
+        expect(logs[0]).to.include(`failed to fill order ${orderHash}`)
+        expect(logs[0]).to.include("CH_TLRL")
+
+        const state = orderService.getOrder(orderHash)
+        expect(state.status).to.be.eq("open")
+        expect(state.filledAmount).to.be.eq(0)
+    })
+
+    it("triggers a take profit order by index price and relays the cancel of the stop loss order", async () => {
+        await clearingHouse.connect(trader).openPosition({
+            baseToken: baseToken.address,
+            isBaseToQuote: false,
+            isExactInput: true,
+            amount: parseEther("300"),
+            oppositeAmountBound: 0,
+            sqrtPriceLimitX96: 0,
+            deadline: ethers.constants.MaxUint256,
+            referralCode: ethers.constants.HashZero,
+        })
+        const positionSize = await accountBalance.getTakerPositionSize(trader.address, baseToken.address)
+
+        const closeOrder = {
+            isBaseToQuote: true,
+            amount: positionSize,
+            limitPrice: 0,
+            triggerPriceType: TriggerPriceType.INDEX_PRICE,
+        }
+        const takeProfitHash = await submitOrder({
+            ...closeOrder,
+            orderType: OrderType.TAKE_PROFIT,
+            triggerPrice: parseEther("3050"),
+        })
+        const stopLossHash = await submitOrder({
+            ...closeOrder,
+            orderType: OrderType.STOP_LOSS,
+            triggerPrice: parseEther("2850"),
+        })
+
+        const orderKeeper = createKeeper()
+        expect(await orderKeeper.runOnce(now)).to.deep.eq([])
+
+        await mockIndexPrice(mockedPriceFeedDispatcher, "3050")
+        const executions = await orderKeeper.runOnce(now)
+        expect(executions.length).to.be.eq(1)
+        expect(executions[0].orderHash).to.be.eq(takeProfitHash)
+        expect(orderService.getOrder(takeProfitHash).triggeredAt).to.be.eq(now)
+        expect(orderService.getOrder(takeProfitHash).status).to.be.eq("filled")
+        expect(await accountBalance.getTakerPositionSize(trader.address, baseToken.address)).to.be.eq(0)
+
+        await expectError(
+            async () => orderService.cancel(stopLossHash, await signCancelOrder(alice, domain, stopLossHash)),
+            `signer ${alice.address} is not the trader ${trader.address}`,
+        )
+        orderService.cancel(stopLossHash, await signCancelOrder(trader, domain, stopLossHash))
+        expect(orderService.getOrder(stopLossHash).status).to.be.eq("cancelled")
+        expect(orderService.getOpenOrders(now)).to.deep.eq([])
+
+        // the stop loss order cannot be filled by anyone once the cancel is relayed
+        expect(await signedOrderBook.isCancelled(stopLossHash)).to.be.false
+        expect(await orderKeeper.runOnce(now)).to.deep.eq([])
+        expect(await signedOrderBook.isCancelled(stopLossHash)).to.be.true
+        expect(orderService.getOrder(stopLossHash).cancelTxHash).to.not.be.undefined
+        expect(orderService.getCancelsToRelay(now)).to.deep.eq([])
+    })
+
+    it("keeps checking the trigger price of a stop loss order until its first fill", async () => {
+        const stopLossHash = await submitOrder({
+            orderType: OrderType.STOP_LOSS,
+            amount: parseEther("300"),
+            limitPrice: 0,
+            triggerPrice: parseEther("3000"),
+            triggerPriceType: TriggerPriceType.INDEX_PRICE,
+        })
+        const orderKeeper = createKeeper("100")
+
+        // triggered while not approved, then the price moves back
+        await delegateApproval.connect(trader).revoke(signedOrderBook.address, fixture.clearingHouseOpenPositionAction)
+        await mockIndexPrice(mockedPriceFeedDispatcher, "3000")
+        expect(await orderKeeper.runOnce(now)).to.deep.eq([])
+        expect(orderService.getOrder(stopLossHash).triggeredAt).to.be.undefined
+
+        await delegateApproval.connect(trader).approve(signedOrderBook.address, fixture.clearingHouseOpenPositionAction)
+        await mockIndexPrice(mockedPriceFeedDispatcher, "2960")
+        expect(await orderKeeper.runOnce(now)).to.deep.eq([])
+
+        // triggered and filled partially, the rest is filled at any price like SignedOrderBook does
+        await mockIndexPrice(mockedPriceFeedDispatcher, "3000")
+        expect((await orderKeeper.runOnce(now)).length).to.be.eq(1)
+        expect(orderService.getOrder(stopLossHash).triggeredAt).to.be.eq(now)
+        await mockIndexPrice(mockedPriceFeedDispatcher, "2960")
+        expect((await orderKeeper.runOnce(now)).length).to.be.eq(1)
+        expect(await signedOrderBook.getFilledAmount(stopLossHash)).to.be.eq(parseEther("200"))
+    })
+
+    it("skips the orders not approved or cancelled on chain by the trader", async () => {
+        const orderHash = await submitOrder()
+        await delegateApproval.connect(trader).revoke(signedOrderBook.address, fixture.clearingHouseOpenPositionAction)
+        expect(await createKeeper().runOnce(now)).to.deep.eq([])
+        expect(orderService.getOrder(orderHash).status).to.be.eq("open")
+
+        await delegateApproval.connect(trader).approve(signedOrderBook.address, fixture.clearingHouseOpenPositionAction)
+        await signedOrderBook.connect(trader).cancelOrder(orderService.getOrder(orderHash).signedOrder.order)
+        expect(await createKeeper().runOnce(now)).to.deep.eq([])
+        expect(orderService.getOrder(orderHash).status).to.be.eq("cancelled")
+    })
+
+    it("expires orders", async () => {
+        const orderHash = await submitOrder({ expiry: now + 60 })
+        expect(await createKeeper().runOnce(now + 60)).to.deep.eq([])
+        expect(orderService.getOrder(orderHash).status).to.be.eq("expired")
+        expect(await accountBalance.getTakerPositionSize(trader.address, baseToken.address)).to.be.eq(0)
+    })
+
+    it("shares the orders between the service receiving them and the keeper through the database", async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "orders-"))
+        const filename = path.join(dir, "orders.db")
+        const keeperOrderService = new OrderService(domain, filename)
+        orderService.close()
+        orderService = new OrderService(domain, filename)
+        try {
+            const orderHash = await submitOrder()
+            const orderKeeper = new SignedOrderKeeper(
+                { accountBalance, delegateApproval, signedOrderBook: signedOrderBook.connect(keeper) },
+                keeperOrderService,
+                parseEther("100"),
+                () => {},
+            )
+            expect((await orderKeeper.runOnce(now)).length).to.be.eq(1)
+
+            // neither the fill nor the order submitted after it is lost
+            const anotherOrderHash = await submitOrder()
+            expect(orderService.getOrder(orderHash).filledAmount).to.be.eq(parseEther("100"))
+            expect(orderService.getRemainingAmount(orderHash)).to.be.eq(parseEther("200"))
+            expect(keeperOrderService.getOrder(anotherOrderHash).status).to.be.eq("open")
+
+            orderService.cancel(anotherOrderHash, await signCancelOrder(trader, domain, anotherOrderHash))
+            expect((await orderKeeper.runOnce(now)).map(execution => execution.orderHash)).to.deep.eq([orderHash])
+            expect(orderService.getOrder(orderHash).filledAmount).to.be.eq(parseEther("200"))
+            expect(orderService.getOrder(anotherOrderHash).status).to.be.eq("cancelled")
+            expect(await signedOrderBook.isCancelled(anotherOrderHash)).to.be.true
+        } finally {
+            keeperOrderService.close()
+            fs.rmSync(dir, { recursive: true, force: true })
+        }
+    })
+
+    describe("SignedOrderBook", () => {
+        async function fillOrder(order: Order, fillAmount = order.amount, signer = trader) {
+            const { signature } = await signOrder(signer, domain, order)
+            return signedOrderBook.connect(alice).fillOrder(order, signature, fillAmount)
+        }
+
+        it("has the same order hash as the one signed off-chain", async () => {
+            const order = createOrder({ orderType: OrderType.STOP_LOSS, triggerPrice: parseEther("2800") })
+            expect(await signedOrderBook.getOrderHash(order)).to.be.eq(getOrderHash(domain, order))
+        })
+
+        it("fills an order signed by the trader for anyone", async () => {
+            const order = createOrder()
+            const orderHash = getOrderHash(domain, order)
+            const { base, quote } = await clearingHouse.connect(trader).callStatic.openPosition({
+                baseToken: baseToken.address,
+                isBaseToQuote: false,
+                isExactInput: true,
+                amount: parseEther("100"),
+                oppositeAmountBound: 0,
+                deadline: ethers.constants.MaxUint256,
+                sqrtPriceLimitX96: 0,
+                referralCode: ethers.constants.HashZero,
+            })
+            await expect(fillOrder(order, parseEther("100")))
+                .to.emit(signedOrderBook, "OrderFilled")
+                .withArgs(orderHash, trader.address, baseToken.address, parseEther("100"), base, quote)
+            expect(await signedOrderBook.getFilledAmount(orderHash)).to.be.eq(parseEther("100"))
+            expect(await accountBalance.getTakerPositionSize(trader.address, baseToken.address)).to.be.eq(base)
+        })
+
+        it("force error, the signer is not the trader", async () => {
+            const order = createOrder()
+            await expect(fillOrder(order, order.amount, alice)).to.be.revertedWith("SOB_SINT")
+            // signed for another delegate
+            const { signature } = await signOrder(
+                trader,
+                getOrderDomain(await admin.getChainId(), keeper.address),
+                order,
+            )
+            await expect(signedOrderBook.fillOrder(order, signature, order.amount)).to.be.revertedWith("SOB_SINT")
+        })
+
+        it("force error, fill more than the remaining amount", async () => {
+            const order = createOrder()
+            await expect(fillOrder(order, 0)).to.be.revertedWith("SOB_IFA")
+            await fillOrder(order, parseEther("200"))
+            await expect(fillOrder(order, parseEther("101"))).to.be.revertedWith("SOB_IFA")
+            await expect(fillOrder(order, parseEther("100"))).to.emit(signedOrderBook, "OrderFilled")
+        })
+
+        it("force error, fill a cancelled order", async () => {
+            const order = createOrder()
+            await expect(signedOrderBook.connect(alice).cancelOrder(order)).to.be.revertedWith("SOB_SNT")
+            const orderHash = getOrderHash(domain, order)
+            await expect(
+                signedOrderBook
+                    .connect(keeper)
+                    .cancelOrderBySig(order, await signCancelOrder(alice, domain, orderHash)),
+            ).to.be.revertedWith("SOB_SINT")
+
+            await expect(signedOrderBook.connect(trader).cancelOrder(order))
+                .to.emit(signedOrderBook, "OrderCancelled")
+                .withArgs(orderHash, trader.address)
+            await expect(fillOrder(order)).to.be.revertedWith("SOB_OC")
+            await expect(signedOrderBook.connect(trader).cancelOrder(order)).to.be.revertedWith("SOB_OC")
+        })
+
+        it("force error, fill an expired order", async () => {
+            // the expiry is the deadline of openPositionFor()
+            await expect(fillOrder(createOrder({ expiry: now - 1 }))).to.be.revertedWith("CH_TE")
+        })
+
+        it("force error, fill at a price worse than the limit price", async () => {
+            // buy at 2900 or below while the price is around 2960
+            await expect(fillOrder(createOrder({ limitPrice: parseEther("2900") }))).to.be.revertedWith("CH_TLRL")
+            await expect(fillOrder(createOrder({ limitPrice: 0 }))).to.be.revertedWith("SOB_LOWLP")
+        })
+
+        it("force error, fill a stop loss order not triggered", async () => {
+            // buy at 3000 or above while the price is around 2960
+            const order = createOrder({
+                orderType: OrderType.STOP_LOSS,
+                limitPrice: 0,
+                triggerPrice: parseEther("3000"),
+                triggerPriceType: TriggerPriceType.INDEX_PRICE,
+            })
+            await expect(fillOrder(order)).to.be.revertedWith("SOB_ONT")
+            await expect(fillOrder({ ...order, triggerPrice: 0 })).to.be.revertedWith("SOB_OWTP")
+
+            await mockIndexPrice(mockedPriceFeedDispatcher, "3000")
+            await expect(fillOrder(order)).to.emit(signedOrderBook, "OrderFilled")
+        })
+
+        it("force error, the trader does not approve SignedOrderBook", async () => {
+            await delegateApproval
+                .connect(trader)
+                .revoke(signedOrderBook.address, fixture.clearingHouseOpenPositionAction)
+            await expect(fillOrder(createOrder())).to.be.revertedWith("CH_SHNAOPT")
+        })
+    })
+
+    it("force error, invalid orders", async () => {
+        await expectError(
+            async () => orderService.submit(await signOrder(alice, domain, createOrder()), now),
+            `signer ${alice.address} is not the trader ${trader.address}`,
+        )
+        // signed for another delegate
+        await expectError(
+            async () =>
+                orderService.submit(
+                    await signOrder(trader, getOrderDomain(await admin.getChainId(), keeper.address), createOrder()),
+                    now,
+                ),
+            "is not the trader",
+        )
+        await expectError(() => submitOrder({ expiry: now }), `order expired at ${now}`)
+        await expectError(() => submitOrder({ amount: 0 }), "SignedOrder: zero amount")
+        await expectError(() => submitOrder({ limitPrice: 0 }), "SignedOrder: limit order without limit price")
+        await expectError(
+            () => submitOrder({ orderType: OrderType.STOP_LOSS }),
+            "SignedOrder: stop loss or take profit order without trigger price",
+        )
+
+        const signedOrder = await signOrder(trader, domain, createOrder())
+        const orderHash = orderService.submit(signedOrder, now)
+        await expectError(() => orderService.submit(signedOrder, now), `order ${orderHash} exists`)
+        await expectError(
+            () => orderService.recordFill(orderHash, parseEther("301"), ethers.constants.HashZero, now),
+            "invalid fill amount",
+        )
+    })
+})
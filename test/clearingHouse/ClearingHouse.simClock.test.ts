@@ -0,0 +1,206 @@
+import { expect } from "chai"
+import { ContractTransaction, Wallet } from "ethers"
+import { parseEther, parseUnits } from "ethers/lib/utils"
+import { ethers, waffle } from "hardhat"
+import { BaseToken, ClearingHouse, TestClearingHouse } from "../../typechain"
+import { getMaxTick, getMinTick } from "../helper/number"
+import { deposit } from "../helper/token"
+import { createSimClock } from "../shared/simClock"
+import { forwardBothTimestamps, getRealTimestamp } from "../shared/time"
+import { ClearingHouseFixtureBuilder } from "./fixtureBuilder"
+import { createClearingHouseFixture } from "./fixtures"
+
+describe("ClearingHouse SimClock", () => {
+    const [admin, maker, taker] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+
+    async function getErrorMessage(promise: Promise<unknown>): Promise<string> {
+        try {
+            await promise
+        } catch (error) {
+            return error.message
+        }
+        return ""
+    }
+
+    describe("mocked time", () => {
+        let clearingHouse: TestClearingHouse
+
+        beforeEach(async () => {
+            const _clearingHouseFixture = await loadFixture(createClearingHouseFixture())
+            clearingHouse = _clearingHouseFixture.clearingHouse as TestClearingHouse
+        })
+
+        it("starts with the real and the mocked timestamps in lockstep", async () => {
+            const realTimestampBefore = await getRealTimestamp()
+            const clock = await createSimClock(clearingHouse)
+
+            expect(clock.isTimeMocked()).to.be.true
+            expect(clock.getTimestamp()).to.be.gte(realTimestampBefore + 100)
+            const snapshot = await clock.getSnapshot()
+            expect(snapshot.realTimestamp).to.be.eq(clock.getTimestamp())
+            expect(snapshot.clearingHouseTimestamp).to.be.eq(clock.getTimestamp())
+            expect(snapshot.exchangeTimestamp).to.be.eq(clock.getTimestamp())
+            expect(snapshot.accountBalanceTimestamp).to.be.eq(clock.getTimestamp())
+            await clock.assertNoDrift()
+        })
+
+        it("advances by a duration and to a timestamp in a block each", async () => {
+            const clock = await createSimClock(clearingHouse)
+            const start = clock.getTimestamp()
+            const blockNumber = await clock.getBlockNumber()
+
+            await clock.advanceBy(15)
+            expect(clock.getTimestamp()).to.be.eq(start + 15)
+            expect(await clock.getBlockNumber()).to.be.eq(blockNumber + 1)
+            await clock.assertNoDrift()
+
+            await clock.advanceTo(start + 3600)
+            expect(await clearingHouse.getBlockTimestamp()).to.be.eq(start + 3600)
+            expect(await getRealTimestamp()).to.be.eq(start + 3600)
+            expect(await clock.getBlockNumber()).to.be.eq(blockNumber + 2)
+            await clock.assertNoDrift()
+        })
+
+        it("mines empty blocks", async () => {
+            const clock = await createSimClock(clearingHouse)
+            const start = clock.getTimestamp()
+            const blockNumber = await clock.getBlockNumber()
+
+            await clock.mineBlocks(5)
+            // and a block of setting the mocked timestamps
+            expect(await clock.getBlockNumber()).to.be.eq(blockNumber + 6)
+            expect(clock.getTimestamp()).to.be.eq(start + 6)
+            await clock.assertNoDrift()
+        })
+
+        it("detects the real timestamp ahead by the txs since the last advance", async () => {
+            const clock = await createSimClock(clearingHouse)
+
+            await waffle.provider.send("evm_mine", [clock.getTimestamp() + 1])
+            await waffle.provider.send("evm_mine", [clock.getTimestamp() + 2])
+            expect(await clock.getDrift()).to.be.eq(2)
+            await clock.assertNoDrift(2)
+            expect(await getErrorMessage(clock.assertNoDrift())).to.be.eq(
+                `SimClock: the real timestamp ${clock.getTimestamp() + 2} drifted from ${clock.getTimestamp()} by 2`,
+            )
+
+            // the mocked timestamps are still set, while the real one stays ahead
+            const timestamp = clock.getTimestamp()
+            await clock.advanceBy(1)
+            expect(await clearingHouse.getBlockTimestamp()).to.be.eq(timestamp + 1)
+            expect(await clock.getDrift()).to.be.eq(2)
+
+            // back in lockstep
+            await clock.advanceBy(10)
+            await clock.assertNoDrift()
+        })
+
+        it("force error, the mocked timestamps are set other than by the clock", async () => {
+            const clock = await createSimClock(clearingHouse)
+            await forwardBothTimestamps(clearingHouse, 10)
+
+            expect(await getErrorMessage(clock.assertNoDrift())).to.be.eq(
+                `SimClock: the mocked timestamp ${
+                    clock.getTimestamp() + 10
+                } of ClearingHouse drifted from ${clock.getTimestamp()}`,
+            )
+        })
+
+        it("force error, go back in time", async () => {
+            const clock = await createSimClock(clearingHouse)
+            const timestamp = clock.getTimestamp()
+
+            expect(await getErrorMessage(clock.advanceTo(timestamp - 1))).to.be.eq(
+                `SimClock: cannot go back from ${timestamp} to ${timestamp - 1}`,
+            )
+            expect(await getErrorMessage(clock.advanceBy(-1))).to.be.eq(
+                "SimClock: cannot advance by a negative duration -1",
+            )
+            expect(await getErrorMessage(clock.mineBlocks(0))).to.be.eq("SimClock: invalid block count 0")
+        })
+    })
+
+    describe("real time", () => {
+        let clearingHouse: ClearingHouse
+        let baseToken: BaseToken
+
+        // the price is 10 and the tick moves about 59 by each swap of 3 quote, more than 100 by two of them
+        const createFixture = new ClearingHouseFixtureBuilder()
+            .withMockedTime(false)
+            .withMarket({ symbol: "ETH", price: "10", maxTickCrossedWithinBlock: 100 })
+            .build()
+
+        beforeEach(async () => {
+            const _fixture = await loadFixture(createFixture)
+            clearingHouse = _fixture.clearingHouse
+            baseToken = _fixture.markets.ETH.baseToken
+
+            for (const trader of [maker, taker]) {
+                await _fixture.USDC.mint(trader.address, parseUnits("10000", 6))
+                await deposit(trader, _fixture.vault, 10000, _fixture.USDC)
+            }
+            await clearingHouse.connect(maker).addLiquidity({
+                baseToken: baseToken.address,
+                base: parseEther("100"),
+                quote: parseEther("1000"),
+                lowerTick: getMinTick(200),
+                upperTick: getMaxTick(200),
+                minBase: 0,
+                minQuote: 0,
+                useTakerBalance: false,
+                deadline: ethers.constants.MaxUint256,
+            })
+        })
+
+        function long(trader: Wallet, quote: string): Promise<ContractTransaction> {
+            return clearingHouse.connect(trader).openPosition({
+                baseToken: baseToken.address,
+                isBaseToQuote: false,
+                isExactInput: true,
+                oppositeAmountBound: 0,
+                amount: parseEther(quote),
+                sqrtPriceLimitX96: 0,
+                deadline: ethers.constants.MaxUint256,
+                referralCode: ethers.constants.HashZero,
+            })
+        }
+
+        it("advances the real timestamp only", async () => {
+            const clock = await createSimClock()
+            expect(clock.isTimeMocked()).to.be.false
+
+            await clock.advanceBy(30)
+            expect(await getRealTimestamp()).to.be.eq(clock.getTimestamp())
+            expect((await clock.getSnapshot()).clearingHouseTimestamp).to.be.undefined
+            await clock.assertNoDrift()
+        })
+
+        it("sends the txs in the same block", async () => {
+            const clock = await createSimClock()
+            const blockNumber = await clock.getBlockNumber()
+
+            const txs = await clock.inSameBlock(async () => [await long(taker, "1"), await long(maker, "1")])
+            const receipts = await Promise.all(txs.map(tx => tx.wait()))
+
+            expect(receipts.map(receipt => receipt.blockNumber)).to.be.deep.eq([blockNumber + 1, blockNumber + 1])
+            expect((await waffle.provider.getBlock(blockNumber + 1)).timestamp).to.be.eq(clock.getTimestamp())
+            await clock.assertNoDrift()
+        })
+
+        it("force error, crossing more ticks than maxTickCrossedWithinBlock by the swaps of a block", async () => {
+            const clock = await createSimClock()
+
+            const txs = await clock.inSameBlock(async () => {
+                const tx = await long(taker, "3")
+                await expect(long(maker, "3")).to.be.revertedWith("EX_OPLAS")
+                return [tx]
+            })
+            await txs[0].wait()
+
+            // the tick to check the limit against is updated after _PRICE_LIMIT_INTERVAL
+            await clock.advanceBy(15)
+            await expect(long(maker, "3")).to.emit(clearingHouse, "PositionChanged")
+        })
+    })
+})
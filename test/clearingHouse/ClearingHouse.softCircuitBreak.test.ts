@@ -1,4 +1,3 @@
-import { MockContract } from "@eth-optimism/smock"
 import { expect } from "chai"
 import { parseEther, parseUnits } from "ethers/lib/utils"
 import { ethers, waffle } from "hardhat"
@@ -6,6 +5,7 @@ import {
     BaseToken,
     Exchange,
     InsuranceFund,
+    MockPriceFeedDispatcher,
     QuoteToken,
     TestAccountBalance,
     TestClearingHouse,
@@ -34,8 +34,8 @@ describe("ClearingHouse softCircuitBreak", () => {
     let baseToken: BaseToken
     let quoteToken: QuoteToken
     let pool: UniswapV3Pool
-    let mockedPriceFeedDispatcher: MockContract
-    let mockedPriceFeedDispatcher2: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
+    let mockedPriceFeedDispatcher2: MockPriceFeedDispatcher
     let collateralDecimals: number
 
     beforeEach(async () => {
@@ -1,4 +1,3 @@
-import { MockContract } from "@eth-optimism/smock"
 import { BigNumber } from "@ethersproject/bignumber"
 import { ContractReceipt } from "@ethersproject/contracts"
 import { expect } from "chai"
@@ -9,6 +8,7 @@ import {
     ClearingHouseConfig,
     InsuranceFund,
     MarketRegistry,
+    MockPriceFeedDispatcher,
     OrderBook,
     TestAccountBalance,
     TestClearingHouse,
@@ -42,8 +42,8 @@ describe("Clearinghouse StopMarket", async () => {
     let baseToken2: BaseToken
     let pool: UniswapV3Pool
     let pool2: UniswapV3Pool
-    let mockedPriceFeedDispatcher: MockContract
-    let mockedPriceFeedDispatcher2: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
+    let mockedPriceFeedDispatcher2: MockPriceFeedDispatcher
     let collateralDecimals: number
 
     let lowerTick: number, upperTick: number
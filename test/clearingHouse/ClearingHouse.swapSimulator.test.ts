@@ -0,0 +1,180 @@
+import { expect } from "chai"
+import { parseEther } from "ethers/lib/utils"
+import { waffle } from "hardhat"
+import { loadSwapContext, SimulateSwapParams, simulateSwap } from "../../scripts/simulator/exchange"
+import { BaseToken, MarketRegistry, MockPriceFeedDispatcher, TestClearingHouse, UniswapV3Pool } from "../../typechain"
+import { addOrder } from "../helper/clearingHouseHelper"
+import { initMarket } from "../helper/marketHelper"
+import { mintAndDeposit } from "../helper/token"
+import { encodePriceSqrt, mockIndexPrice } from "../shared/utilities"
+import { ClearingHouseFixture, createClearingHouseFixture } from "./fixtures"
+
+describe("ClearingHouse swap simulator", () => {
+    const [admin, alice, bob, taker] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    let fixture: ClearingHouseFixture
+    let clearingHouse: TestClearingHouse
+    let marketRegistry: MarketRegistry
+    let baseToken: BaseToken
+    let pool: UniswapV3Pool
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseFixture())
+        clearingHouse = fixture.clearingHouse as TestClearingHouse
+        marketRegistry = fixture.marketRegistry
+        baseToken = fixture.baseToken
+        pool = fixture.pool
+        mockedPriceFeedDispatcher = fixture.mockedPriceFeedDispatcher
+
+        // exchange fee ratio differs from the uniswap fee ratio (1%), so that the fee ratio replacement is covered
+        const initPrice = "10"
+        const { maxTick, minTick } = await initMarket(fixture, initPrice, 3000)
+        await mockIndexPrice(mockedPriceFeedDispatcher, initPrice)
+
+        for (const wallet of [alice, bob, taker]) {
+            await mintAndDeposit(fixture, wallet, 10000)
+        }
+
+        // alice provides full range liquidity and bob provides a narrow range around the market price,
+        // so that swaps cross initialized ticks
+        await addOrder(fixture, alice, 100, 1000, minTick, maxTick)
+        await addOrder(fixture, bob, 2, 20, 22600, 23400)
+    })
+
+    async function expectSimulationMatched(params: SimulateSwapParams) {
+        const context = await loadSwapContext(marketRegistry, taker.address, baseToken.address)
+        const simulated = simulateSwap(context, params)
+
+        const expected = await clearingHouse.connect(taker).callStatic.swap({ baseToken: baseToken.address, ...params })
+        expect(simulated.exchangedPositionSize).to.be.eq(expected.exchangedPositionSize)
+        expect(simulated.exchangedPositionNotional).to.be.eq(expected.exchangedPositionNotional)
+        expect(simulated.base.abs()).to.be.eq(expected.base)
+        expect(simulated.quote.abs()).to.be.eq(expected.quote)
+        expect(simulated.fee).to.be.eq(expected.fee)
+        expect(simulated.insuranceFundFee).to.be.eq(expected.insuranceFundFee)
+        expect(simulated.tick).to.be.eq(expected.tick)
+        expect(simulated.sqrtPriceAfterX96).to.be.eq(expected.sqrtPriceAfterX96)
+
+        await clearingHouse.connect(taker).swap({ baseToken: baseToken.address, ...params })
+        const slot0 = await pool.slot0()
+        expect(simulated.poolState.sqrtPriceX96).to.be.eq(slot0.sqrtPriceX96)
+        expect(simulated.poolState.tick).to.be.eq(slot0.tick)
+        expect(simulated.poolState.liquidity).to.be.eq(await pool.liquidity())
+    }
+
+    it("q2b exact input", async () => {
+        await expectSimulationMatched({
+            isBaseToQuote: false,
+            isExactInput: true,
+            amount: parseEther("25"),
+            sqrtPriceLimitX96: 0,
+        })
+    })
+
+    it("q2b exact output", async () => {
+        await expectSimulationMatched({
+            isBaseToQuote: false,
+            isExactInput: false,
+            amount: parseEther("2"),
+            sqrtPriceLimitX96: 0,
+        })
+    })
+
+    it("b2q exact input", async () => {
+        await expectSimulationMatched({
+            isBaseToQuote: true,
+            isExactInput: true,
+            amount: parseEther("2"),
+            sqrtPriceLimitX96: 0,
+        })
+    })
+
+    it("b2q exact output", async () => {
+        await expectSimulationMatched({
+            isBaseToQuote: true,
+            isExactInput: false,
+            amount: parseEther("20"),
+            sqrtPriceLimitX96: 0,
+        })
+    })
+
+    it("stops at sqrtPriceLimitX96", async () => {
+        await expectSimulationMatched({
+            isBaseToQuote: false,
+            isExactInput: true,
+            amount: parseEther("100"),
+            sqrtPriceLimitX96: encodePriceSqrt("10.2", "1"),
+        })
+    })
+
+    it("consecutive swaps in both directions", async () => {
+        for (const [isBaseToQuote, isExactInput, amount] of [
+            [true, true, "1.5"],
+            [false, false, "3"],
+            [false, true, "7.77"],
+            [true, false, "0.123456789"],
+        ] as [boolean, boolean, string][]) {
+            await expectSimulationMatched({
+                isBaseToQuote,
+                isExactInput,
+                amount: parseEther(amount),
+                sqrtPriceLimitX96: 0,
+            })
+        }
+    })
+
+    it("applies the fee discount of the trader", async () => {
+        await marketRegistry.setFeeDiscountRatio(taker.address, 0.5e6)
+        await expectSimulationMatched({
+            isBaseToQuote: true,
+            isExactInput: true,
+            amount: parseEther("2"),
+            sqrtPriceLimitX96: 0,
+        })
+    })
+
+    it("can reuse the pool state returned by the previous simulation", async () => {
+        const context = await loadSwapContext(marketRegistry, taker.address, baseToken.address)
+        const first = simulateSwap(context, {
+            isBaseToQuote: false,
+            isExactInput: true,
+            amount: parseEther("10"),
+            sqrtPriceLimitX96: 0,
+        })
+        const second = simulateSwap(
+            { ...context, poolState: first.poolState },
+            { isBaseToQuote: true, isExactInput: true, amount: parseEther("1"), sqrtPriceLimitX96: 0 },
+        )
+
+        await clearingHouse.connect(taker).swap({
+            baseToken: baseToken.address,
+            isBaseToQuote: false,
+            isExactInput: true,
+            amount: parseEther("10"),
+            sqrtPriceLimitX96: 0,
+        })
+        const expected = await clearingHouse.connect(taker).callStatic.swap({
+            baseToken: baseToken.address,
+            isBaseToQuote: true,
+            isExactInput: true,
+            amount: parseEther("1"),
+            sqrtPriceLimitX96: 0,
+        })
+        expect(second.exchangedPositionNotional).to.be.eq(expected.exchangedPositionNotional)
+        expect(second.fee).to.be.eq(expected.fee)
+        expect(second.tick).to.be.eq(expected.tick)
+    })
+
+    it("throws when the swap goes beyond the loaded tick bitmap words", async () => {
+        const context = await loadSwapContext(marketRegistry, taker.address, baseToken.address, 0)
+        expect(() =>
+            simulateSwap(context, {
+                isBaseToQuote: true,
+                isExactInput: true,
+                amount: parseEther("1000"),
+                sqrtPriceLimitX96: 0,
+            }),
+        ).to.throw("tick bitmap word")
+    })
+})
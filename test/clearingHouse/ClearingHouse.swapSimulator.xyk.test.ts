@@ -0,0 +1,145 @@
+import { expect } from "chai"
+import { BigNumber } from "ethers"
+import { parseEther, parseUnits } from "ethers/lib/utils"
+import { ethers, waffle } from "hardhat"
+import { formatSqrtPriceX96ToPrice } from "../../scripts/math/uniswapV3/priceMath"
+import { loadSwapContext, SimulatedSwapResponse, simulateSwap, SwapContext } from "../../scripts/simulator/exchange"
+import { TestClearingHouse } from "../../typechain"
+import { initMarket } from "../helper/marketHelper"
+import { deposit } from "../helper/token"
+import { mockIndexPrice } from "../shared/utilities"
+import { ClearingHouseFixture, createClearingHouseFixture } from "./fixtures"
+
+// the swap simulator against the expectations of ClearingHouse.openPosition.xyk.test.ts and ClearingHouse.swap.test.ts,
+// of which the pools are set up the same way
+describe("ClearingHouse swap simulator in xyk pool", () => {
+    const [admin, maker, taker] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    let fixture: ClearingHouseFixture
+    let clearingHouse: TestClearingHouse
+
+    async function setupXykPool(ifFeeRatio: number | undefined): Promise<SwapContext> {
+        fixture = await loadFixture(createClearingHouseFixture())
+        clearingHouse = fixture.clearingHouse as TestClearingHouse
+
+        const initPrice = "10"
+        const { maxTick, minTick } = await initMarket(fixture, initPrice, undefined, ifFeeRatio)
+        await mockIndexPrice(fixture.mockedPriceFeedDispatcher, initPrice)
+
+        await fixture.USDC.mint(maker.address, parseUnits("1000", await fixture.USDC.decimals()))
+        await deposit(maker, fixture.vault, 1000, fixture.USDC)
+        await clearingHouse.connect(maker).addLiquidity({
+            baseToken: fixture.baseToken.address,
+            base: parseEther("100"),
+            quote: parseEther("1000"),
+            lowerTick: minTick,
+            upperTick: maxTick,
+            minBase: 0,
+            minQuote: 0,
+            useTakerBalance: false,
+            deadline: ethers.constants.MaxUint256,
+        })
+
+        return loadSwapContext(fixture.marketRegistry, taker.address, fixture.baseToken.address)
+    }
+
+    // simulates the swaps one after another, each on the pool state of the previous one
+    function simulateSwaps(
+        context: SwapContext,
+        swaps: [isBaseToQuote: boolean, isExactInput: boolean, amount: string][],
+    ): SimulatedSwapResponse[] {
+        const responses: SimulatedSwapResponse[] = []
+        let poolState = context.poolState
+        for (const [isBaseToQuote, isExactInput, amount] of swaps) {
+            const response = simulateSwap(
+                { ...context, poolState },
+                { isBaseToQuote, isExactInput, amount: parseEther(amount), sqrtPriceLimitX96: 0 },
+            )
+            responses.push(response)
+            poolState = response.poolState
+        }
+        return responses
+    }
+
+    function getPrice(response: SimulatedSwapResponse): number {
+        return Number(formatSqrtPriceX96ToPrice(response.sqrtPriceAfterX96))
+    }
+
+    // from zero position, the openNotional of those tests is the quote balance delta including the fee
+    describe("ClearingHouse.openPosition.xyk.test.ts", () => {
+        let context: SwapContext
+
+        beforeEach(async () => {
+            context = await setupXykPool(0)
+        })
+
+        it("taker open position from zero", async () => {
+            const [longExactInput] = simulateSwaps(context, [[false, true, "25"]])
+            expect(longExactInput.exchangedPositionSize).to.be.eq(parseEther("2.415223225176872407"))
+            expect(longExactInput.quote).to.be.eq(parseEther("-25"))
+
+            const [longExactOutput] = simulateSwaps(context, [[false, false, "2"]])
+            expect(longExactOutput.exchangedPositionSize).to.be.eq(parseEther("2"))
+            expect(longExactOutput.quote).to.be.closeTo(parseEther("-20.614306328592042878"), 1)
+
+            const [shortExactInput] = simulateSwaps(context, [[true, true, "2"]])
+            expect(shortExactInput.exchangedPositionSize).to.be.eq(parseEther("-2"))
+            expect(shortExactInput.quote).to.be.eq(parseEther("19.411764705882352940"))
+
+            const [shortExactOutput] = simulateSwaps(context, [[true, false, "19.411764705882352940"]])
+            expect(shortExactOutput.exchangedPositionSize).to.be.eq(parseEther("-2"))
+            expect(shortExactOutput.quote).to.be.eq(parseEther("19.411764705882352940"))
+        })
+
+        it("opens long then open another long", async () => {
+            const responses = simulateSwaps(context, [
+                [false, false, "2"],
+                [false, false, "2"],
+            ])
+            const positionSize = responses.reduce(
+                (sum, { exchangedPositionSize }) => sum.add(exchangedPositionSize),
+                BigNumber.from(0),
+            )
+            const openNotional = responses.reduce((sum, { quote }) => sum.add(quote), BigNumber.from(0))
+            expect(positionSize).to.be.eq(parseEther("4"))
+            expect(openNotional).to.be.eq(parseEther("-42.087542087542087543"))
+        })
+    })
+
+    describe("ClearingHouse.swap.test.ts", () => {
+        let context: SwapContext
+
+        beforeEach(async () => {
+            context = await setupXykPool(undefined)
+        })
+
+        it("increase long position (Q2B) then swap reverse and larger amount", async () => {
+            const [long, short] = simulateSwaps(context, [
+                [false, true, "250"],
+                [true, false, "400"],
+            ])
+
+            // 1st 250 USD -> 19.839679358717434869 ETH, market price: 15.5625625
+            expect(long.exchangedPositionSize).to.be.eq(parseEther("19.839679358717434869"))
+            expect(long.quote).to.be.eq(parseEther("-250"))
+            expect(getPrice(long)).to.be.closeTo(15.5625625, 1e-6)
+
+            // 2nd 38.3990039298 ETH -> 400 USD, market price: 7.114240900163248648
+            expect(short.exchangedPositionSize).to.be.closeTo(parseEther("-38.3990039298"), parseEther("1e-10"))
+            expect(short.quote).to.be.eq(parseEther("400"))
+            expect(getPrice(short)).to.be.closeTo(7.114240900163248648, 1e-12)
+        })
+
+        it("increase short position (B2Q) then another trader sells and reduce 25% position", async () => {
+            const [, carolShort, reduce] = simulateSwaps(context, [
+                [true, true, "1"],
+                [true, true, "10"],
+                [false, false, "0.25"],
+            ])
+
+            expect(getPrice(carolShort)).to.be.closeTo(8.116224332440548657, 1e-12)
+            expect(reduce.exchangedPositionSize).to.be.eq(parseEther("0.25"))
+            expect(getPrice(reduce)).to.be.closeTo(8.152907785517378433, 1e-12)
+        })
+    })
+})
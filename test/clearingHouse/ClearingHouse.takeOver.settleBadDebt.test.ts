@@ -6,6 +6,7 @@ import { ethers, waffle } from "hardhat"
 import {
     BaseToken,
     InsuranceFund,
+    MockPriceFeedDispatcher,
     TestAccountBalance,
     TestClearingHouse,
     TestERC20,
@@ -39,8 +40,8 @@ describe("ClearingHouse liquidate (assume zero IF fee)", () => {
     let pool: UniswapV3Pool
     let baseToken2: BaseToken
     let pool2: UniswapV3Pool
-    let mockedPriceFeedDispatcher: MockContract
-    let mockedPriceFeedDispatcher2: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
+    let mockedPriceFeedDispatcher2: MockPriceFeedDispatcher
     let collateralDecimals: number
 
     beforeEach(async () => {
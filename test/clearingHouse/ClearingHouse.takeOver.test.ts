@@ -1,4 +1,3 @@
-import { MockContract } from "@eth-optimism/smock"
 import bn from "bignumber.js"
 import { expect } from "chai"
 import { Wallet } from "ethers"
@@ -7,6 +6,7 @@ import { ethers, waffle } from "hardhat"
 import {
     BaseToken,
     InsuranceFund,
+    MockPriceFeedDispatcher,
     TestAccountBalance,
     TestClearingHouse,
     TestERC20,
@@ -49,8 +49,8 @@ describe("ClearingHouse takeOver (liquidate)", () => {
     let pool: UniswapV3Pool
     let baseToken2: BaseToken
     let pool2: UniswapV3Pool
-    let mockedPriceFeedDispatcher: MockContract
-    let mockedPriceFeedDispatcher2: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
+    let mockedPriceFeedDispatcher2: MockPriceFeedDispatcher
 
     async function _getMarginRatio(trader: Wallet) {
         const accountValue = await clearingHouse.getAccountValue(trader.address)
@@ -1,9 +1,8 @@
-import { MockContract } from "@eth-optimism/smock"
 import { expect } from "chai"
 import { BigNumber, BigNumberish, Wallet } from "ethers"
 import { parseUnits } from "ethers/lib/utils"
 import { waffle } from "hardhat"
-import { InsuranceFund, UniswapV3Pool, Vault } from "../../typechain"
+import { InsuranceFund, MockPriceFeedDispatcher, UniswapV3Pool, Vault } from "../../typechain"
 import {
     addOrder,
     b2qExactInput,
@@ -32,7 +31,7 @@ describe("ClearingHouse verify accounting", () => {
     let decimals: number
     let insuranceFund: InsuranceFund
     let pool: UniswapV3Pool
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let lowerTick: number
     let upperTick: number
     let baseTokenList: string[]
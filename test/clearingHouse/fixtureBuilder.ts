@@ -0,0 +1,355 @@
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers"
+import { getContractAddress, parseUnits } from "ethers/lib/utils"
+import { ethers } from "hardhat"
+import {
+    AccountBalance,
+    BaseToken,
+    ClearingHouse,
+    ClearingHouseConfig,
+    CollateralManager,
+    Exchange,
+    InsuranceFund,
+    MarketRegistry,
+    MockPriceFeedDispatcher,
+    OrderBook,
+    QuoteToken,
+    TestAccountBalance,
+    TestClearingHouse,
+    TestERC20,
+    TestExchange,
+    UniswapV3Factory,
+    UniswapV3Pool,
+    Vault,
+} from "../../typechain"
+import { USDC_DECIMALS } from "../shared/constant"
+import { createQuoteTokenFixture } from "../shared/fixtures"
+import { deployMockPriceFeedDispatcher } from "../shared/mock"
+import { forwardRealTimestamp } from "../shared/time"
+import { encodePriceSqrt, isAscendingTokenOrder, mockIndexPrice } from "../shared/utilities"
+
+// the quote token is deployed above this address, so about 3/4 of the addresses are below it for the base tokens
+const QUOTE_TOKEN_ADDRESS_LOWER_BOUND = "0xc000000000000000000000000000000000000000"
+
+export interface MarketConfig<S extends string = string> {
+    symbol: S
+    // the initial market and index price; the pool is left uninitialized for initMarket() when not set
+    price?: string
+    // the fee tier of the Uniswap pool, 10000 = 1% by default
+    feeTier?: number
+    // ratios are in 1e6, the defaults are the ones of initMarket()
+    exFeeRatio?: number
+    ifFeeRatio?: number
+    // the check of Exchange is disabled when not set
+    maxTickCrossedWithinBlock?: number
+}
+
+export interface CollateralConfig<S extends string = string> {
+    symbol: S
+    decimals: number
+    // the price of the collateral in USD, e.g. "3000"
+    price: string
+    // ratios are in 1e6, e.g. 700000 = 70%
+    collateralRatio: number
+    discountRatio: number
+    // in the decimals of the collateral, e.g. "1000"
+    depositCap: string
+}
+
+export interface MarketFixture {
+    symbol: string
+    baseToken: BaseToken
+    pool: UniswapV3Pool
+    feeTier: number
+    mockedPriceFeedDispatcher: MockPriceFeedDispatcher
+}
+
+export interface CollateralFixture {
+    symbol: string
+    token: TestERC20
+    // an IPriceFeed of 8 decimals
+    mockedPriceFeed: MockPriceFeedDispatcher
+}
+
+export interface BuiltClearingHouseFixture<M extends string, C extends string> {
+    clearingHouse: TestClearingHouse | ClearingHouse
+    orderBook: OrderBook
+    accountBalance: TestAccountBalance | AccountBalance
+    marketRegistry: MarketRegistry
+    clearingHouseConfig: ClearingHouseConfig
+    exchange: TestExchange | Exchange
+    vault: Vault
+    insuranceFund: InsuranceFund
+    collateralManager: CollateralManager
+    uniV3Factory: UniswapV3Factory
+    quoteToken: QuoteToken
+    USDC: TestERC20
+    markets: Record<M, MarketFixture>
+    collaterals: Record<C, CollateralFixture>
+}
+
+// composes a fixture of any number of markets and collaterals, e.g.
+//   new ClearingHouseFixtureBuilder()
+//       .withMarket({ symbol: "ETH", price: "3000", feeTier: 3000 })
+//       .withCollateral({ symbol: "WBTC", decimals: 8, price: "40000", ... })
+//       .build()
+// NOTE: unlike createClearingHouseFixture(), (base, quote) = (token0, token1) is guaranteed for every market
+export class ClearingHouseFixtureBuilder<M extends string = never, C extends string = never> {
+    private canMockTime = true
+    private readonly marketConfigs: MarketConfig[] = []
+    private readonly collateralConfigs: CollateralConfig[] = []
+
+    // TestClearingHouse, TestExchange and TestAccountBalance by default, see time.ts
+    withMockedTime(canMockTime: boolean = true): this {
+        this.canMockTime = canMockTime
+        return this
+    }
+
+    withMarket<S extends string>(config: MarketConfig<S>): ClearingHouseFixtureBuilder<M | S, C> {
+        if (this.marketConfigs.some(({ symbol }) => symbol === config.symbol)) {
+            throw new Error(`FixtureBuilder: duplicated market ${config.symbol}`)
+        }
+        this.marketConfigs.push(config)
+        return this as ClearingHouseFixtureBuilder<M | S, C>
+    }
+
+    withCollateral<S extends string>(config: CollateralConfig<S>): ClearingHouseFixtureBuilder<M, C | S> {
+        if (config.symbol === "USDC" || this.collateralConfigs.some(({ symbol }) => symbol === config.symbol)) {
+            throw new Error(`FixtureBuilder: duplicated collateral ${config.symbol}`)
+        }
+        this.collateralConfigs.push(config)
+        return this as ClearingHouseFixtureBuilder<M, C | S>
+    }
+
+    // the fixture for waffle.createFixtureLoader()
+    build(): () => Promise<BuiltClearingHouseFixture<M, C>> {
+        const canMockTime = this.canMockTime
+        const marketConfigs = this.marketConfigs.slice()
+        const collateralConfigs = this.collateralConfigs.slice()
+        return async (): Promise<BuiltClearingHouseFixture<M, C>> => {
+            const [admin] = await ethers.getSigners()
+            const tokenFactory = await ethers.getContractFactory("TestERC20")
+            const USDC = (await tokenFactory.deploy()) as TestERC20
+            await USDC.__TestERC20_init("TestUSDC", "USDC", USDC_DECIMALS)
+
+            await skipNoncesUntil(admin, address => isAscendingTokenOrder(QUOTE_TOKEN_ADDRESS_LOWER_BOUND, address))
+            const quoteToken = await createQuoteTokenFixture("TestQuoteToken", "vUSD")()
+
+            const uniV3Factory = (await (
+                await ethers.getContractFactory("UniswapV3Factory")
+            ).deploy()) as UniswapV3Factory
+
+            const clearingHouseConfig = (await (
+                await ethers.getContractFactory("ClearingHouseConfig")
+            ).deploy()) as ClearingHouseConfig
+            await clearingHouseConfig.initialize()
+
+            const marketRegistry = (await (
+                await ethers.getContractFactory("MarketRegistry")
+            ).deploy()) as MarketRegistry
+            await marketRegistry.initialize(uniV3Factory.address, quoteToken.address)
+
+            const orderBook = (await (await ethers.getContractFactory("OrderBook")).deploy()) as OrderBook
+            await orderBook.initialize(marketRegistry.address)
+
+            const accountBalance = (await (
+                await ethers.getContractFactory(canMockTime ? "TestAccountBalance" : "AccountBalance")
+            ).deploy()) as TestAccountBalance | AccountBalance
+            const exchange = (await (
+                await ethers.getContractFactory(canMockTime ? "TestExchange" : "Exchange")
+            ).deploy()) as TestExchange | Exchange
+
+            const insuranceFund = (await (await ethers.getContractFactory("InsuranceFund")).deploy()) as InsuranceFund
+            await insuranceFund.initialize(USDC.address)
+
+            await exchange.initialize(marketRegistry.address, orderBook.address, clearingHouseConfig.address)
+            await exchange.setAccountBalance(accountBalance.address)
+            await orderBook.setExchange(exchange.address)
+            await accountBalance.initialize(clearingHouseConfig.address, orderBook.address)
+
+            const vault = (await (await ethers.getContractFactory("TestVault")).deploy()) as Vault
+            await vault.initialize(
+                insuranceFund.address,
+                clearingHouseConfig.address,
+                accountBalance.address,
+                exchange.address,
+            )
+
+            // the same as createClearingHouseFixture()
+            const collateralManager = (await (
+                await ethers.getContractFactory("CollateralManager")
+            ).deploy()) as CollateralManager
+            await collateralManager.initialize(
+                clearingHouseConfig.address,
+                vault.address,
+                5, // maxCollateralTokensPerAccount
+                "750000", // debtNonSettlementTokenValueRatio
+                "500000", // liquidationRatio
+                "2000", // mmRatioBuffer
+                "30000", // clInsuranceFundFeeRatio
+                parseUnits("10000", USDC_DECIMALS), // debtThreshold
+                parseUnits("500", USDC_DECIMALS), // collateralValueDust
+            )
+
+            const collaterals = {} as Record<C, CollateralFixture>
+            for (const config of collateralConfigs) {
+                collaterals[config.symbol as C] = await deployCollateral(collateralManager, config)
+            }
+
+            await vault.setCollateralManager(collateralManager.address)
+            await insuranceFund.setVault(vault.address)
+            await accountBalance.setVault(vault.address)
+
+            const markets = {} as Record<M, MarketFixture>
+            for (const config of marketConfigs) {
+                markets[config.symbol as M] = await deployMarket(admin, uniV3Factory, quoteToken, config)
+            }
+
+            let clearingHouse: TestClearingHouse | ClearingHouse
+            if (canMockTime) {
+                const testClearingHouse = (await (
+                    await ethers.getContractFactory("TestClearingHouse")
+                ).deploy()) as TestClearingHouse
+                await testClearingHouse.__TestClearingHouse_init(
+                    clearingHouseConfig.address,
+                    vault.address,
+                    quoteToken.address,
+                    uniV3Factory.address,
+                    exchange.address,
+                    accountBalance.address,
+                    insuranceFund.address,
+                )
+                clearingHouse = testClearingHouse
+            } else {
+                clearingHouse = (await (await ethers.getContractFactory("ClearingHouse")).deploy()) as ClearingHouse
+                await clearingHouse.initialize(
+                    clearingHouseConfig.address,
+                    vault.address,
+                    quoteToken.address,
+                    uniV3Factory.address,
+                    exchange.address,
+                    accountBalance.address,
+                    insuranceFund.address,
+                )
+            }
+
+            await clearingHouseConfig.setSettlementTokenBalanceCap(ethers.constants.MaxUint256)
+            await quoteToken.mintMaximumTo(clearingHouse.address)
+            await quoteToken.addWhitelist(clearingHouse.address)
+            for (const config of marketConfigs) {
+                const { baseToken } = markets[config.symbol as M]
+                await baseToken.mintMaximumTo(clearingHouse.address)
+                await baseToken.addWhitelist(clearingHouse.address)
+            }
+            await marketRegistry.setClearingHouse(clearingHouse.address)
+            await marketRegistry.setFeeManager(admin.address, true)
+            await orderBook.setClearingHouse(clearingHouse.address)
+            await exchange.setClearingHouse(clearingHouse.address)
+            await accountBalance.setClearingHouse(clearingHouse.address)
+            await vault.setClearingHouse(clearingHouse.address)
+
+            const initializedConfigs = marketConfigs.filter(({ price }) => price !== undefined)
+            for (const config of initializedConfigs) {
+                await initializeMarket(marketRegistry, exchange, markets[config.symbol as M], config)
+            }
+            if (initializedConfigs.length > 0) {
+                // the same as initMarket(), the mark price needs the market twap (30m) and (15m)
+                await forwardRealTimestamp(2000)
+            }
+
+            return {
+                clearingHouse,
+                orderBook,
+                accountBalance,
+                marketRegistry,
+                clearingHouseConfig,
+                exchange,
+                vault,
+                insuranceFund,
+                collateralManager,
+                uniV3Factory,
+                quoteToken,
+                USDC,
+                markets,
+                collaterals,
+            }
+        }
+    }
+}
+
+// ClearingHouse requires (base, quote) = (token0, token1), so instead of redeploying the tokens until they are in
+// order as tokensFixture() does, the deployer sends empty txs to skip the nonces of the addresses out of order
+export async function skipNoncesUntil(
+    deployer: SignerWithAddress,
+    isInOrder: (address: string) => boolean,
+): Promise<void> {
+    let nonce = await deployer.getTransactionCount()
+    while (!isInOrder(getContractAddress({ from: deployer.address, nonce }))) {
+        await (await deployer.sendTransaction({ to: deployer.address, value: 0 })).wait()
+        nonce++
+    }
+}
+
+async function deployMarket(
+    admin: SignerWithAddress,
+    uniV3Factory: UniswapV3Factory,
+    quoteToken: QuoteToken,
+    config: MarketConfig,
+): Promise<MarketFixture> {
+    const feeTier = config.feeTier === undefined ? 10000 : config.feeTier
+    const mockedPriceFeedDispatcher = await deployMockPriceFeedDispatcher()
+
+    await skipNoncesUntil(admin, address => isAscendingTokenOrder(address, quoteToken.address))
+    const baseToken = (await (await ethers.getContractFactory("BaseToken")).deploy()) as BaseToken
+    await baseToken.initialize(`Test${config.symbol}`, config.symbol, mockedPriceFeedDispatcher.address)
+
+    await uniV3Factory.createPool(baseToken.address, quoteToken.address, feeTier)
+    const poolAddr = await uniV3Factory.getPool(baseToken.address, quoteToken.address, feeTier)
+    const pool = (await ethers.getContractFactory("UniswapV3Pool")).attach(poolAddr) as UniswapV3Pool
+    await baseToken.addWhitelist(pool.address)
+    await quoteToken.addWhitelist(pool.address)
+
+    return { symbol: config.symbol, baseToken, pool, feeTier, mockedPriceFeedDispatcher }
+}
+
+// the same as initMarket() with the index price mocked to the market price
+async function initializeMarket(
+    marketRegistry: MarketRegistry,
+    exchange: TestExchange | Exchange,
+    market: MarketFixture,
+    config: MarketConfig,
+): Promise<void> {
+    const { baseToken, pool } = market
+    await mockIndexPrice(market.mockedPriceFeedDispatcher, config.price)
+    await pool.initialize(encodePriceSqrt(config.price, "1"))
+    // the initial number of oracle can be recorded is 1; thus, have to expand it
+    await pool.increaseObservationCardinalityNext(500)
+
+    await marketRegistry.addPool(baseToken.address, market.feeTier)
+    await marketRegistry.setFeeRatio(baseToken.address, config.exFeeRatio === undefined ? 10000 : config.exFeeRatio)
+    await marketRegistry.setInsuranceFundFeeRatio(
+        baseToken.address,
+        config.ifFeeRatio === undefined ? 100000 : config.ifFeeRatio,
+    )
+    if (config.maxTickCrossedWithinBlock) {
+        await exchange.setMaxTickCrossedWithinBlock(baseToken.address, config.maxTickCrossedWithinBlock)
+    }
+}
+
+async function deployCollateral(
+    collateralManager: CollateralManager,
+    config: CollateralConfig,
+): Promise<CollateralFixture> {
+    const token = (await (await ethers.getContractFactory("TestERC20")).deploy()) as TestERC20
+    await token.__TestERC20_init(`Test${config.symbol}`, config.symbol, config.decimals)
+
+    const mockedPriceFeed = await deployMockPriceFeedDispatcher(8)
+    await mockedPriceFeed.setPrice(parseUnits(config.price, 8))
+
+    await collateralManager.addCollateral(token.address, {
+        priceFeed: mockedPriceFeed.address,
+        collateralRatio: config.collateralRatio,
+        discountRatio: config.discountRatio,
+        depositCap: parseUnits(config.depositCap, config.decimals),
+    })
+    return { symbol: config.symbol, token, mockedPriceFeed }
+}
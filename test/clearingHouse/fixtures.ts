@@ -10,6 +10,7 @@ import {
     Exchange,
     InsuranceFund,
     MarketRegistry,
+    MockPriceFeedDispatcher,
     OrderBook,
     TestClearingHouse,
     TestERC20,
@@ -21,6 +22,7 @@ import {
     Vault,
 } from "../../typechain"
 import { createQuoteTokenFixture, token0Fixture, tokensFixture, uniswapV3FactoryFixture } from "../shared/fixtures"
+import { deployMockPriceFeedDispatcher } from "../shared/mock"
 
 import { ethers, waffle } from "hardhat"
 import { QuoteToken } from "../../typechain/QuoteToken"
@@ -29,7 +31,6 @@ import { ChainlinkPriceFeedV2, ChainlinkPriceFeedV3, PriceFeedDispatcher } from
 import {
     CACHED_TWAP_INTERVAL,
     CHAINLINK_AGGREGATOR_DECIMALS,
-    PRICEFEED_DISPATCHER_DECIMALS,
     USDC_DECIMALS,
     WBTC_DECIMALS,
     WETH_DECIMALS,
@@ -53,10 +54,10 @@ export interface ClearingHouseFixture {
     WBTC: TestERC20
     mockedWethPriceFeed: MockContract
     mockedWbtcPriceFeed: MockContract
-    mockedPriceFeedDispatcher: MockContract
-    mockedPriceFeedDispatcher2: MockContract
-    mockedWethPriceFeedDispatcher: MockContract
-    mockedWbtcPriceFeedDispatcher: MockContract
+    mockedPriceFeedDispatcher: MockPriceFeedDispatcher
+    mockedPriceFeedDispatcher2: MockPriceFeedDispatcher
+    mockedWethPriceFeedDispatcher: MockPriceFeedDispatcher
+    mockedWbtcPriceFeedDispatcher: MockPriceFeedDispatcher
     quoteToken: QuoteToken
     baseToken: BaseToken
     baseToken2: BaseToken
@@ -109,22 +110,6 @@ export function createClearingHouseFixture(
         // price feed for weth and wbtc
         const aggregatorFactory = await ethers.getContractFactory("TestAggregatorV3")
         const aggregator = await aggregatorFactory.deploy()
-        const mockedAggregator = await smockit(aggregator)
-        mockedAggregator.smocked.decimals.will.return.with(async () => {
-            return CHAINLINK_AGGREGATOR_DECIMALS
-        })
-
-        const chainlinkPriceFeedV3Factory = await ethers.getContractFactory("ChainlinkPriceFeedV3")
-        const wethChainlinkPriceFeedV3 = (await chainlinkPriceFeedV3Factory.deploy(
-            mockedAggregator.address,
-            40 * 60, // 40 mins
-            CACHED_TWAP_INTERVAL,
-        )) as ChainlinkPriceFeedV3
-        const wbtcChainlinkPriceFeedV3 = (await chainlinkPriceFeedV3Factory.deploy(
-            mockedAggregator.address,
-            40 * 60, // 40 mins
-            CACHED_TWAP_INTERVAL,
-        )) as ChainlinkPriceFeedV3
 
         const chainlinkPriceFeedFactory = await ethers.getContractFactory("ChainlinkPriceFeedV2")
         const wethPriceFeed = (await chainlinkPriceFeedFactory.deploy(aggregator.address, 0)) as ChainlinkPriceFeedV2
@@ -134,22 +119,8 @@ export function createClearingHouseFixture(
         mockedWethPriceFeed.smocked.decimals.will.return.with(8)
         mockedWbtcPriceFeed.smocked.decimals.will.return.with(8)
 
-        const priceFeedDispatcherFactory = await ethers.getContractFactory("PriceFeedDispatcher")
-        const wethPriceFeedDispatcher = (await priceFeedDispatcherFactory.deploy(
-            wethChainlinkPriceFeedV3.address,
-        )) as PriceFeedDispatcher
-        const mockedWethPriceFeedDispatcher = await smockit(wethPriceFeedDispatcher)
-        mockedWethPriceFeedDispatcher.smocked.decimals.will.return.with(async () => {
-            return PRICEFEED_DISPATCHER_DECIMALS
-        })
-
-        const wbtcPriceFeedDispatcher = (await priceFeedDispatcherFactory.deploy(
-            wbtcChainlinkPriceFeedV3.address,
-        )) as PriceFeedDispatcher
-        const mockedWbtcPriceFeedDispatcher = await smockit(wbtcPriceFeedDispatcher)
-        mockedWbtcPriceFeedDispatcher.smocked.decimals.will.return.with(async () => {
-            return PRICEFEED_DISPATCHER_DECIMALS
-        })
+        const mockedWethPriceFeedDispatcher = await deployMockPriceFeedDispatcher()
+        const mockedWbtcPriceFeedDispatcher = await deployMockPriceFeedDispatcher()
 
         // we assume (base, quote) == (token0, token1)
         baseToken = token0
@@ -1,8 +1,7 @@
-import { MockContract } from "@eth-optimism/smock"
 import { expect } from "chai"
 import { parseUnits } from "ethers/lib/utils"
 import { waffle } from "hardhat"
-import { TestERC20, UniswapV3Pool, Vault } from "../../typechain"
+import { MockPriceFeedDispatcher, TestERC20, UniswapV3Pool, Vault } from "../../typechain"
 import { ClearingHouseFixture, createClearingHouseFixture } from "../clearingHouse/fixtures"
 import { addOrder, closePosition, q2bExactInput, removeAllOrders } from "../helper/clearingHouseHelper"
 import { initMarket } from "../helper/marketHelper"
@@ -15,7 +14,7 @@ describe("Exchange complicated test", () => {
     let vault: Vault
     let usdc: TestERC20
     let pool: UniswapV3Pool
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let usdcDecimals: number
     let fixture: ClearingHouseFixture
 
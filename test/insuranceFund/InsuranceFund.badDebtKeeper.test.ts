@@ -0,0 +1,136 @@
+import { MockContract, smockit } from "@eth-optimism/smock"
+import { expect } from "chai"
+import { parseEther, parseUnits } from "ethers/lib/utils"
+import { ethers, waffle } from "hardhat"
+import { BadDebtKeeper } from "../../scripts/keeper/badDebtKeeper"
+import { InsuranceFund, TestAccountBalance, TestERC20, Vault } from "../../typechain"
+import { ClearingHouseFixture, createClearingHouseFixture } from "../clearingHouse/fixtures"
+import { addOrder, q2bExactInput } from "../helper/clearingHouseHelper"
+import { initMarket } from "../helper/marketHelper"
+import { deposit } from "../helper/token"
+import { mockIndexPrice } from "../shared/utilities"
+
+describe("InsuranceFund bad debt keeper", () => {
+    const [admin, alice, bob, carol] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    let fixture: ClearingHouseFixture
+    let vault: Vault
+    let usdc: TestERC20
+    let usdcDecimals: number
+    let insuranceFund: InsuranceFund
+    let accountBalance: TestAccountBalance
+    let keeper: BadDebtKeeper
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseFixture())
+        vault = fixture.vault
+        accountBalance = fixture.accountBalance as TestAccountBalance
+        usdc = fixture.USDC
+        usdcDecimals = await usdc.decimals()
+        insuranceFund = fixture.insuranceFund
+
+        const { maxTick, minTick } = await initMarket(fixture, "10", undefined, 0)
+        await mockIndexPrice(fixture.mockedPriceFeedDispatcher, "10")
+
+        // bob is the maker
+        await usdc.mint(bob.address, parseUnits("1000", usdcDecimals))
+        await deposit(bob, vault, 1000, usdc)
+        await addOrder(fixture, bob, 10, 100, minTick, maxTick)
+
+        // alice has no position, account value: 50 - 100 = -50
+        await usdc.mint(alice.address, parseUnits("50", usdcDecimals))
+        await deposit(alice, vault, 50, usdc)
+        await accountBalance.testModifyOwedRealizedPnl(alice.address, parseEther("-100"))
+
+        // carol still has a position, account value is negative but her bad debt cannot be settled yet
+        await usdc.mint(carol.address, parseUnits("100", usdcDecimals))
+        await deposit(carol, vault, 100, usdc)
+        await q2bExactInput(fixture, carol, 10)
+        await accountBalance.testModifyOwedRealizedPnl(carol.address, parseEther("-200"))
+
+        await usdc.mint(admin.address, parseUnits("1000", usdcDecimals))
+        await usdc.connect(admin).approve(vault.address, ethers.constants.MaxUint256)
+
+        keeper = new BadDebtKeeper(
+            { clearingHouse: fixture.clearingHouse, accountBalance, vault, insuranceFund },
+            admin,
+            0,
+            () => {},
+        )
+    })
+
+    it("settles the bad debt of the traders without any position", async () => {
+        expect(await vault.getAccountValue(carol.address)).to.be.lt(0)
+
+        const { settlements, repaid, distributed } = await keeper.runOnce()
+        expect(settlements.map(settlement => [settlement.trader, settlement.badDebt])).to.deep.eq([
+            [alice.address, parseUnits("50", usdcDecimals)],
+        ])
+        const receipt = await waffle.provider.getTransactionReceipt(settlements[0].txHash)
+        const [log] = receipt.logs
+            .filter(log => log.topics[0] === vault.interface.getEventTopic("BadDebtSettled"))
+            .map(log => vault.interface.parseLog(log))
+        expect(log.args.trader).to.be.eq(alice.address)
+        expect(log.args.amount).to.be.eq(parseUnits("50", usdcDecimals))
+
+        // the bad debt is moved to the insurance fund, which has nothing in its wallet to repay
+        expect(await vault.getAccountValue(alice.address)).to.be.eq(0)
+        expect(await vault.getSettlementTokenValue(insuranceFund.address)).to.be.eq(parseUnits("-50", usdcDecimals))
+        expect(repaid).to.be.eq(0)
+        expect(distributed).to.be.eq(0)
+
+        // nothing to do in the next round
+        expect((await keeper.runOnce()).settlements).to.deep.eq([])
+    })
+
+    it("repays the debt of the insurance fund with its wallet balance", async () => {
+        await keeper.runOnce()
+
+        // capacity: -50 + 30 = -20, repaid: min(30, 50) = 30
+        await usdc.mint(insuranceFund.address, parseUnits("30", usdcDecimals))
+        expect(await keeper.getRepayableAmount()).to.be.eq(parseUnits("30", usdcDecimals))
+        expect((await keeper.runOnce()).repaid).to.be.eq(parseUnits("30", usdcDecimals))
+        expect(await vault.getSettlementTokenValue(insuranceFund.address)).to.be.eq(parseUnits("-20", usdcDecimals))
+
+        // capacity: -20 + 100 = 80, repaid: min(100, 20) = 20
+        await usdc.mint(insuranceFund.address, parseUnits("100", usdcDecimals))
+        expect((await keeper.runOnce()).repaid).to.be.eq(parseUnits("20", usdcDecimals))
+        expect(await vault.getSettlementTokenValue(insuranceFund.address)).to.be.eq(0)
+        expect(await usdc.balanceOf(insuranceFund.address)).to.be.eq(parseUnits("80", usdcDecimals))
+
+        expect((await keeper.runOnce()).repaid).to.be.eq(0)
+    })
+
+    describe("surplus beneficiary is set", () => {
+        let mockSurplusBeneficiary: MockContract
+
+        beforeEach(async () => {
+            const testSurplusBeneficiaryFactory = await ethers.getContractFactory("SurplusBeneficiary")
+            mockSurplusBeneficiary = await smockit(testSurplusBeneficiaryFactory.interface)
+            mockSurplusBeneficiary.smocked.getToken.will.return.with(() => usdc.address)
+            await insuranceFund.setSurplusBeneficiary(mockSurplusBeneficiary.address)
+        })
+
+        it("does not distribute fee when the distribution threshold is not set", async () => {
+            await vault.depositFor(insuranceFund.address, usdc.address, parseUnits("200", usdcDecimals))
+
+            expect(await keeper.getDistributableSurplus()).to.be.eq(0)
+            expect((await keeper.runOnce()).distributed).to.be.eq(0)
+        })
+
+        it("distributes the surplus once the distribution threshold is exceeded", async () => {
+            await insuranceFund.setDistributionThreshold(parseUnits("100", usdcDecimals))
+
+            // capacity: 120 - 50 (alice's bad debt) = 70 < 100
+            await vault.depositFor(insuranceFund.address, usdc.address, parseUnits("120", usdcDecimals))
+            expect((await keeper.runOnce()).distributed).to.be.eq(0)
+
+            // capacity: 70 + 80 = 150, surplus: min(150 - 100, 150) = 50
+            await vault.depositFor(insuranceFund.address, usdc.address, parseUnits("80", usdcDecimals))
+            expect(await keeper.getDistributableSurplus()).to.be.eq(parseUnits("50", usdcDecimals))
+            expect((await keeper.runOnce()).distributed).to.be.eq(parseUnits("50", usdcDecimals))
+            expect(await usdc.balanceOf(mockSurplusBeneficiary.address)).to.be.eq(parseUnits("50", usdcDecimals))
+            expect(await insuranceFund.getInsuranceFundCapacity()).to.be.eq(parseUnits("100", usdcDecimals))
+        })
+    })
+})
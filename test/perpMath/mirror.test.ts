@@ -0,0 +1,382 @@
+import { expect } from "chai"
+import { BigNumber } from "ethers"
+import { ethers } from "hardhat"
+import * as perpMath from "../../scripts/math/perpMath"
+import * as perpSafeCast from "../../scripts/math/perpSafeCast"
+import * as settlementTokenMath from "../../scripts/math/settlementTokenMath"
+import { TestPerpMath, TestPerpSafeCast, TestSettlementTokenMath } from "../../typechain"
+import { Random } from "../shared/random"
+
+// property tests to make sure the off-chain math in scripts/math/ never drifts from the solidity libraries
+describe("Off-chain math mirror test", () => {
+    const runs = 30
+    const random = new Random()
+
+    let testPerpMath: TestPerpMath
+    let testPerpSafeCast: TestPerpSafeCast
+    let testSettlementTokenMath: TestSettlementTokenMath
+
+    // compares either the result or the revert reason of both sides
+    async function expectSameResult(onChain: () => Promise<BigNumber | boolean>, offChain: () => BigNumber | boolean) {
+        let expected: BigNumber | boolean
+        try {
+            expected = await onChain()
+        } catch (error) {
+            const reason = /reverted with reason string '(.*)'/.exec(error.message)
+            if (reason) {
+                expect(offChain).to.throw(reason[1])
+            } else {
+                expect(offChain).to.throw()
+            }
+            return
+        }
+        expect(offChain(), `seed: ${random.seed}`).to.be.deep.eq(expected)
+    }
+
+    before(async () => {
+        testPerpMath = (await (await ethers.getContractFactory("TestPerpMath")).deploy()) as TestPerpMath
+        testPerpSafeCast = (await (await ethers.getContractFactory("TestPerpSafeCast")).deploy()) as TestPerpSafeCast
+        testSettlementTokenMath = (await (
+            await ethers.getContractFactory("TestSettlementTokenMath")
+        ).deploy()) as TestSettlementTokenMath
+    })
+
+    describe("PerpMath", () => {
+        it("formatSqrtPriceX96ToPriceX96", async () => {
+            for (let i = 0; i < runs; i++) {
+                const value = random.uint(160)
+                await expectSameResult(
+                    () => testPerpMath.testFormatSqrtPriceX96ToPriceX96(value),
+                    () => perpMath.formatSqrtPriceX96ToPriceX96(value),
+                )
+            }
+        })
+
+        it("formatX10_18ToX96 and formatX96ToX10_18", async () => {
+            for (let i = 0; i < runs; i++) {
+                const value = random.uint()
+                await expectSameResult(
+                    () => testPerpMath.testFormatX10_18ToX96(value),
+                    () => perpMath.formatX10_18ToX96(value),
+                )
+                await expectSameResult(
+                    () => testPerpMath.testFormatX96ToX10_18(value),
+                    () => perpMath.formatX96ToX10_18(value),
+                )
+            }
+        })
+
+        it("max, min and abs", async () => {
+            for (let i = 0; i < runs; i++) {
+                const a = random.int256()
+                const b = random.int256()
+                await expectSameResult(
+                    () => testPerpMath.testMax(a, b),
+                    () => perpMath.max(a, b),
+                )
+                await expectSameResult(
+                    () => testPerpMath.testMin(a, b),
+                    () => perpMath.min(a, b),
+                )
+                await expectSameResult(
+                    () => testPerpMath.testAbs(a),
+                    () => perpMath.abs(a),
+                )
+            }
+            await expectSameResult(
+                () => testPerpMath.testAbs(ethers.constants.MinInt256),
+                () => perpMath.abs(ethers.constants.MinInt256),
+            )
+        })
+
+        it("divBy10_18", async () => {
+            for (let i = 0; i < runs; i++) {
+                const unsigned = random.uint()
+                const signed = random.int256()
+                await expectSameResult(
+                    () => testPerpMath["testDivBy10_18(uint256)"](unsigned),
+                    () => perpMath.divBy10_18(unsigned),
+                )
+                await expectSameResult(
+                    () => testPerpMath["testDivBy10_18(int256)"](signed),
+                    () => perpMath.divBy10_18Int(signed),
+                )
+            }
+        })
+
+        it("mulRatio", async () => {
+            for (let i = 0; i < runs; i++) {
+                const unsigned = random.uint()
+                const signed = random.int256()
+                const ratio = random.uint(24)
+                await expectSameResult(
+                    () => testPerpMath["testMulRatio(uint256,uint24)"](unsigned, ratio),
+                    () => perpMath.mulRatio(unsigned, ratio),
+                )
+                await expectSameResult(
+                    () => testPerpMath["testMulRatio(int256,uint24)"](signed, ratio),
+                    () => perpMath.mulRatioInt(signed, ratio),
+                )
+            }
+        })
+
+        it("neg128", async () => {
+            for (let i = 0; i < runs; i++) {
+                const value = random.int256(128)
+                await expectSameResult(
+                    () => testPerpMath.testNeg128(value),
+                    () => perpMath.neg128(value),
+                )
+            }
+            const minInt128 = BigNumber.from(1).shl(127).mul(-1)
+            await expectSameResult(
+                () => testPerpMath.testNeg128(minInt128),
+                () => perpMath.neg128(minInt128),
+            )
+        })
+
+        it("subRatio and divRatio", async () => {
+            for (let i = 0; i < runs; i++) {
+                const a = random.uint(24)
+                const b = random.uint(24)
+                const value = random.uint()
+                await expectSameResult(
+                    () => testPerpMath.testSubRatio(a, b),
+                    () => perpMath.subRatio(a, b),
+                )
+                await expectSameResult(
+                    () => testPerpMath.testDivRatio(value, a),
+                    () => perpMath.divRatio(value, a),
+                )
+            }
+        })
+
+        it("mulDiv", async () => {
+            for (let i = 0; i < runs; i++) {
+                const a = random.int256()
+                const b = random.int256()
+                const denominator = random.uint()
+                await expectSameResult(
+                    () => testPerpMath.testMulDiv(a, b, denominator),
+                    () => perpMath.mulDiv(a, b, denominator),
+                )
+            }
+            await expectSameResult(
+                () => testPerpMath.testMulDiv(ethers.constants.MinInt256, 1, 1),
+                () => perpMath.mulDiv(ethers.constants.MinInt256, 1, 1),
+            )
+        })
+
+        it("findMedianOfThree", async () => {
+            for (let i = 0; i < runs; i++) {
+                // small values to hit the equal cases from time to time
+                const [v1, v2, v3] = [0, 1, 2].map(() => (random.bool() ? random.uint(4) : random.uint()))
+                await expectSameResult(
+                    () => testPerpMath.testFindMedianOfThree(v1, v2, v3),
+                    () => perpMath.findMedianOfThree(v1, v2, v3),
+                )
+            }
+        })
+    })
+
+    describe("PerpSafeCast", () => {
+        it("downcast uint256", async () => {
+            for (let i = 0; i < runs; i++) {
+                const value = random.uint(Math.min(random.pick([8, 16, 32, 64, 128, 256]) + 1, 256))
+                await expectSameResult(
+                    () => testPerpSafeCast.testToUint128(value),
+                    () => perpSafeCast.toUint128(value),
+                )
+                await expectSameResult(
+                    () => testPerpSafeCast.testToUint64(value),
+                    () => perpSafeCast.toUint64(value),
+                )
+                await expectSameResult(
+                    () => testPerpSafeCast.testToUint32(value),
+                    () => perpSafeCast.toUint32(value),
+                )
+                await expectSameResult(
+                    () => testPerpSafeCast.testToUint16(value),
+                    () => perpSafeCast.toUint16(value),
+                )
+                await expectSameResult(
+                    () => testPerpSafeCast.testToUint8(value),
+                    () => perpSafeCast.toUint8(value),
+                )
+                await expectSameResult(
+                    () => testPerpSafeCast.testToInt256(value),
+                    () => perpSafeCast.toInt256(value),
+                )
+            }
+        })
+
+        it("downcast int256", async () => {
+            for (let i = 0; i < runs; i++) {
+                const value = random.int256(Math.min(random.pick([8, 16, 24, 32, 64, 128, 256]) + 1, 256))
+                await expectSameResult(
+                    () => testPerpSafeCast.testToUint256(value),
+                    () => perpSafeCast.toUint256(value),
+                )
+                await expectSameResult(
+                    () => testPerpSafeCast.testToUint24(value),
+                    () => perpSafeCast.toUint24FromInt256(value),
+                )
+                await expectSameResult(
+                    () => testPerpSafeCast.testToInt128(value),
+                    () => perpSafeCast.toInt128(value),
+                )
+                await expectSameResult(
+                    () => testPerpSafeCast.testToInt64(value),
+                    () => perpSafeCast.toInt64(value),
+                )
+                await expectSameResult(
+                    () => testPerpSafeCast.testToInt32(value),
+                    () => perpSafeCast.toInt32(value),
+                )
+                await expectSameResult(
+                    () => testPerpSafeCast.testToInt24(value),
+                    () => perpSafeCast.toInt24(value),
+                )
+                await expectSameResult(
+                    () => testPerpSafeCast.testToInt16(value),
+                    () => perpSafeCast.toInt16(value),
+                )
+                await expectSameResult(
+                    () => testPerpSafeCast.testToInt8(value),
+                    () => perpSafeCast.toInt8(value),
+                )
+            }
+        })
+    })
+
+    describe("SettlementTokenMath", () => {
+        it("parseSettlementToken and formatSettlementToken", async () => {
+            for (let i = 0; i < runs; i++) {
+                const decimals = random.int(0, 18)
+                const unsigned = random.uint()
+                const signed = random.int256()
+                await expectSameResult(
+                    () => testSettlementTokenMath["testParseSettlementToken(uint256,uint8)"](unsigned, decimals),
+                    () => settlementTokenMath.parseSettlementToken(unsigned, decimals),
+                )
+                await expectSameResult(
+                    () => testSettlementTokenMath["testParseSettlementToken(int256,uint8)"](signed, decimals),
+                    () => settlementTokenMath.parseSettlementTokenInt(signed, decimals),
+                )
+                await expectSameResult(
+                    () => testSettlementTokenMath["testFormatSettlementToken(uint256,uint8)"](unsigned, decimals),
+                    () => settlementTokenMath.formatSettlementToken(unsigned, decimals),
+                )
+                await expectSameResult(
+                    () => testSettlementTokenMath["testFormatSettlementToken(int256,uint8)"](signed, decimals),
+                    () => settlementTokenMath.formatSettlementTokenInt(signed, decimals),
+                )
+            }
+        })
+
+        it("compare settlement token with amountX10_18", async () => {
+            for (let i = 0; i < runs; i++) {
+                const decimals = random.int(0, 18)
+                const settlementToken = random.int256(128)
+                // make the comparison close enough to hit the equal case from time to time
+                const amountX10_18 = random.bool()
+                    ? settlementTokenMath.parseSettlementTokenInt(settlementToken, decimals)
+                    : random.int256(128)
+                await expectSameResult(
+                    () =>
+                        testSettlementTokenMath["testLte(int256,int256,uint8)"](
+                            settlementToken,
+                            amountX10_18,
+                            decimals,
+                        ),
+                    () => settlementTokenMath.lteInt(settlementToken, amountX10_18, decimals),
+                )
+                await expectSameResult(
+                    () =>
+                        testSettlementTokenMath["testLt(int256,int256,uint8)"](settlementToken, amountX10_18, decimals),
+                    () => settlementTokenMath.ltInt(settlementToken, amountX10_18, decimals),
+                )
+                await expectSameResult(
+                    () =>
+                        testSettlementTokenMath["testGte(int256,int256,uint8)"](
+                            settlementToken,
+                            amountX10_18,
+                            decimals,
+                        ),
+                    () => settlementTokenMath.gteInt(settlementToken, amountX10_18, decimals),
+                )
+                await expectSameResult(
+                    () =>
+                        testSettlementTokenMath["testGt(int256,int256,uint8)"](settlementToken, amountX10_18, decimals),
+                    () => settlementTokenMath.gtInt(settlementToken, amountX10_18, decimals),
+                )
+
+                const unsignedToken = settlementToken.abs()
+                const unsignedAmount = amountX10_18.abs()
+                await expectSameResult(
+                    () =>
+                        testSettlementTokenMath["testLte(uint256,uint256,uint8)"](
+                            unsignedToken,
+                            unsignedAmount,
+                            decimals,
+                        ),
+                    () => settlementTokenMath.lte(unsignedToken, unsignedAmount, decimals),
+                )
+                await expectSameResult(
+                    () =>
+                        testSettlementTokenMath["testLt(uint256,uint256,uint8)"](
+                            unsignedToken,
+                            unsignedAmount,
+                            decimals,
+                        ),
+                    () => settlementTokenMath.lt(unsignedToken, unsignedAmount, decimals),
+                )
+                await expectSameResult(
+                    () =>
+                        testSettlementTokenMath["testGte(uint256,uint256,uint8)"](
+                            unsignedToken,
+                            unsignedAmount,
+                            decimals,
+                        ),
+                    () => settlementTokenMath.gte(unsignedToken, unsignedAmount, decimals),
+                )
+                await expectSameResult(
+                    () =>
+                        testSettlementTokenMath["testGt(uint256,uint256,uint8)"](
+                            unsignedToken,
+                            unsignedAmount,
+                            decimals,
+                        ),
+                    () => settlementTokenMath.gt(unsignedToken, unsignedAmount, decimals),
+                )
+            }
+        })
+
+        it("convertTokenDecimals", async () => {
+            for (let i = 0; i < runs; i++) {
+                const fromDecimals = random.int(0, 30)
+                const toDecimals = random.int(0, 30)
+                const unsigned = random.uint()
+                const signed = random.int256()
+                await expectSameResult(
+                    () =>
+                        testSettlementTokenMath["testConvertTokenDecimals(uint256,uint8,uint8)"](
+                            unsigned,
+                            fromDecimals,
+                            toDecimals,
+                        ),
+                    () => settlementTokenMath.convertTokenDecimals(unsigned, fromDecimals, toDecimals),
+                )
+                await expectSameResult(
+                    () =>
+                        testSettlementTokenMath["testConvertTokenDecimals(int256,uint8,uint8)"](
+                            signed,
+                            fromDecimals,
+                            toDecimals,
+                        ),
+                    () => settlementTokenMath.convertTokenDecimalsInt(signed, fromDecimals, toDecimals),
+                )
+            }
+        })
+    })
+})
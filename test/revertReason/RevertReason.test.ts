@@ -0,0 +1,181 @@
+import { expect } from "chai"
+import { defaultAbiCoder } from "ethers/lib/utils"
+import { waffle } from "hardhat"
+import {
+    decodeRevert,
+    decodeRevertData,
+    extractRevertReasonSites,
+    formatCoverage,
+    getAssertedRevertReasons,
+    getRevertReasonCatalog,
+    getRevertReasonCoverage,
+    RevertReasonCatalog,
+} from "../../scripts/revertReason"
+import { createClearingHouseFixture } from "../clearingHouse/fixtures"
+
+describe("Revert reasons", () => {
+    const [admin, alice] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    let catalog: RevertReasonCatalog
+
+    function encodeError(reason: string): string {
+        return `0x08c379a0${defaultAbiCoder.encode(["string"], [reason]).slice(2)}`
+    }
+
+    beforeEach(async () => {
+        catalog = getRevertReasonCatalog()
+    })
+
+    describe("catalog", () => {
+        it("extracts the reasons of the contracts with their comments", async () => {
+            expect(catalog.V_IBA.description).to.be.eq(
+                "inconsistent balance amount, to prevent from deflationary tokens",
+            )
+            expect(catalog.V_IBA.sites).to.be.deep.eq([
+                {
+                    file: "contracts/Vault.sol",
+                    line: catalog.V_IBA.sites[0].line,
+                    statement: "require",
+                    comment: "V_IBA: inconsistent balance amount, to prevent from deflationary tokens",
+                },
+            ])
+            // in the statement, above the if block and with a space before the colon
+            expect(catalog.CH_NEFCM.description).to.be.eq("not enough free collateral by mmRatio")
+            expect(catalog.UB_UOA.description).to.be.eq("unmatched output amount")
+            expect(catalog.CM_ICMR.description).to.be.eq("invalid collateralMmRatio")
+            // without the prefix of the reason
+            expect(catalog.V_ISTD.description).to.be.eq("invalid settlementToken decimals")
+
+            expect(catalog.V_DFZA.sites.length).to.be.eq(2)
+            expect(Object.keys(catalog)).to.be.deep.eq(Object.keys(catalog).sort())
+        })
+
+        it("excludes the contracts of the tests", async () => {
+            // MockCallRecorder of contracts/test
+            expect(catalog.MCR_OS).to.be.undefined
+            expect(getRevertReasonCatalog("contracts", []).MCR_OS.sites[0].file).to.be.eq(
+                "contracts/test/MockCallRecorder.sol",
+            )
+            for (const { sites } of Object.values(catalog)) {
+                for (const { file } of sites) {
+                    expect(file).to.not.match(/^contracts\/(test|hardhat-dependency-compiler)\//)
+                }
+            }
+            // the deployed contracts are included, e.g. SignedOrderBook
+            expect(catalog.SOB_SINT.sites[0].file).to.be.eq("contracts/SignedOrderBook.sol")
+        })
+
+        it("extracts the require() and revert() with a string literal", async () => {
+            const source = [
+                "contract Foo {",
+                "    function foo(uint256 a, string memory reason) external {",
+                "        // F_ZA: zero amount",
+                '        require(a > 0, "F_ZA");',
+                "        require(",
+                '            keccak256("(a, b)") != bytes32(0),',
+                "            // F_IH: invalid hash",
+                '            "F_IH"',
+                "        );",
+                '        require(a < 10, "F_TL"); // too large',
+                '        // require(a < 5, "F_OLD");',
+                "        require(a != 1);",
+                "        if (a == 2) {",
+                "            revert(reason);",
+                "        }",
+                "        // a note of the following revert",
+                "        // which can be on several lines",
+                '        revert("F_R");',
+                "    }",
+                "}",
+            ].join("\n")
+
+            const sites = extractRevertReasonSites(source, "Foo.sol")
+            expect(sites.map(({ reason, site }) => [reason, site.line, site.statement, site.comment])).to.be.deep.eq([
+                ["F_ZA", 4, "require", "F_ZA: zero amount"],
+                ["F_IH", 5, "require", "F_IH: invalid hash"],
+                ["F_TL", 10, "require", "too large"],
+                ["F_R", 18, "revert", "a note of the following revert which can be on several lines"],
+            ])
+        })
+    })
+
+    describe("decoder", () => {
+        it("decodes the revert data of Error(string)", async () => {
+            expect(decodeRevertData(encodeError("V_NEFC"))).to.be.eq("V_NEFC")
+            expect(decodeRevertData("0x")).to.be.undefined
+            expect(decodeRevertData("0x4e487b710000")).to.be.undefined
+        })
+
+        it("explains the errors of hardhat, ethers and json-rpc nodes", async () => {
+            const explanation = decodeRevert({ data: encodeError("V_NEFC") }, catalog).explanation
+            expect(explanation).to.match(/^V_NEFC: not enough freeCollateral \(contracts\/Vault\.sol:\d+\)$/)
+
+            for (const error of [
+                new Error("VM Exception while processing transaction: revert V_NEFC"),
+                new Error("VM Exception while processing transaction: reverted with reason string 'V_NEFC'"),
+                {
+                    message: "processing response error",
+                    error: {
+                        body: JSON.stringify({ error: { code: 3, message: "execution reverted: V_NEFC" } }),
+                    },
+                },
+                "execution reverted: V_NEFC",
+            ]) {
+                const decoded = decodeRevert(error, catalog)
+                expect(decoded.reason).to.be.eq("V_NEFC")
+                expect(decoded.revertReason).to.be.eq(catalog.V_NEFC)
+                expect(decoded.explanation).to.be.eq(explanation)
+            }
+        })
+
+        it("explains the reason of a failed tx and eth_call", async () => {
+            const { vault, USDC } = await loadFixture(createClearingHouseFixture())
+
+            for (const send of [
+                () => vault.connect(alice).withdraw(USDC.address, 1),
+                () => vault.connect(alice).callStatic.withdraw(USDC.address, 1),
+            ]) {
+                try {
+                    await send()
+                    expect.fail("not reverted")
+                } catch (error) {
+                    expect(decodeRevert(error, catalog).reason).to.be.eq("V_NEFC")
+                }
+            }
+        })
+
+        it("explains the reasons not in the catalog and the reverts without a reason", async () => {
+            expect(decodeRevert({ data: encodeError("FOO_BAR") }, catalog)).to.be.deep.eq({
+                reason: "FOO_BAR",
+                explanation: "FOO_BAR (not in the catalog)",
+            })
+            expect(decodeRevert(new Error("Transaction reverted without a reason"), catalog)).to.be.deep.eq({
+                explanation: "reverted without a reason: Transaction reverted without a reason",
+            })
+        })
+    })
+
+    describe("coverage", () => {
+        it("finds the reasons asserted by the tests and the scenarios", async () => {
+            const asserted = getAssertedRevertReasons()
+            expect(asserted).to.include("V_NEFC")
+            expect(asserted).to.include("CH_NEFCI")
+            expect(asserted).to.be.deep.eq(asserted.slice().sort())
+        })
+
+        it("lists the reasons never asserted", async () => {
+            const coverage = getRevertReasonCoverage(catalog, ["V_IBA", "V_NEFC", "FOO_BAR"])
+
+            expect(coverage.asserted).to.be.deep.eq(["V_IBA", "V_NEFC"])
+            expect(coverage.unasserted.length).to.be.eq(Object.keys(catalog).length - 2)
+            expect(coverage.unasserted.map(({ reason }) => reason)).to.not.include("V_IBA")
+
+            const lines = formatCoverage(coverage).split("\n")
+            expect(lines[0]).to.be.eq(`2/${Object.keys(catalog).length} revert reasons are asserted by revertedWith`)
+            expect(lines[1]).to.be.eq("never asserted:")
+            expect(lines).to.include(
+                `    V_ISTD     contracts/Vault.sol:${catalog.V_ISTD.sites[0].line} invalid settlementToken decimals`,
+            )
+        })
+    })
+})
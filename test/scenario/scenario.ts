@@ -0,0 +1,191 @@
+import fs from "fs"
+import yaml from "js-yaml"
+import { extname, join } from "path"
+
+// a scenario is a list of steps run by ScenarioRunner against createClearingHouseFixture(), see README.md
+export const SCENARIO_DIR = join(__dirname, "scenarios")
+
+export type ScenarioValue = string | number | boolean
+
+// an amount is in `decimals`, 18 by default, e.g. "1.5" of quote or "100" of USDC with decimals 6;
+// a value without any comparison is only recorded in the trace
+export interface ScenarioExpectation {
+    eq?: ScenarioValue
+    closeTo?: ScenarioValue
+    delta?: ScenarioValue
+    gt?: ScenarioValue
+    gte?: ScenarioValue
+    lt?: ScenarioValue
+    lte?: ScenarioValue
+    decimals?: number
+}
+
+export interface ScenarioAssertion extends ScenarioExpectation {
+    // "<contract>.<view function>", e.g. "accountBalance.getTakerPositionSize"
+    call: string
+    // "$<name>" is the address of a trader or a contract, e.g. "$alice", "$baseToken"
+    args?: ScenarioValue[]
+    // the field of a result with multiple values, e.g. "liquidity" of orderBook.getOpenOrder
+    field?: string
+}
+
+export interface ScenarioEventExpectation {
+    // e.g. "clearingHouse", "accountBalance", "exchange"
+    contract: string
+    name: string
+    // the nth event of the name emitted by the tx(s) of the step, 0 by default
+    index?: number
+    // the args to check, either a value or an expectation
+    args?: { [name: string]: ScenarioValue | ScenarioExpectation }
+    // the decimals of the amounts in args, 18 by default
+    decimals?: number
+}
+
+export type ScenarioTick = number | "min" | "max"
+
+export interface ScenarioStep {
+    action: string
+    trader?: string
+    // "baseToken" or "baseToken2" of the fixture, "baseToken" by default
+    market?: string
+    // initMarket, mockIndexPrice, mockMarkPrice
+    price?: string
+    exFeeRatio?: number
+    ifFeeRatio?: number
+    maxTickCrossedWithinBlock?: number
+    // mintAndDeposit, withdraw (in USDC), q2bExactInput, b2qExactInput, q2bExactOutput, b2qExactOutput
+    amount?: ScenarioValue
+    // addOrder, removeOrder
+    base?: ScenarioValue
+    quote?: ScenarioValue
+    lowerTick?: ScenarioTick
+    upperTick?: ScenarioTick
+    useTakerBalance?: boolean
+    // all the liquidity of the order when not set
+    liquidity?: string
+    // forwardTimestamp
+    seconds?: number
+    // expect
+    assertions?: ScenarioAssertion[]
+    // the step is expected to revert with the reason, e.g. "CH_NEFCI"
+    revertedWith?: string
+    events?: ScenarioEventExpectation[]
+}
+
+export interface ScenarioFixture {
+    canMockTime?: boolean
+    uniFeeTier?: number
+}
+
+export interface Scenario {
+    name: string
+    description?: string
+    fixture?: ScenarioFixture
+    // the names of the wallets after admin, e.g. ["alice", "bob"]
+    traders: string[]
+    steps: ScenarioStep[]
+    // the events not recorded in the trace, e.g. FundingUpdated of which the twaps depend on the real timestamps
+    ignoredEvents?: string[]
+}
+
+export const TRADER_ACTIONS = [
+    "mintAndDeposit",
+    "withdraw",
+    "addOrder",
+    "removeOrder",
+    "removeAllOrders",
+    "q2bExactInput",
+    "b2qExactInput",
+    "q2bExactOutput",
+    "b2qExactOutput",
+    "closePosition",
+]
+
+export const TX_ACTIONS = TRADER_ACTIONS.concat(["initMarket"])
+
+export const ACTIONS = TX_ACTIONS.concat([
+    "mockIndexPrice",
+    "mockMarkPrice",
+    "syncIndexToMarketPrice",
+    "forwardTimestamp",
+    "initiateTimestamps",
+    "expect",
+])
+
+const REQUIRED_PARAMS: { [action: string]: (keyof ScenarioStep)[] } = {
+    initMarket: ["price"],
+    mockIndexPrice: ["price"],
+    mockMarkPrice: ["price"],
+    mintAndDeposit: ["amount"],
+    withdraw: ["amount"],
+    addOrder: ["base", "quote", "lowerTick", "upperTick"],
+    removeOrder: ["lowerTick", "upperTick"],
+    q2bExactInput: ["amount"],
+    b2qExactInput: ["amount"],
+    q2bExactOutput: ["amount"],
+    b2qExactOutput: ["amount"],
+    expect: ["assertions"],
+}
+
+export function validateScenario(scenario: Scenario): void {
+    if (!scenario || !scenario.name) {
+        throw new Error("Scenario: name is required")
+    }
+    const { name, traders, steps } = scenario
+    if (!Array.isArray(traders) || traders.length === 0) {
+        throw new Error(`Scenario: ${name} has no traders`)
+    }
+    if (traders.some((trader, index) => !trader || traders.indexOf(trader) !== index)) {
+        throw new Error(`Scenario: ${name} has empty or duplicated traders`)
+    }
+    if (!Array.isArray(steps) || steps.length === 0) {
+        throw new Error(`Scenario: ${name} has no steps`)
+    }
+    steps.forEach((step, index) => {
+        const label = `${name} step ${index} ${step.action}`
+        if (ACTIONS.indexOf(step.action) < 0) {
+            throw new Error(`Scenario: ${label} is not a supported action`)
+        }
+        for (const param of REQUIRED_PARAMS[step.action] || []) {
+            if (step[param] === undefined) {
+                throw new Error(`Scenario: ${label} requires ${param}`)
+            }
+        }
+        if (TRADER_ACTIONS.indexOf(step.action) >= 0 && traders.indexOf(step.trader) < 0) {
+            throw new Error(`Scenario: ${label} has an unknown trader ${step.trader}`)
+        }
+        if ((step.revertedWith !== undefined || step.events !== undefined) && TX_ACTIONS.indexOf(step.action) < 0) {
+            throw new Error(`Scenario: ${label} sends no tx to revert or emit events`)
+        }
+        for (const assertion of step.assertions || []) {
+            if (!assertion.call || assertion.call.split(".").length !== 2) {
+                throw new Error(`Scenario: ${label} has an invalid call ${assertion.call}`)
+            }
+        }
+    })
+}
+
+// a scenario in YAML (.yml, .yaml) or JSON
+export function loadScenario(filename: string): Scenario {
+    const content = fs.readFileSync(filename, "utf8")
+    const extension = extname(filename).toLowerCase()
+    const scenario = (
+        extension === ".yml" || extension === ".yaml" ? yaml.load(content) : JSON.parse(content)
+    ) as Scenario
+    validateScenario(scenario)
+    return scenario
+}
+
+export function findScenarioFiles(dir: string = SCENARIO_DIR): string[] {
+    return fs
+        .readdirSync(dir)
+        .filter(filename => [".yml", ".yaml", ".json"].indexOf(extname(filename).toLowerCase()) >= 0)
+        .filter(filename => !filename.endsWith(".trace.json"))
+        .sort()
+        .map(filename => join(dir, filename))
+}
+
+// the golden trace is next to the scenario, e.g. scenarios/makerFee.trace.json of scenarios/makerFee.yaml
+export function getGoldenTraceFilename(filename: string): string {
+    return filename.slice(0, filename.length - extname(filename).length) + ".trace.json"
+}
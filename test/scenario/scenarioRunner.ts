@@ -0,0 +1,398 @@
+import { Log, TransactionReceipt } from "@ethersproject/abstract-provider"
+import { expect } from "chai"
+import { BigNumber, Contract, ContractTransaction, Wallet } from "ethers"
+import { parseUnits } from "ethers/lib/utils"
+import fs from "fs"
+import { MockPriceFeedDispatcher, TestAccountBalance, TestClearingHouse } from "../../typechain"
+import { ClearingHouseFixture } from "../clearingHouse/fixtures"
+import {
+    addOrder,
+    b2qExactInput,
+    b2qExactOutput,
+    closePosition,
+    q2bExactInput,
+    q2bExactOutput,
+    removeAllOrders,
+    removeOrder,
+} from "../helper/clearingHouseHelper"
+import { initMarket } from "../helper/marketHelper"
+import { getMaxTick, getMinTick } from "../helper/number"
+import { mintAndDeposit } from "../helper/token"
+import { forwardBothTimestamps, initiateBothTimestamps } from "../shared/time"
+import { mockIndexPrice, mockMarkPrice, syncIndexToMarketPrice } from "../shared/utilities"
+import {
+    Scenario,
+    ScenarioAssertion,
+    ScenarioEventExpectation,
+    ScenarioExpectation,
+    ScenarioStep,
+    ScenarioTick,
+    ScenarioValue,
+    TX_ACTIONS,
+} from "./scenario"
+
+// the events of these contracts are recorded in the trace
+const TRACED_CONTRACTS = [
+    "clearingHouse",
+    "accountBalance",
+    "exchange",
+    "orderBook",
+    "vault",
+    "insuranceFund",
+    "collateralManager",
+]
+
+export interface ScenarioTraceEvent {
+    contract: string
+    name: string
+    args: { [name: string]: string | boolean }
+}
+
+export interface ScenarioTraceStep {
+    step: number
+    action: string
+    trader?: string
+    revertedWith?: string
+    events?: ScenarioTraceEvent[]
+    // the results of the assertions, e.g. {"accountBalance.getTakerPositionSize($alice, $baseToken)": "1000"}
+    values?: { [call: string]: string | boolean }
+}
+
+export interface ScenarioTrace {
+    name: string
+    steps: ScenarioTraceStep[]
+}
+
+export class ScenarioRunner {
+    private readonly contracts: { [name: string]: Contract } = {}
+    private readonly traders: { [name: string]: Wallet } = {}
+    // addresses are named in the trace so it does not depend on the deployment
+    private readonly names: { [address: string]: string } = {}
+
+    constructor(readonly scenario: Scenario, readonly fixture: ClearingHouseFixture, wallets: Wallet[]) {
+        if (wallets.length < scenario.traders.length) {
+            throw new Error(`Scenario: ${scenario.name} needs ${scenario.traders.length} wallets`)
+        }
+        const contracts = {
+            clearingHouse: fixture.clearingHouse,
+            accountBalance: fixture.accountBalance,
+            exchange: fixture.exchange,
+            orderBook: fixture.orderBook,
+            vault: fixture.vault,
+            insuranceFund: fixture.insuranceFund,
+            collateralManager: fixture.collateralManager,
+            marketRegistry: fixture.marketRegistry,
+            clearingHouseConfig: fixture.clearingHouseConfig,
+            quoteToken: fixture.quoteToken,
+            baseToken: fixture.baseToken,
+            baseToken2: fixture.baseToken2,
+            pool: fixture.pool,
+            pool2: fixture.pool2,
+            USDC: fixture.USDC,
+            WETH: fixture.WETH,
+            WBTC: fixture.WBTC,
+        }
+        for (const name of Object.keys(contracts)) {
+            const contract = contracts[name as keyof typeof contracts] as Contract
+            this.contracts[name] = contract
+            this.names[contract.address.toLowerCase()] = `$${name}`
+        }
+        scenario.traders.forEach((name, index) => {
+            this.traders[name] = wallets[index]
+            this.names[wallets[index].address.toLowerCase()] = `$${name}`
+        })
+    }
+
+    async run(): Promise<ScenarioTrace> {
+        const steps: ScenarioTraceStep[] = []
+        for (let index = 0; index < this.scenario.steps.length; index++) {
+            steps.push(await this.runStep(index, this.scenario.steps[index]))
+        }
+        return { name: this.scenario.name, steps }
+    }
+
+    private async runStep(index: number, step: ScenarioStep): Promise<ScenarioTraceStep> {
+        const label = `${this.scenario.name} step ${index} ${step.action}`
+        const traced: ScenarioTraceStep = { step: index, action: step.action }
+        if (step.trader) {
+            traced.trader = step.trader
+        }
+
+        if (TX_ACTIONS.indexOf(step.action) < 0) {
+            await this.runAction(step)
+            if (step.assertions) {
+                traced.values = await this.assert(label, step.assertions)
+            }
+            return traced
+        }
+
+        if (step.revertedWith !== undefined) {
+            const error = await this.sendTxs(step).then(
+                () => undefined,
+                (error: Error) => error,
+            )
+            expect(error, `${label} should revert with ${step.revertedWith}`).to.be.not.undefined
+            expect(error.message, label).to.include(step.revertedWith)
+            traced.revertedWith = step.revertedWith
+            return traced
+        }
+
+        const receipts = await this.sendTxs(step)
+        traced.events = this.getEvents(receipts)
+        for (const expectation of step.events || []) {
+            this.expectEvent(label, receipts, expectation)
+        }
+        return traced
+    }
+
+    private async sendTxs(step: ScenarioStep): Promise<TransactionReceipt[]> {
+        const txs = await this.runAction(step)
+        const receipts: TransactionReceipt[] = []
+        for (const tx of txs) {
+            receipts.push(await tx.wait())
+        }
+        return receipts
+    }
+
+    private async runAction(step: ScenarioStep): Promise<ContractTransaction[]> {
+        const fixture = this.fixture
+        const trader = this.traders[step.trader]
+        const baseToken = this.getContract(step.market || "baseToken").address
+        const toTxs = (tx: ContractTransaction | undefined) => (tx ? [tx] : [])
+
+        switch (step.action) {
+            case "initMarket":
+                await initMarket(
+                    fixture,
+                    step.price,
+                    step.exFeeRatio,
+                    step.ifFeeRatio,
+                    step.maxTickCrossedWithinBlock,
+                    baseToken,
+                )
+                return []
+            case "mockIndexPrice":
+                await mockIndexPrice(this.getPriceFeedDispatcher(step.market), step.price)
+                return []
+            case "mockMarkPrice":
+                await mockMarkPrice(fixture.accountBalance as TestAccountBalance, baseToken, step.price)
+                return []
+            case "syncIndexToMarketPrice":
+                await syncIndexToMarketPrice(
+                    this.getPriceFeedDispatcher(step.market),
+                    step.market === "baseToken2" ? fixture.pool2 : fixture.pool,
+                )
+                return []
+            case "forwardTimestamp":
+                await forwardBothTimestamps(fixture.clearingHouse as TestClearingHouse, step.seconds)
+                return []
+            case "initiateTimestamps":
+                await initiateBothTimestamps(fixture.clearingHouse as TestClearingHouse)
+                return []
+            case "expect":
+                return []
+            case "mintAndDeposit":
+                await mintAndDeposit(fixture, trader, Number(step.amount))
+                return []
+            case "withdraw": {
+                const amount = parseUnits(step.amount.toString(), await fixture.USDC.decimals())
+                return [await fixture.vault.connect(trader).withdraw(fixture.USDC.address, amount)]
+            }
+            case "addOrder": {
+                const [lowerTick, upperTick] = await this.getTicks(step)
+                return [
+                    await addOrder(
+                        fixture,
+                        trader,
+                        step.base.toString(),
+                        step.quote.toString(),
+                        lowerTick,
+                        upperTick,
+                        step.useTakerBalance,
+                        baseToken,
+                    ),
+                ]
+            }
+            case "removeOrder": {
+                const [lowerTick, upperTick] = await this.getTicks(step)
+                const liquidity =
+                    step.liquidity ||
+                    (await fixture.orderBook.getOpenOrder(trader.address, baseToken, lowerTick, upperTick)).liquidity
+                return toTxs(await removeOrder(fixture, trader, liquidity, lowerTick, upperTick, baseToken))
+            }
+            case "removeAllOrders":
+                return removeAllOrders(fixture, trader, baseToken)
+            case "q2bExactInput":
+                return [await q2bExactInput(fixture, trader, step.amount.toString(), baseToken)]
+            case "b2qExactInput":
+                return [await b2qExactInput(fixture, trader, step.amount.toString(), baseToken)]
+            case "q2bExactOutput":
+                return [await q2bExactOutput(fixture, trader, step.amount.toString(), baseToken)]
+            case "b2qExactOutput":
+                return [await b2qExactOutput(fixture, trader, step.amount.toString(), baseToken)]
+            case "closePosition":
+                return toTxs(await closePosition(fixture, trader, undefined, baseToken))
+            default:
+                throw new Error(`Scenario: unsupported action ${step.action}`)
+        }
+    }
+
+    private getPriceFeedDispatcher(market: string = "baseToken"): MockPriceFeedDispatcher {
+        return market === "baseToken2"
+            ? this.fixture.mockedPriceFeedDispatcher2
+            : this.fixture.mockedPriceFeedDispatcher
+    }
+
+    // "min" and "max" are the usable ticks of the full range
+    private async getTicks(step: ScenarioStep): Promise<[number, number]> {
+        const pool = step.market === "baseToken2" ? this.fixture.pool2 : this.fixture.pool
+        const tickSpacing = await pool.tickSpacing()
+        const toTick = (tick: ScenarioTick) =>
+            tick === "min" ? getMinTick(tickSpacing) : tick === "max" ? getMaxTick(tickSpacing) : Number(tick)
+        return [toTick(step.lowerTick), toTick(step.upperTick)]
+    }
+
+    private async assert(
+        label: string,
+        assertions: ScenarioAssertion[],
+    ): Promise<{ [call: string]: string | boolean }> {
+        const values: { [call: string]: string | boolean } = {}
+        for (const assertion of assertions) {
+            const [contractName, method] = assertion.call.split(".")
+            const args = (assertion.args || []).map(arg => this.resolve(arg))
+            let result = await this.getContract(contractName).callStatic[method](...args)
+            if (assertion.field !== undefined) {
+                result = result[assertion.field]
+            }
+            const call = `${assertion.call}(${(assertion.args || []).join(", ")})`
+            this.expectValue(`${label} ${call}`, result, assertion)
+            values[call] = this.format(result)
+        }
+        return values
+    }
+
+    private expectEvent(label: string, receipts: TransactionReceipt[], expectation: ScenarioEventExpectation): void {
+        const contract = this.getContract(expectation.contract)
+        const topic = contract.interface.getEventTopic(expectation.name)
+        const events = receipts
+            .reduce((logs, receipt) => logs.concat(receipt.logs), [] as Log[])
+            .filter(log => log.address === contract.address && log.topics[0] === topic)
+            .map(log => contract.interface.parseLog(log))
+        const index = expectation.index || 0
+        const eventLabel = `${label} ${expectation.contract}.${expectation.name}[${index}]`
+        expect(events.length, `${eventLabel} is not emitted`).to.be.gt(index)
+
+        const args = expectation.args || {}
+        for (const name of Object.keys(args)) {
+            const arg = args[name]
+            const argExpectation: ScenarioExpectation = typeof arg === "object" ? arg : { eq: arg }
+            this.expectValue(`${eventLabel}.${name}`, events[index].args[name], {
+                decimals: expectation.decimals,
+                ...argExpectation,
+            })
+        }
+    }
+
+    private expectValue(label: string, actual: unknown, expectation: ScenarioExpectation): void {
+        if (!BigNumber.isBigNumber(actual)) {
+            if (expectation.eq !== undefined) {
+                const expected = this.resolve(expectation.eq)
+                if (typeof actual === "string" && typeof expected === "string") {
+                    expect(actual.toLowerCase(), label).to.be.eq(expected.toLowerCase())
+                } else {
+                    expect(actual, label).to.be.eq(typeof actual === "number" ? Number(expected) : expected)
+                }
+            }
+            return
+        }
+
+        const decimals = expectation.decimals === undefined ? 18 : expectation.decimals
+        const toAmount = (value: ScenarioValue) => parseUnits(value.toString(), decimals)
+        if (expectation.eq !== undefined) {
+            expect(actual, label).to.be.eq(toAmount(expectation.eq))
+        }
+        if (expectation.closeTo !== undefined) {
+            const delta = expectation.delta === undefined ? BigNumber.from(0) : toAmount(expectation.delta)
+            expect(actual.sub(toAmount(expectation.closeTo)).abs(), `${label} closeTo`).to.be.lte(delta)
+        }
+        if (expectation.gt !== undefined) {
+            expect(actual, label).to.be.gt(toAmount(expectation.gt))
+        }
+        if (expectation.gte !== undefined) {
+            expect(actual, label).to.be.gte(toAmount(expectation.gte))
+        }
+        if (expectation.lt !== undefined) {
+            expect(actual, label).to.be.lt(toAmount(expectation.lt))
+        }
+        if (expectation.lte !== undefined) {
+            expect(actual, label).to.be.lte(toAmount(expectation.lte))
+        }
+    }
+
+    private getEvents(receipts: TransactionReceipt[]): ScenarioTraceEvent[] {
+        const ignoredEvents = this.scenario.ignoredEvents || []
+        const events: ScenarioTraceEvent[] = []
+        for (const receipt of receipts) {
+            for (const log of receipt.logs) {
+                const contractName = this.names[log.address.toLowerCase()]
+                if (!contractName || TRACED_CONTRACTS.indexOf(contractName.slice(1)) < 0) {
+                    continue
+                }
+                const event = this.contracts[contractName.slice(1)].interface.parseLog(log)
+                if (ignoredEvents.indexOf(event.name) >= 0) {
+                    continue
+                }
+                const args: { [name: string]: string | boolean } = {}
+                for (const input of event.eventFragment.inputs) {
+                    args[input.name] = this.format(event.args[input.name])
+                }
+                events.push({ contract: contractName.slice(1), name: event.name, args })
+            }
+        }
+        return events
+    }
+
+    private getContract(name: string): Contract {
+        const contract = this.contracts[name]
+        if (!contract) {
+            throw new Error(`Scenario: unknown contract ${name}`)
+        }
+        return contract
+    }
+
+    // "$alice" to the address of alice, "$baseToken" to the address of the base token
+    private resolve(value: ScenarioValue): ScenarioValue {
+        if (typeof value !== "string" || !value.startsWith("$")) {
+            return value
+        }
+        const name = value.slice(1)
+        if (this.traders[name]) {
+            return this.traders[name].address
+        }
+        return this.getContract(name).address
+    }
+
+    private format(value: unknown): string | boolean {
+        if (typeof value === "boolean") {
+            return value
+        }
+        const formatted = value.toString()
+        return this.names[formatted.toLowerCase()] || formatted
+    }
+}
+
+// the trace is recorded when UPDATE_GOLDEN_TRACE is set, and compared with the golden file otherwise
+// NOTE: a missing golden file fails the run, so a scenario cannot pass by recording its own result in CI
+export function matchGoldenTrace(trace: ScenarioTrace, filename: string): void {
+    if (process.env.UPDATE_GOLDEN_TRACE) {
+        fs.writeFileSync(filename, JSON.stringify(trace, null, 4) + "\n")
+        return
+    }
+    if (!fs.existsSync(filename)) {
+        throw new Error(
+            `Scenario: ${filename} of ${trace.name} does not exist, run npm run update-golden-traces to record it`,
+        )
+    }
+    const golden = JSON.parse(fs.readFileSync(filename, "utf8")) as ScenarioTrace
+    expect(trace, `the trace of ${trace.name} differs from ${filename}`).to.deep.eq(golden)
+}
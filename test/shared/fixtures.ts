@@ -1,14 +1,19 @@
-import { MockContract, smockit } from "@eth-optimism/smock"
 import { ethers } from "hardhat"
-import { BaseToken, QuoteToken, UniswapV3Factory, UniswapV3Pool, VirtualToken } from "../../typechain"
-import { ChainlinkPriceFeedV3, PriceFeedDispatcher } from "../../typechain/perp-oracle"
-import { CACHED_TWAP_INTERVAL, CHAINLINK_AGGREGATOR_DECIMALS, PRICEFEED_DISPATCHER_DECIMALS } from "./constant"
+import {
+    BaseToken,
+    MockPriceFeedDispatcher,
+    QuoteToken,
+    UniswapV3Factory,
+    UniswapV3Pool,
+    VirtualToken,
+} from "../../typechain"
+import { deployMockPriceFeedDispatcher } from "./mock"
 import { isAscendingTokenOrder } from "./utilities"
 
 interface TokensFixture {
     token0: BaseToken
     token1: QuoteToken
-    mockedPriceFeedDispatcher: MockContract
+    mockedPriceFeedDispatcher: MockPriceFeedDispatcher
 }
 
 interface PoolFixture {
@@ -20,7 +25,7 @@ interface PoolFixture {
 
 interface BaseTokenFixture {
     baseToken: BaseToken
-    mockedPriceFeedDispatcher: MockContract
+    mockedPriceFeedDispatcher: MockPriceFeedDispatcher
 }
 
 export function createQuoteTokenFixture(name: string, symbol: string): () => Promise<QuoteToken> {
@@ -37,33 +42,10 @@ export function createBaseTokenFixture(
     symbol: string = "RT0",
 ): () => Promise<BaseTokenFixture> {
     return async (): Promise<BaseTokenFixture> => {
-        const aggregatorFactory = await ethers.getContractFactory("TestAggregatorV3")
-        const aggregator = await aggregatorFactory.deploy()
-        const mockedAggregator = await smockit(aggregator)
-
-        mockedAggregator.smocked.decimals.will.return.with(async () => {
-            return CHAINLINK_AGGREGATOR_DECIMALS
-        })
-
-        const chainlinkPriceFeedV3Factory = await ethers.getContractFactory("ChainlinkPriceFeedV3")
-        const chainlinkPriceFeedV3 = (await chainlinkPriceFeedV3Factory.deploy(
-            mockedAggregator.address,
-            40 * 60, // 40 mins
-            CACHED_TWAP_INTERVAL,
-        )) as ChainlinkPriceFeedV3
-        const priceFeedDispatcherFactory = await ethers.getContractFactory("PriceFeedDispatcher")
-        const priceFeedDispatcher = (await priceFeedDispatcherFactory.deploy(
-            chainlinkPriceFeedV3.address,
-        )) as PriceFeedDispatcher
+        const mockedPriceFeedDispatcher = await deployMockPriceFeedDispatcher()
 
         const baseTokenFactory = await ethers.getContractFactory("BaseToken")
         const baseToken = (await baseTokenFactory.deploy()) as BaseToken
-        const mockedPriceFeedDispatcher = await smockit(priceFeedDispatcher)
-
-        mockedPriceFeedDispatcher.smocked.decimals.will.return.with(async () => {
-            return PRICEFEED_DISPATCHER_DECIMALS
-        })
-
         await baseToken.initialize(name, symbol, mockedPriceFeedDispatcher.address)
 
         return { baseToken, mockedPriceFeedDispatcher }
@@ -84,7 +66,7 @@ export async function tokensFixture(): Promise<TokensFixture> {
 
     let token0: BaseToken
     let token1: QuoteToken
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     if (isAscendingTokenOrder(randomToken0.address, randomToken1.address)) {
         token0 = randomToken0
         mockedPriceFeedDispatcher = randommockedPriceFeedDispatcher
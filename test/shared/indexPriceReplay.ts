@@ -0,0 +1,253 @@
+import { BigNumber } from "ethers"
+import { parseUnits } from "ethers/lib/utils"
+import fs from "fs"
+import { waffle } from "hardhat"
+import { BaseToken, MockAggregatorV3, TestClearingHouse } from "../../typechain"
+import { CACHED_TWAP_INTERVAL } from "./constant"
+import { DEFAULT_RANDOM_SEED, Random } from "./random"
+import { getRealTimestamp } from "./time"
+
+export interface PricePoint {
+    // seconds since the start of the path
+    time: number
+    // e.g. "1234.5"; no round is pushed when not set, so the aggregator goes stale
+    price?: string
+}
+
+export interface GeneratedPricePathOptions {
+    seed: number
+    startPrice: number
+    steps: number
+    secondsPerStep: number
+    // the annualized drift and volatility of the geometric brownian motion, e.g. 0.8 = 80%
+    drift: number
+    volatility: number
+    // the chance of a jump in a step and its size, e.g. 0.1 = 10%
+    jumpChance: number
+    jumpRatio: number
+    // the chance of a step without a round
+    staleChance: number
+    // the decimals the prices are rounded to
+    decimals: number
+}
+
+export const DEFAULT_GENERATED_PRICE_PATH_OPTIONS: GeneratedPricePathOptions = {
+    seed: DEFAULT_RANDOM_SEED,
+    startPrice: 100,
+    steps: 100,
+    secondsPerStep: 60,
+    drift: 0,
+    volatility: 0.8,
+    jumpChance: 0,
+    jumpRatio: 0.1,
+    staleChance: 0,
+    decimals: 6,
+}
+
+export interface ReplayedRound {
+    timestamp: number
+    // in the decimals of the aggregator
+    answer: BigNumber
+}
+
+export interface IndexPriceReplayOptions {
+    // the mocked timestamps are set to the time of every point as well
+    clearingHouse?: TestClearingHouse
+    // cacheTwap() of the base tokens is called after every point, as Exchange does for every swap
+    baseTokens: BaseToken[]
+    cacheTwapInterval: number
+}
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60
+
+// a CSV of the header "time,price", e.g.
+//   time,price
+//   0,400
+//   15,405
+//   30,
+// where the empty price at 30 is a stale gap
+export function parsePricePathCsv(content: string): PricePoint[] {
+    const lines = content
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line.length > 0)
+    if (lines.length === 0 || lines[0].replace(/\s/g, "") !== "time,price") {
+        throw new Error('IndexPriceReplay: the header of the CSV is not "time,price"')
+    }
+
+    const path = lines.slice(1).map((line, index) => {
+        const [time, price] = line.split(",").map(value => value.trim())
+        if (!/^\d+$/.test(time) || (price !== undefined && price !== "" && !/^\d+(\.\d+)?$/.test(price))) {
+            throw new Error(`IndexPriceReplay: invalid row ${index + 1} "${line}"`)
+        }
+        return price ? { time: Number(time), price } : { time: Number(time) }
+    })
+    validatePricePath(path)
+    return path
+}
+
+export function loadPricePathCsv(filename: string): PricePoint[] {
+    return parsePricePathCsv(fs.readFileSync(filename, "utf8"))
+}
+
+// a geometric brownian motion with jumps and stale gaps, the same seed generates the same path
+export function generatePricePath(options: Partial<GeneratedPricePathOptions> = {}): PricePoint[] {
+    const { seed, startPrice, steps, secondsPerStep, drift, volatility, jumpChance, jumpRatio, staleChance, decimals } =
+        { ...DEFAULT_GENERATED_PRICE_PATH_OPTIONS, ...options }
+    const random = new Random(seed)
+    const dt = secondsPerStep / SECONDS_PER_YEAR
+
+    const path: PricePoint[] = [{ time: 0, price: startPrice.toFixed(decimals) }]
+    let price = startPrice
+    for (let step = 1; step < steps; step++) {
+        // Box-Muller transform of the uniform random numbers
+        const z = Math.sqrt(-2 * Math.log(1 - random.next())) * Math.cos(2 * Math.PI * random.next())
+        price *= Math.exp((drift - (volatility * volatility) / 2) * dt + volatility * Math.sqrt(dt) * z)
+        if (random.next() < jumpChance) {
+            price *= random.bool() ? 1 + jumpRatio : 1 - jumpRatio
+        }
+
+        const time = step * secondsPerStep
+        path.push(random.next() < staleChance ? { time } : { time, price: price.toFixed(decimals) })
+    }
+    return path
+}
+
+// the same as ChainlinkPriceFeedV3: the time-weighted average of the rounds in [now - interval, now], each of which
+// holds until the next one; it's the latest answer when the interval is 0 or longer than the rounds
+export function calculateTwap(rounds: ReplayedRound[], interval: number, now: number): BigNumber {
+    const pastRounds = rounds.filter(({ timestamp }) => timestamp <= now)
+    if (pastRounds.length === 0) {
+        throw new Error(`IndexPriceReplay: no round before ${now}`)
+    }
+
+    const latestAnswer = pastRounds[pastRounds.length - 1].answer
+    const from = now - interval
+    if (interval === 0 || from < pastRounds[0].timestamp) {
+        return latestAnswer
+    }
+
+    let cumulative = BigNumber.from(0)
+    for (let i = 0; i < pastRounds.length; i++) {
+        const start = Math.max(pastRounds[i].timestamp, from)
+        const end = i === pastRounds.length - 1 ? now : pastRounds[i + 1].timestamp
+        if (end > start) {
+            cumulative = cumulative.add(pastRounds[i].answer.mul(end - start))
+        }
+    }
+    return cumulative.div(interval)
+}
+
+// replays a price path by pushing the rounds of a MockAggregatorV3 at the time of each point, with the real and the
+// mocked timestamps in lockstep, so the TWAPs of ChainlinkPriceFeedV3 can be asserted against getExpectedTwap()
+export class IndexPriceReplay {
+    readonly options: IndexPriceReplayOptions
+    readonly rounds: ReplayedRound[] = []
+    private startTimestamp: number | undefined
+    private nextIndex = 0
+    private decimals: number | undefined
+
+    constructor(
+        readonly aggregator: MockAggregatorV3,
+        readonly path: PricePoint[],
+        options: Partial<IndexPriceReplayOptions> = {},
+    ) {
+        validatePricePath(path)
+        this.options = { baseTokens: [], cacheTwapInterval: CACHED_TWAP_INTERVAL, ...options }
+    }
+
+    isDone(): boolean {
+        return this.nextIndex >= this.path.length
+    }
+
+    // the real timestamp of a point, set by the first replay
+    getTimestamp(point: PricePoint): number {
+        if (this.startTimestamp === undefined) {
+            throw new Error("IndexPriceReplay: not started")
+        }
+        return this.startTimestamp + point.time
+    }
+
+    // replays the next count points, or all the rest when count is not given
+    async replay(count: number = this.path.length - this.nextIndex): Promise<void> {
+        for (let i = 0; i < count && !this.isDone(); i++) {
+            await this.replayNext()
+        }
+    }
+
+    // replays the points up to the time since the start, inclusive
+    async replayUntil(time: number): Promise<void> {
+        while (!this.isDone() && this.path[this.nextIndex].time <= time) {
+            await this.replayNext()
+        }
+    }
+
+    async replayNext(): Promise<PricePoint> {
+        if (this.isDone()) {
+            throw new Error("IndexPriceReplay: the path is done")
+        }
+        await this.start()
+
+        const point = this.path[this.nextIndex]
+        const timestamp = this.getTimestamp(point)
+        const { clearingHouse } = this.options
+        if (clearingHouse) {
+            await (await clearingHouse.setBlockTimestamp(timestamp)).wait()
+        }
+        // the next block can't be at or before the latest one
+        if (timestamp <= (await getRealTimestamp())) {
+            throw new Error(`IndexPriceReplay: the point at ${point.time} is too close to the previous one`)
+        }
+
+        await waffle.provider.send("evm_setNextBlockTimestamp", [timestamp])
+        if (point.price === undefined) {
+            await waffle.provider.send("evm_mine", [])
+        } else {
+            const answer = parseUnits(point.price, this.decimals)
+            await (await this.aggregator.pushRound(answer, timestamp)).wait()
+            this.rounds.push({ timestamp, answer })
+        }
+
+        for (const baseToken of this.options.baseTokens) {
+            await (await baseToken.cacheTwap(this.options.cacheTwapInterval)).wait()
+        }
+        this.nextIndex++
+        return point
+    }
+
+    // the TWAP of the replayed rounds at the latest block, in the decimals of the aggregator
+    async getExpectedTwap(interval: number): Promise<BigNumber> {
+        return calculateTwap(this.rounds, interval, await getRealTimestamp())
+    }
+
+    // the TWAP in 18 decimals, as BaseToken.getIndexPrice()
+    async getExpectedIndexPrice(interval: number): Promise<BigNumber> {
+        const twap = await this.getExpectedTwap(interval)
+        return twap.mul(BigNumber.from(10).pow(18 - this.decimals))
+    }
+
+    private async start(): Promise<void> {
+        if (this.startTimestamp !== undefined) {
+            return
+        }
+        this.decimals = await this.aggregator.decimals()
+        // cannot set a timestamp <= than the current one, the same as initiateBothTimestamps()
+        const { clearingHouse } = this.options
+        const mockedTimestamp = clearingHouse ? (await clearingHouse.getBlockTimestamp()).toNumber() : 0
+        this.startTimestamp = Math.max(await getRealTimestamp(), mockedTimestamp) + 100
+    }
+}
+
+function validatePricePath(path: PricePoint[]): void {
+    if (path.length === 0) {
+        throw new Error("IndexPriceReplay: empty path")
+    }
+    if (path[0].price === undefined) {
+        throw new Error("IndexPriceReplay: no price at the start of the path")
+    }
+    for (let i = 1; i < path.length; i++) {
+        if (path[i].time <= path[i - 1].time) {
+            throw new Error(`IndexPriceReplay: the time ${path[i].time} is not after ${path[i - 1].time}`)
+        }
+    }
+}
@@ -0,0 +1,149 @@
+import { Contract } from "ethers"
+import { FunctionFragment, Interface, Result } from "ethers/lib/utils"
+import { ethers } from "hardhat"
+import { MockAggregatorV3, MockCallRecorder, MockPriceFeedDispatcher } from "../../typechain"
+import { CHAINLINK_AGGREGATOR_DECIMALS, PRICEFEED_DISPATCHER_DECIMALS } from "./constant"
+
+// the mocks of contracts/test/Mock*.sol, replacing smockit() of @eth-optimism/smock:
+//   const mocked = await deployMockedContract<Vault>("Vault")
+//   await mocked.smocked.getBalance.returns(parseUnits("100", 6))
+//   await mocked.smocked.withdraw.reverts("V_NEFC")
+//   expect(await mocked.smocked.deposit.isCalledWith(USDC.address, 100)).to.be.true
+// unlike smock, a function not mocked returns nothing, and a call in a static context, e.g. from a view function,
+// is not recorded
+
+export interface RecordedCall {
+    sender: string
+    args: Result
+}
+
+export class MockedFunction {
+    readonly selector: string
+
+    constructor(
+        private readonly recorder: MockCallRecorder,
+        private readonly contractInterface: Interface,
+        private readonly fragment: FunctionFragment,
+    ) {
+        this.selector = contractInterface.getSighash(fragment)
+    }
+
+    // returns the values for every call, or only for the calls of the args when given by returnsFor()
+    async returns(...values: unknown[]): Promise<void> {
+        await (await this.recorder.mockReturn(this.selector, this.encodeResult(values))).wait()
+    }
+
+    async returnsFor(args: unknown[], ...values: unknown[]): Promise<void> {
+        await (await this.recorder.mockReturnWithCalldata(this.encodeCalldata(args), this.encodeResult(values))).wait()
+    }
+
+    // an empty reason reverts without the revert data
+    async reverts(reason: string = ""): Promise<void> {
+        await (await this.recorder.mockRevert(this.selector, reason)).wait()
+    }
+
+    async revertsFor(args: unknown[], reason: string = ""): Promise<void> {
+        await (await this.recorder.mockRevertWithCalldata(this.encodeCalldata(args), reason)).wait()
+    }
+
+    // clears returns() and reverts(), the ones for the args are cleared by resetFor()
+    async reset(): Promise<void> {
+        await (await this.recorder.clearMock(this.selector)).wait()
+    }
+
+    async resetFor(args: unknown[]): Promise<void> {
+        await (await this.recorder.clearMockWithCalldata(this.encodeCalldata(args))).wait()
+    }
+
+    // the recorded calls of the function, the oldest first
+    async getCalls(): Promise<RecordedCall[]> {
+        const calls = await this.recorder.getCalls()
+        return calls
+            .filter(({ data }) => data.slice(0, 10).toLowerCase() === this.selector)
+            .map(({ sender, data }) => ({
+                sender,
+                args: this.contractInterface.decodeFunctionData(this.fragment, data),
+            }))
+    }
+
+    async getCallCount(): Promise<number> {
+        return (await this.getCalls()).length
+    }
+
+    async isCalled(): Promise<boolean> {
+        return (await this.getCallCount()) > 0
+    }
+
+    // whether any recorded call has exactly the args
+    async isCalledWith(...args: unknown[]): Promise<boolean> {
+        const calldata = this.encodeCalldata(args)
+        const calls = await this.recorder.getCalls()
+        return calls.some(({ data }) => data.toLowerCase() === calldata)
+    }
+
+    private encodeCalldata(args: unknown[]): string {
+        return this.contractInterface.encodeFunctionData(this.fragment, args).toLowerCase()
+    }
+
+    private encodeResult(values: unknown[]): string {
+        return this.contractInterface.encodeFunctionResult(this.fragment, values)
+    }
+}
+
+export class MockedContract<T extends Contract> {
+    readonly address: string
+    // the functions by name, and also by signature for the overloaded ones, e.g. smocked["getPrice(uint256)"]
+    readonly smocked: { [name: string]: MockedFunction } = {}
+
+    // contract is the mock with the interface of the mocked contract
+    constructor(readonly contract: T, readonly recorder: MockCallRecorder) {
+        this.address = contract.address
+        const contractInterface = contract.interface
+        for (const signature of Object.keys(contractInterface.functions)) {
+            const fragment = contractInterface.functions[signature]
+            const mockedFunction = new MockedFunction(recorder, contractInterface, fragment)
+            this.smocked[signature] = mockedFunction
+            if (!this.smocked[fragment.name]) {
+                this.smocked[fragment.name] = mockedFunction
+            }
+        }
+    }
+
+    // all the recorded calls, of any function
+    async getCallCount(): Promise<number> {
+        return (await this.recorder.getCallCount()).toNumber()
+    }
+
+    async clearCalls(): Promise<void> {
+        await (await this.recorder.clearCalls()).wait()
+    }
+}
+
+// a MockCallRecorder with the interface of the contract
+export async function deployMockedContract<T extends Contract>(contractName: string): Promise<MockedContract<T>> {
+    const recorder = (await (await ethers.getContractFactory("MockCallRecorder")).deploy()) as MockCallRecorder
+    const contract = (await ethers.getContractAt(contractName, recorder.address)) as T
+    return new MockedContract(contract, recorder)
+}
+
+// of which dispatchPrice() is recorded after setRecordingCalls(true), see MockPriceFeedDispatcher.sol
+export async function deployMockPriceFeedDispatcher(
+    decimals: number = PRICEFEED_DISPATCHER_DECIMALS,
+): Promise<MockPriceFeedDispatcher> {
+    const mockFactory = await ethers.getContractFactory("MockPriceFeedDispatcher")
+    return (await mockFactory.deploy(decimals)) as MockPriceFeedDispatcher
+}
+
+export async function deployMockAggregatorV3(
+    decimals: number = CHAINLINK_AGGREGATOR_DECIMALS,
+): Promise<MockAggregatorV3> {
+    const mockFactory = await ethers.getContractFactory("MockAggregatorV3")
+    return (await mockFactory.deploy(decimals)) as MockAggregatorV3
+}
+
+// the MockedContract of a mock inheriting MockCallRecorder, e.g. to assert the calls of dispatchPrice();
+// the functions the mock defines are not affected by returns() and reverts()
+export async function getMockedContract<T extends Contract>(mock: T): Promise<MockedContract<T>> {
+    const recorder = (await ethers.getContractAt("MockCallRecorder", mock.address)) as MockCallRecorder
+    return new MockedContract(mock, recorder)
+}
@@ -0,0 +1,51 @@
+import { BigNumber } from "ethers"
+
+// the default seed, so that the tests are deterministic; pass another seed explicitly for exploratory runs
+export const DEFAULT_RANDOM_SEED = 20211201
+
+// seeded pseudo random generator (mulberry32), so that a failed property test can be reproduced by its seed
+export class Random {
+    private state: number
+
+    constructor(readonly seed: number = DEFAULT_RANDOM_SEED) {
+        this.state = seed >>> 0
+    }
+
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0
+        let t = this.state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+
+    // returns an integer in [min, max]
+    int(min: number, max: number): number {
+        return min + Math.floor(this.next() * (max - min + 1))
+    }
+
+    bool(): boolean {
+        return this.next() < 0.5
+    }
+
+    pick<T>(values: T[]): T {
+        return values[this.int(0, values.length - 1)]
+    }
+
+    // returns an unsigned integer with a random bit length in [0, maxBits], which covers small and boundary values
+    uint(maxBits: number = 256): BigNumber {
+        const bits = this.int(0, maxBits)
+        let value = BigNumber.from(0)
+        for (let i = 0; i < bits; i += 16) {
+            value = value.shl(16).or(this.int(0, 0xffff))
+        }
+        const mask = BigNumber.from(1).shl(bits).sub(1)
+        return value.and(mask)
+    }
+
+    // returns a signed integer in (-2^(maxBits-1), 2^(maxBits-1))
+    int256(maxBits: number = 256): BigNumber {
+        const value = this.uint(maxBits - 1)
+        return this.bool() ? value.mul(-1) : value
+    }
+}
@@ -0,0 +1,196 @@
+import { ethers, waffle } from "hardhat"
+import { TestAccountBalance, TestClearingHouse, TestExchange } from "../../typechain"
+import { getRealTimestamp } from "./time"
+
+// a single clock over the two kinds of timestamps of time.ts:
+//   const clock = await createSimClock(clearingHouse)
+//   await clock.advanceBy(15)
+//   await clock.inSameBlock(async () => { ... })
+//   await clock.assertNoDrift()
+// every advance sets the mocked timestamps in the tx of a block mined at the same real timestamp, so both are
+// equal until other txs are sent; without TestClearingHouse, i.e. canMockTime is false, only the real one is used
+
+export interface MockedTimeContracts {
+    clearingHouse: TestClearingHouse
+    exchange: TestExchange
+    accountBalance: TestAccountBalance
+}
+
+export interface ClockSnapshot {
+    // the timestamp the clock has advanced to
+    timestamp: number
+    // the latest block
+    realTimestamp: number
+    blockNumber: number
+    // undefined when the time is not mocked
+    clearingHouseTimestamp?: number
+    exchangeTimestamp?: number
+    accountBalanceTimestamp?: number
+}
+
+// the same as initiateBothTimestamps(), as we cannot set a timestamp <= than the current one
+const INITIAL_FORWARD = 100
+
+export class SimClock {
+    private timestamp: number
+
+    constructor(initialTimestamp: number, readonly mockedTimeContracts?: MockedTimeContracts) {
+        this.timestamp = initialTimestamp
+    }
+
+    isTimeMocked(): boolean {
+        return this.mockedTimeContracts !== undefined
+    }
+
+    // the timestamp read by the contracts, i.e. the mocked one, or the real one when the time is not mocked
+    getTimestamp(): number {
+        return this.timestamp
+    }
+
+    async getBlockNumber(): Promise<number> {
+        return waffle.provider.getBlockNumber()
+    }
+
+    async advanceBy(duration: number): Promise<void> {
+        if (duration < 0) {
+            throw new Error(`SimClock: cannot advance by a negative duration ${duration}`)
+        }
+        await this.advanceTo(this.timestamp + duration)
+    }
+
+    // when txs have been sent since the last advance, the real timestamp can be ahead of the timestamp;
+    // the mocked timestamps are still set then, and the real one stays ahead, see getDrift()
+    async advanceTo(timestamp: number): Promise<void> {
+        if (timestamp < this.timestamp) {
+            throw new Error(`SimClock: cannot go back from ${this.timestamp} to ${timestamp}`)
+        }
+
+        const realTimestamp = await getRealTimestamp()
+        if (!this.mockedTimeContracts) {
+            if (timestamp <= realTimestamp) {
+                throw new Error(`SimClock: the real timestamp ${realTimestamp} is not before ${timestamp}`)
+            }
+            await waffle.provider.send("evm_mine", [timestamp])
+            this.timestamp = timestamp
+            return
+        }
+
+        // mines the tx setting the mocked timestamps in the block at the same real timestamp
+        if (timestamp > realTimestamp) {
+            await waffle.provider.send("evm_setNextBlockTimestamp", [timestamp])
+        }
+        await (await this.mockedTimeContracts.clearingHouse.setBlockTimestamp(timestamp)).wait()
+        this.timestamp = timestamp
+    }
+
+    // mines count empty blocks a second apart, and advances to the timestamp of the last one
+    async mineBlocks(count: number): Promise<void> {
+        if (count <= 0) {
+            throw new Error(`SimClock: invalid block count ${count}`)
+        }
+        const realTimestamp = await getRealTimestamp()
+        for (let i = 1; i <= count; i++) {
+            await waffle.provider.send("evm_mine", [realTimestamp + i])
+        }
+        if (this.mockedTimeContracts) {
+            // setting the mocked timestamps takes a block as well
+            await this.advanceTo(Math.max(this.timestamp, realTimestamp + count + 1))
+        } else {
+            this.timestamp = realTimestamp + count
+        }
+    }
+
+    // sends the txs of fn in a single block, e.g. to cross more ticks than maxTickCrossedWithinBlock with several
+    // swaps; as the txs are mined only after fn returns, do not wait() for them in fn but after this returns:
+    //   const [tx1, tx2] = await clock.inSameBlock(async () => [
+    //       await clearingHouse.connect(alice).openPosition(...),
+    //       await clearingHouse.connect(bob).openPosition(...),
+    //   ])
+    // a tx reverting when estimating its gas, e.g. EX_OPLAS, is rejected at once by the pending state of the block
+    async inSameBlock<T>(fn: () => Promise<T>): Promise<T> {
+        const realTimestamp = await getRealTimestamp()
+        await waffle.provider.send("evm_setAutomine", [false])
+        try {
+            return await fn()
+        } finally {
+            const blockTimestamp = Math.max(this.timestamp, realTimestamp + 1)
+            await waffle.provider.send("evm_mine", [blockTimestamp])
+            await waffle.provider.send("evm_setAutomine", [true])
+            if (!this.mockedTimeContracts) {
+                this.timestamp = blockTimestamp
+            }
+        }
+    }
+
+    async getSnapshot(): Promise<ClockSnapshot> {
+        const block = await waffle.provider.getBlock("latest")
+        const snapshot: ClockSnapshot = {
+            timestamp: this.timestamp,
+            realTimestamp: block.timestamp,
+            blockNumber: block.number,
+        }
+        if (this.mockedTimeContracts) {
+            const { clearingHouse, exchange, accountBalance } = this.mockedTimeContracts
+            snapshot.clearingHouseTimestamp = (await clearingHouse.getBlockTimestamp()).toNumber()
+            snapshot.exchangeTimestamp = (await exchange.getBlockTimestamp()).toNumber()
+            snapshot.accountBalanceTimestamp = (await accountBalance.getBlockTimestamp()).toNumber()
+        }
+        return snapshot
+    }
+
+    // the seconds the real timestamp is ahead of the timestamp, by the txs sent since the last advance
+    async getDrift(): Promise<number> {
+        return (await getRealTimestamp()) - this.timestamp
+    }
+
+    // throws when the mocked timestamps are set other than by the clock, e.g. by forwardBothTimestamps(), or the real
+    // timestamp is ahead of the timestamp by more than maxDrift seconds
+    async assertNoDrift(maxDrift: number = 0): Promise<void> {
+        const snapshot = await this.getSnapshot()
+        if (this.mockedTimeContracts) {
+            const mockedTimestamps = {
+                ClearingHouse: snapshot.clearingHouseTimestamp,
+                Exchange: snapshot.exchangeTimestamp,
+                AccountBalance: snapshot.accountBalanceTimestamp,
+            }
+            for (const [name, mockedTimestamp] of Object.entries(mockedTimestamps)) {
+                if (mockedTimestamp !== snapshot.timestamp) {
+                    throw new Error(
+                        `SimClock: the mocked timestamp ${mockedTimestamp} of ${name} drifted from ${snapshot.timestamp}`,
+                    )
+                }
+            }
+        }
+
+        const drift = snapshot.realTimestamp - snapshot.timestamp
+        if (drift < 0 || drift > maxDrift) {
+            throw new Error(
+                `SimClock: the real timestamp ${snapshot.realTimestamp} drifted from ${snapshot.timestamp} by ${drift}`,
+            )
+        }
+    }
+}
+
+// the clock of the mocked timestamps of the clearing house, or of the real one when no clearing house is given;
+// advances both to INITIAL_FORWARD seconds after the latest of them, so they start in lockstep
+export async function createSimClock(clearingHouse?: TestClearingHouse): Promise<SimClock> {
+    const realTimestamp = await getRealTimestamp()
+    if (!clearingHouse) {
+        const clock = new SimClock(realTimestamp)
+        await clock.advanceBy(INITIAL_FORWARD)
+        return clock
+    }
+
+    const mockedTimeContracts: MockedTimeContracts = {
+        clearingHouse,
+        exchange: (await ethers.getContractAt("TestExchange", await clearingHouse.getExchange())) as TestExchange,
+        accountBalance: (await ethers.getContractAt(
+            "TestAccountBalance",
+            await clearingHouse.getAccountBalance(),
+        )) as TestAccountBalance,
+    }
+    const mockedTimestamp = (await clearingHouse.getBlockTimestamp()).toNumber()
+    const clock = new SimClock(mockedTimestamp, mockedTimeContracts)
+    await clock.advanceTo(Math.max(realTimestamp, mockedTimestamp) + INITIAL_FORWARD)
+    return clock
+}
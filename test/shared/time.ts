@@ -6,6 +6,7 @@ import { TestClearingHouse } from "../../typechain"
 // 2. mocked ones as written in TestClearingHouse, TestExchange and TestAccountBalance
 // By mocking timestamps in ClearingHouse, Exchange and AccountBalance, we can get the accurate funding payments
 // that won't be affected by txs sent by hardhat, as each tx increases timestamp by 1 second (the automine feature by hardhat)
+// SimClock in simClock.ts keeps the two in lockstep and detects when they drift apart
 
 // default increase amount by 10 as we cannot set a timestamp <= than the current one
 // if there are txs before forwarding, the real timestamp can be ahead several seconds
@@ -1,11 +1,18 @@
 import { BaseContract, BigNumber, BigNumberish } from "ethers"
-import { BaseToken, Exchange, TestAccountBalance, UniswapV3Pool, VirtualToken } from "../../typechain"
+import {
+    BaseToken,
+    Exchange,
+    MockPriceFeedDispatcher,
+    TestAccountBalance,
+    UniswapV3Pool,
+    VirtualToken,
+} from "../../typechain"
 
-import { MockContract } from "@eth-optimism/smock"
 import { LogDescription } from "@ethersproject/abi"
 import { TransactionReceipt } from "@ethersproject/abstract-provider"
 import bn from "bignumber.js"
 import { parseEther } from "ethers/lib/utils"
+import { formatSqrtPriceX96ToPrice } from "../../scripts/math/uniswapV3/priceMath"
 
 bn.config({ EXPONENTIAL_AT: 999999, DECIMAL_PLACES: 40 })
 
@@ -20,13 +27,7 @@ export function encodePriceSqrt(reserve1: BigNumberish, reserve0: BigNumberish):
     )
 }
 
-function bigNumberToBig(val: BigNumber, decimals: number = 18): bn {
-    return new bn(val.toString()).div(new bn(10).pow(decimals))
-}
-
-export function formatSqrtPriceX96ToPrice(value: BigNumber, decimals: number = 18): string {
-    return bigNumberToBig(value, 0).div(new bn(2).pow(96)).pow(2).dp(decimals).toString()
-}
+export { formatSqrtPriceX96ToPrice }
 
 export function getMarginRatio(accountValue: BigNumber, totalAbsPositionValue: BigNumber): bn {
     return new bn(accountValue.toString()).div(totalAbsPositionValue.toString())
@@ -64,20 +65,20 @@ export function filterLogs(receipt: TransactionReceipt, topic: string, baseContr
     return receipt.logs.filter(log => log.topics[0] === topic).map(log => baseContract.interface.parseLog(log))
 }
 
-export async function mockIndexPrice(mockedPriceFeedDispatcher: MockContract, price: string) {
+export async function mockIndexPrice(mockedPriceFeedDispatcher: MockPriceFeedDispatcher, price: string) {
     // decimals of PriceFeedDispatcher is 18, thus parseEther()
-    mockedPriceFeedDispatcher.smocked.getDispatchedPrice.will.return.with(parseEther(price))
+    await (await mockedPriceFeedDispatcher.setPrice(parseEther(price))).wait()
 }
 
 export async function mockMarkPrice(accountBalance: TestAccountBalance, baseToken: string, price: string) {
     await accountBalance.mockMarkPrice(baseToken, parseEther(price))
 }
 
-export async function syncIndexToMarketPrice(mockedPriceFeedDispatcher: MockContract, pool: UniswapV3Pool) {
+export async function syncIndexToMarketPrice(mockedPriceFeedDispatcher: MockPriceFeedDispatcher, pool: UniswapV3Pool) {
     const slot0 = await pool.slot0()
     const sqrtPrice = slot0.sqrtPriceX96
     const price = formatSqrtPriceX96ToPrice(sqrtPrice)
-    mockIndexPrice(mockedPriceFeedDispatcher, price)
+    await mockIndexPrice(mockedPriceFeedDispatcher, price)
 }
 
 export async function syncMarkPriceToMarketPrice(
@@ -0,0 +1,152 @@
+import { Wallet } from "ethers"
+import { LiquidationKeeper } from "../../scripts/keeper/liquidationKeeper"
+import { MakerBot, MakerMarketConfig } from "../../scripts/keeper/makerBot"
+import { PerpClient } from "../../scripts/sdk/perpClient"
+import { ClearingHouseFixture } from "../clearingHouse/fixtures"
+import { b2qExactOutput, closePosition, q2bExactInput } from "../helper/clearingHouseHelper"
+import { MarketSimulation, SimulationAgent } from "./marketSimulation"
+
+export interface RandomTakerConfig {
+    // the quote of a position, in integers
+    minQuote: number
+    maxQuote: number
+    // the chance to close the position instead of opening one
+    closeChance: number
+}
+
+// opens longs and shorts of random sizes and closes them at random
+export class RandomTakerAgent implements SimulationAgent {
+    constructor(
+        readonly name: string,
+        readonly wallets: Wallet[],
+        readonly config: RandomTakerConfig,
+        readonly weight?: number,
+    ) {}
+
+    async act(simulation: MarketSimulation): Promise<void> {
+        const { fixture, random } = simulation
+        const { baseToken } = simulation.pickMarket()
+        const wallet = random.pick(this.wallets)
+        if (random.next() < this.config.closeChance) {
+            await simulation.send(() => closePosition(fixture, wallet, 1, baseToken))
+            return
+        }
+
+        const quote = random.int(this.config.minQuote, this.config.maxQuote)
+        await simulation.send(() =>
+            random.bool()
+                ? q2bExactInput(fixture, wallet, quote, baseToken)
+                : b2qExactOutput(fixture, wallet, quote, baseToken),
+        )
+    }
+}
+
+// keeps a range of liquidity around the price of each market with MakerBot
+export class RangeMakerAgent implements SimulationAgent {
+    readonly wallets: Wallet[]
+    readonly bot: MakerBot
+
+    constructor(
+        readonly name: string,
+        wallet: Wallet,
+        fixture: ClearingHouseFixture,
+        markets: MakerMarketConfig[],
+        readonly weight?: number,
+    ) {
+        this.wallets = [wallet]
+        const { clearingHouse, vault, accountBalance, orderBook } = fixture
+        const client = new PerpClient({ clearingHouse, vault, accountBalance, orderBook }, wallet)
+        // MakerBot logs the failed markets instead of throwing, they are retried in the next step
+        this.bot = new MakerBot(client, fixture.marketRegistry, markets, () => {})
+    }
+
+    async act(): Promise<void> {
+        await this.bot.runOnce()
+    }
+}
+
+// liquidates the accounts of the simulation with LiquidationKeeper
+export class LiquidatorAgent implements SimulationAgent {
+    readonly wallets: Wallet[]
+    readonly keeper: LiquidationKeeper
+
+    constructor(readonly name: string, wallet: Wallet, fixture: ClearingHouseFixture, readonly weight?: number) {
+        this.wallets = [wallet]
+        const { clearingHouse, accountBalance, orderBook, vault } = fixture
+        this.keeper = new LiquidationKeeper({ clearingHouse, accountBalance, orderBook, vault }, wallet, 0, () => {})
+    }
+
+    async act(simulation: MarketSimulation): Promise<void> {
+        const { insuranceFund } = simulation.fixture
+        for (const account of simulation.getAccounts()) {
+            if (account === this.wallets[0].address || account === insuranceFund.address) {
+                continue
+            }
+            await simulation.send(async () => {
+                await this.keeper.liquidate(account)
+                return undefined
+            })
+        }
+    }
+}
+
+export interface FundingArbitrageurConfig {
+    // the spread between the market and the index price to trade at, e.g. 0.01 = 1%
+    spreadRatio: number
+    // the quote of a position
+    quote: number
+}
+
+// shorts when the market price is above the index price, so the longs pay the funding, and longs when below;
+// closes the position when the spread is gone
+export class FundingArbitrageurAgent implements SimulationAgent {
+    readonly wallets: Wallet[]
+
+    constructor(
+        readonly name: string,
+        wallet: Wallet,
+        readonly config: FundingArbitrageurConfig,
+        readonly weight?: number,
+    ) {
+        this.wallets = [wallet]
+    }
+
+    async act(simulation: MarketSimulation): Promise<void> {
+        const { fixture } = simulation
+        const [wallet] = this.wallets
+        const market = simulation.pickMarket()
+        const spread = (await simulation.getMarketPrice(market)) / Number(market.indexPrice) - 1
+        if (spread > this.config.spreadRatio) {
+            await simulation.send(() => b2qExactOutput(fixture, wallet, this.config.quote, market.baseToken))
+        } else if (spread < -this.config.spreadRatio) {
+            await simulation.send(() => q2bExactInput(fixture, wallet, this.config.quote, market.baseToken))
+        } else {
+            await simulation.send(() => closePosition(fixture, wallet, 1, market.baseToken))
+        }
+    }
+}
+
+export interface OraclePriceWalkConfig {
+    // the max change of the index price in a step, e.g. 0.01 = 1%
+    volatility: number
+    // the chance of a jump in a step and its size, e.g. 0.1 = 10%
+    jumpChance: number
+    jumpRatio: number
+}
+
+// moves the index price of a market by a random walk with occasional jumps
+export class OraclePriceWalkAgent implements SimulationAgent {
+    readonly wallets: Wallet[] = []
+
+    constructor(readonly name: string, readonly config: OraclePriceWalkConfig, readonly weight?: number) {}
+
+    async act(simulation: MarketSimulation): Promise<void> {
+        const { random } = simulation
+        const market = simulation.pickMarket()
+        let ratio = 1 + (random.next() * 2 - 1) * this.config.volatility
+        if (random.next() < this.config.jumpChance) {
+            ratio *= random.bool() ? 1 + this.config.jumpRatio : 1 - this.config.jumpRatio
+        }
+        await simulation.setIndexPrice(market, (Number(market.indexPrice) * ratio).toFixed(6))
+    }
+}
@@ -0,0 +1,86 @@
+import { BigNumber } from "ethers"
+import { MarketSimulation, SimulationInvariant } from "./marketSimulation"
+
+function sum(values: BigNumber[]): BigNumber {
+    return values.reduce((total, value) => total.add(value), BigNumber.from(0))
+}
+
+function requireCloseTo(name: string, actual: BigNumber, expected: BigNumber, dust: BigNumber): void {
+    if (actual.sub(expected).abs().gt(dust)) {
+        throw new Error(`${name} ${actual.toString()} != ${expected.toString()} (dust ${dust.toString()})`)
+    }
+}
+
+// the settlement token held by Vault is the sum of the balances of everyone, including the insurance fund;
+// the owed realized pnl is moved to the balance only by Vault.withdraw(), so the agents must not withdraw
+export const vaultBalanceInvariant: SimulationInvariant = {
+    name: "vault balance",
+    async check(simulation: MarketSimulation): Promise<void> {
+        const { vault, USDC } = simulation.fixture
+        const balances = await Promise.all(simulation.getAccounts().map(account => vault.getBalance(account)))
+        requireCloseTo("sum of balances", sum(balances), await USDC.balanceOf(vault.address), BigNumber.from(0))
+    },
+}
+
+// a taker's position is a maker's position, with the impermanent positions of the makers
+export const positionSizeInvariant: SimulationInvariant = {
+    name: "zero-sum position size",
+    async check(simulation: MarketSimulation): Promise<void> {
+        const { accountBalance } = simulation.fixture
+        for (const market of simulation.markets) {
+            const positionSizes = await Promise.all(
+                simulation.getAccounts().map(account => accountBalance.getTotalPositionSize(account, market.baseToken)),
+            )
+            requireCloseTo(
+                `sum of position sizes of ${market.baseToken}`,
+                sum(positionSizes),
+                BigNumber.from(0),
+                simulation.options.positionSizeDust,
+            )
+        }
+    },
+}
+
+// whatever a trader gains is paid by the others: the owed realized pnl, the unrealized pnl, the pending fee and
+// the pending funding payment of everyone add up to 0
+export const pnlInvariant: SimulationInvariant = {
+    name: "zero-sum pnl",
+    async check(simulation: MarketSimulation): Promise<void> {
+        const { accountBalance, exchange } = simulation.fixture
+        const pnls = await Promise.all(
+            simulation.getAccounts().map(async account => {
+                const [[owedRealizedPnl, unrealizedPnl, pendingFee], pendingFundingPayment] = await Promise.all([
+                    accountBalance.getPnlAndPendingFee(account),
+                    exchange.getAllPendingFundingPayment(account),
+                ])
+                return owedRealizedPnl.add(unrealizedPnl).add(pendingFee).sub(pendingFundingPayment)
+            }),
+        )
+        requireCloseTo("sum of pnl", sum(pnls), BigNumber.from(0), simulation.options.pnlDust)
+    },
+}
+
+// the fees paid by the takers go to the makers, either collected or pending, and the insurance fund, of which the
+// owed realized pnl also has its share of the liquidation penalties
+export const feeInvariant: SimulationInvariant = {
+    name: "fees",
+    async check(simulation: MarketSimulation): Promise<void> {
+        const { accountBalance, insuranceFund } = simulation.fixture
+        const { ledger } = simulation
+        const pendingFees = await Promise.all(
+            simulation.getAccounts().map(async account => (await accountBalance.getPnlAndPendingFee(account))[2]),
+        )
+        const [insuranceFundPnl] = await accountBalance.getPnlAndPendingFee(insuranceFund.address)
+        requireCloseTo(
+            "maker and insurance fund fees",
+            ledger.collectedMakerFees
+                .add(sum(pendingFees))
+                .add(insuranceFundPnl)
+                .sub(ledger.insuranceFundLiquidationFees),
+            ledger.takerFees,
+            simulation.options.pnlDust,
+        )
+    },
+}
+
+export const ACCOUNTING_INVARIANTS = [vaultBalanceInvariant, positionSizeInvariant, pnlInvariant, feeInvariant]
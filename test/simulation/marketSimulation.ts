@@ -0,0 +1,283 @@
+import { Log } from "@ethersproject/abstract-provider"
+import { BigNumber, ContractTransaction, Wallet } from "ethers"
+import { Interface, LogDescription, parseEther } from "ethers/lib/utils"
+import { formatSqrtPriceX96ToPrice } from "../../scripts/math/uniswapV3/priceMath"
+import { getRevertReason } from "../../scripts/revertReason"
+import { MockPriceFeedDispatcher, TestClearingHouse, UniswapV3Pool } from "../../typechain"
+import { ClearingHouseFixture } from "../clearingHouse/fixtures"
+import { closePosition, removeAllOrders } from "../helper/clearingHouseHelper"
+import { DEFAULT_RANDOM_SEED, Random } from "../shared/random"
+import { forwardBothTimestamps } from "../shared/time"
+import { mockIndexPrice } from "../shared/utilities"
+
+export interface SimulationMarket {
+    baseToken: string
+    pool: UniswapV3Pool
+    priceFeedDispatcher: MockPriceFeedDispatcher
+    // the price mocked by priceFeedDispatcher, e.g. "100"
+    indexPrice: string
+}
+
+export interface SimulationAgent {
+    readonly name: string
+    // the wallets the agent trades with, whose accounts are checked by the invariants
+    readonly wallets: Wallet[]
+    // the relative chance of the agent to act in a step, 1 by default
+    readonly weight?: number
+    act(simulation: MarketSimulation): Promise<void>
+}
+
+export interface SimulationInvariant {
+    readonly name: string
+    // throws when the invariant does not hold
+    check(simulation: MarketSimulation): Promise<void>
+}
+
+export interface SimulationOptions {
+    // the same seed replays the same steps
+    seed: number
+    // the mocked timestamps move forward every step, so the funding payments accrue
+    secondsPerStep: number
+    // the invariants are checked every checkInterval steps
+    checkInterval: number
+    // the makers not managed by any agent, whose liquidity stays until the settlement
+    makers: Wallet[]
+    // the rounding errors allowed in position sizes, and in pnl and fees in quote
+    positionSizeDust: BigNumber
+    pnlDust: BigNumber
+}
+
+export const DEFAULT_SIMULATION_OPTIONS: SimulationOptions = {
+    seed: DEFAULT_RANDOM_SEED,
+    secondsPerStep: 60,
+    checkInterval: 10,
+    makers: [],
+    positionSizeDust: BigNumber.from(10000),
+    pnlDust: parseEther("0.000001"),
+}
+
+// the fees and liquidations accumulated from the events since the simulation starts
+export interface SimulationLedger {
+    // PositionChanged.fee
+    takerFees: BigNumber
+    // LiquidityChanged.quoteFee
+    collectedMakerFees: BigNumber
+    // PnlRealized of the insurance fund in the txs of PositionLiquidated, see ClearingHouse._liquidate()
+    insuranceFundLiquidationFees: BigNumber
+    liquidations: number
+}
+
+export interface SimulationStats {
+    steps: number
+    actions: { [agent: string]: number }
+    // the reverted txs by reason, e.g. {"CH_NEFCI": 3}
+    reverts: { [reason: string]: number }
+}
+
+// runs the agents against a local fixture in random order and checks the accounting invariants as it goes,
+// a failed run is replayed by the seed in the error message
+export class MarketSimulation {
+    readonly options: SimulationOptions
+    readonly random: Random
+    readonly ledger: SimulationLedger = {
+        takerFees: BigNumber.from(0),
+        collectedMakerFees: BigNumber.from(0),
+        insuranceFundLiquidationFees: BigNumber.from(0),
+        liquidations: 0,
+    }
+    readonly stats: SimulationStats = { steps: 0, actions: {}, reverts: {} }
+    private nextBlock: number | undefined
+
+    constructor(
+        readonly fixture: ClearingHouseFixture,
+        readonly markets: SimulationMarket[],
+        readonly agents: SimulationAgent[],
+        readonly invariants: SimulationInvariant[],
+        options: Partial<SimulationOptions> = {},
+        private readonly log: (message: string) => void = () => {},
+    ) {
+        this.options = { ...DEFAULT_SIMULATION_OPTIONS, ...options }
+        this.random = new Random(this.options.seed)
+        if (agents.length === 0) {
+            throw new Error("Simulation: no agents")
+        }
+    }
+
+    // the wallets of the agents, without the makers in options
+    getWallets(): Wallet[] {
+        const wallets: Wallet[] = []
+        for (const agent of this.agents) {
+            for (const wallet of agent.wallets) {
+                if (!wallets.some(({ address }) => address === wallet.address)) {
+                    wallets.push(wallet)
+                }
+            }
+        }
+        return wallets.filter(wallet => !this.options.makers.some(({ address }) => address === wallet.address))
+    }
+
+    // the accounts of the agents, the makers and the insurance fund
+    getAccounts(): string[] {
+        return this.getWallets()
+            .concat(this.options.makers)
+            .map(wallet => wallet.address)
+            .concat([this.fixture.insuranceFund.address])
+    }
+
+    pickMarket(): SimulationMarket {
+        return this.random.pick(this.markets)
+    }
+
+    async getMarketPrice(market: SimulationMarket): Promise<number> {
+        return Number(formatSqrtPriceX96ToPrice((await market.pool.slot0()).sqrtPriceX96))
+    }
+
+    async setIndexPrice(market: SimulationMarket, price: string): Promise<void> {
+        await mockIndexPrice(market.priceFeedDispatcher, price)
+        market.indexPrice = price
+    }
+
+    // a reverted tx is counted by the reason instead of failing the simulation, e.g. a taker without enough
+    // free collateral; returns whether the tx succeeds
+    async send(tx: () => Promise<ContractTransaction | ContractTransaction[] | undefined>): Promise<boolean> {
+        try {
+            const sent = await tx()
+            for (const each of Array.isArray(sent) ? sent : sent ? [sent] : []) {
+                await each.wait()
+            }
+            return true
+        } catch (error) {
+            const reason = getRevertReason(error) || error.message
+            this.stats.reverts[reason] = (this.stats.reverts[reason] || 0) + 1
+            return false
+        }
+    }
+
+    async run(steps: number): Promise<SimulationStats> {
+        await this.syncLedger()
+        for (let step = 0; step < steps; step++) {
+            const agent = this.pickAgent()
+            this.stats.actions[agent.name] = (this.stats.actions[agent.name] || 0) + 1
+            try {
+                await agent.act(this)
+            } catch (error) {
+                throw new Error(
+                    `Simulation: ${agent.name} failed at step ${step} (seed ${this.options.seed}): ${error.message}`,
+                )
+            }
+            await forwardBothTimestamps(this.fixture.clearingHouse as TestClearingHouse, this.options.secondsPerStep)
+            this.stats.steps++
+
+            if ((step + 1) % this.options.checkInterval === 0 || step === steps - 1) {
+                await this.checkInvariants(`step ${step}`)
+            }
+        }
+        this.log(`simulated ${steps} steps with seed ${this.options.seed}: ${JSON.stringify(this.stats)}`)
+        return this.stats
+    }
+
+    // removes all the orders and closes all the positions as ClearingHouse.verifyAccounting.test.ts does, the makers
+    // in options are the last so the others can close against their liquidity; the invariants are checked again when
+    // there's only realized pnl
+    async settle(): Promise<void> {
+        const dust = this.options.positionSizeDust.toNumber()
+        for (const market of this.markets) {
+            for (const wallet of this.getWallets()) {
+                await this.send(() => removeAllOrders(this.fixture, wallet, market.baseToken))
+            }
+            for (const wallet of this.getWallets()) {
+                await this.send(() => closePosition(this.fixture, wallet, dust, market.baseToken))
+            }
+            for (const wallet of this.options.makers) {
+                await this.send(() => removeAllOrders(this.fixture, wallet, market.baseToken))
+                await this.send(() => closePosition(this.fixture, wallet, dust, market.baseToken))
+            }
+        }
+        await this.checkInvariants("settlement")
+    }
+
+    async checkInvariants(label: string): Promise<void> {
+        await this.syncLedger()
+        for (const invariant of this.invariants) {
+            try {
+                await invariant.check(this)
+            } catch (error) {
+                throw new Error(
+                    `Simulation: invariant ${invariant.name} is broken at ${label} (seed ${this.options.seed}): ` +
+                        error.message,
+                )
+            }
+        }
+    }
+
+    private pickAgent(): SimulationAgent {
+        const weights = this.agents.map(agent => (agent.weight === undefined ? 1 : agent.weight))
+        let value = this.random.next() * weights.reduce((sum, weight) => sum + weight, 0)
+        for (let i = 0; i < this.agents.length; i++) {
+            value -= weights[i]
+            if (value < 0) {
+                return this.agents[i]
+            }
+        }
+        return this.agents[this.agents.length - 1]
+    }
+
+    // the ledger is built from the events of every block rather than the txs of the agents, as some txs are sent by
+    // the keepers and bots the agents wrap, e.g. ClearingHouse.cancelAllExcessOrders() of LiquidationKeeper
+    private async syncLedger(): Promise<void> {
+        const { clearingHouse, accountBalance, insuranceFund } = this.fixture
+        const latestBlock = await clearingHouse.provider.getBlockNumber()
+        if (this.nextBlock === undefined) {
+            this.nextBlock = latestBlock + 1
+            return
+        }
+        if (latestBlock < this.nextBlock) {
+            return
+        }
+
+        const [clearingHouseLogs, accountBalanceLogs] = await Promise.all(
+            [clearingHouse.address, accountBalance.address].map(address =>
+                clearingHouse.provider.getLogs({ address, fromBlock: this.nextBlock, toBlock: latestBlock }),
+            ),
+        )
+        this.nextBlock = latestBlock + 1
+
+        const liquidationTxs: { [txHash: string]: boolean } = {}
+        for (const log of clearingHouseLogs) {
+            const event = parseLog(clearingHouse.interface, log)
+            if (!event) {
+                continue
+            }
+            if (event.name === "PositionChanged") {
+                this.ledger.takerFees = this.ledger.takerFees.add(event.args.fee)
+            } else if (event.name === "LiquidityChanged") {
+                this.ledger.collectedMakerFees = this.ledger.collectedMakerFees.add(event.args.quoteFee)
+            } else if (event.name === "PositionLiquidated") {
+                this.ledger.liquidations++
+                liquidationTxs[log.transactionHash] = true
+            }
+        }
+        for (const log of accountBalanceLogs) {
+            const event = parseLog(accountBalance.interface, log)
+            if (
+                event &&
+                event.name === "PnlRealized" &&
+                event.args.trader === insuranceFund.address &&
+                liquidationTxs[log.transactionHash]
+            ) {
+                this.ledger.insuranceFundLiquidationFees = this.ledger.insuranceFundLiquidationFees.add(
+                    event.args.amount,
+                )
+            }
+        }
+    }
+}
+
+function parseLog(contractInterface: Interface, log: Log): LogDescription | undefined {
+    try {
+        return contractInterface.parseLog(log)
+    } catch (error) {
+        // the events of the libraries or the ones not in the interface
+        return undefined
+    }
+}
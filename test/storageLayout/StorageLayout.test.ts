@@ -0,0 +1,81 @@
+import { expect } from "chai"
+import {
+    checkStorageLayouts,
+    compareStorageLayouts,
+    formatIssues,
+    getBaselineRelease,
+    getCurrentStorageLayouts,
+    StorageLayouts,
+    StorageVariable,
+} from "../../scripts/storageLayout"
+
+describe("Storage layout", () => {
+    let baseline: StorageLayouts
+    let current: StorageLayouts
+    let variables: StorageVariable[]
+
+    function findVariable(id: string): StorageVariable {
+        return variables.find(variable => variable.id === id)
+    }
+
+    beforeEach(async () => {
+        baseline = getCurrentStorageLayouts("baseline")
+        // a deep copy to be modified by the test cases
+        current = JSON.parse(JSON.stringify(baseline))
+        variables = current.contracts.AccountBalance
+    })
+
+    it("the current build is compatible with the baseline of the latest release", async () => {
+        expect(() => checkStorageLayouts(getBaselineRelease())).not.to.throw()
+    })
+
+    it("allows appending variables and renaming a variable without changing its type", async () => {
+        const last = variables[variables.length - 1]
+        variables.push({ id: "_appended", slot: last.slot + 1, offset: 0, numberOfBytes: 32, type: "uint256" })
+        findVariable("_vault").id = "_renamedVault"
+
+        expect(compareStorageLayouts(baseline, current)).to.deep.eq([])
+    })
+
+    it("flags reordered, retyped, removed and inserted variables", async () => {
+        // swap _orderBook and _vault
+        const orderBook = findVariable("_orderBook")
+        const vault = findVariable("_vault")
+        const orderBookSlot = orderBook.slot
+        orderBook.slot = vault.slot
+        vault.slot = orderBookSlot
+
+        findVariable("_owedRealizedPnlMap").type = "mapping(address => uint256)"
+
+        // replace the last variable with one of another name and type
+        const last = variables[variables.length - 1]
+        variables[variables.length - 1] = { ...last, id: "_inserted", type: "uint256" }
+
+        const issues = compareStorageLayouts(baseline, current)
+        expect(issues.map(issue => [issue.contractName, issue.kind])).to.deep.eq([
+            ["AccountBalance", "reordered"],
+            ["AccountBalance", "reordered"],
+            ["AccountBalance", "retyped"],
+            ["AccountBalance", "removed"],
+            ["AccountBalance", "inserted"],
+        ])
+        expect(issues[2].message).to.be.eq(
+            `_owedRealizedPnlMap (mapping(address => int256)) at slot ${findVariable("_owedRealizedPnlMap").slot} ` +
+                "offset 0 is changed to mapping(address => uint256)",
+        )
+
+        const diff = formatIssues(baseline, issues)
+        expect(diff.split("\n").slice(0, 2)).to.deep.eq([
+            "storage layout is incompatible with release baseline:",
+            "  AccountBalance",
+        ])
+    })
+
+    it("flags the removed contracts", async () => {
+        delete current.contracts.DelegateApproval
+
+        expect(compareStorageLayouts(baseline, current)).to.deep.eq([
+            { contractName: "DelegateApproval", kind: "removed", message: "DelegateApproval is removed" },
+        ])
+    })
+})
@@ -1,7 +1,12 @@
 import { expect } from "chai"
+import { BigNumber } from "ethers"
 import { hexlify, parseEther } from "ethers/lib/utils"
 import { ethers, waffle } from "hardhat"
+import { getAmountsForLiquidity } from "../../scripts/math/uniswapV3/liquidityAmounts"
+import { getSqrtRatioAtTick, getTickAtSqrtRatio } from "../../scripts/math/uniswapV3/tickMath"
+import { addLiquidity, AddLiquidityResponse } from "../../scripts/simulator/orderBook"
 import { BaseToken, QuoteToken, TestUniswapV3Broker, UniswapV3Pool } from "../../typechain"
+import { getMaxTick, getMinTick } from "../helper/number"
 import { base0Quote1PoolFixture } from "../shared/fixtures"
 import { encodePriceSqrt } from "../shared/utilities"
 
@@ -187,4 +192,75 @@ describe("UniswapV3Broker addLiquidity", () => {
             }),
         ).to.be.reverted
     })
+
+    describe("predicted by the off-chain OrderBook.addLiquidity()", () => {
+        // the fee tier of the fixture is 1%
+        const tickSpacing = 200
+        const minTick = getMinTick(tickSpacing)
+        const maxTick = getMaxTick(tickSpacing)
+        const liquidity = BigNumber.from(10).pow(30)
+
+        for (const tick of [minTick, -500000, -50200, 0, 50200, 500000, maxTick - tickSpacing]) {
+            it(`mint range orders below, including and above the current tick ${tick}`, async () => {
+                await pool.initialize(getSqrtRatioAtTick(tick))
+                const slot0 = await pool.slot0()
+                expect(getTickAtSqrtRatio(slot0.sqrtPriceX96)).to.be.eq(slot0.tick)
+
+                const ranges = [
+                    [minTick, maxTick],
+                    [tick - 2000, tick],
+                    [tick - 1000, tick + 1000],
+                    [tick, tick + 2000],
+                    [tick + 200, tick + 2000],
+                ].filter(([lowerTick, upperTick]) => lowerTick >= minTick && upperTick <= maxTick)
+
+                for (const [lowerTick, upperTick] of ranges) {
+                    // the amounts of a position with the liquidity, rounding down
+                    const { amount0, amount1 } = getAmountsForLiquidity(
+                        slot0.sqrtPriceX96,
+                        getSqrtRatioAtTick(lowerTick),
+                        getSqrtRatioAtTick(upperTick),
+                        liquidity,
+                    )
+                    const params = { lowerTick, upperTick, base: amount0, quote: amount1 }
+                    const addLiquidityTx = () =>
+                        uniswapV3Broker.addLiquidity({ pool: pool.address, ...params, data: hexlify([]) })
+
+                    let expected: AddLiquidityResponse
+                    try {
+                        expected = addLiquidity(slot0, params)
+                    } catch (e: any) {
+                        // at the lowest ticks, sqrt(lower) * sqrt(upper) / 2^96 of LiquidityAmounts rounds to 0,
+                        // so no amount of base can provide liquidity
+                        expect(e.message).to.be.eq("OrderBook: zero liquidity")
+                        await expect(addLiquidityTx()).to.be.reverted
+                        continue
+                    }
+                    expect(expected.liquidity).to.be.lte(liquidity)
+
+                    await expect(addLiquidityTx())
+                        .to.emit(pool, "Mint")
+                        .withArgs(
+                            uniswapV3Broker.address,
+                            uniswapV3Broker.address,
+                            lowerTick,
+                            upperTick,
+                            expected.liquidity,
+                            expected.base,
+                            expected.quote,
+                        )
+                }
+            })
+        }
+
+        it("force error, mint range order above current price without base", async () => {
+            await pool.initialize(encodePriceSqrt(1, 1))
+            const slot0 = await pool.slot0()
+
+            const params = { lowerTick: 50000, upperTick: 50200, base: 0, quote: parseEther("0.122414646") }
+            expect(() => addLiquidity(slot0, params)).to.throw("OrderBook: zero liquidity")
+            await expect(uniswapV3Broker.addLiquidity({ pool: pool.address, ...params, data: hexlify([]) })).to.be
+                .reverted
+        })
+    })
 })
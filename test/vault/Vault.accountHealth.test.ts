@@ -0,0 +1,286 @@
+import { MockContract } from "@eth-optimism/smock"
+import { expect } from "chai"
+import { Wallet } from "ethers"
+import { formatEther, parseEther, parseUnits } from "ethers/lib/utils"
+import { waffle } from "hardhat"
+import {
+    applyTrade,
+    getAccountValue,
+    getClearingHouseAccountValue,
+    getFreeCollateral,
+    getFreeCollateralByRatio,
+    getFreeCollateralByToken,
+    getLiquidatablePositionSize,
+    getLiquidationPrice,
+    getMarginRequirementForCollateralLiquidation,
+    getMarginRequirementForLiquidation,
+    getMaxRepaidSettlementAndLiquidatableCollateral,
+    getPnlAndPendingFee,
+    getSettlementTokenValue,
+    getTotalAbsPositionValue,
+    getTotalDebtValue,
+    getTotalPositionSize,
+    isLiquidatable,
+    isPositionLiquidatable,
+    withReferencePrice,
+} from "../../scripts/health/accountHealth"
+import {
+    AccountSnapshot,
+    HealthConfig,
+    loadAccountSnapshot,
+    loadHealthConfig,
+} from "../../scripts/health/accountSnapshot"
+import { loadSwapContext, simulateSwap } from "../../scripts/simulator/exchange"
+import { BaseToken, TestAccountBalance, TestClearingHouse, TestERC20, Vault } from "../../typechain"
+import { ClearingHouseFixture, createClearingHouseFixture } from "../clearingHouse/fixtures"
+import { addOrder, b2qExactInput, q2bExactInput } from "../helper/clearingHouseHelper"
+import { initMarket } from "../helper/marketHelper"
+import { deposit, mintAndDeposit } from "../helper/token"
+import { forwardBothTimestamps, initiateBothTimestamps } from "../shared/time"
+import { mockIndexPrice, mockMarkPrice } from "../shared/utilities"
+
+describe("Vault account health engine", () => {
+    const [admin, alice, bob, carol, dave] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    let fixture: ClearingHouseFixture
+    let vault: Vault
+    let clearingHouse: TestClearingHouse
+    let accountBalance: TestAccountBalance
+    let usdc: TestERC20
+    let weth: TestERC20
+    let wbtc: TestERC20
+    let baseToken: BaseToken
+    let mockedWethPriceFeed: MockContract
+    let config: HealthConfig
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseFixture())
+        vault = fixture.vault
+        clearingHouse = fixture.clearingHouse as TestClearingHouse
+        accountBalance = fixture.accountBalance as TestAccountBalance
+        usdc = fixture.USDC
+        weth = fixture.WETH
+        wbtc = fixture.WBTC
+        baseToken = fixture.baseToken
+        mockedWethPriceFeed = fixture.mockedWethPriceFeed
+
+        await initMarket(fixture, "151.373306858723226652", undefined, 0)
+        await mockIndexPrice(fixture.mockedPriceFeedDispatcher, "151")
+
+        mockedWethPriceFeed.smocked.getPrice.will.return.with(parseUnits("3000", 8))
+        fixture.mockedWbtcPriceFeed.smocked.getPrice.will.return.with(parseUnits("40000", 8))
+
+        // bob provides the main liquidity
+        await mintAndDeposit(fixture, bob, 1000000)
+        await addOrder(fixture, bob, 200, 100000, 0, 150000)
+
+        // alice is a maker and a taker with multiple collaterals
+        await mintAndDeposit(fixture, alice, 1000)
+        await weth.mint(alice.address, parseEther("1"))
+        await deposit(alice, vault, 1, weth)
+        await wbtc.mint(alice.address, parseUnits("0.01", await wbtc.decimals()))
+        await deposit(alice, vault, 0.01, wbtc)
+        await addOrder(fixture, alice, 1, 150, 49800, 50600)
+        await q2bExactInput(fixture, alice, 300)
+
+        // carol is a leveraged taker
+        await mintAndDeposit(fixture, carol, 100)
+        await q2bExactInput(fixture, carol, 400)
+
+        // mock mark price for fixed position value
+        await mockMarkPrice(accountBalance, baseToken.address, "152")
+
+        // NOTE: Should be the last step in beforeEach
+        await initiateBothTimestamps(clearingHouse)
+
+        config = await loadHealthConfig(fixture)
+    })
+
+    async function expectHealthMatched(snapshot: AccountSnapshot, trader: Wallet) {
+        expect(getAccountValue(snapshot)).to.be.eq(await vault.getAccountValue(trader.address))
+        expect(getSettlementTokenValue(snapshot)).to.be.eq(await vault.getSettlementTokenValue(trader.address))
+        expect(getFreeCollateral(snapshot, config)).to.be.eq(await vault.getFreeCollateral(trader.address))
+        for (const ratio of [config.imRatio, config.mmRatio]) {
+            expect(getFreeCollateralByRatio(snapshot, ratio)).to.be.eq(
+                await vault.getFreeCollateralByRatio(trader.address, ratio),
+            )
+        }
+        for (const token of [usdc, weth, wbtc]) {
+            expect(getFreeCollateralByToken(snapshot, config, token.address)).to.be.eq(
+                await vault.getFreeCollateralByToken(trader.address, token.address),
+            )
+        }
+
+        const [owedRealizedPnl, unrealizedPnl, pendingFee] = await accountBalance.getPnlAndPendingFee(trader.address)
+        const pnlAndPendingFee = getPnlAndPendingFee(snapshot)
+        expect(pnlAndPendingFee.owedRealizedPnl).to.be.eq(owedRealizedPnl)
+        expect(pnlAndPendingFee.unrealizedPnl).to.be.eq(unrealizedPnl)
+        expect(pnlAndPendingFee.pendingFee).to.be.eq(pendingFee)
+
+        expect(getTotalDebtValue(snapshot)).to.be.eq(await accountBalance.getTotalDebtValue(trader.address))
+        expect(getTotalAbsPositionValue(snapshot)).to.be.eq(
+            await accountBalance.getTotalAbsPositionValue(trader.address),
+        )
+        expect(getMarginRequirementForLiquidation(snapshot, config)).to.be.eq(
+            await accountBalance.getMarginRequirementForLiquidation(trader.address),
+        )
+        expect(getMarginRequirementForCollateralLiquidation(snapshot, config)).to.be.eq(
+            await vault.getMarginRequirementForCollateralLiquidation(trader.address),
+        )
+        expect(isLiquidatable(snapshot, config)).to.be.eq(await vault.isLiquidatable(trader.address))
+
+        const accountValue = await clearingHouse.getAccountValue(trader.address)
+        expect(getClearingHouseAccountValue(snapshot)).to.be.eq(accountValue)
+        for (const market of snapshot.markets) {
+            expect(getTotalPositionSize(market)).to.be.eq(
+                await accountBalance.getTotalPositionSize(trader.address, market.baseToken),
+            )
+            expect(getLiquidatablePositionSize(snapshot, config, market.baseToken, accountValue)).to.be.eq(
+                await accountBalance.getLiquidatablePositionSize(trader.address, market.baseToken, accountValue),
+            )
+        }
+        for (const collateral of snapshot.collaterals) {
+            const [maxRepaidSettlementX10_S, maxLiquidatableCollateral] =
+                await vault.getMaxRepaidSettlementAndLiquidatableCollateral(trader.address, collateral.token)
+            const expected = getMaxRepaidSettlementAndLiquidatableCollateral(snapshot, config, collateral.token)
+            expect(expected.maxRepaidSettlementX10_S).to.be.eq(maxRepaidSettlementX10_S)
+            expect(expected.maxLiquidatableCollateral).to.be.eq(maxLiquidatableCollateral)
+        }
+    }
+
+    it("matches the on-chain account health of makers and takers", async () => {
+        for (const trader of [alice, bob, carol]) {
+            await expectHealthMatched(await loadAccountSnapshot(fixture, trader.address), trader)
+        }
+    })
+
+    it("matches the on-chain account health with pending funding payment", async () => {
+        await mockIndexPrice(fixture.mockedPriceFeedDispatcher, "150")
+        await forwardBothTimestamps(clearingHouse, 3600)
+
+        for (const trader of [alice, bob, carol]) {
+            const snapshot = await loadAccountSnapshot(fixture, trader.address)
+            expect(snapshot.markets[0].pendingFundingPayment).to.be.not.eq(0)
+            await expectHealthMatched(snapshot, trader)
+        }
+    })
+
+    it("matches the on-chain account health when the collateral price drops", async () => {
+        mockedWethPriceFeed.smocked.getPrice.will.return.with(parseUnits("100", 8))
+        await mockMarkPrice(accountBalance, baseToken.address, "120")
+
+        const snapshot = await loadAccountSnapshot(fixture, alice.address)
+        expect(isLiquidatable(snapshot, config)).to.be.true
+        await expectHealthMatched(snapshot, alice)
+    })
+
+    describe("what-if", () => {
+        async function expectTradePredicted(trader: Wallet, isBaseToQuote: boolean, amount: string) {
+            const snapshot = await loadAccountSnapshot(fixture, trader.address)
+            const context = await loadSwapContext(fixture.marketRegistry, trader.address, baseToken.address)
+            const simulated = simulateSwap(context, {
+                isBaseToQuote,
+                isExactInput: true,
+                amount: parseEther(amount),
+                sqrtPriceLimitX96: 0,
+            })
+            const predicted = applyTrade(snapshot, { baseToken: baseToken.address, ...simulated })
+
+            if (isBaseToQuote) {
+                await b2qExactInput(fixture, trader, amount)
+            } else {
+                await q2bExactInput(fixture, trader, amount)
+            }
+
+            await expectHealthMatched(predicted, trader)
+        }
+
+        it("increases a position", async () => {
+            await expectTradePredicted(carol, false, "50")
+        })
+
+        it("reduces a position and realizes pnl", async () => {
+            await expectTradePredicted(carol, true, "0.5")
+        })
+
+        it("reverses a position", async () => {
+            await expectTradePredicted(carol, true, "3")
+        })
+
+        it("closes a position", async () => {
+            const positionSize = await accountBalance.getTakerPositionSize(carol.address, baseToken.address)
+            await expectTradePredicted(carol, true, formatEther(positionSize))
+        })
+
+        it("opens a position in a new market", async () => {
+            await mintAndDeposit(fixture, dave, 100)
+            const snapshot = await loadAccountSnapshot(fixture, dave.address)
+            const context = await loadSwapContext(fixture.marketRegistry, dave.address, baseToken.address)
+            const simulated = simulateSwap(context, {
+                isBaseToQuote: false,
+                isExactInput: true,
+                amount: parseEther("10"),
+                sqrtPriceLimitX96: 0,
+            })
+            const trade = { baseToken: baseToken.address, ...simulated }
+            expect(() => applyTrade(snapshot, trade)).to.throw("is not in the snapshot")
+
+            const predicted = applyTrade(snapshot, trade, {
+                referencePrice: await accountBalance.getMarkPrice(baseToken.address),
+                sqrtPriceX96: context.poolState.sqrtPriceX96,
+            })
+            await q2bExactInput(fixture, dave, 10)
+
+            await expectHealthMatched(predicted, dave)
+        })
+    })
+
+    describe("liquidation price", () => {
+        it("is the highest price at which a long position is liquidatable", async () => {
+            const snapshot = await loadAccountSnapshot(fixture, carol.address)
+            const liquidationPrice = getLiquidationPrice(snapshot, config, baseToken.address)
+            expect(liquidationPrice).to.be.gt(0)
+            expect(liquidationPrice).to.be.lt(parseEther("152"))
+            expect(isPositionLiquidatable(withReferencePrice(snapshot, baseToken.address, liquidationPrice), config)).to
+                .be.true
+            expect(
+                isPositionLiquidatable(
+                    withReferencePrice(snapshot, baseToken.address, liquidationPrice.add(1)),
+                    config,
+                ),
+            ).to.be.false
+
+            for (const [price, expected] of [
+                [liquidationPrice, true],
+                [liquidationPrice.add(1), false],
+            ] as const) {
+                await accountBalance.mockMarkPrice(baseToken.address, price)
+                const accountValue = await clearingHouse.getAccountValue(carol.address)
+                const marginRequirement = await accountBalance.getMarginRequirementForLiquidation(carol.address)
+                expect(accountValue.lt(marginRequirement)).to.be.eq(expected)
+            }
+        })
+
+        it("is the lowest price at which a short position is liquidatable", async () => {
+            await b2qExactInput(fixture, carol, 6)
+            const snapshot = await loadAccountSnapshot(fixture, carol.address)
+            expect(getTotalPositionSize(snapshot.markets[0])).to.be.lt(0)
+
+            const liquidationPrice = getLiquidationPrice(snapshot, config, baseToken.address)
+            expect(liquidationPrice).to.be.gt(parseEther("152"))
+            expect(isPositionLiquidatable(withReferencePrice(snapshot, baseToken.address, liquidationPrice), config)).to
+                .be.true
+            expect(
+                isPositionLiquidatable(
+                    withReferencePrice(snapshot, baseToken.address, liquidationPrice.sub(1)),
+                    config,
+                ),
+            ).to.be.false
+        })
+
+        it("is undefined when the position can never be liquidated", async () => {
+            const snapshot = await loadAccountSnapshot(fixture, alice.address)
+            expect(getLiquidationPrice(snapshot, config, baseToken.address)).to.be.undefined
+        })
+    })
+})
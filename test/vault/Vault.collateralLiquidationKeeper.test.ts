@@ -0,0 +1,162 @@
+import { MockContract } from "@eth-optimism/smock"
+import { expect } from "chai"
+import { formatEther, parseEther, parseUnits } from "ethers/lib/utils"
+import { ethers, waffle } from "hardhat"
+import { CollateralLiquidationKeeper } from "../../scripts/keeper/collateralLiquidationKeeper"
+import { CollateralManager, TestAccountBalance, TestERC20, Vault } from "../../typechain"
+import { ClearingHouseFixture, createClearingHouseFixture } from "../clearingHouse/fixtures"
+import { addOrder, q2bExactInput } from "../helper/clearingHouseHelper"
+import { initMarket } from "../helper/marketHelper"
+import { getMaxTickRange } from "../helper/number"
+import { deposit } from "../helper/token"
+import { mockIndexPrice, mockMarkPrice, syncIndexToMarketPrice, syncMarkPriceToMarketPrice } from "../shared/utilities"
+
+describe("Vault collateral liquidation keeper", () => {
+    const [admin, alice, bob, carol, david] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    let fixture: ClearingHouseFixture
+    let vault: Vault
+    let accountBalance: TestAccountBalance
+    let collateralManager: CollateralManager
+    let usdc: TestERC20
+    let weth: TestERC20
+    let wbtc: TestERC20
+    let mockedWethPriceFeed: MockContract
+    let mockedWbtcPriceFeed: MockContract
+    let usdcDecimals: number
+    let wbtcDecimals: number
+    let keeper: CollateralLiquidationKeeper
+
+    function createKeeper(liquidator = carol): CollateralLiquidationKeeper {
+        return new CollateralLiquidationKeeper(
+            { clearingHouse: fixture.clearingHouse, vault, collateralManager },
+            liquidator,
+            0,
+            () => {},
+        )
+    }
+
+    beforeEach(async () => {
+        fixture = await loadFixture(createClearingHouseFixture())
+        vault = fixture.vault
+        accountBalance = fixture.accountBalance as TestAccountBalance
+        collateralManager = fixture.collateralManager
+        usdc = fixture.USDC
+        weth = fixture.WETH
+        wbtc = fixture.WBTC
+        mockedWethPriceFeed = fixture.mockedWethPriceFeed
+        mockedWbtcPriceFeed = fixture.mockedWbtcPriceFeed
+        usdcDecimals = await usdc.decimals()
+        wbtcDecimals = await wbtc.decimals()
+
+        const baseToken = fixture.baseToken
+        await initMarket(fixture, "151.373306858723226652", 10000, 0, getMaxTickRange(), baseToken.address)
+        await syncIndexToMarketPrice(fixture.mockedPriceFeedDispatcher, fixture.pool)
+        await syncMarkPriceToMarketPrice(accountBalance, baseToken.address, fixture.pool)
+
+        await usdc.mint(bob.address, parseUnits("1000000", usdcDecimals))
+        await deposit(bob, vault, 1000000, usdc)
+        await addOrder(fixture, bob, 500, 1000000, 0, 150000)
+
+        // alice only has non-settlement collateral: 1 weth (3000) and 0.02355323 wbtc (908.76)
+        mockedWethPriceFeed.smocked.getPrice.will.return.with(parseUnits("3000", 8))
+        mockedWbtcPriceFeed.smocked.getPrice.will.return.with(parseUnits("38583.34253324", 8))
+        await weth.mint(alice.address, parseEther("1"))
+        await weth.connect(alice).approve(vault.address, ethers.constants.MaxUint256)
+        await wbtc.mint(alice.address, parseUnits("0.02355323", wbtcDecimals))
+        await wbtc.connect(alice).approve(vault.address, ethers.constants.MaxUint256)
+        await deposit(alice, vault, 1, weth)
+        await deposit(alice, vault, 0.02355323, wbtc)
+
+        await mockIndexPrice(fixture.mockedPriceFeedDispatcher, "170")
+        await q2bExactInput(fixture, alice, 5000)
+
+        // carol is the liquidator
+        await usdc.mint(carol.address, parseUnits("10000", usdcDecimals))
+
+        keeper = createKeeper()
+    })
+
+    it("does nothing when no one is liquidatable", async () => {
+        expect(await keeper.findBestCandidate(alice.address)).to.be.undefined
+        expect(await keeper.runOnce()).to.deep.eq([])
+        expect(await weth.balanceOf(carol.address)).to.be.eq(0)
+    })
+
+    describe("alice is liquidatable", async () => {
+        beforeEach(async () => {
+            // usdc debt: 5000, max repaid settlement: 5000 * 0.5 / (1 - 0.03) = 2577.319587
+            await mockMarkPrice(accountBalance, fixture.baseToken.address, formatEther("1"))
+        })
+
+        it("reports the profit of every collateral token", async () => {
+            const [wethCandidate, wbtcCandidate] = await keeper.getCandidates(alice.address)
+
+            // liquidated collateral: 2577.319587 / (3000 * 0.9) = 0.95456281
+            // value: 0.954562810232913326 * 3000 = 2863.688430
+            expect(wethCandidate.token).to.be.eq(weth.address)
+            expect(wethCandidate.discountRatio).to.be.eq(100000)
+            expect(wethCandidate.collateral).to.be.eq(parseEther("0.954562810232913326"))
+            expect(wethCandidate.repaidSettlement).to.be.eq(parseUnits("2577.319587", usdcDecimals))
+            expect(wethCandidate.collateralValue).to.be.eq(parseUnits("2863.688430", usdcDecimals))
+            expect(wethCandidate.profit).to.be.eq(parseUnits("286.368843", usdcDecimals))
+
+            // all of the wbtc is liquidatable by 817.886106
+            expect(wbtcCandidate.token).to.be.eq(wbtc.address)
+            expect(wbtcCandidate.collateral).to.be.eq(parseUnits("0.02355323", wbtcDecimals))
+            expect(wbtcCandidate.repaidSettlement).to.be.eq(parseUnits("817.886106", usdcDecimals))
+            expect(wbtcCandidate.profit).to.be.eq(wbtcCandidate.collateralValue.sub(wbtcCandidate.repaidSettlement))
+            expect(wbtcCandidate.profit).to.be.lt(wethCandidate.profit)
+        })
+
+        it("reports the most profitable collateral without liquidating in dry run mode", async () => {
+            const reported = await keeper.report()
+            expect(reported.map(candidate => [candidate.trader, candidate.token])).to.deep.eq([
+                [alice.address, weth.address],
+            ])
+            expect(await vault.getBalanceByToken(alice.address, weth.address)).to.be.eq(parseEther("1"))
+            expect(await usdc.balanceOf(carol.address)).to.be.eq(parseUnits("10000", usdcDecimals))
+        })
+
+        it("liquidates the most profitable collateral", async () => {
+            const [result] = await keeper.runOnce()
+            expect(result.token).to.be.eq(weth.address)
+
+            const receipt = await waffle.provider.getTransactionReceipt(result.txHash)
+            const [log] = receipt.logs
+                .filter(log => log.topics[0] === vault.interface.getEventTopic("CollateralLiquidated"))
+                .map(log => vault.interface.parseLog(log))
+            expect(log.args.trader).to.be.eq(alice.address)
+            expect(log.args.collateralToken).to.be.eq(weth.address)
+            expect(log.args.liquidator).to.be.eq(carol.address)
+            expect(log.args.collateral).to.be.eq(result.collateral)
+
+            expect(await weth.balanceOf(carol.address)).to.be.eq(result.collateral)
+            expect(await usdc.balanceOf(carol.address)).to.be.eq(
+                parseUnits("10000", usdcDecimals).sub(result.repaidSettlement),
+            )
+        })
+
+        it("picks the collateral with a higher discount", async () => {
+            await collateralManager.setDiscountRatio(wbtc.address, 500000)
+
+            // all of the wbtc is liquidated at half price: 908.76 * 0.5 = 454.38 > 286.37 of weth
+            const [result] = await keeper.runOnce()
+            expect(result.token).to.be.eq(wbtc.address)
+            expect(result.discountRatio).to.be.eq(500000)
+            expect(await wbtc.balanceOf(carol.address)).to.be.eq(parseUnits("0.02355323", wbtcDecimals))
+        })
+
+        it("sizes the liquidation by the settlement token balance of the liquidator", async () => {
+            await usdc.mint(david.address, parseUnits("1000", usdcDecimals))
+
+            // liquidated collateral: 1000 / (3000 * 0.9) = 0.37037037
+            const [result] = await createKeeper(david).runOnce()
+            expect(result.token).to.be.eq(weth.address)
+            expect(result.collateral).to.be.eq(parseEther("0.370370370370370371"))
+            expect(result.repaidSettlement).to.be.eq(parseUnits("1000", usdcDecimals))
+            expect(await usdc.balanceOf(david.address)).to.be.eq(0)
+            expect(await weth.balanceOf(david.address)).to.be.eq(result.collateral)
+        })
+    })
+})
@@ -1,8 +1,15 @@
-import { MockContract } from "@eth-optimism/smock"
 import { expect } from "chai"
 import { parseEther, parseUnits } from "ethers/lib/utils"
 import { ethers, waffle } from "hardhat"
-import { ClearingHouseConfig, CollateralManager, TestERC20, TestWETH9, UniswapV3Pool, Vault } from "../../typechain"
+import {
+    ClearingHouseConfig,
+    CollateralManager,
+    MockPriceFeedDispatcher,
+    TestERC20,
+    TestWETH9,
+    UniswapV3Pool,
+    Vault,
+} from "../../typechain"
 import { ClearingHouseFixture, createClearingHouseFixture } from "../clearingHouse/fixtures"
 
 describe("Vault deposit test", () => {
@@ -12,7 +19,7 @@ describe("Vault deposit test", () => {
     let usdc: TestERC20
     let weth: TestERC20
     let wbtc: TestERC20
-    let wethPriceFeedDispatcher: MockContract
+    let wethPriceFeedDispatcher: MockPriceFeedDispatcher
     let clearingHouseConfig: ClearingHouseConfig
     let collateralManager: CollateralManager
     let pool: UniswapV3Pool
@@ -5,6 +5,7 @@ import { ethers, waffle } from "hardhat"
 import {
     BaseToken,
     MarketRegistry,
+    MockPriceFeedDispatcher,
     TestAccountBalance,
     TestClearingHouse,
     TestERC20,
@@ -32,7 +33,7 @@ describe("Vault getFreeCollateral", () => {
     let pool: UniswapV3Pool
     let baseToken: BaseToken
     let marketRegistry: MarketRegistry
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let usdcDecimals: number
     let fixture: ClearingHouseFixture
 
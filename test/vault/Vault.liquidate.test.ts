@@ -8,6 +8,7 @@ import {
     CollateralManager,
     InsuranceFund,
     MarketRegistry,
+    MockPriceFeedDispatcher,
     OrderBook,
     TestAccountBalance,
     TestClearingHouse,
@@ -44,7 +45,7 @@ describe("Vault liquidate test (assume zero IF fee)", () => {
     let pool: UniswapV3Pool
     let baseToken: BaseToken
     let marketRegistry: MarketRegistry
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let usdcDecimals: number
     let wbtcDecimals: number
     let fixture: ClearingHouseFixture
@@ -2,7 +2,14 @@ import { MockContract } from "@eth-optimism/smock"
 import { expect } from "chai"
 import { formatEther, parseEther, parseUnits } from "ethers/lib/utils"
 import { ethers, waffle } from "hardhat"
-import { BaseToken, TestAccountBalance, TestERC20, TestVault, UniswapV3Pool } from "../../typechain"
+import {
+    BaseToken,
+    MockPriceFeedDispatcher,
+    TestAccountBalance,
+    TestERC20,
+    TestVault,
+    UniswapV3Pool,
+} from "../../typechain"
 import { ClearingHouseFixture, createClearingHouseFixture } from "../clearingHouse/fixtures"
 import { addOrder, q2bExactInput } from "../helper/clearingHouseHelper"
 import { initMarket } from "../helper/marketHelper"
@@ -18,11 +25,11 @@ describe("Vault liquidationGetter test", () => {
     let wbtc: TestERC20
     let mockedWethPriceFeed: MockContract
     let mockedWbtcPriceFeed: MockContract
-    let wethPriceFeedDispatcher: MockContract
-    let wbtcPriceFeedDispatcher: MockContract
+    let wethPriceFeedDispatcher: MockPriceFeedDispatcher
+    let wbtcPriceFeedDispatcher: MockPriceFeedDispatcher
     let pool: UniswapV3Pool
     let baseToken: BaseToken
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let usdcDecimals: number
     let accountBalance: TestAccountBalance
     let fixture: ClearingHouseFixture
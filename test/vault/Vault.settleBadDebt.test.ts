@@ -1,4 +1,3 @@
-import { MockContract } from "@eth-optimism/smock"
 import { expect } from "chai"
 import { parseEther, parseUnits } from "ethers/lib/utils"
 import { ethers, waffle } from "hardhat"
@@ -10,6 +9,7 @@ import {
     Exchange,
     InsuranceFund,
     MarketRegistry,
+    MockPriceFeedDispatcher,
     OrderBook,
     TestAccountBalance,
     TestERC20,
@@ -31,8 +31,8 @@ describe("Vault settleBadDebt (assume zero IF fee)", () => {
     let usdc: TestERC20
     let weth: TestERC20
     let wbtc: TestERC20
-    let wethPriceFeedDispatcher: MockContract
-    let wbtcPriceFeedDispatcher: MockContract
+    let wethPriceFeedDispatcher: MockPriceFeedDispatcher
+    let wbtcPriceFeedDispatcher: MockPriceFeedDispatcher
     let insuranceFund: InsuranceFund
     let accountBalance: TestAccountBalance
     let exchange: Exchange
@@ -41,7 +41,7 @@ describe("Vault settleBadDebt (assume zero IF fee)", () => {
     let pool: UniswapV3Pool
     let baseToken: BaseToken
     let marketRegistry: MarketRegistry
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let usdcDecimals: number
     let wbtcDecimals: number
     let fixture: ClearingHouseFixture
@@ -5,6 +5,7 @@ import { ethers, waffle } from "hardhat"
 import {
     BaseToken,
     InsuranceFund,
+    MockPriceFeedDispatcher,
     TestAccountBalance,
     TestClearingHouse,
     TestERC20,
@@ -35,7 +36,7 @@ describe("Vault test", () => {
     let exchange: TestExchange
     let pool: UniswapV3Pool
     let baseToken: BaseToken
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let usdcDecimals: number
 
     beforeEach(async () => {
@@ -7,6 +7,7 @@ import {
     BaseToken,
     ClearingHouse,
     CollateralManager,
+    MockPriceFeedDispatcher,
     TestAccountBalance,
     TestERC20,
     TestWETH9,
@@ -34,7 +35,7 @@ describe("Vault withdraw test", () => {
     let collateralManager: CollateralManager
     let pool: UniswapV3Pool
     let baseToken: BaseToken
-    let mockedPriceFeedDispatcher: MockContract
+    let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
     let usdcDecimals: number
     let fixture: ClearingHouseFixture
 
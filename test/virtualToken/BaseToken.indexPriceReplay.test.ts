@@ -0,0 +1,192 @@
+import { expect } from "chai"
+import { BigNumber } from "ethers"
+import { parseUnits } from "ethers/lib/utils"
+import { waffle } from "hardhat"
+import { BaseToken, MockAggregatorV3, TestClearingHouse } from "../../typechain"
+import { createClearingHouseFixture } from "../clearingHouse/fixtures"
+import { CACHED_TWAP_INTERVAL } from "../shared/constant"
+import {
+    calculateTwap,
+    generatePricePath,
+    IndexPriceReplay,
+    parsePricePathCsv,
+    PricePoint,
+} from "../shared/indexPriceReplay"
+import { deployMockAggregatorV3 } from "../shared/mock"
+import { getRealTimestamp } from "../shared/time"
+import { baseTokenWithMockAggregatorFixture } from "./fixtures"
+
+describe("BaseToken index price replay", () => {
+    const [admin] = waffle.provider.getWallets()
+    const loadFixture: ReturnType<typeof waffle.createFixtureLoader> = waffle.createFixtureLoader([admin])
+    let baseToken: BaseToken
+    let mockAggregator: MockAggregatorV3
+
+    beforeEach(async () => {
+        const _fixture = await loadFixture(baseTokenWithMockAggregatorFixture)
+        baseToken = _fixture.baseToken
+        mockAggregator = _fixture.mockAggregator
+    })
+
+    // the rounding of the seconds between the round and cacheTwap()
+    function expectCloseTo(actual: BigNumber, expected: BigNumber): void {
+        expect(actual).to.be.closeTo(expected, expected.div(1000))
+    }
+
+    async function getErrorMessage(promise: Promise<unknown>): Promise<string> {
+        try {
+            await promise
+        } catch (error) {
+            return error.message
+        }
+        return ""
+    }
+
+    describe("calculateTwap", () => {
+        // the same rounds as BaseToken.test.ts
+        const rounds = [
+            { timestamp: 0, answer: parseUnits("400", 6) },
+            { timestamp: 15, answer: parseUnits("405", 6) },
+            { timestamp: 30, answer: parseUnits("410", 6) },
+        ]
+
+        it("weights the rounds by their durations", async () => {
+            expect(calculateTwap(rounds, 45, 45)).to.be.eq(parseUnits("405", 6))
+            expect(calculateTwap(rounds, 44, 45)).to.be.eq("405113636")
+            expect(calculateTwap(rounds, 20, 30)).to.be.eq("403750000")
+            expect(calculateTwap(rounds, 15, 20)).to.be.eq("401666666")
+        })
+
+        it("returns the latest answer when the interval is 0 or longer than the rounds", async () => {
+            expect(calculateTwap(rounds, 0, 45)).to.be.eq(parseUnits("410", 6))
+            expect(calculateTwap(rounds, 46, 45)).to.be.eq(parseUnits("410", 6))
+            expect(calculateTwap(rounds, 21, 20)).to.be.eq(parseUnits("405", 6))
+        })
+
+        it("force error, no round before now", async () => {
+            expect(() => calculateTwap(rounds.slice(1), 10, 10)).to.throw("IndexPriceReplay: no round before 10")
+        })
+    })
+
+    describe("price paths", () => {
+        it("parses a CSV with stale gaps", async () => {
+            expect(parsePricePathCsv("time,price\n0,400\n15,405.5\n30,\n\n")).to.be.deep.eq([
+                { time: 0, price: "400" },
+                { time: 15, price: "405.5" },
+                { time: 30 },
+            ])
+        })
+
+        it("generates the same path by the same seed", async () => {
+            const options = { seed: 42, steps: 200, jumpChance: 0.1, staleChance: 0.3 }
+            const path = generatePricePath(options)
+
+            expect(path).to.be.deep.eq(generatePricePath(options))
+            expect(path).to.be.not.deep.eq(generatePricePath({ ...options, seed: 43 }))
+            expect(path.length).to.be.eq(200)
+            expect(path[0]).to.be.deep.eq({ time: 0, price: "100.000000" })
+            expect(path[199].time).to.be.eq(199 * 60)
+            expect(path.filter(({ price }) => price === undefined).length).to.be.gt(0)
+        })
+
+        it("force error, invalid CSV", async () => {
+            expect(() => parsePricePathCsv("timestamp,price\n0,400")).to.throw(
+                'IndexPriceReplay: the header of the CSV is not "time,price"',
+            )
+            expect(() => parsePricePathCsv("time,price\n0,400\n15,abc")).to.throw(
+                'IndexPriceReplay: invalid row 2 "15,abc"',
+            )
+            expect(() => parsePricePathCsv("time,price\n0,400\n0,405")).to.throw(
+                "IndexPriceReplay: the time 0 is not after 0",
+            )
+            expect(() => parsePricePathCsv("time,price\n0,\n15,405")).to.throw(
+                "IndexPriceReplay: no price at the start of the path",
+            )
+        })
+    })
+
+    describe("replay", () => {
+        it("pushes a round for every price and none for the stale gaps", async () => {
+            const path = parsePricePathCsv("time,price\n0,400\n15,405\n30,\n45,410")
+            const replay = new IndexPriceReplay(mockAggregator, path)
+            await replay.replay()
+
+            expect(replay.isDone()).to.be.true
+            expect(replay.rounds.map(({ answer }) => answer)).to.be.deep.eq(
+                ["400", "405", "410"].map(price => parseUnits(price, 6)),
+            )
+            const [roundId, answer, , updatedAt] = await mockAggregator.latestRoundData()
+            expect(roundId).to.be.eq(3)
+            expect(answer).to.be.eq(parseUnits("410", 6))
+            expect(updatedAt).to.be.eq(replay.getTimestamp(path[3]))
+            expect((await mockAggregator.getRoundData(2)).updatedAt).to.be.eq(replay.getTimestamp(path[1]))
+        })
+
+        it("matches the index price of BaseToken to the expected twap", async () => {
+            const path = parsePricePathCsv("time,price\n0,400\n15,405\n30,410\n45,")
+            const replay = new IndexPriceReplay(mockAggregator, path, { baseTokens: [baseToken] })
+
+            await replay.replayUntil(30)
+            expect(replay.rounds.length).to.be.eq(3)
+            expect(replay.isDone()).to.be.false
+            await replay.replay()
+
+            for (const interval of [15, 30, 44]) {
+                expectCloseTo(await baseToken.getIndexPrice(interval), await replay.getExpectedIndexPrice(interval))
+            }
+        })
+
+        it("matches the cached twap of a generated path with jumps and stale gaps", async () => {
+            const path = generatePricePath({
+                seed: 1,
+                startPrice: 3000,
+                steps: 60,
+                volatility: 1.5,
+                jumpChance: 0.05,
+                staleChance: 0.2,
+            })
+            const replay = new IndexPriceReplay(mockAggregator, path, { baseTokens: [baseToken] })
+
+            while (!replay.isDone()) {
+                await replay.replay(10)
+                expectCloseTo(
+                    await baseToken.getIndexPrice(CACHED_TWAP_INTERVAL),
+                    await replay.getExpectedIndexPrice(CACHED_TWAP_INTERVAL),
+                )
+            }
+        })
+
+        it("sets the mocked timestamps in lockstep", async () => {
+            const { clearingHouse } = await loadFixture(createClearingHouseFixture())
+            const aggregator = await deployMockAggregatorV3()
+            const path: PricePoint[] = [{ time: 0, price: "100" }, { time: 60 }, { time: 120, price: "101" }]
+            const replay = new IndexPriceReplay(aggregator, path, {
+                clearingHouse: clearingHouse as TestClearingHouse,
+            })
+
+            for (const point of path) {
+                await replay.replayNext()
+                const timestamp = replay.getTimestamp(point)
+                expect(await (clearingHouse as TestClearingHouse).getBlockTimestamp()).to.be.eq(timestamp)
+                expect(await getRealTimestamp()).to.be.eq(timestamp)
+            }
+            expect((await aggregator.latestRoundData()).updatedAt).to.be.eq(replay.getTimestamp(path[2]))
+        })
+
+        it("force error, the points are too close to send the txs of a step", async () => {
+            const path = parsePricePathCsv("time,price\n0,400\n1,405")
+            const replay = new IndexPriceReplay(mockAggregator, path, { baseTokens: [baseToken] })
+
+            expect(await getErrorMessage(replay.replay())).to.be.eq(
+                "IndexPriceReplay: the point at 1 is too close to the previous one",
+            )
+        })
+
+        it("force error, the path is done", async () => {
+            const replay = new IndexPriceReplay(mockAggregator, parsePricePathCsv("time,price\n0,400"))
+            await replay.replay()
+
+            expect(await getErrorMessage(replay.replayNext())).to.be.eq("IndexPriceReplay: the path is done")
+        })
+    })
+})
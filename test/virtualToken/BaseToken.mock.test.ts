@@ -0,0 +1,170 @@
+import { expect } from "chai"
+import { parseEther, parseUnits } from "ethers/lib/utils"
+import { ethers, waffle } from "hardhat"
+import { BaseToken, MockAggregatorV3, MockPriceFeedDispatcher } from "../../typechain"
+import { ChainlinkPriceFeedV3, PriceFeedDispatcher } from "../../typechain/perp-oracle"
+import { CACHED_TWAP_INTERVAL } from "../shared/constant"
+import {
+    deployMockAggregatorV3,
+    deployMockedContract,
+    deployMockPriceFeedDispatcher,
+    getMockedContract,
+    MockedContract,
+} from "../shared/mock"
+import { getRealTimestamp } from "../shared/time"
+import { mockIndexPrice } from "../shared/utilities"
+
+describe("BaseToken with the mocks of contracts/test", () => {
+    const [admin] = waffle.provider.getWallets()
+
+    async function deployBaseToken(priceFeedDispatcher: string): Promise<BaseToken> {
+        const baseToken = (await (await ethers.getContractFactory("BaseToken")).deploy()) as BaseToken
+        await baseToken.initialize("RandomToken0", "RT0", priceFeedDispatcher)
+        return baseToken
+    }
+
+    describe("MockPriceFeedDispatcher", () => {
+        let mockedPriceFeedDispatcher: MockPriceFeedDispatcher
+        let baseToken: BaseToken
+
+        beforeEach(async () => {
+            mockedPriceFeedDispatcher = await deployMockPriceFeedDispatcher()
+            baseToken = await deployBaseToken(mockedPriceFeedDispatcher.address)
+        })
+
+        it("returns the mocked index price of any interval", async () => {
+            await mockIndexPrice(mockedPriceFeedDispatcher, "100")
+            expect(await baseToken.getIndexPrice(0)).to.be.eq(parseEther("100"))
+            expect(await baseToken.getIndexPrice(CACHED_TWAP_INTERVAL)).to.be.eq(parseEther("100"))
+
+            await mockIndexPrice(mockedPriceFeedDispatcher, "101.5")
+            expect(await baseToken.getIndexPrice(0)).to.be.eq(parseEther("101.5"))
+        })
+
+        it("formats the price of the decimals less than 18", async () => {
+            const mocked6DecimalsPriceFeedDispatcher = await deployMockPriceFeedDispatcher(6)
+            await mocked6DecimalsPriceFeedDispatcher.setPrice(parseUnits("100", 6))
+            const baseToken6Decimals = await deployBaseToken(mocked6DecimalsPriceFeedDispatcher.address)
+
+            expect(await baseToken6Decimals.getIndexPrice(0)).to.be.eq(parseEther("100"))
+        })
+
+        it("records the calls of cacheTwap() only when enabled", async () => {
+            const mocked = await getMockedContract(mockedPriceFeedDispatcher)
+            await baseToken.cacheTwap(CACHED_TWAP_INTERVAL)
+            expect(await mocked.smocked.dispatchPrice.isCalled()).to.be.false
+
+            await mockedPriceFeedDispatcher.setRecordingCalls(true)
+            await baseToken.cacheTwap(CACHED_TWAP_INTERVAL)
+            await baseToken.cacheTwap(0)
+
+            const calls = await mocked.smocked.dispatchPrice.getCalls()
+            expect(calls.map(({ sender }) => sender)).to.be.deep.eq([baseToken.address, baseToken.address])
+            expect(calls.map(({ args }) => args.interval.toNumber())).to.be.deep.eq([CACHED_TWAP_INTERVAL, 0])
+            expect(await mocked.smocked.dispatchPrice.isCalledWith(CACHED_TWAP_INTERVAL)).to.be.true
+            expect(await mocked.smocked.dispatchPrice.isCalledWith(1)).to.be.false
+
+            await mocked.clearCalls()
+            expect(await mocked.getCallCount()).to.be.eq(0)
+
+            await mockedPriceFeedDispatcher.setRecordingCalls(false)
+            await baseToken.cacheTwap(CACHED_TWAP_INTERVAL)
+            expect(await mocked.getCallCount()).to.be.eq(0)
+        })
+
+        it("force error, reverts with the mocked reason", async () => {
+            await mockedPriceFeedDispatcher.setRevertReason("CPF_SD")
+            await expect(baseToken.getIndexPrice(0)).to.be.revertedWith("CPF_SD")
+
+            await mockedPriceFeedDispatcher.setRevertReason("")
+            await mockIndexPrice(mockedPriceFeedDispatcher, "100")
+            expect(await baseToken.getIndexPrice(0)).to.be.eq(parseEther("100"))
+        })
+    })
+
+    describe("MockCallRecorder", () => {
+        let mocked: MockedContract<PriceFeedDispatcher>
+        let baseToken: BaseToken
+
+        beforeEach(async () => {
+            mocked = await deployMockedContract<PriceFeedDispatcher>("PriceFeedDispatcher")
+            await mocked.smocked.decimals.returns(18)
+            await mocked.smocked.getDispatchedPrice.returns(parseEther("100"))
+            baseToken = await deployBaseToken(mocked.address)
+        })
+
+        it("returns the mocked values, the ones for the args first", async () => {
+            await mocked.smocked.getDispatchedPrice.returnsFor([CACHED_TWAP_INTERVAL], parseEther("99"))
+            expect(await baseToken.getIndexPrice(0)).to.be.eq(parseEther("100"))
+            expect(await baseToken.getIndexPrice(CACHED_TWAP_INTERVAL)).to.be.eq(parseEther("99"))
+
+            await mocked.smocked.getDispatchedPrice.resetFor([CACHED_TWAP_INTERVAL])
+            expect(await baseToken.getIndexPrice(CACHED_TWAP_INTERVAL)).to.be.eq(parseEther("100"))
+        })
+
+        it("records the calls except the ones in a static context", async () => {
+            await baseToken.getIndexPrice(0)
+            await baseToken.cacheTwap(CACHED_TWAP_INTERVAL)
+
+            expect(await mocked.smocked.getDispatchedPrice.isCalled()).to.be.false
+            expect(await mocked.smocked.dispatchPrice.getCallCount()).to.be.eq(1)
+            expect(await mocked.smocked.dispatchPrice.isCalledWith(CACHED_TWAP_INTERVAL)).to.be.true
+            expect((await mocked.smocked.dispatchPrice.getCalls())[0].sender).to.be.eq(baseToken.address)
+        })
+
+        it("force error, reverts with the mocked reason", async () => {
+            await mocked.smocked.getDispatchedPrice.reverts("CPF_SD")
+            await expect(baseToken.getIndexPrice(0)).to.be.revertedWith("CPF_SD")
+
+            await mocked.smocked.getDispatchedPrice.revertsFor([0])
+            await expect(baseToken.getIndexPrice(0)).to.be.reverted
+
+            await mocked.smocked.getDispatchedPrice.reset()
+            await expect(baseToken.getIndexPrice(CACHED_TWAP_INTERVAL)).to.be.reverted
+        })
+
+        it("force error, recordCall() is only for the mock itself", async () => {
+            await expect(mocked.recorder.connect(admin).recordCall(admin.address, "0x")).to.be.revertedWith("MCR_OS")
+        })
+    })
+
+    describe("MockAggregatorV3", () => {
+        let mockedAggregator: MockAggregatorV3
+        let chainlinkPriceFeedV3: ChainlinkPriceFeedV3
+
+        beforeEach(async () => {
+            mockedAggregator = await deployMockAggregatorV3(6)
+            chainlinkPriceFeedV3 = (await (
+                await ethers.getContractFactory("ChainlinkPriceFeedV3")
+            ).deploy(
+                mockedAggregator.address,
+                40 * 60, // 40 mins
+                CACHED_TWAP_INTERVAL,
+            )) as ChainlinkPriceFeedV3
+        })
+
+        it("returns the pushed rounds", async () => {
+            const timestamp = await getRealTimestamp()
+            await mockedAggregator.pushRound(parseUnits("400", 6), timestamp - 30)
+            await mockedAggregator.pushRound(parseUnits("405", 6), timestamp)
+
+            const [roundId, answer, startedAt, updatedAt, answeredInRound] = await mockedAggregator.latestRoundData()
+            expect(roundId).to.be.eq(2)
+            expect(answer).to.be.eq(parseUnits("405", 6))
+            expect(startedAt).to.be.eq(timestamp)
+            expect(updatedAt).to.be.eq(timestamp)
+            expect(answeredInRound).to.be.eq(2)
+            expect((await mockedAggregator.getRoundData(1)).answer).to.be.eq(parseUnits("400", 6))
+        })
+
+        it("is read by ChainlinkPriceFeedV3", async () => {
+            expect(await chainlinkPriceFeedV3.decimals()).to.be.eq(6)
+        })
+
+        it("force error, no data present", async () => {
+            await expect(mockedAggregator.latestRoundData()).to.be.revertedWith("No data present")
+            await mockedAggregator.pushRound(parseUnits("400", 6), await getRealTimestamp())
+            await expect(mockedAggregator.getRoundData(2)).to.be.revertedWith("No data present")
+        })
+    })
+})
@@ -1,8 +1,9 @@
 import { MockContract, smockit } from "@eth-optimism/smock"
 import { ethers } from "hardhat"
-import { BaseToken } from "../../typechain"
+import { BaseToken, MockAggregatorV3 } from "../../typechain"
 import { ChainlinkPriceFeedV3, PriceFeedDispatcher } from "../../typechain/perp-oracle"
 import { CACHED_TWAP_INTERVAL } from "../shared/constant"
+import { deployMockAggregatorV3 } from "../shared/mock"
 
 interface BaseTokenFixture {
     baseToken: BaseToken
@@ -11,6 +12,13 @@ interface BaseTokenFixture {
     mockedAggregator: MockContract
 }
 
+interface BaseTokenWithMockAggregatorFixture {
+    baseToken: BaseToken
+    chainlinkPriceFeedV3: ChainlinkPriceFeedV3
+    priceFeedDispatcher: PriceFeedDispatcher
+    mockAggregator: MockAggregatorV3
+}
+
 export async function baseTokenFixture(): Promise<BaseTokenFixture> {
     const aggregatorFactory = await ethers.getContractFactory("TestAggregatorV3")
     const aggregator = await aggregatorFactory.deploy()
@@ -38,3 +46,26 @@ export async function baseTokenFixture(): Promise<BaseTokenFixture> {
 
     return { baseToken, chainlinkPriceFeedV3, priceFeedDispatcher, mockedAggregator }
 }
+
+// the same as baseTokenFixture() with the rounds pushed to MockAggregatorV3, see indexPriceReplay.ts
+export async function baseTokenWithMockAggregatorFixture(): Promise<BaseTokenWithMockAggregatorFixture> {
+    const mockAggregator = await deployMockAggregatorV3(6)
+
+    const chainlinkPriceFeedV3Factory = await ethers.getContractFactory("ChainlinkPriceFeedV3")
+    const chainlinkPriceFeedV3 = (await chainlinkPriceFeedV3Factory.deploy(
+        mockAggregator.address,
+        40 * 60, // 40 mins
+        CACHED_TWAP_INTERVAL,
+    )) as ChainlinkPriceFeedV3
+
+    const priceFeedDispatcherFactory = await ethers.getContractFactory("PriceFeedDispatcher")
+    const priceFeedDispatcher = (await priceFeedDispatcherFactory.deploy(
+        chainlinkPriceFeedV3.address,
+    )) as PriceFeedDispatcher
+
+    const baseTokenFactory = await ethers.getContractFactory("BaseToken")
+    const baseToken = (await baseTokenFactory.deploy()) as BaseToken
+    await baseToken.initialize("RandomToken0", "RT0", priceFeedDispatcher.address)
+
+    return { baseToken, chainlinkPriceFeedV3, priceFeedDispatcher, mockAggregator }
+}